@@ -0,0 +1,104 @@
+import { app } from 'electron';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { LeoOutputEvent, LeoRunLog, LeoRunSummary } from './preload';
+
+const MAX_RUNS_PER_PROJECT = 20;
+
+/**
+ * Persists the output of each toolchain run so earlier builds can be reviewed.
+ * Logs live under userData/build-logs/<projectId>/<runId>.json.
+ */
+export class BuildLogStore {
+  private readonly baseDir: string;
+  private active: Map<string, LeoRunLog> = new Map();
+
+  constructor() {
+    this.baseDir = path.join(app.getPath('userData'), 'build-logs');
+  }
+
+  startRun(summary: Omit<LeoRunSummary, 'finishedAt' | 'success' | 'canceled'>): void {
+    this.active.set(summary.runId, {
+      summary: { ...summary, finishedAt: null, success: false, canceled: false },
+      lines: [],
+    });
+  }
+
+  appendLine(event: LeoOutputEvent): void {
+    this.active.get(event.runId)?.lines.push({ stream: event.stream, line: event.line });
+  }
+
+  async finishRun(runId: string, outcome: { success: boolean; canceled: boolean; exitCode: number | null }): Promise<void> {
+    const log = this.active.get(runId);
+    if (!log) return;
+    this.active.delete(runId);
+
+    log.summary = {
+      ...log.summary,
+      ...outcome,
+      finishedAt: new Date().toISOString(),
+    };
+
+    try {
+      const projectDir = this.getProjectDir(log.summary.projectId);
+      await fs.mkdir(projectDir, { recursive: true });
+      await fs.writeFile(path.join(projectDir, `${this.safeName(runId)}.json`), JSON.stringify(log), 'utf8');
+      await this.pruneRuns(log.summary.projectId);
+    } catch (error) {
+      console.error('Failed to persist build log:', error);
+    }
+  }
+
+  async listRuns(projectId: string): Promise<LeoRunSummary[]> {
+    const logs = await this.readAll(projectId);
+    return logs
+      .map(log => log.summary)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  async getRun(projectId: string, runId: string): Promise<LeoRunLog | null> {
+    try {
+      const file = path.join(this.getProjectDir(projectId), `${this.safeName(runId)}.json`);
+      return JSON.parse(await fs.readFile(file, 'utf8')) as LeoRunLog;
+    } catch {
+      return null;
+    }
+  }
+
+  // Private helper methods
+
+  private async readAll(projectId: string): Promise<LeoRunLog[]> {
+    const projectDir = this.getProjectDir(projectId);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(projectDir);
+    } catch {
+      return [];
+    }
+
+    const logs: LeoRunLog[] = [];
+    for (const entry of entries.filter(name => name.endsWith('.json'))) {
+      try {
+        logs.push(JSON.parse(await fs.readFile(path.join(projectDir, entry), 'utf8')));
+      } catch (error) {
+        console.warn(`Skipping unreadable build log ${entry}:`, error);
+      }
+    }
+    return logs;
+  }
+
+  private async pruneRuns(projectId: string): Promise<void> {
+    const runs = await this.listRuns(projectId);
+    for (const run of runs.slice(MAX_RUNS_PER_PROJECT)) {
+      await fs.rm(path.join(this.getProjectDir(projectId), `${this.safeName(run.runId)}.json`), { force: true });
+    }
+  }
+
+  private getProjectDir(projectId: string): string {
+    return path.join(this.baseDir, this.safeName(projectId));
+  }
+
+  private safeName(value: string): string {
+    return value.replace(/[^a-zA-Z0-9_-]/g, '_');
+  }
+}
\ No newline at end of file
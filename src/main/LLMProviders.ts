@@ -0,0 +1,376 @@
+import type { LLMChatMessage, LLMChatRequest, LLMProviderId, LLMSettings } from './preload';
+
+const REQUEST_TIMEOUT = 2 * 60 * 1000; // 2 minutes without receiving any data
+const MOCK_TOKEN_DELAY = 15;
+
+export interface ChatOptions {
+  signal?: AbortSignal;
+  // When set the provider streams and reports each piece of text as it arrives
+  onToken?: (delta: string) => void;
+}
+
+/**
+ * A chat completion backend. Providers run in the main process so that
+ * credentials stay out of the renderer.
+ */
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly model: string;
+  chat(request: LLMChatRequest, options?: ChatOptions): Promise<string>;
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (OpenAI, Azure proxies, OpenRouter, vLLM...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: LLMProviderId = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly apiKey: string | null,
+    private readonly defaultTemperature: number
+  ) {}
+
+  async chat(request: LLMChatRequest, options: ChatOptions = {}): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error('No API key configured. Add one in Settings.');
+    }
+
+    const body = {
+      model: this.model,
+      messages: request.messages,
+      temperature: request.temperature ?? this.defaultTemperature,
+      max_tokens: request.maxTokens,
+      stream: !!options.onToken,
+    };
+    const headers = { Authorization: `Bearer ${this.apiKey}` };
+
+    if (options.onToken) {
+      return streamServerSentEvents(`${this.baseUrl}/chat/completions`, body, headers, options);
+    }
+
+    const data = await postJson(`${this.baseUrl}/chat/completions`, body, headers, options.signal);
+    const content = pick(data, 'choices', 0, 'message', 'content');
+    if (typeof content !== 'string') {
+      throw new Error('Provider returned no message content');
+    }
+    return content;
+  }
+}
+
+/**
+ * A model served on this machine by Ollama or the llama.cpp server
+ */
+export class LocalLLMProvider implements LLMProvider {
+  readonly id: LLMProviderId = 'local';
+
+  constructor(
+    private readonly api: LLMSettings['local']['api'],
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly defaultTemperature: number
+  ) {}
+
+  async chat(request: LLMChatRequest, options: ChatOptions = {}): Promise<string> {
+    const temperature = request.temperature ?? this.defaultTemperature;
+    const stream = !!options.onToken;
+
+    if (this.api === 'ollama') {
+      const body = {
+        model: this.model,
+        messages: request.messages,
+        stream,
+        options: { temperature, num_predict: request.maxTokens },
+      };
+
+      if (stream) {
+        return streamJsonLines(`${this.baseUrl}/api/chat`, body, options);
+      }
+
+      const data = await postJson(`${this.baseUrl}/api/chat`, body, {}, options.signal);
+      const content = pick(data, 'message', 'content');
+      if (typeof content !== 'string') {
+        throw new Error('Ollama returned no message content');
+      }
+      return content;
+    }
+
+    // llama.cpp's server exposes an OpenAI-style endpoint without authentication
+    const body = {
+      model: this.model,
+      messages: request.messages,
+      temperature,
+      max_tokens: request.maxTokens,
+      stream,
+    };
+
+    if (stream) {
+      return streamServerSentEvents(`${this.baseUrl}/v1/chat/completions`, body, {}, options);
+    }
+
+    const data = await postJson(`${this.baseUrl}/v1/chat/completions`, body, {}, options.signal);
+
+    const content = pick(data, 'choices', 0, 'message', 'content');
+    if (typeof content !== 'string') {
+      throw new Error('llama.cpp server returned no message content');
+    }
+    return content;
+  }
+}
+
+/**
+ * Offline provider with deterministic output, for tests and working without a model
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly id: LLMProviderId = 'mock';
+  readonly model = 'mock';
+
+  async chat(request: LLMChatRequest, options: ChatOptions = {}): Promise<string> {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const question = lastUserMessage ? summarize(lastUserMessage) : '(empty message)';
+
+    const content = [
+      'This is the offline mock provider, so no model was called.',
+      '',
+      `You asked: "${question}"`,
+      '',
+      'Choose an OpenAI-compatible or local provider in Settings to get real answers.',
+    ].join('\n');
+
+    if (!options.onToken) {
+      return content;
+    }
+
+    // Emit word by word so the streaming UI can be exercised offline
+    let emitted = '';
+    for (const piece of content.match(/\S+\s*/g) || []) {
+      if (options.signal?.aborted) {
+        throw new Error('Request aborted');
+      }
+      await new Promise(resolve => setTimeout(resolve, MOCK_TOKEN_DELAY));
+      emitted += piece;
+      options.onToken(piece);
+    }
+    return emitted;
+  }
+}
+
+export function createProvider(settings: LLMSettings, apiKey: string | null): LLMProvider {
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(settings.openai.baseUrl, settings.openai.model, apiKey, settings.temperature);
+    case 'local':
+      return new LocalLLMProvider(settings.local.api, settings.local.baseUrl, settings.local.model, settings.temperature);
+    default:
+      return new MockLLMProvider();
+  }
+}
+
+// Private helpers
+
+function summarize(message: LLMChatMessage): string {
+  const singleLine = message.content.replace(/\s+/g, ' ').trim();
+  return singleLine.length > 200 ? `${singleLine.slice(0, 200)}…` : singleLine;
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<unknown> {
+  const request = await openRequest(url, body, headers, signal);
+  let text: string;
+  try {
+    text = await request.response.text();
+  } catch (error) {
+    throw request.describeError(error);
+  } finally {
+    request.close();
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('Provider returned a response that is not JSON');
+  }
+}
+
+/**
+ * OpenAI-style streaming: `data: {...}` lines terminated by `data: [DONE]`
+ */
+async function streamServerSentEvents(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  options: ChatOptions
+): Promise<string> {
+  let content = '';
+  await readLines(url, body, headers, options.signal, line => {
+    if (!line.startsWith('data:')) return true;
+    const payload = line.slice(5).trim();
+    if (payload === '[DONE]') return false;
+
+    const delta = pick(parseJsonLine(payload), 'choices', 0, 'delta', 'content');
+    if (typeof delta === 'string' && delta.length > 0) {
+      content += delta;
+      options.onToken?.(delta);
+    }
+    return true;
+  });
+  return content;
+}
+
+/**
+ * Ollama streaming: one JSON object per line until `"done": true`
+ */
+async function streamJsonLines(url: string, body: unknown, options: ChatOptions): Promise<string> {
+  let content = '';
+  await readLines(url, body, {}, options.signal, line => {
+    const data = parseJsonLine(line);
+    const error = pick(data, 'error');
+    if (typeof error === 'string') {
+      throw new Error(error);
+    }
+
+    const delta = pick(data, 'message', 'content');
+    if (typeof delta === 'string' && delta.length > 0) {
+      content += delta;
+      options.onToken?.(delta);
+    }
+    return !pick(data, 'done');
+  });
+  return content;
+}
+
+/**
+ * Feed the response body to `onLine` line by line until it returns false or the body ends
+ */
+async function readLines(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal: AbortSignal | undefined,
+  onLine: (line: string) => boolean
+): Promise<void> {
+  const request = await openRequest(url, body, headers, signal);
+  const stream = request.response.body;
+  if (!stream) {
+    request.close();
+    throw new Error('Provider returned an empty response');
+  }
+
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      request.touch();
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim() && !onLine(line.trim())) return;
+      }
+    }
+
+    if (buffer.trim()) {
+      onLine(buffer.trim());
+    }
+  } catch (error) {
+    throw request.describeError(error);
+  } finally {
+    reader.cancel().catch(() => undefined);
+    request.close();
+  }
+}
+
+/**
+ * Start a POST request that is aborted by the caller's signal or after
+ * REQUEST_TIMEOUT of inactivity. Non-2xx responses become errors.
+ */
+async function openRequest(url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, REQUEST_TIMEOUT);
+  };
+  const onAbort = () => controller.abort();
+  const close = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  };
+  const describeError = (error: unknown): Error => {
+    if (timedOut) return new Error(`Request to ${url} timed out`);
+    if (signal?.aborted) return new Error('Request aborted');
+    return error instanceof Error ? error : new Error('Unknown error');
+  };
+
+  if (signal?.aborted) {
+    throw new Error('Request aborted');
+  }
+  signal?.addEventListener('abort', onAbort);
+  touch();
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    close();
+    if (timedOut || signal?.aborted) throw describeError(error);
+    throw new Error(`Could not reach ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    close();
+    throw new Error(`Provider returned HTTP ${response.status}: ${extractErrorMessage(text) || response.statusText}`);
+  }
+
+  return { response, touch, close, describeError };
+}
+
+function parseJsonLine(line: string): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return null;
+  }
+}
+
+function extractErrorMessage(body: string): string {
+  try {
+    const data: unknown = JSON.parse(body);
+    const error = pick(data, 'error');
+    if (typeof error === 'string') return error;
+    const message = pick(error, 'message');
+    if (typeof message === 'string') return message;
+  } catch {
+    // Not JSON - fall through to the raw body
+  }
+  return body.slice(0, 200);
+}
+
+/**
+ * Walk a parsed JSON value by keys and indexes, yielding undefined when a step is missing
+ */
+function pick(value: unknown, ...keys: Array<string | number>): unknown {
+  let current = value;
+  for (const key of keys) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return current;
+}
\ No newline at end of file
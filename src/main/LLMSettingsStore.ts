@@ -0,0 +1,192 @@
+import { app, safeStorage } from 'electron';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { LLMProviderId, LLMSettings, LLMSettingsUpdate, LocalLLMApi } from './preload';
+
+const PROVIDERS: LLMProviderId[] = ['openai', 'local', 'mock'];
+const LOCAL_APIS: LocalLLMApi[] = ['ollama', 'llamacpp'];
+const MIN_CONTEXT_BUDGET = 1000;
+const MAX_CONTEXT_BUDGET = 128000;
+
+interface StoredSettings {
+  provider: LLMProviderId;
+  temperature: number;
+  contextTokenBudget: number;
+  openai: {
+    baseUrl: string;
+    model: string;
+    encryptedApiKey?: string; // base64 of safeStorage.encryptString
+  };
+  local: LLMSettings['local'];
+}
+
+const DEFAULT_SETTINGS: StoredSettings = {
+  provider: 'mock',
+  temperature: 0.2,
+  contextTokenBudget: 8000,
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'gpt-4o-mini',
+  },
+  local: {
+    api: 'ollama',
+    baseUrl: 'http://localhost:11434',
+    model: 'llama3.1',
+  },
+};
+
+/**
+ * Persists LLM provider settings under userData/llm-settings.json.
+ *
+ * The API key is encrypted with the OS keychain through safeStorage. When no
+ * keychain is available the key is kept in memory for the session only and is
+ * never written to disk in plain text.
+ */
+export class LLMSettingsStore {
+  private readonly settingsFile: string;
+  private settings: StoredSettings | null = null;
+  private sessionApiKey: string | null = null;
+
+  constructor() {
+    this.settingsFile = path.join(app.getPath('userData'), 'llm-settings.json');
+  }
+
+  async getSettings(): Promise<LLMSettings> {
+    return this.toPublic(await this.load());
+  }
+
+  async updateSettings(update: LLMSettingsUpdate): Promise<LLMSettings> {
+    const current = await this.load();
+    const next: StoredSettings = {
+      provider: update.provider && PROVIDERS.includes(update.provider) ? update.provider : current.provider,
+      temperature: this.clampTemperature(update.temperature ?? current.temperature),
+      contextTokenBudget: this.clampBudget(update.contextTokenBudget ?? current.contextTokenBudget),
+      openai: {
+        ...current.openai,
+        baseUrl: this.cleanUrl(update.openai?.baseUrl) ?? current.openai.baseUrl,
+        model: update.openai?.model?.trim() || current.openai.model,
+      },
+      local: {
+        api: update.local?.api && LOCAL_APIS.includes(update.local.api) ? update.local.api : current.local.api,
+        baseUrl: this.cleanUrl(update.local?.baseUrl) ?? current.local.baseUrl,
+        model: update.local?.model?.trim() || current.local.model,
+      },
+    };
+
+    if (update.openai?.apiKey !== undefined) {
+      this.applyApiKey(next, update.openai.apiKey);
+    } else if (this.originOf(next.openai.baseUrl) !== this.originOf(current.openai.baseUrl)) {
+      // A key is only ever sent to the server it was entered for
+      this.applyApiKey(next, null);
+    }
+
+    this.settings = next;
+    await this.persist(next);
+    return this.toPublic(next);
+  }
+
+  /**
+   * Decrypt the stored API key for use by a provider in the main process
+   */
+  async getApiKey(): Promise<string | null> {
+    const settings = await this.load();
+    if (!settings.openai.encryptedApiKey) {
+      return this.sessionApiKey;
+    }
+
+    try {
+      return safeStorage.decryptString(Buffer.from(settings.openai.encryptedApiKey, 'base64'));
+    } catch (error) {
+      console.error('Failed to decrypt stored API key:', error);
+      return null;
+    }
+  }
+
+  // Private helper methods
+
+  private applyApiKey(settings: StoredSettings, apiKey: string | null): void {
+    const trimmed = apiKey?.trim() || null;
+    delete settings.openai.encryptedApiKey;
+    this.sessionApiKey = null;
+
+    if (!trimmed) return;
+
+    if (safeStorage.isEncryptionAvailable()) {
+      settings.openai.encryptedApiKey = safeStorage.encryptString(trimmed).toString('base64');
+    } else {
+      this.sessionApiKey = trimmed;
+    }
+  }
+
+  private toPublic(settings: StoredSettings): LLMSettings {
+    return {
+      provider: settings.provider,
+      temperature: settings.temperature,
+      contextTokenBudget: settings.contextTokenBudget,
+      openai: {
+        baseUrl: settings.openai.baseUrl,
+        model: settings.openai.model,
+        hasApiKey: !!settings.openai.encryptedApiKey || !!this.sessionApiKey,
+      },
+      local: { ...settings.local },
+      secureStorageAvailable: safeStorage.isEncryptionAvailable(),
+    };
+  }
+
+  private async load(): Promise<StoredSettings> {
+    if (this.settings) return this.settings;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.settingsFile, 'utf8'));
+      this.settings = {
+        provider: PROVIDERS.includes(data.provider) ? data.provider : DEFAULT_SETTINGS.provider,
+        temperature: this.clampTemperature(Number(data.temperature ?? DEFAULT_SETTINGS.temperature)),
+        contextTokenBudget: this.clampBudget(Number(data.contextTokenBudget ?? DEFAULT_SETTINGS.contextTokenBudget)),
+        openai: { ...DEFAULT_SETTINGS.openai, ...data.openai },
+        local: { ...DEFAULT_SETTINGS.local, ...data.local },
+      };
+    } catch {
+      // No settings yet - first launch
+      this.settings = {
+        ...DEFAULT_SETTINGS,
+        openai: { ...DEFAULT_SETTINGS.openai },
+        local: { ...DEFAULT_SETTINGS.local },
+      };
+    }
+    return this.settings;
+  }
+
+  private async persist(settings: StoredSettings): Promise<void> {
+    await fs.mkdir(path.dirname(this.settingsFile), { recursive: true });
+    const tempFile = `${this.settingsFile}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(settings, null, 2), 'utf8');
+    await fs.rename(tempFile, this.settingsFile);
+  }
+
+  private cleanUrl(value: string | undefined): string | undefined {
+    if (value === undefined) return undefined;
+    const trimmed = value.trim().replace(/\/+$/, '');
+    if (!/^https?:\/\//i.test(trimmed)) {
+      throw new Error(`Invalid provider URL: ${value}`);
+    }
+    return trimmed;
+  }
+
+  private originOf(url: string): string {
+    try {
+      return new URL(url).origin;
+    } catch {
+      return url;
+    }
+  }
+
+  private clampBudget(value: number): number {
+    if (!Number.isFinite(value)) return DEFAULT_SETTINGS.contextTokenBudget;
+    return Math.round(Math.min(MAX_CONTEXT_BUDGET, Math.max(MIN_CONTEXT_BUDGET, value)));
+  }
+
+  private clampTemperature(value: number): number {
+    if (!Number.isFinite(value)) return DEFAULT_SETTINGS.temperature;
+    return Math.min(2, Math.max(0, value));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LeoToolchain } from './LeoToolchain';
+import type { BuildLogStore } from './BuildLogStore';
+import type { WorkspaceFileSystem } from './WorkspaceFileSystem';
+
+// Only the Electron app paths are used, and only when a run starts
+vi.mock('electron', () => ({ app: { getPath: () => '/tmp' } }));
+
+const toolchain = new LeoToolchain({} as WorkspaceFileSystem, {} as BuildLogStore);
+const PROJECT_DIR = '/tmp/leoforge-builds/project_1';
+
+describe('LeoToolchain.parseDiagnostics', () => {
+  it('reads errors and warnings with their locations', () => {
+    const output = `       Leo     Compiling 'token.aleo'
+Warning [WPAR0370001]: Unused variable \`fee\`
+    --> src/main.leo:4:13
+     |
+   4 |         let fee: u64 = 1u64;
+     |             ^^^
+Error [ETYC0372005]: Unknown variable \`b\`
+    --> ${PROJECT_DIR}/src/utils/math.leo:9:16
+     |
+   9 |         return b;
+     |                ^
+Error [ETYC0372003]: Expected type \`u64\` but type \`u8\` was found`;
+
+    expect(toolchain.parseDiagnostics(output, PROJECT_DIR)).toEqual({
+      errors: [
+        { file: 'src/utils/math.leo', line: 9, column: 16, message: 'Unknown variable `b`', code: 'ETYC0372005' },
+        { file: '', line: 0, column: 0, message: 'Expected type `u64` but type `u8` was found', code: 'ETYC0372003' }
+      ],
+      warnings: [
+        { file: 'src/main.leo', line: 4, column: 13, message: 'Unused variable `fee`', code: 'WPAR0370001' }
+      ]
+    });
+  });
+
+  it('does not take the location of the next diagnostic', () => {
+    const output = 'Error [EPAR0370005]: expected ; -- found }\nError [EPAR0370009]: unexpected string\n    --> src/main.leo:2:1';
+    const { errors } = toolchain.parseDiagnostics(output, PROJECT_DIR);
+
+    expect(errors.map(error => [error.code, error.file, error.line])).toEqual([
+      ['EPAR0370005', '', 0],
+      ['EPAR0370009', 'src/main.leo', 2]
+    ]);
+  });
+
+  it('finds nothing in a clean build', () => {
+    expect(toolchain.parseDiagnostics("       Leo ✅ Compiled 'token.aleo' into Aleo instructions", PROJECT_DIR))
+      .toEqual({ errors: [], warnings: [] });
+  });
+});
+
+describe('LeoToolchain.parseTestOutput', () => {
+  it('reads passed and failed tests with their timings', () => {
+    const output = `       Leo     Running 3 tests
+PASSED: test_token.aleo/test_mint (12ms)
+FAILED: test_token.aleo/test_burn | assertion failed: left: 1u64, right: 2u64 (3.5ms)
+FAILED: test_token.aleo/test_transfer`;
+
+    expect(toolchain.parseTestOutput(output)).toEqual([
+      { name: 'test_token.aleo/test_mint', passed: true, durationMs: 12 },
+      {
+        name: 'test_token.aleo/test_burn',
+        passed: false,
+        durationMs: 3.5,
+        message: 'assertion failed: left: 1u64, right: 2u64',
+        expected: '2u64',
+        actual: '1u64'
+      },
+      { name: 'test_token.aleo/test_transfer', passed: false, durationMs: undefined, message: 'Test failed', expected: undefined, actual: undefined }
+    ]);
+  });
+
+  it('reads cargo-style result lines', () => {
+    const output = `running 2 tests
+test tests::mint_adds_balance ... ok (1s)
+test tests::burn_checks_owner ... FAILED expected 0u64 but got 5u64
+
+test result: FAILED. 1 passed; 1 failed`;
+
+    expect(toolchain.parseTestOutput(output)).toEqual([
+      { name: 'tests::mint_adds_balance', passed: true, durationMs: 1000 },
+      {
+        name: 'tests::burn_checks_owner',
+        passed: false,
+        durationMs: undefined,
+        message: 'expected 0u64 but got 5u64',
+        expected: '0u64',
+        actual: '5u64'
+      }
+    ]);
+  });
+
+  it('keeps the last result of a test reported twice', () => {
+    expect(toolchain.parseTestOutput('FAILED: t.aleo/flaky | timeout\nPASSED: t.aleo/flaky')).toEqual([
+      { name: 't.aleo/flaky', passed: true, durationMs: undefined }
+    ]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,521 @@
+import { app } from 'electron';
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkspaceFileSystem } from './WorkspaceFileSystem';
+import { BuildLogStore } from './BuildLogStore';
+import type {
+  LeoBuildRequest,
+  LeoBuildResult,
+  LeoOutputEvent,
+  LeoRunKind,
+  LeoTestCase,
+  LeoTestRequest,
+  LeoTestRunResult,
+  ToolchainDiagnostic,
+  ToolchainInfo,
+} from './preload';
+
+interface CommandOutput {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  canceled?: boolean;
+}
+
+type OutputListener = (event: LeoOutputEvent) => void;
+
+interface ExecutionFailure {
+  code: 'TOOLCHAIN_MISSING' | 'BUILD_FAILED' | 'TEST_FAILED';
+  message: string;
+}
+
+type ExecutionResult =
+  | { runId: string; startTime: number; failure: ExecutionFailure }
+  | { runId: string; startTime: number; failure?: undefined; projectDir: string; output: CommandOutput; combined: string };
+
+const BUILD_TIMEOUT_MS = 5 * 60 * 1000;
+const TEST_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Leo prints diagnostics as `Error [ECODE]: message` followed by `--> file:line:column`
+const DIAGNOSTIC_HEADER = /^(Error|Warning)\s*\[([A-Z0-9]+)\]:\s*(.*)$/;
+const DIAGNOSTIC_LOCATION = /^\s*-->\s*(.+?):(\d+):(\d+)\s*$/;
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPES = /\u001b\[[0-9;]*[A-Za-z]/g;
+
+/**
+ * Runs the locally installed `leo` CLI against a project written to disk
+ */
+export class LeoToolchain {
+  private toolchainInfo: ToolchainInfo | null = null;
+  private running: Map<string, ChildProcessWithoutNullStreams> = new Map();
+  private canceledRuns: Set<string> = new Set();
+  private activeProjects: Set<string> = new Set();
+
+  constructor(private workspaceFs: WorkspaceFileSystem, private logStore: BuildLogStore) {}
+
+  /**
+   * Locate the `leo` binary and report its version
+   */
+  async detect(forceRefresh: boolean = false): Promise<ToolchainInfo> {
+    if (this.toolchainInfo && !forceRefresh) {
+      return this.toolchainInfo;
+    }
+
+    try {
+      const output = await this.runCommand(['--version'], os.homedir(), 10000);
+      const version = (output.stdout || output.stderr).trim();
+      this.toolchainInfo = output.exitCode === 0
+        ? { available: true, binary: this.getBinary(), version }
+        : { available: false, binary: this.getBinary(), error: version || `leo exited with code ${output.exitCode}` };
+    } catch (error) {
+      this.toolchainInfo = {
+        available: false,
+        binary: this.getBinary(),
+        error: this.isMissingBinary(error)
+          ? `Leo toolchain not found (looked for "${this.getBinary()}" on PATH)`
+          : error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    return this.toolchainInfo;
+  }
+
+  async build(request: LeoBuildRequest, onOutput?: OutputListener): Promise<LeoBuildResult> {
+    const run = await this.execute('build', request, ['build'], onOutput);
+    const base = {
+      timestamp: new Date(),
+      buildTime: Date.now() - run.startTime,
+      runId: run.runId,
+    };
+
+    if (run.failure) {
+      return {
+        ...base,
+        success: false,
+        output: run.failure.message,
+        errors: [{ file: '', line: 0, column: 0, message: run.failure.message, code: run.failure.code }],
+        warnings: [],
+        toolchainMissing: run.failure.code === 'TOOLCHAIN_MISSING',
+      };
+    }
+
+    const { output, combined, projectDir } = run;
+    const { errors, warnings } = this.parseDiagnostics(combined, projectDir);
+    const success = !output.canceled && output.exitCode === 0 && errors.length === 0;
+    await this.logStore.finishRun(run.runId, { success, canceled: !!output.canceled, exitCode: output.exitCode });
+
+    return {
+      ...base,
+      success,
+      output: combined,
+      errors: output.exitCode !== 0 && errors.length === 0 && !output.canceled
+        ? [{ file: '', line: 0, column: 0, message: `leo build exited with code ${output.exitCode}`, code: 'BUILD_FAILED' }]
+        : errors,
+      warnings,
+      projectDir,
+      canceled: output.canceled,
+    };
+  }
+
+  /**
+   * Run the package's Leo tests, optionally filtered to a single test by name
+   */
+  async test(request: LeoTestRequest, onOutput?: OutputListener): Promise<LeoTestRunResult> {
+    const args = request.testName ? ['test', request.testName] : ['test'];
+    const run = await this.execute('test', request, args, onOutput);
+    const base = {
+      timestamp: new Date(),
+      duration: Date.now() - run.startTime,
+      runId: run.runId,
+    };
+
+    if (run.failure) {
+      return {
+        ...base,
+        success: false,
+        output: run.failure.message,
+        tests: [],
+        toolchainMissing: run.failure.code === 'TOOLCHAIN_MISSING',
+        error: run.failure.message,
+      };
+    }
+
+    const { output, combined } = run;
+    const tests = this.parseTestOutput(combined);
+    const { errors } = this.parseDiagnostics(combined, run.projectDir);
+    const success = !output.canceled && output.exitCode === 0 && tests.every(test => test.passed);
+    await this.logStore.finishRun(run.runId, { success, canceled: !!output.canceled, exitCode: output.exitCode });
+
+    return {
+      ...base,
+      success,
+      output: combined,
+      tests,
+      canceled: output.canceled,
+      // A compile error means no test ever ran
+      error: errors.length > 0
+        ? errors.map(e => `${e.message}${e.file ? ` (${e.file}:${e.line}:${e.column})` : ''}`).join('\n')
+        : output.exitCode !== 0 && tests.length === 0 && !output.canceled
+          ? `leo test exited with code ${output.exitCode}`
+          : undefined,
+    };
+  }
+
+  /**
+   * Parse per-test results from `leo test` output.
+   *
+   * Recognizes `PASSED: name`, `FAILED: name | reason` and the cargo-style
+   * `test name ... ok|FAILED` lines, with optional `(12ms)` timings.
+   */
+  parseTestOutput(output: string): LeoTestCase[] {
+    const tests: Map<string, LeoTestCase> = new Map();
+    const lines = output.split(/\r?\n/);
+
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+      let name: string | null = null;
+      let passed = false;
+      let message: string | undefined;
+
+      const statusFirst = line.match(/^(PASSED|PASS|FAILED|FAIL)\s*:?\s+([^\s|]+)[^|]*(?:\|\s*(.*))?$/);
+      const cargoStyle = line.match(/^test\s+(\S+)\s+\.\.\.\s+(ok|FAILED|failed)\b\s*(.*)$/);
+
+      if (statusFirst) {
+        name = statusFirst[2];
+        passed = statusFirst[1].startsWith('PASS');
+        message = statusFirst[3];
+      } else if (cargoStyle) {
+        name = cargoStyle[1];
+        passed = cargoStyle[2] === 'ok';
+        message = cargoStyle[3] || undefined;
+      }
+
+      if (!name) continue;
+
+      const testCase: LeoTestCase = {
+        name,
+        passed,
+        durationMs: this.parseDuration(line),
+      };
+
+      if (!passed) {
+        const failureMessage = (message || 'Test failed').replace(/\(\d+(?:\.\d+)?\s*m?s\)\s*$/, '').trim();
+        const values = this.parseExpectedActual(failureMessage);
+        testCase.message = failureMessage;
+        testCase.expected = values.expected;
+        testCase.actual = values.actual;
+      }
+
+      tests.set(name, testCase);
+    }
+
+    return Array.from(tests.values());
+  }
+
+  /**
+   * Kill the child process of a running build or test
+   */
+  cancel(runId: string): boolean {
+    const child = this.running.get(runId);
+    if (!child) {
+      return false;
+    }
+
+    this.canceledRuns.add(runId);
+    child.kill();
+    return true;
+  }
+
+  /**
+   * Parse Leo compiler diagnostics into structured errors and warnings
+   */
+  parseDiagnostics(output: string, projectDir: string): { errors: ToolchainDiagnostic[]; warnings: ToolchainDiagnostic[] } {
+    const errors: ToolchainDiagnostic[] = [];
+    const warnings: ToolchainDiagnostic[] = [];
+    const lines = output.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length; i++) {
+      const header = lines[i].trim().match(DIAGNOSTIC_HEADER);
+      if (!header) continue;
+
+      const diagnostic: ToolchainDiagnostic = {
+        file: '',
+        line: 0,
+        column: 0,
+        message: header[3].trim(),
+        code: header[2],
+      };
+
+      // The location line follows within the next few lines
+      for (let j = i + 1; j < Math.min(lines.length, i + 4); j++) {
+        const location = lines[j].match(DIAGNOSTIC_LOCATION);
+        if (location) {
+          diagnostic.file = this.toProjectPath(location[1], projectDir);
+          diagnostic.line = parseInt(location[2], 10);
+          diagnostic.column = parseInt(location[3], 10);
+          break;
+        }
+        if (DIAGNOSTIC_HEADER.test(lines[j].trim())) break;
+      }
+
+      (header[1] === 'Error' ? errors : warnings).push(diagnostic);
+    }
+
+    return { errors, warnings };
+  }
+
+  // Private helper methods
+
+  /**
+   * Shared lifecycle of a toolchain run: log setup, toolchain check, package
+   * preparation and the streamed child process. Failures that happen before
+   * the command produces output are reported (and logged) as `failure`.
+   */
+  private async execute(
+    kind: LeoRunKind,
+    request: LeoBuildRequest,
+    args: string[],
+    onOutput?: OutputListener
+  ): Promise<ExecutionResult> {
+    const startTime = Date.now();
+    const runId = request.runId || this.generateRunId();
+    const command = `leo ${args.join(' ')}`;
+    const emit = this.startRun(runId, request.projectId, kind, command, onOutput);
+
+    const fail = async (failure: ExecutionFailure): Promise<ExecutionResult> => {
+      emit('system', failure.message);
+      await this.logStore.finishRun(runId, { success: false, canceled: false, exitCode: null });
+      return { runId, startTime, failure };
+    };
+
+    const failureCode = kind === 'test' ? 'TEST_FAILED' : 'BUILD_FAILED';
+    // Runs of one project share its package directory, so they never overlap
+    if (this.activeProjects.has(request.projectId)) {
+      return fail({ code: failureCode, message: 'A build or test of this project is already running. Wait for it to finish or cancel it.' });
+    }
+    this.activeProjects.add(request.projectId);
+
+    try {
+      const toolchain = await this.detect();
+      if (!toolchain.available) {
+        return fail({ code: 'TOOLCHAIN_MISSING', message: this.toolchainMissingMessage(toolchain) });
+      }
+
+      const projectDir = await this.prepareProjectDirectory(request);
+      emit('system', `$ ${command}  (in ${projectDir})`);
+      const timeout = kind === 'test' ? TEST_TIMEOUT_MS : BUILD_TIMEOUT_MS;
+      const output = await this.runCommand(args, projectDir, timeout, runId, emit);
+      const combined = this.stripAnsi(`${output.stdout}${output.stderr ? `\n${output.stderr}` : ''}`).trim();
+
+      emit('system', output.canceled ? `${command} canceled` : `${command} finished with exit code ${output.exitCode}`);
+      return { runId, startTime, projectDir, output, combined };
+    } catch (error) {
+      if (this.isMissingBinary(error)) {
+        this.toolchainInfo = null;
+        return fail({ code: 'TOOLCHAIN_MISSING', message: this.toolchainMissingMessage(await this.detect(true)) });
+      }
+      return fail({ code: failureCode, message: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      this.activeProjects.delete(request.projectId);
+    }
+  }
+
+  private parseDuration(line: string): number | undefined {
+    const match = line.match(/\((\d+(?:\.\d+)?)\s*(ms|s)\)/);
+    if (!match) return undefined;
+    const value = parseFloat(match[1]);
+    return match[2] === 's' ? Math.round(value * 1000) : value;
+  }
+
+  // Pull the compared values out of the common assertion failure phrasings
+  private parseExpectedActual(message: string): { expected?: string; actual?: string } {
+    const patterns: Array<{ regex: RegExp; actual: number; expected: number }> = [
+      { regex: /expected:?\s*`?'?([^`',\s]+)`?'?,?\s*(?:but\s+)?(?:got|found|actual):?\s*`?'?([^`',\s]+)/i, expected: 1, actual: 2 },
+      { regex: /left:\s*`?'?([^`',\s]+)`?'?,?\s*right:\s*`?'?([^`',\s]+)/i, actual: 1, expected: 2 },
+      { regex: /'([^']+)'\s+is not equal to\s+'([^']+)'/i, actual: 1, expected: 2 },
+      { regex: /`?([\w.]+)`?\s*!=\s*`?([\w.]+)`?/, actual: 1, expected: 2 },
+    ];
+
+    for (const pattern of patterns) {
+      const match = message.match(pattern.regex);
+      if (match) {
+        return { expected: match[pattern.expected], actual: match[pattern.actual] };
+      }
+    }
+    return {};
+  }
+
+  private generateRunId(): string {
+    return `run_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  // Every line of a run goes to both the persisted log and the live listener
+  private startRun(
+    runId: string,
+    projectId: string,
+    kind: LeoRunKind,
+    command: string,
+    onOutput?: OutputListener
+  ): (stream: LeoOutputEvent['stream'], line: string) => void {
+    this.logStore.startRun({ runId, projectId, kind, command, startedAt: new Date().toISOString(), exitCode: null });
+
+    return (stream, line) => {
+      const event: LeoOutputEvent = { runId, stream, line };
+      this.logStore.appendLine(event);
+      onOutput?.(event);
+    };
+  }
+
+  private getBinary(): string {
+    return process.env.LEO_BIN || 'leo';
+  }
+
+  /**
+   * Linked projects are built in place (after writing the current buffers);
+   * everything else is written to a scratch package under the temp directory.
+   */
+  private async prepareProjectDirectory(request: LeoBuildRequest): Promise<string> {
+    if (request.workspaceRoot && (await this.workspaceFs.isRegisteredRoot(request.workspaceRoot))) {
+      for (const file of request.files) {
+        const result = await this.workspaceFs.saveFile({
+          workspaceRoot: request.workspaceRoot,
+          path: file.path,
+          content: file.content,
+        });
+        if (!result.success) {
+          throw new Error(`Failed to write ${file.path}: ${result.error}`);
+        }
+      }
+      return request.workspaceRoot;
+    }
+
+    const safeId = request.projectId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const projectDir = path.join(app.getPath('temp'), 'leoforge-builds', safeId);
+    await fs.rm(projectDir, { recursive: true, force: true });
+    await fs.mkdir(path.join(projectDir, 'src'), { recursive: true });
+
+    for (const file of request.files) {
+      const target = path.resolve(projectDir, this.toPackagePath(file.path));
+      if (path.relative(projectDir, target).startsWith('..')) {
+        throw new Error(`Invalid file path: ${file.path}`);
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content, 'utf8');
+    }
+
+    await this.writeIfMissing(path.join(projectDir, 'program.json'), JSON.stringify({
+      program: `${this.inferProgramName(request)}.aleo`,
+      version: '0.1.0',
+      description: '',
+      license: 'MIT',
+    }, null, 2));
+    await this.writeIfMissing(path.join(projectDir, '.env'), 'NETWORK=testnet\n');
+
+    return projectDir;
+  }
+
+  // Leo sources that are not already under a package directory belong in src/, keeping their own
+  // directories so that a/x.leo and b/x.leo stay apart
+  private toPackagePath(filePath: string): string {
+    const normalized = filePath.replace(/\\/g, '/').replace(/^\/+/, '');
+    if (normalized.endsWith('.leo') && !/^(src|tests|imports)\//.test(normalized)) {
+      return `src/${normalized}`;
+    }
+    return normalized;
+  }
+
+  private inferProgramName(request: LeoBuildRequest): string {
+    for (const file of request.files) {
+      const match = file.content.match(/\bprogram\s+([a-zA-Z_][a-zA-Z0-9_]*)\.aleo/);
+      if (match) return match[1];
+    }
+    return request.projectName.toLowerCase().replace(/[^a-z0-9_]/g, '_') || 'main';
+  }
+
+  private async writeIfMissing(target: string, content: string): Promise<void> {
+    try {
+      await fs.access(target);
+    } catch {
+      await fs.writeFile(target, content, 'utf8');
+    }
+  }
+
+  private toProjectPath(filePath: string, projectDir: string): string {
+    const absolute = path.resolve(projectDir, filePath);
+    const relative = path.relative(projectDir, absolute);
+    return (relative.startsWith('..') ? filePath : relative).split(path.sep).join('/');
+  }
+
+  private runCommand(
+    args: string[],
+    cwd: string,
+    timeoutMs: number,
+    runId?: string,
+    emit?: (stream: LeoOutputEvent['stream'], line: string) => void
+  ): Promise<CommandOutput> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.getBinary(), args, { cwd, env: process.env });
+      const buffers = { stdout: '', stderr: '' };
+      const pending = { stdout: '', stderr: '' };
+
+      if (runId) {
+        this.running.set(runId, child);
+      }
+
+      // Split chunks into complete lines for the live stream
+      const handleChunk = (stream: 'stdout' | 'stderr', chunk: Buffer) => {
+        const text = chunk.toString();
+        buffers[stream] += text;
+        if (!emit) return;
+
+        const lines = (pending[stream] + text).split(/\r?\n/);
+        pending[stream] = lines.pop() || '';
+        lines.forEach(line => emit(stream, this.stripAnsi(line)));
+      };
+
+      const finish = () => {
+        clearTimeout(timer);
+        if (runId) {
+          this.running.delete(runId);
+        }
+        if (emit) {
+          (['stdout', 'stderr'] as const).forEach(stream => {
+            if (pending[stream]) emit(stream, this.stripAnsi(pending[stream]));
+          });
+        }
+      };
+
+      const timer = setTimeout(() => {
+        child.kill();
+        finish();
+        reject(new Error(`leo ${args.join(' ')} timed out after ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+
+      child.stdout.on('data', chunk => handleChunk('stdout', chunk));
+      child.stderr.on('data', chunk => handleChunk('stderr', chunk));
+      child.on('error', error => {
+        finish();
+        reject(error);
+      });
+      child.on('close', exitCode => {
+        finish();
+        const canceled = !!runId && this.canceledRuns.delete(runId);
+        resolve({ exitCode, stdout: buffers.stdout, stderr: buffers.stderr, canceled });
+      });
+    });
+  }
+
+  private toolchainMissingMessage(toolchain: ToolchainInfo): string {
+    return `${toolchain.error || 'Leo toolchain not available'}. Install Leo (see https://docs.leo-lang.org) or set LEO_BIN to the leo binary.`;
+  }
+
+  private isMissingBinary(error: unknown): boolean {
+    return !!error && typeof error === 'object' && (error as NodeJS.ErrnoException).code === 'ENOENT';
+  }
+
+  private stripAnsi(text: string): string {
+    return text.replace(ANSI_ESCAPES, '');
+  }
+}
\ No newline at end of file
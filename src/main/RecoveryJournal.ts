@@ -0,0 +1,86 @@
+import { app } from 'electron';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { RecoveryEntry } from './preload';
+
+/**
+ * Keeps copies of unsaved editor buffers so they survive a crash or a forced quit.
+ * Each project's buffers live in userData/recovery/<projectId>.json.
+ */
+export class RecoveryJournal {
+  private readonly baseDir: string;
+  // What is in the journal, so the quit check does not have to read the disk
+  private entries: Map<string, RecoveryEntry[]> = new Map();
+  private writeCount = 0;
+
+  constructor() {
+    this.baseDir = path.join(app.getPath('userData'), 'recovery');
+  }
+
+  /**
+   * Replace a project's journal with its current unsaved buffers; an empty list removes it
+   */
+  async write(projectId: string, entries: RecoveryEntry[]): Promise<void> {
+    const file = this.getJournalFile(projectId);
+    if (entries.length === 0) {
+      this.entries.delete(projectId);
+      await fs.rm(file, { force: true });
+      return;
+    }
+
+    this.entries.set(projectId, entries);
+    await fs.mkdir(this.baseDir, { recursive: true });
+    // Write then rename, so a crash mid-write never leaves a truncated journal;
+    // each write has its own temp file so overlapping writes cannot trip over each other
+    const tempFile = `${file}.${process.pid}.${++this.writeCount}.tmp`;
+    try {
+      await fs.writeFile(tempFile, JSON.stringify(entries), 'utf8');
+      await fs.rename(tempFile, file);
+    } catch (error) {
+      await fs.rm(tempFile, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Every journaled buffer, including those left behind by an earlier session
+   */
+  async list(): Promise<RecoveryEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.baseDir);
+    } catch {
+      return [];
+    }
+
+    for (const name of files.filter(file => file.endsWith('.json'))) {
+      try {
+        const entries = JSON.parse(await fs.readFile(path.join(this.baseDir, name), 'utf8')) as RecoveryEntry[];
+        if (entries.length > 0) {
+          this.entries.set(entries[0].projectId, entries);
+        }
+      } catch (error) {
+        console.warn(`Skipping unreadable recovery journal ${name}:`, error);
+      }
+    }
+    return this.getUnsaved();
+  }
+
+  /**
+   * Drop recovered or unwanted buffers of a project, or all of them
+   */
+  async discard(projectId: string, fileIds?: string[]): Promise<void> {
+    const remaining = fileIds ? (this.entries.get(projectId) || []).filter(entry => !fileIds.includes(entry.fileId)) : [];
+    await this.write(projectId, remaining);
+  }
+
+  getUnsaved(): RecoveryEntry[] {
+    return Array.from(this.entries.values()).flat();
+  }
+
+  // Private helper methods
+
+  private getJournalFile(projectId: string): string {
+    return path.join(this.baseDir, `${projectId.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,265 @@
+import { app } from 'electron';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { FileDeleteResult, FileLoadResult, FileSaveRequest, FileSaveResult, PackageFileEntry } from './preload';
+
+// Parts of a `leo new` package we bring into the editor
+const PACKAGE_DIRECTORIES = ['src', 'inputs', 'tests'];
+const PACKAGE_ROOT_FILES = ['program.json', 'README.md', '.leoforgerc.json'];
+const PACKAGE_EXTENSIONS = ['.leo', '.in', '.json', '.md'];
+const MAX_PACKAGE_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Reads and writes project files under workspace roots the user has chosen.
+ *
+ * Roots are only ever registered from the main process (native folder dialog),
+ * so the renderer can name a root but never widen the sandbox itself.
+ */
+export class WorkspaceFileSystem {
+  private readonly registryFile: string;
+  private roots: Set<string> = new Set();
+  private loaded = false;
+
+  constructor() {
+    this.registryFile = path.join(app.getPath('userData'), 'workspaces.json');
+  }
+
+  /**
+   * Register a folder picked by the user as a workspace root
+   */
+  async registerRoot(rootPath: string): Promise<string> {
+    await this.ensureLoaded();
+    const resolvedRoot = await fs.realpath(path.resolve(rootPath));
+    const stats = await fs.stat(resolvedRoot);
+    if (!stats.isDirectory()) {
+      throw new Error(`Workspace root is not a directory: ${resolvedRoot}`);
+    }
+
+    if (!this.roots.has(resolvedRoot)) {
+      this.roots.add(resolvedRoot);
+      await this.persistRoots();
+    }
+    return resolvedRoot;
+  }
+
+  /**
+   * Check whether a root was previously chosen by the user
+   */
+  async isRegisteredRoot(rootPath: string): Promise<boolean> {
+    await this.ensureLoaded();
+    // Roots are stored as real paths, so links and case differences in the name still match
+    return this.roots.has(path.resolve(rootPath)) || this.roots.has(await this.realRoot(rootPath));
+  }
+
+  async saveFile(request: FileSaveRequest): Promise<FileSaveResult> {
+    try {
+      const target = await this.resolveInRoot(request.workspaceRoot, request.path);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await this.writeAtomic(target, request.content);
+
+      return {
+        success: true,
+        path: await this.toRelative(request.workspaceRoot, target),
+        bytesWritten: Buffer.byteLength(request.content, 'utf8'),
+      };
+    } catch (error) {
+      return { success: false, error: this.errorMessage(error) };
+    }
+  }
+
+  async loadFile(workspaceRoot: string, filePath: string): Promise<FileLoadResult> {
+    try {
+      const target = await this.resolveInRoot(workspaceRoot, filePath);
+      const content = await fs.readFile(target, 'utf8');
+
+      return {
+        success: true,
+        path: await this.toRelative(workspaceRoot, target),
+        content,
+      };
+    } catch (error) {
+      return { success: false, error: this.errorMessage(error) };
+    }
+  }
+
+  async deleteFile(workspaceRoot: string, filePath: string): Promise<FileDeleteResult> {
+    try {
+      const target = await this.resolveInRoot(workspaceRoot, filePath);
+      await fs.rm(target, { force: true });
+      return { success: true, path: await this.toRelative(workspaceRoot, target) };
+    } catch (error) {
+      return { success: false, error: this.errorMessage(error) };
+    }
+  }
+
+  /**
+   * Read the source files of a Leo package (src/, inputs/, tests/, program.json, README.md)
+   * and its lint config (.leoforgerc.json)
+   */
+  async readPackage(workspaceRoot: string): Promise<PackageFileEntry[]> {
+    const root = path.resolve(workspaceRoot);
+    const hasManifest = await this.exists(path.join(root, 'program.json'));
+    const hasSources = await this.exists(path.join(root, 'src'));
+    if (!hasManifest && !hasSources) {
+      throw new Error('Folder is not a Leo package (no program.json or src/ directory)');
+    }
+
+    const entries: PackageFileEntry[] = [];
+
+    for (const fileName of PACKAGE_ROOT_FILES) {
+      const entry = await this.readPackageFile(root, fileName);
+      if (entry) entries.push(entry);
+    }
+
+    for (const directory of PACKAGE_DIRECTORIES) {
+      for (const relativePath of await this.listFiles(root, directory)) {
+        const entry = await this.readPackageFile(root, relativePath);
+        if (entry) entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Resolve a workspace-relative path and make sure it cannot escape the root,
+   * either lexically ("../") or through a symlink inside the workspace.
+   */
+  async resolveInRoot(workspaceRoot: string, filePath: string): Promise<string> {
+    if (!(await this.isRegisteredRoot(workspaceRoot))) {
+      throw new Error('Workspace root has not been opened in this application');
+    }
+    if (typeof filePath !== 'string' || filePath.length === 0 || filePath.includes('\0')) {
+      throw new Error('Invalid file path');
+    }
+
+    const root = await this.realRoot(workspaceRoot);
+    const normalized = filePath.replace(/\\/g, '/').replace(/^\/+/, '');
+    const target = path.resolve(root, normalized);
+
+    if (!this.isInside(root, target)) {
+      throw new Error(`Path escapes the workspace: ${filePath}`);
+    }
+
+    // Follow symlinks on the deepest existing ancestor
+    let existing = target;
+    while (!(await this.exists(existing))) {
+      existing = path.dirname(existing);
+    }
+    const realExisting = await fs.realpath(existing);
+    if (!this.isInside(root, realExisting)) {
+      throw new Error(`Path escapes the workspace through a link: ${filePath}`);
+    }
+
+    return target;
+  }
+
+  async toRelative(workspaceRoot: string, target: string): Promise<string> {
+    return path.relative(await this.realRoot(workspaceRoot), target).split(path.sep).join('/');
+  }
+
+  // Private helper methods
+
+  // The root with links resolved, as registered roots are stored
+  private async realRoot(rootPath: string): Promise<string> {
+    try {
+      return await fs.realpath(path.resolve(rootPath));
+    } catch {
+      return path.resolve(rootPath);
+    }
+  }
+
+  private async listFiles(root: string, directory: string): Promise<string[]> {
+    const absolute = path.join(root, directory);
+    let dirents;
+    try {
+      dirents = await fs.readdir(absolute, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const dirent of dirents.sort((a, b) => a.name.localeCompare(b.name))) {
+      const relativePath = `${directory}/${dirent.name}`;
+      if (dirent.isDirectory()) {
+        files.push(...(await this.listFiles(root, relativePath)));
+      } else if (dirent.isFile() && PACKAGE_EXTENSIONS.includes(path.extname(dirent.name))) {
+        files.push(relativePath);
+      }
+    }
+    return files;
+  }
+
+  private async readPackageFile(root: string, relativePath: string): Promise<PackageFileEntry | null> {
+    const absolute = path.join(root, relativePath);
+    try {
+      const stats = await fs.stat(absolute);
+      if (!stats.isFile() || stats.size > MAX_PACKAGE_FILE_SIZE) {
+        return null;
+      }
+      return { path: relativePath, content: await fs.readFile(absolute, 'utf8') };
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeAtomic(target: string, content: string): Promise<void> {
+    const tempFile = path.join(
+      path.dirname(target),
+      `.${path.basename(target)}.${process.pid}.${Date.now()}.tmp`
+    );
+
+    const handle = await fs.open(tempFile, 'w');
+    try {
+      await handle.writeFile(content, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await fs.rename(tempFile, target);
+    } catch (error) {
+      await fs.rm(tempFile, { force: true });
+      throw error;
+    }
+  }
+
+  private isInside(root: string, target: string): boolean {
+    const relative = path.relative(root, target);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  }
+
+  private async exists(target: string): Promise<boolean> {
+    try {
+      await fs.lstat(target);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.registryFile, 'utf8'));
+      if (Array.isArray(data.roots)) {
+        this.roots = new Set(data.roots.filter((root: unknown) => typeof root === 'string'));
+      }
+    } catch {
+      // No registry yet - first launch
+      this.roots = new Set();
+    }
+  }
+
+  private async persistRoots(): Promise<void> {
+    await fs.mkdir(path.dirname(this.registryFile), { recursive: true });
+    await this.writeAtomic(this.registryFile, JSON.stringify({ roots: Array.from(this.roots) }, null, 2));
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
\ No newline at end of file
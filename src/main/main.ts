@@ -1,8 +1,38 @@
-import { app, BrowserWindow, ipcMain } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, shell } from 'electron';
 import * as path from 'path';
+import { WorkspaceFileSystem } from './WorkspaceFileSystem';
+import { LeoToolchain } from './LeoToolchain';
+import { BuildLogStore } from './BuildLogStore';
+import { LLMSettingsStore } from './LLMSettingsStore';
+import { RecoveryJournal } from './RecoveryJournal';
+import { createProvider } from './LLMProviders';
+import type {
+  DocsOpenResult,
+  FileSaveRequest,
+  LeoBuildRequest,
+  LeoTestRequest,
+  LLMChatRequest,
+  LLMChatResult,
+  LLMSettingsUpdate,
+  LLMStreamRequest,
+  OpenFolderResult,
+  RecoveryEntry,
+} from './preload';
+
+// A renderer that crashes this often is not reloaded again, so a crash on startup cannot loop
+const MAX_RENDERER_RELOADS = 3;
+const RENDERER_CRASH_WINDOW_MS = 60 * 1000;
 
 class MainProcess {
   private mainWindow: BrowserWindow | null = null;
+  private workspaceFs: WorkspaceFileSystem | null = null;
+  private leoToolchain: LeoToolchain | null = null;
+  private buildLogStore: BuildLogStore | null = null;
+  private llmSettings: LLMSettingsStore | null = null;
+  private recoveryJournal: RecoveryJournal | null = null;
+  private quitConfirmed = false;
+  private rendererCrashes: number[] = []; // times of recent renderer crashes
+  private activeChats: Map<string, AbortController> = new Map();
 
   constructor() {
     this.initializeApp();
@@ -61,6 +91,35 @@ class MainProcess {
       this.mainWindow?.show();
     });
 
+    // Closing the window is how the app quits (except on macOS), so unsaved files are checked here
+    this.mainWindow.on('close', (event) => {
+      if (this.quitConfirmed || this.getRecoveryJournal().getUnsaved().length === 0) return;
+      event.preventDefault();
+      this.confirmQuit();
+    });
+
+    // A crashed renderer reloads and offers its journaled buffers again, unless it keeps crashing
+    this.mainWindow.webContents.on('render-process-gone', (event, details) => {
+      if (details.reason === 'clean-exit') return;
+
+      const now = Date.now();
+      this.rendererCrashes = [...this.rendererCrashes.filter(time => now - time < RENDERER_CRASH_WINDOW_MS), now];
+      if (this.rendererCrashes.length > MAX_RENDERER_RELOADS) {
+        console.error(`Renderer process gone (${details.reason}) ${this.rendererCrashes.length} times, not reloading`);
+        dialog.showErrorBox(
+          'LeoForge keeps crashing',
+          'The window stopped responding several times in a row and will not be reloaded. ' +
+            'Unsaved changes are kept in the recovery journal and offered the next time LeoForge starts.'
+        );
+        this.quitConfirmed = true;
+        this.mainWindow?.close();
+        return;
+      }
+
+      console.error(`Renderer process gone (${details.reason}), reloading`);
+      this.mainWindow?.reload();
+    });
+
     // Handle window closed
     this.mainWindow.on('closed', () => {
       this.mainWindow = null;
@@ -75,14 +134,16 @@ class MainProcess {
     });
 
     // Handle file operations
-    ipcMain.handle('file:save', async (event, fileData) => {
-      // This will be implemented when file system is added
-      return { success: true, data: fileData };
+    ipcMain.handle('file:save', async (event, request: FileSaveRequest) => {
+      return this.getWorkspaceFs().saveFile(request);
     });
 
-    ipcMain.handle('file:load', async (event, filePath) => {
-      // This will be implemented when file system is added
-      return { success: true, content: '' };
+    ipcMain.handle('file:load', async (event, workspaceRoot: string, filePath: string) => {
+      return this.getWorkspaceFs().loadFile(workspaceRoot, filePath);
+    });
+
+    ipcMain.handle('file:delete', async (event, workspaceRoot: string, filePath: string) => {
+      return this.getWorkspaceFs().deleteFile(workspaceRoot, filePath);
     });
 
     // Handle project operations
@@ -96,11 +157,234 @@ class MainProcess {
       return { success: true, project: null };
     });
 
+    ipcMain.handle('project:openFolder', async (): Promise<OpenFolderResult> => {
+      try {
+        const selected = await this.showFolderDialog('Open Leo Package');
+        if (!selected) {
+          return { success: false, canceled: true };
+        }
+
+        const workspaceFs = this.getWorkspaceFs();
+        const files = await workspaceFs.readPackage(selected);
+        const workspaceRoot = await workspaceFs.registerRoot(selected);
+        return { success: true, workspaceRoot, files };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+
+    // Handle Leo toolchain operations
+    ipcMain.handle('leo:detect', async (event, forceRefresh?: boolean) => {
+      return this.getLeoToolchain().detect(!!forceRefresh);
+    });
+
+    ipcMain.handle('leo:build', async (event, request: LeoBuildRequest) => {
+      return this.getLeoToolchain().build(request, output => {
+        if (!event.sender.isDestroyed()) {
+          event.sender.send('leo:output', output);
+        }
+      });
+    });
+
+    ipcMain.handle('leo:test', async (event, request: LeoTestRequest) => {
+      return this.getLeoToolchain().test(request, output => {
+        if (!event.sender.isDestroyed()) {
+          event.sender.send('leo:output', output);
+        }
+      });
+    });
+
+    ipcMain.handle('leo:cancel', async (event, runId: string) => {
+      return this.getLeoToolchain().cancel(runId);
+    });
+
+    ipcMain.handle('leo:listRuns', async (event, projectId: string) => {
+      return this.getBuildLogStore().listRuns(projectId);
+    });
+
+    ipcMain.handle('leo:getRunLog', async (event, projectId: string, runId: string) => {
+      return this.getBuildLogStore().getRun(projectId, runId);
+    });
+
+    // Handle documentation links
+    ipcMain.handle('docs:open', async (event, target: string) => {
+      return this.openDocs(target);
+    });
+
+    // Handle the recovery journal
+    ipcMain.handle('recovery:write', async (event, projectId: string, entries: RecoveryEntry[]) => {
+      return this.getRecoveryJournal().write(projectId, entries);
+    });
+
+    ipcMain.handle('recovery:list', async () => {
+      return this.getRecoveryJournal().list();
+    });
+
+    ipcMain.handle('recovery:discard', async (event, projectId: string, fileIds?: string[]) => {
+      return this.getRecoveryJournal().discard(projectId, fileIds);
+    });
+
     // Handle LLM communication
-    ipcMain.handle('llm:chat', async (event, message, context) => {
-      // This will be implemented when LLM service is added
-      return { success: true, response: 'Mock response' };
+    ipcMain.handle('llm:chat', async (event, request: LLMChatRequest): Promise<LLMChatResult> => {
+      const settingsStore = this.getLlmSettings();
+      const settings = await settingsStore.getSettings();
+      const provider = createProvider(settings, await settingsStore.getApiKey());
+
+      try {
+        const content = await provider.chat(request);
+        return { success: true, content, provider: provider.id, model: provider.model };
+      } catch (error) {
+        return {
+          success: false,
+          provider: provider.id,
+          model: provider.model,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
     });
+
+    ipcMain.handle('llm:stream', async (event, request: LLMStreamRequest): Promise<LLMChatResult> => {
+      const settingsStore = this.getLlmSettings();
+      const settings = await settingsStore.getSettings();
+      const provider = createProvider(settings, await settingsStore.getApiKey());
+      const controller = new AbortController();
+      this.activeChats.set(request.requestId, controller);
+
+      let partial = '';
+      try {
+        const content = await provider.chat(request, {
+          signal: controller.signal,
+          onToken: delta => {
+            partial += delta;
+            if (!event.sender.isDestroyed()) {
+              event.sender.send('llm:chunk', { requestId: request.requestId, delta });
+            }
+          },
+        });
+        return { success: true, content, provider: provider.id, model: provider.model };
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return { success: true, content: partial, provider: provider.id, model: provider.model, aborted: true };
+        }
+        return {
+          success: false,
+          content: partial,
+          provider: provider.id,
+          model: provider.model,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      } finally {
+        this.activeChats.delete(request.requestId);
+      }
+    });
+
+    ipcMain.handle('llm:abort', async (event, requestId: string) => {
+      const controller = this.activeChats.get(requestId);
+      if (!controller) return false;
+      controller.abort();
+      return true;
+    });
+
+    ipcMain.handle('llm:getSettings', async () => {
+      return this.getLlmSettings().getSettings();
+    });
+
+    ipcMain.handle('llm:updateSettings', async (event, update: LLMSettingsUpdate) => {
+      return this.getLlmSettings().updateSettings(update);
+    });
+  }
+
+  // The registry lives under userData, which is only available once the app is ready
+  private getWorkspaceFs(): WorkspaceFileSystem {
+    if (!this.workspaceFs) {
+      this.workspaceFs = new WorkspaceFileSystem();
+    }
+    return this.workspaceFs;
+  }
+
+  private getLeoToolchain(): LeoToolchain {
+    if (!this.leoToolchain) {
+      this.leoToolchain = new LeoToolchain(this.getWorkspaceFs(), this.getBuildLogStore());
+    }
+    return this.leoToolchain;
+  }
+
+  private getBuildLogStore(): BuildLogStore {
+    if (!this.buildLogStore) {
+      this.buildLogStore = new BuildLogStore();
+    }
+    return this.buildLogStore;
+  }
+
+  private getLlmSettings(): LLMSettingsStore {
+    if (!this.llmSettings) {
+      this.llmSettings = new LLMSettingsStore();
+    }
+    return this.llmSettings;
+  }
+
+  private getRecoveryJournal(): RecoveryJournal {
+    if (!this.recoveryJournal) {
+      this.recoveryJournal = new RecoveryJournal();
+    }
+    return this.recoveryJournal;
+  }
+
+  private async confirmQuit(): Promise<void> {
+    const unsaved = this.getRecoveryJournal().getUnsaved();
+    const options: Electron.MessageBoxOptions = {
+      type: 'warning',
+      buttons: ['Cancel', 'Quit'],
+      defaultId: 0,
+      cancelId: 0,
+      message: `${unsaved.length} ${unsaved.length === 1 ? 'file has' : 'files have'} unsaved changes`,
+      detail: `${unsaved.map(entry => `${entry.projectName}: ${entry.path}`).join('\n')}\n\n` +
+        'If you quit now, the changes are kept and offered for recovery on the next launch.',
+    };
+    const { response } = this.mainWindow
+      ? await dialog.showMessageBox(this.mainWindow, options)
+      : await dialog.showMessageBox(options);
+
+    if (response === 1) {
+      this.quitConfirmed = true;
+      app.quit();
+    }
+  }
+
+  /**
+   * Open a docs/ page shipped next to the app with the system viewer, or an https page in the browser
+   */
+  private async openDocs(target: string): Promise<DocsOpenResult> {
+    try {
+      if (/^https:\/\//i.test(target)) {
+        await shell.openExternal(target);
+        return { success: true };
+      }
+
+      // The app runs from dist/, so docs/ sits one level up
+      const docsRoot = path.resolve(__dirname, '..', 'docs');
+      const page = path.resolve(__dirname, '..', target.split('#')[0]);
+      if (path.dirname(page) !== docsRoot || path.extname(page) !== '.md') {
+        throw new Error(`Not a documentation page: ${target}`);
+      }
+
+      const error = await shell.openPath(page);
+      return error ? { success: false, error } : { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private async showFolderDialog(title: string): Promise<string | null> {
+    const options: Electron.OpenDialogOptions = {
+      title,
+      properties: ['openDirectory', 'createDirectory'],
+    };
+    const result = this.mainWindow
+      ? await dialog.showOpenDialog(this.mainWindow, options)
+      : await dialog.showOpenDialog(options);
+
+    return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
   }
 }
 
@@ -1,5 +1,212 @@
 import { contextBridge, ipcRenderer } from 'electron';
 
+// File system results shared with the main process
+export interface FileSaveRequest {
+  workspaceRoot: string;
+  path: string; // relative to the workspace root
+  content: string;
+}
+
+export interface FileSaveResult {
+  success: boolean;
+  path?: string;
+  bytesWritten?: number;
+  error?: string;
+}
+
+export interface FileLoadResult {
+  success: boolean;
+  path?: string;
+  content?: string;
+  error?: string;
+}
+
+export interface FileDeleteResult {
+  success: boolean;
+  path?: string;
+  error?: string;
+}
+
+export interface DocsOpenResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface PackageFileEntry {
+  path: string; // relative to the package root, forward slashes
+  content: string;
+}
+
+export interface OpenFolderResult {
+  success: boolean;
+  canceled?: boolean;
+  workspaceRoot?: string;
+  files?: PackageFileEntry[];
+  error?: string;
+}
+
+// Leo toolchain results shared with the main process
+export interface ToolchainInfo {
+  available: boolean;
+  binary: string;
+  version?: string;
+  error?: string;
+}
+
+export interface ToolchainDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+  code: string;
+}
+
+export type LeoRunKind = 'build' | 'test';
+
+export interface LeoOutputEvent {
+  runId: string;
+  stream: 'stdout' | 'stderr' | 'system';
+  line: string;
+}
+
+export interface LeoRunSummary {
+  runId: string;
+  projectId: string;
+  kind: LeoRunKind;
+  command: string;
+  startedAt: string; // ISO timestamp
+  finishedAt: string | null;
+  success: boolean;
+  canceled: boolean;
+  exitCode: number | null;
+}
+
+export interface LeoRunLog {
+  summary: LeoRunSummary;
+  lines: Array<{ stream: LeoOutputEvent['stream']; line: string }>;
+}
+
+export interface LeoBuildRequest {
+  runId?: string; // lets the renderer subscribe to output before the run starts
+  projectId: string;
+  projectName: string;
+  workspaceRoot?: string;
+  files: PackageFileEntry[];
+}
+
+export interface LeoBuildResult {
+  success: boolean;
+  output: string;
+  errors: ToolchainDiagnostic[];
+  warnings: ToolchainDiagnostic[];
+  timestamp: Date;
+  buildTime: number;
+  projectDir?: string;
+  toolchainMissing?: boolean;
+  runId?: string;
+  canceled?: boolean;
+}
+
+export interface LeoTestRequest extends LeoBuildRequest {
+  testName?: string; // run a single test by name
+}
+
+export interface LeoTestCase {
+  name: string;
+  passed: boolean;
+  durationMs?: number;
+  message?: string;
+  expected?: string;
+  actual?: string;
+}
+
+export interface LeoTestRunResult {
+  success: boolean;
+  output: string;
+  tests: LeoTestCase[];
+  timestamp: Date;
+  duration: number;
+  runId?: string;
+  canceled?: boolean;
+  toolchainMissing?: boolean;
+  error?: string; // set when the run failed before producing test results
+}
+
+// An unsaved editor buffer kept by the recovery journal
+export interface RecoveryEntry {
+  projectId: string;
+  projectName: string;
+  fileId: string;
+  path: string;
+  content: string;
+  savedContent: string | null; // the file as last saved, null when not known
+  journaledAt: string; // ISO timestamp
+}
+
+export type LLMProviderId = 'openai' | 'local' | 'mock';
+
+// Wire format spoken by a local model server
+export type LocalLLMApi = 'ollama' | 'llamacpp';
+
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMChatRequest {
+  messages: LLMChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMStreamRequest extends LLMChatRequest {
+  requestId: string;
+}
+
+export interface LLMChunkEvent {
+  requestId: string;
+  delta: string;
+}
+
+export interface LLMChatResult {
+  success: boolean;
+  content?: string;
+  provider: LLMProviderId;
+  model?: string;
+  error?: string;
+  aborted?: boolean; // stopped by the user; content holds the partial answer
+}
+
+// Provider settings as seen by the renderer - the API key itself never leaves the main process
+export interface LLMSettings {
+  provider: LLMProviderId;
+  temperature: number;
+  contextTokenBudget: number; // how much project context to include in agent prompts
+  openai: {
+    baseUrl: string;
+    model: string;
+    hasApiKey: boolean;
+  };
+  local: {
+    api: LocalLLMApi;
+    baseUrl: string;
+    model: string;
+  };
+  secureStorageAvailable: boolean;
+}
+
+export interface LLMSettingsUpdate {
+  provider?: LLMProviderId;
+  temperature?: number;
+  contextTokenBudget?: number;
+  openai?: {
+    baseUrl?: string;
+    model?: string;
+    apiKey?: string | null; // null removes the stored key
+  };
+  local?: Partial<LLMSettings['local']>;
+}
+
 // Define the API interface
 interface ElectronAPI {
   // Theme operations
@@ -9,19 +216,49 @@ interface ElectronAPI {
 
   // File operations
   file: {
-    save: (fileData: any) => Promise<{ success: boolean; data: any }>;
-    load: (filePath: string) => Promise<{ success: boolean; content: string }>;
+    save: (request: FileSaveRequest) => Promise<FileSaveResult>;
+    load: (workspaceRoot: string, filePath: string) => Promise<FileLoadResult>;
+    delete: (workspaceRoot: string, filePath: string) => Promise<FileDeleteResult>;
   };
 
   // Project operations
   project: {
     create: (projectData: any) => Promise<{ success: boolean; project: any }>;
     load: (projectId: string) => Promise<{ success: boolean; project: any }>;
+    openFolder: () => Promise<OpenFolderResult>;
+  };
+
+  // Leo toolchain operations
+  leo: {
+    detect: (forceRefresh?: boolean) => Promise<ToolchainInfo>;
+    build: (request: LeoBuildRequest) => Promise<LeoBuildResult>;
+    test: (request: LeoTestRequest) => Promise<LeoTestRunResult>;
+    cancel: (runId: string) => Promise<boolean>;
+    listRuns: (projectId: string) => Promise<LeoRunSummary[]>;
+    getRunLog: (projectId: string, runId: string) => Promise<LeoRunLog | null>;
+    onOutput: (listener: (event: LeoOutputEvent) => void) => () => void;
+  };
+
+  // Documentation pages, bundled under docs/ or on the web
+  docs: {
+    open: (target: string) => Promise<DocsOpenResult>;
+  };
+
+  // Recovery journal of unsaved buffers
+  recovery: {
+    write: (projectId: string, entries: RecoveryEntry[]) => Promise<void>;
+    list: () => Promise<RecoveryEntry[]>;
+    discard: (projectId: string, fileIds?: string[]) => Promise<void>;
   };
 
   // LLM operations
   llm: {
-    chat: (message: string, context: any) => Promise<{ success: boolean; response: string }>;
+    chat: (request: LLMChatRequest) => Promise<LLMChatResult>;
+    stream: (request: LLMStreamRequest) => Promise<LLMChatResult>;
+    abort: (requestId: string) => Promise<boolean>;
+    onChunk: (listener: (event: LLMChunkEvent) => void) => () => void;
+    getSettings: () => Promise<LLMSettings>;
+    updateSettings: (update: LLMSettingsUpdate) => Promise<LLMSettings>;
   };
 }
 
@@ -32,17 +269,56 @@ const electronAPI: ElectronAPI = {
   },
 
   file: {
-    save: (fileData: any) => ipcRenderer.invoke('file:save', fileData),
-    load: (filePath: string) => ipcRenderer.invoke('file:load', filePath),
+    save: (request: FileSaveRequest) => ipcRenderer.invoke('file:save', request),
+    load: (workspaceRoot: string, filePath: string) => ipcRenderer.invoke('file:load', workspaceRoot, filePath),
+    delete: (workspaceRoot: string, filePath: string) => ipcRenderer.invoke('file:delete', workspaceRoot, filePath),
   },
 
   project: {
     create: (projectData: any) => ipcRenderer.invoke('project:create', projectData),
     load: (projectId: string) => ipcRenderer.invoke('project:load', projectId),
+    openFolder: () => ipcRenderer.invoke('project:openFolder'),
+  },
+
+  leo: {
+    detect: (forceRefresh?: boolean) => ipcRenderer.invoke('leo:detect', forceRefresh),
+    build: (request: LeoBuildRequest) => ipcRenderer.invoke('leo:build', request),
+    test: (request: LeoTestRequest) => ipcRenderer.invoke('leo:test', request),
+    cancel: (runId: string) => ipcRenderer.invoke('leo:cancel', runId),
+    listRuns: (projectId: string) => ipcRenderer.invoke('leo:listRuns', projectId),
+    getRunLog: (projectId: string, runId: string) => ipcRenderer.invoke('leo:getRunLog', projectId, runId),
+    onOutput: (listener: (event: LeoOutputEvent) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, payload: LeoOutputEvent) => listener(payload);
+      ipcRenderer.on('leo:output', handler);
+      return () => {
+        ipcRenderer.removeListener('leo:output', handler);
+      };
+    },
+  },
+
+  docs: {
+    open: (target: string) => ipcRenderer.invoke('docs:open', target),
+  },
+
+  recovery: {
+    write: (projectId: string, entries: RecoveryEntry[]) => ipcRenderer.invoke('recovery:write', projectId, entries),
+    list: () => ipcRenderer.invoke('recovery:list'),
+    discard: (projectId: string, fileIds?: string[]) => ipcRenderer.invoke('recovery:discard', projectId, fileIds),
   },
 
   llm: {
-    chat: (message: string, context: any) => ipcRenderer.invoke('llm:chat', message, context),
+    chat: (request: LLMChatRequest) => ipcRenderer.invoke('llm:chat', request),
+    stream: (request: LLMStreamRequest) => ipcRenderer.invoke('llm:stream', request),
+    abort: (requestId: string) => ipcRenderer.invoke('llm:abort', requestId),
+    onChunk: (listener: (event: LLMChunkEvent) => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, payload: LLMChunkEvent) => listener(payload);
+      ipcRenderer.on('llm:chunk', handler);
+      return () => {
+        ipcRenderer.removeListener('llm:chunk', handler);
+      };
+    },
+    getSettings: () => ipcRenderer.invoke('llm:getSettings'),
+    updateSettings: (update: LLMSettingsUpdate) => ipcRenderer.invoke('llm:updateSettings', update),
   },
 };
 
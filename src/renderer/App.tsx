@@ -1,21 +1,26 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { BrowserRouter as Router } from 'react-router-dom';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { AppProvider, useApp } from './contexts/AppContext';
 import WelcomeScreen from './components/WelcomeScreen';
 import MainInterface from './components/MainInterface';
 import ErrorBoundary from './components/ErrorBoundary';
+import RecoveryDialog from './components/RecoveryDialog';
+import RecoveryService, { RecoverableFile } from './services/RecoveryService';
 import './styles/themes.css';
 import './App.css';
 
 const AppContent: React.FC = () => {
   const { state, loadProjects } = useApp();
+  const [recoverableFiles, setRecoverableFiles] = useState<RecoverableFile[]>([]);
 
   // Load projects on app initialization
   useEffect(() => {
     const initializeApp = async () => {
       try {
         await loadProjects();
+        // Unsaved buffers left behind by a crash or a forced quit
+        setRecoverableFiles(await RecoveryService.getRecoverableFiles());
       } catch (error) {
         console.error('Failed to initialize app:', error);
       }
@@ -38,6 +43,28 @@ const AppContent: React.FC = () => {
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, []);
 
+  const handleRecoveryRestore = async (files: RecoverableFile[]) => {
+    try {
+      await RecoveryService.restore(files);
+      await RecoveryService.discard(recoverableFiles.filter(file => !files.includes(file)));
+      await loadProjects();
+    } catch (error) {
+      console.error('Failed to restore unsaved changes:', error);
+      alert(`Failed to restore unsaved changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    setRecoverableFiles([]);
+  };
+
+  const handleRecoveryDiscard = async (files: RecoverableFile[]) => {
+    setRecoverableFiles([]);
+    try {
+      await RecoveryService.discard(files);
+      await loadProjects();
+    } catch (error) {
+      console.error('Failed to discard unsaved changes:', error);
+    }
+  };
+
   return (
     <div className="app">
       <ErrorBoundary>
@@ -59,6 +86,13 @@ const AppContent: React.FC = () => {
           </ErrorBoundary>
         )}
       </ErrorBoundary>
+      {recoverableFiles.length > 0 && (
+        <RecoveryDialog
+          files={recoverableFiles}
+          onRestore={handleRecoveryRestore}
+          onDiscard={handleRecoveryDiscard}
+        />
+      )}
     </div>
   );
 };
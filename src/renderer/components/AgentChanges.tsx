@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { CodeChange } from '../types';
+import { countChanges, diffLines } from '../utils/lineDiff';
+import DiffViewer from './DiffViewer';
+import './AgentChanges.css';
+
+interface AgentChangesProps {
+  changes: CodeChange[];
+  status: 'pending' | 'applied' | 'rejected';
+  onApply?: (changes: CodeChange[]) => void; // the changes narrowed to the hunks the user kept
+  onReject?: () => void;
+}
+
+interface FileDiffProps {
+  change: CodeChange;
+  onSelectionChange?: (newContent: string) => void;
+}
+
+const KIND_LABELS = {
+  create: 'new file',
+  modify: 'modified',
+  delete: 'deleted'
+};
+
+export const FileDiff: React.FC<FileDiffProps> = ({ change, onSelectionChange }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const kind = change.kind || 'modify';
+
+  const { added, removed } = useMemo(
+    () => countChanges(diffLines(change.oldContent, change.newContent)),
+    [change.oldContent, change.newContent]
+  );
+
+  return (
+    <div className={`file-diff ${kind}`}>
+      <button className="file-diff-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="file-diff-toggle">{isExpanded ? '▾' : '▸'}</span>
+        <span className="file-diff-path">{change.filePath || change.fileId}</span>
+        <span className={`file-diff-kind ${kind}`}>{KIND_LABELS[kind]}</span>
+        <span className="file-diff-stats">
+          <span className="diff-stat-added">+{added}</span>
+          <span className="diff-stat-removed">-{removed}</span>
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="file-diff-body">
+          <div className="file-diff-description">{change.description}</div>
+          <DiffViewer
+            oldContent={change.oldContent}
+            newContent={change.newContent}
+            // Created and deleted files are taken whole
+            onSelectionChange={kind === 'modify' ? onSelectionChange : undefined}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AgentChanges: React.FC<AgentChangesProps> = ({ changes, status, onApply, onReject }) => {
+  // New content per file where the user left some hunks out
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const canApply = status === 'pending' && onApply && onReject;
+
+  const selectedChanges = changes
+    .map(change => (change.fileId in selections ? { ...change, newContent: selections[change.fileId] } : change))
+    .filter(change => change.kind !== 'modify' || change.newContent !== change.oldContent);
+  const isPartial = Object.keys(selections).some(fileId =>
+    selections[fileId] !== changes.find(change => change.fileId === fileId)?.newContent
+  );
+
+  return (
+    <div className={`agent-changes ${status}`}>
+      <div className="agent-changes-header">
+        <span>
+          📝 {status === 'pending' ? 'Proposed changes' : status === 'applied' ? 'Changes applied' : 'Changes dismissed'}
+          {' '}({changes.length} file{changes.length !== 1 ? 's' : ''})
+        </span>
+        {canApply && (
+          <div className="agent-changes-actions">
+            <button className="agent-changes-reject" onClick={onReject}>Dismiss</button>
+            <button
+              className="agent-changes-apply"
+              onClick={() => onApply(selectedChanges)}
+              disabled={selectedChanges.length === 0}
+            >
+              {isPartial ? 'Apply selected' : 'Apply all'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {changes.map(change => (
+        <FileDiff
+          key={change.fileId}
+          change={change}
+          onSelectionChange={canApply
+            ? newContent => setSelections(prev => ({ ...prev, [change.fileId]: newContent }))
+            : undefined}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default AgentChanges;
\ No newline at end of file
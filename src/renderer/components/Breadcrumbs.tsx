@@ -0,0 +1,38 @@
+import React from 'react';
+import { LeoFile } from '../types';
+import { LeoOutlineItem } from '../services/LeoLanguageService';
+import { getOutlineIcon } from './OutlinePanel';
+import './Breadcrumbs.css';
+
+interface BreadcrumbsProps {
+  file: LeoFile;
+  symbols: LeoOutlineItem[]; // the declarations around the cursor, outermost first
+  onSelect: (item: LeoOutlineItem) => void;
+}
+
+const Breadcrumbs: React.FC<BreadcrumbsProps> = ({ file, symbols, onSelect }) => {
+  const folders = file.path.split('/').filter(Boolean).slice(0, -1);
+
+  return (
+    <div className="breadcrumbs">
+      {folders.map((folder, index) => (
+        <React.Fragment key={`${folder}:${index}`}>
+          <span className="breadcrumb folder">{folder}</span>
+          <span className="breadcrumb-separator">›</span>
+        </React.Fragment>
+      ))}
+      <span className="breadcrumb file">{file.name}</span>
+      {symbols.map(item => (
+        <React.Fragment key={`${item.kind}:${item.name}`}>
+          <span className="breadcrumb-separator">›</span>
+          <button className="breadcrumb symbol" onClick={() => onSelect(item)} title={`Go to ${item.name}`}>
+            <span className="breadcrumb-icon">{getOutlineIcon(item)}</span>
+            {item.name}
+          </button>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default Breadcrumbs;
\ No newline at end of file
@@ -1,22 +1,84 @@
 import React from 'react';
-import { ChatMessage as ChatMessageType, CodeSuggestion as CodeSuggestionType } from '../types';
+import { AgentToolStep, ChatMessage as ChatMessageType, CodeChange, CodeSuggestion as CodeSuggestionType, ContextUsage } from '../types';
 import CodeSuggestion from './CodeSuggestion';
+import AgentChanges, { FileDiff } from './AgentChanges';
 import './ChatMessage.css';
 
 interface ChatMessageProps {
   message: ChatMessageType;
   isTyping?: boolean;
+  isStreaming?: boolean;
   suggestions?: CodeSuggestionType[];
   onApplySuggestion?: (suggestion: CodeSuggestionType) => void;
   onDismissSuggestion?: (suggestionId: string) => void;
+  onApplyChanges?: (message: ChatMessageType, changes: CodeChange[]) => void;
+  onRejectChanges?: (message: ChatMessageType) => void;
 }
 
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+
+const ContextUsageDetails: React.FC<{ usage: ContextUsage }> = ({ usage }) => (
+  <details className="context-usage">
+    <summary>
+      🧠 Context used: {formatTokens(usage.used)} tokens (budget {formatTokens(usage.budget)})
+    </summary>
+    <ul className="context-usage-list">
+      {usage.sections.map((section, index) => (
+        <li key={index} className={`context-usage-item ${section.kind}`}>
+          <span className="context-usage-label">{section.label}</span>
+          <span className="context-usage-tokens">
+            {formatTokens(section.tokens)}{section.truncated ? ' (truncated)' : ''}
+          </span>
+        </li>
+      ))}
+    </ul>
+    {usage.omitted.length > 0 && (
+      <div className="context-usage-omitted">
+        Left out to fit the budget: {usage.omitted.join(', ')}
+      </div>
+    )}
+  </details>
+);
+
+const STEP_ICONS = {
+  running: '⏳',
+  success: '✅',
+  error: '❌'
+};
+
+const formatArgs = (args: Record<string, unknown>) => {
+  const { edits, ...rest } = args;
+  const parts = Object.entries(rest).map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  if (Array.isArray(edits)) parts.push(`${edits.length} edit${edits.length !== 1 ? 's' : ''}`);
+  return parts.join(', ');
+};
+
+const ToolStep: React.FC<{ step: AgentToolStep }> = ({ step }) => (
+  <details className={`tool-step ${step.status}`}>
+    <summary>
+      <span className="tool-step-icon">{STEP_ICONS[step.status]}</span>
+      <span className="tool-step-name">{step.tool}</span>
+      {formatArgs(step.args) && <span className="tool-step-args">({formatArgs(step.args)})</span>}
+      <span className="tool-step-summary">{step.summary}</span>
+    </summary>
+    {step.note && <div className="tool-step-note">{step.note}</div>}
+    {step.codeChanges && step.codeChanges.length > 0 ? (
+      <AgentChanges changes={step.codeChanges} status="applied" />
+    ) : (
+      step.output && <pre className="tool-step-output">{step.output}</pre>
+    )}
+  </details>
+);
+
 const ChatMessage: React.FC<ChatMessageProps> = ({ 
   message, 
   isTyping = false, 
+  isStreaming = false,
   suggestions = [],
   onApplySuggestion,
-  onDismissSuggestion 
+  onDismissSuggestion,
+  onApplyChanges,
+  onRejectChanges
 }) => {
   const formatTime = (timestamp: Date) => {
     return timestamp.toLocaleTimeString([], { 
@@ -44,26 +106,41 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
   }
 
   return (
-    <div className={`chat-message ${message.sender}`}>
+    <div className={`chat-message ${message.sender} ${isStreaming ? 'streaming' : ''}`}>
       <div className="message-avatar">
         <span className="avatar-icon">
           {message.sender === 'user' ? '👤' : '🤖'}
         </span>
       </div>
       <div className="message-bubble">
-        <div className="message-content">
-          {message.content}
-        </div>
-        {message.codeChanges && message.codeChanges.length > 0 && (
+        {message.toolSteps && message.toolSteps.length > 0 && (
+          <div className="tool-steps">
+            {message.toolSteps.map(step => (
+              <ToolStep key={step.id} step={step} />
+            ))}
+          </div>
+        )}
+        {(message.content || !message.toolSteps?.length) && (
+          <div className="message-content">
+            {message.content}
+            {isStreaming && <span className="streaming-cursor">▍</span>}
+          </div>
+        )}
+        {message.codeChanges && message.codeChanges.some(change => change.kind) && (
+          <AgentChanges
+            changes={message.codeChanges}
+            status={message.codeChangesStatus || 'applied'}
+            onApply={onApplyChanges && (changes => onApplyChanges(message, changes))}
+            onReject={onRejectChanges && (() => onRejectChanges(message))}
+          />
+        )}
+        {message.codeChanges && message.codeChanges.length > 0 && !message.codeChanges.some(change => change.kind) && (
           <div className="code-changes">
             <div className="code-changes-header">
               📝 Code Changes Applied
             </div>
             {message.codeChanges.map((change, index) => (
-              <div key={index} className="code-change">
-                <div className="change-description">{change.description}</div>
-                <div className="change-file">File: {change.fileId}</div>
-              </div>
+              <FileDiff key={index} change={change} />
             ))}
           </div>
         )}
@@ -79,6 +156,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
             ))}
           </div>
         )}
+        {message.contextUsage && <ContextUsageDetails usage={message.contextUsage} />}
         <div className="message-timestamp">
           {formatTime(message.timestamp)}
         </div>
@@ -1,9 +1,12 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage as ChatMessageType, CodeSuggestion, LeoFile } from '../types';
+import { AgentToolStep, ChatMessage as ChatMessageType, CodeChange, CodeSuggestion, ContextUsage, LeoFile, LeoProject } from '../types';
 import ChatMessage from './ChatMessage';
+import FileHistoryDialog from './FileHistoryDialog';
 import LLMService, { ChatContext } from '../services/LLMService';
 import CodeAnalysisService from '../services/CodeAnalysisService';
-import CodeHistoryService from '../services/CodeHistoryService';
+import CodeHistoryService, { CodeHistoryEntry } from '../services/CodeHistoryService';
+import AgentEditService from '../services/AgentEditService';
+import AgentLoopService from '../services/AgentLoopService';
 import './ChatPanel.css';
 
 interface ChatPanelProps {
@@ -13,6 +16,8 @@ interface ChatPanelProps {
   context?: ChatContext;
   placeholder?: string;
   currentFile?: LeoFile;
+  project?: LeoProject;
+  onProjectUpdate?: (project: LeoProject, messages: ChatMessageType[]) => void;
 }
 
 const ChatPanel: React.FC<ChatPanelProps> = ({
@@ -21,11 +26,20 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
   onCodeUpdate,
   context,
   placeholder = "Ask me anything about your Leo project...",
-  currentFile
+  currentFile,
+  project,
+  onProjectUpdate
 }) => {
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [messageSuggestions, setMessageSuggestions] = useState<Map<string, CodeSuggestion[]>>(new Map());
+  const [streamingMessage, setStreamingMessage] = useState<ChatMessageType | null>(null);
+  const [activeRequestId, setActiveRequestId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const partialResponseRef = useRef('');
+  const toolStepsRef = useRef<AgentToolStep[]>([]);
+  // Latest project while the agent is patching files, so saving the chat doesn't revert its edits
+  const agentProjectRef = useRef<LeoProject | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -35,7 +49,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, isLoading]);
+  }, [messages, isLoading, streamingMessage?.content, streamingMessage?.toolSteps]);
 
   const adjustTextareaHeight = () => {
     const textarea = textareaRef.current;
@@ -76,39 +90,75 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
       // Create chat context with recent messages
       const chatContext: ChatContext = {
         ...context,
-        currentFile,
+        project,
+        currentFile: currentFile || context?.currentFile,
         recentMessages: updatedMessages.slice(-5) // Last 5 messages for context
       };
 
       let response: string;
       let suggestions: CodeSuggestion[] = [];
+      let codeChanges: CodeChange[] = [];
+      let contextUsage: ContextUsage | undefined;
 
-      // Check for specific Leo commands
       const lowerInput = currentInput.toLowerCase();
-      if (lowerInput.includes('compile') || lowerInput.includes('build')) {
-        // Handle compilation request
-        if (context?.projectId) {
-          // This would need access to the full project - for now, show a message
-          response = "🔨 I'll compile your Leo project. Let me check for any syntax errors and build the program...";
-        } else {
-          response = "To compile your project, I need access to the full project context. Please make sure you have a project loaded.";
-        }
-      } else if (lowerInput.includes('test')) {
-        // Handle test request
-        if (context?.projectId) {
-          response = "🧪 Running tests for your Leo project. I'll execute all test functions and show you the results...";
-        } else {
-          response = "To run tests, I need access to the full project context. Please make sure you have a project loaded.";
-        }
-      } else if (lowerInput.includes('export') || lowerInput.includes('package')) {
-        // Handle export request
-        response = "📦 I'll package your Leo project for export. This will create a deployable package with all necessary files...";
-      } else if ((lowerInput.includes('analyze') || lowerInput.includes('suggest') || lowerInput.includes('improve')) && currentFile && currentFile.type === 'leo') {
+      if ((lowerInput.includes('analyze') || lowerInput.includes('suggest') || lowerInput.includes('improve')) && currentFile && currentFile.type === 'leo') {
         const analysisResult = await LLMService.analyzeAndSuggest(currentFile.content, currentFile.name);
         response = analysisResult.analysis;
         suggestions = analysisResult.suggestions;
       } else {
-        response = await LLMService.chatWithAgent(currentInput, chatContext);
+        const requestId = LLMService.createRequestId();
+        partialResponseRef.current = '';
+        toolStepsRef.current = [];
+        agentProjectRef.current = null;
+        setActiveRequestId(requestId);
+        setStreamingMessage({
+          id: requestId,
+          content: '',
+          sender: 'agent',
+          timestamp: new Date()
+        });
+
+        const onToken = (content: string) => {
+          partialResponseRef.current = content;
+          setStreamingMessage(prev => prev && { ...prev, content });
+        };
+
+        let reply: { content: string; aborted: boolean; contextUsage?: ContextUsage };
+        if (project && onProjectUpdate) {
+          // The agent can compile, test, read and patch the project on its own
+          const result = await AgentLoopService.run(currentInput, { ...chatContext, project }, requestId, {
+            onToken,
+            onSteps: steps => {
+              toolStepsRef.current = steps;
+              setStreamingMessage(prev => prev && { ...prev, toolSteps: steps });
+            },
+            onProjectUpdate: updatedProject => {
+              agentProjectRef.current = updatedProject;
+              onProjectUpdate(updatedProject, updatedMessages);
+            }
+          });
+          reply = result;
+        } else {
+          reply = await LLMService.streamChatWithAgent(currentInput, chatContext, {
+            requestId,
+            onToken: (_delta, content) => onToken(content)
+          });
+        }
+
+        contextUsage = reply.contextUsage;
+        response = reply.aborted
+          ? `${reply.content}${reply.content ? '\n\n' : ''}⏹ Generation stopped`
+          : reply.content;
+
+        // Edits are only proposed from complete answers
+        if (project && !reply.aborted) {
+          const parsed = AgentEditService.parseReply(reply.content, agentProjectRef.current || project);
+          codeChanges = parsed.changes;
+          response = [
+            parsed.text || (codeChanges.length > 0 ? 'Here are the changes I propose:' : ''),
+            ...parsed.errors.map(error => `⚠️ ${error}`)
+          ].filter(Boolean).join('\n\n');
+        }
       }
 
       const agentMessageId = `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
@@ -116,7 +166,10 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
         id: agentMessageId,
         content: response,
         sender: 'agent',
-        timestamp: new Date()
+        timestamp: new Date(),
+        ...(codeChanges.length > 0 ? { codeChanges, codeChangesStatus: 'pending' as const } : {}),
+        ...(contextUsage ? { contextUsage } : {}),
+        ...(toolStepsRef.current.length > 0 ? { toolSteps: toolStepsRef.current } : {})
       };
 
       // Store suggestions for this message
@@ -124,23 +177,45 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
         setMessageSuggestions(prev => new Map(prev.set(agentMessageId, suggestions)));
       }
 
-      onMessagesUpdate([...updatedMessages, agentMessage]);
+      saveMessages([...updatedMessages, agentMessage]);
     } catch (error) {
       console.error('Error sending message:', error);
       
+      // Keep whatever was streamed before the failure
+      const partial = partialResponseRef.current;
       const errorMessage: ChatMessageType = {
         id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        content: 'Sorry, I encountered an error. Please try again.',
+        content: `${partial ? `${partial}\n\n` : ''}Sorry, I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}`,
         sender: 'agent',
-        timestamp: new Date()
+        timestamp: new Date(),
+        ...(toolStepsRef.current.length > 0 ? { toolSteps: toolStepsRef.current } : {})
       };
 
-      onMessagesUpdate([...updatedMessages, errorMessage]);
+      saveMessages([...updatedMessages, errorMessage]);
     } finally {
+      partialResponseRef.current = '';
+      toolStepsRef.current = [];
+      agentProjectRef.current = null;
+      setStreamingMessage(null);
+      setActiveRequestId(null);
       setIsLoading(false);
     }
   };
 
+  const saveMessages = (newMessages: ChatMessageType[]) => {
+    if (agentProjectRef.current && onProjectUpdate) {
+      onProjectUpdate(agentProjectRef.current, newMessages);
+    } else {
+      onMessagesUpdate(newMessages);
+    }
+  };
+
+  const handleStopGeneration = () => {
+    if (activeRequestId) {
+      AgentLoopService.abort(activeRequestId);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -186,6 +261,33 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     onMessagesUpdate([...messages, changeMessage]);
   };
 
+  // `changes` may leave out files or hunks the user deselected
+  const handleApplyChanges = (message: ChatMessageType, changes: CodeChange[] = message.codeChanges || []) => {
+    if (!project || !onProjectUpdate || changes.length === 0) return;
+
+    try {
+      const updatedProject = AgentEditService.applyChanges(project, changes);
+      const updatedMessages = messages.map(m =>
+        m.id === message.id ? { ...m, codeChanges: changes, codeChangesStatus: 'applied' as const } : m
+      );
+      onProjectUpdate(updatedProject, updatedMessages);
+    } catch (error) {
+      const errorMessage: ChatMessageType = {
+        id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        content: `❌ ${error instanceof Error ? error.message : 'Unknown error'}`,
+        sender: 'agent',
+        timestamp: new Date()
+      };
+      onMessagesUpdate([...messages, errorMessage]);
+    }
+  };
+
+  const handleRejectChanges = (message: ChatMessageType) => {
+    onMessagesUpdate(messages.map(m =>
+      m.id === message.id ? { ...m, codeChangesStatus: 'rejected' as const } : m
+    ));
+  };
+
   const handleDismissSuggestion = (suggestionId: string) => {
     // Remove the suggestion from all messages
     setMessageSuggestions(prev => {
@@ -202,9 +304,31 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     });
   };
 
+  // Put the restored history entries of a multi-file change back into the project
+  const restoreGroup = (entries: { fileId: string; content: string }[], message: ChatMessageType) => {
+    if (!project || !onProjectUpdate) return;
+    const files = project.files.map(file => {
+      const entry = entries.find(candidate => candidate.fileId === file.id);
+      return entry ? { ...file, content: entry.content, isModified: true } : file;
+    });
+    onProjectUpdate({ ...project, files, updatedAt: new Date() }, [...messages, message]);
+  };
+
   const handleUndo = () => {
     if (!currentFile || !onCodeUpdate) return;
 
+    // A change spanning several files, like a rename, is undone everywhere at once
+    const currentEntry = CodeHistoryService.getCurrentEntry(currentFile.id);
+    if (currentEntry?.groupId && project && onProjectUpdate) {
+      restoreGroup(CodeHistoryService.undoGroup(currentEntry.groupId), {
+        id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        content: `↶ Undid: ${currentEntry.description}`,
+        sender: 'agent',
+        timestamp: new Date()
+      });
+      return;
+    }
+
     const previousEntry = CodeHistoryService.undo(currentFile.id);
     if (previousEntry) {
       onCodeUpdate(previousEntry.content, currentFile.id);
@@ -225,6 +349,15 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     if (!currentFile || !onCodeUpdate) return;
 
     const nextEntry = CodeHistoryService.redo(currentFile.id);
+    if (nextEntry?.groupId && project && onProjectUpdate) {
+      restoreGroup([nextEntry, ...CodeHistoryService.redoGroup(nextEntry.groupId)], {
+        id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        content: `↷ Redid: ${nextEntry.description}`,
+        sender: 'agent',
+        timestamp: new Date()
+      });
+      return;
+    }
     if (nextEntry) {
       onCodeUpdate(nextEntry.content, currentFile.id);
 
@@ -240,6 +373,24 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     }
   };
 
+  // `content` is the saved version, or the current file with only some of its hunks restored
+  const handleRestoreFromHistory = (content: string, entry: CodeHistoryEntry) => {
+    if (!currentFile || !onCodeUpdate) return;
+
+    const isPartial = content !== entry.content;
+    const description = `${isPartial ? 'Partly restored' : 'Restored'}: ${entry.description}`;
+    onCodeUpdate(content, currentFile.id);
+    CodeHistoryService.addEntry({ ...currentFile, content }, description, false);
+    setShowHistory(false);
+
+    onMessagesUpdate([...messages, {
+      id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      content: `↶ ${description}`,
+      sender: 'agent',
+      timestamp: new Date()
+    }]);
+  };
+
   return (
     <div className="chat-panel">
       <div className="chat-header">
@@ -266,6 +417,14 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
               >
                 ↷
               </button>
+              <button 
+                className="history-btn"
+                onClick={() => setShowHistory(true)}
+                title="Compare with earlier versions"
+                disabled={CodeHistoryService.getHistory(currentFile.id).length === 0}
+              >
+                🕘
+              </button>
               <button 
                 className="compile-btn"
                 onClick={() => setInputMessage('Compile my Leo project')}
@@ -320,10 +479,16 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
             suggestions={messageSuggestions.get(message.id) || []}
             onApplySuggestion={handleApplySuggestion}
             onDismissSuggestion={handleDismissSuggestion}
+            onApplyChanges={project && onProjectUpdate ? handleApplyChanges : undefined}
+            onRejectChanges={handleRejectChanges}
           />
         ))}
         
-        {isLoading && (
+        {streamingMessage && (streamingMessage.content || streamingMessage.toolSteps) && (
+          <ChatMessage message={streamingMessage} isStreaming={true} />
+        )}
+
+        {isLoading && !streamingMessage?.content && !streamingMessage?.toolSteps && (
           <ChatMessage 
             message={{
               id: 'typing',
@@ -350,23 +515,42 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
             disabled={isLoading}
             rows={1}
           />
-          <button 
-            className="send-button"
-            onClick={handleSendMessage}
-            disabled={!inputMessage.trim() || isLoading}
-            title="Send message (Enter)"
-          >
-            {isLoading ? (
-              <span className="loading-spinner">⏳</span>
-            ) : (
-              <span className="send-icon">➤</span>
-            )}
-          </button>
+          {activeRequestId ? (
+            <button 
+              className="send-button stop-button"
+              onClick={handleStopGeneration}
+              title="Stop generating"
+            >
+              <span className="stop-icon">■</span>
+            </button>
+          ) : (
+            <button 
+              className="send-button"
+              onClick={handleSendMessage}
+              disabled={!inputMessage.trim() || isLoading}
+              title="Send message (Enter)"
+            >
+              {isLoading ? (
+                <span className="loading-spinner">⏳</span>
+              ) : (
+                <span className="send-icon">➤</span>
+              )}
+            </button>
+          )}
         </div>
         <div className="input-hint">
           Press Enter to send, Shift+Enter for new line
         </div>
       </div>
+
+      {currentFile && (
+        <FileHistoryDialog
+          isOpen={showHistory}
+          file={currentFile}
+          onRestore={handleRestoreFromHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { LeoFile, LeoProject, ProjectCheckpoint } from '../types';
+import CheckpointService from '../services/CheckpointService';
+import CodeHistoryService from '../services/CodeHistoryService';
+import { FileDiff } from './AgentChanges';
+import MergeDialog from './MergeDialog';
+import './CheckpointsPanel.css';
+
+interface CheckpointsPanelProps {
+  project: LeoProject;
+  onProjectEdit: (project: LeoProject) => void;
+  onFork: (branch: LeoProject) => void;
+}
+
+interface Comparison {
+  title: string;
+  before: LeoFile[];
+  after: LeoFile[];
+}
+
+const CURRENT = 'current';
+
+/**
+ * Named checkpoints of the project, branches forked from it, and comparing or merging them
+ */
+const CheckpointsPanel: React.FC<CheckpointsPanelProps> = ({ project, onProjectEdit, onFork }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [name, setName] = useState('');
+  const [checkpoints, setCheckpoints] = useState<ProjectCheckpoint[]>([]);
+  const [branches, setBranches] = useState<LeoProject[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [mergingBranch, setMergingBranch] = useState<LeoProject | null>(null);
+
+  const refresh = async () => {
+    try {
+      const [projectCheckpoints, projectBranches] = await Promise.all([
+        CheckpointService.getCheckpoints(project.id),
+        CheckpointService.getBranches(project.id)
+      ]);
+      setCheckpoints([...projectCheckpoints].reverse());
+      setBranches(projectBranches);
+    } catch (error) {
+      console.error('Failed to load checkpoints:', error);
+    }
+  };
+
+  useEffect(() => {
+    setSelected([]);
+    if (isExpanded) refresh();
+  }, [project.id, isExpanded]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    await CheckpointService.createCheckpoint(project, name);
+    setName('');
+    await refresh();
+  });
+
+  const handleFork = () => run(async () => {
+    const branch = await CheckpointService.forkProject(project, name);
+    setName('');
+    onFork(branch);
+  });
+
+  const handleRestore = (checkpoint: ProjectCheckpoint) => {
+    if (!window.confirm(`Restore every file to checkpoint "${checkpoint.name}"? The current state stays in the timeline.`)) return;
+    const restored = CheckpointService.restoreCheckpoint(project, checkpoint);
+    CodeHistoryService.recordProjectChange(project, restored, 'user', `Restored checkpoint "${checkpoint.name}"`);
+    onProjectEdit(restored);
+  };
+
+  const handleDelete = (checkpoint: ProjectCheckpoint) => run(async () => {
+    const isForkBase = branches.some(branch => branch.branch?.baseCheckpointId === checkpoint.id);
+    const warning = isForkBase ? ' A branch was forked from it and could no longer be merged back.' : '';
+    if (!window.confirm(`Delete checkpoint "${checkpoint.name}"?${warning}`)) return;
+    await CheckpointService.deleteCheckpoint(project.id, checkpoint.id);
+    setSelected(prev => prev.filter(id => id !== checkpoint.id));
+    await refresh();
+  });
+
+  const handleMerge = (merged: LeoProject) => {
+    CodeHistoryService.recordProjectChange(project, merged, 'user', `Merged branch ${mergingBranch?.branch?.name}`);
+    onProjectEdit(merged);
+  };
+
+  // Keep the last two picks
+  const toggleSelected = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id].slice(-2)));
+  };
+
+  const compareSelected = () => {
+    const versions = [...checkpoints].reverse().filter(checkpoint => selected.includes(checkpoint.id))
+      .map(checkpoint => ({ name: checkpoint.name, files: checkpoint.files }));
+    if (selected.includes(CURRENT)) versions.push({ name: 'current project', files: project.files });
+    const [before, after] = versions;
+    setComparison({ title: `${before.name} → ${after.name}`, before: before.files, after: after.files });
+  };
+
+  const renderSelect = (id: string) => (
+    <input
+      type="checkbox"
+      checked={selected.includes(id)}
+      onChange={() => toggleSelected(id)}
+      title="Select two versions to compare"
+    />
+  );
+
+  return (
+    <div className={`checkpoints-panel ${isExpanded ? 'expanded' : ''}`}>
+      <button className="checkpoints-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="checkpoints-toggle">{isExpanded ? '▾' : '▸'}</span>
+        <span className="checkpoints-title">Checkpoints</span>
+        {project.branch && <span className="checkpoints-branch">⑂ {project.branch.name}</span>}
+      </button>
+
+      {isExpanded && (
+        <div className="checkpoints-body">
+          {project.branch && (
+            <div className="checkpoints-note">Branch of {project.branch.parentProjectName}; merge it from there</div>
+          )}
+
+          <div className="checkpoints-create">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="Name…"
+              spellCheck={false}
+            />
+            <button onClick={handleCreate} title="Save a checkpoint of every file">Save</button>
+            <button onClick={handleFork} disabled={!name.trim()} title="Fork the project into a branch with this name">
+              Fork
+            </button>
+          </div>
+
+          <div className="checkpoints-list">
+            <div className="checkpoint-item current">
+              {renderSelect(CURRENT)}
+              <span className="checkpoint-name">Current project</span>
+            </div>
+            {checkpoints.map(checkpoint => (
+              <div key={checkpoint.id} className="checkpoint-item">
+                {renderSelect(checkpoint.id)}
+                <span className="checkpoint-name" title={checkpoint.createdAt.toLocaleString()}>{checkpoint.name}</span>
+                <button onClick={() => handleRestore(checkpoint)} title="Restore this checkpoint">↶</button>
+                <button onClick={() => handleDelete(checkpoint)} title="Delete this checkpoint">✕</button>
+              </div>
+            ))}
+            {selected.length === 2 && (
+              <button className="checkpoints-compare" onClick={compareSelected}>Compare selected</button>
+            )}
+          </div>
+
+          {branches.length > 0 && (
+            <div className="checkpoints-branches">
+              <div className="checkpoints-subtitle">Branches</div>
+              {branches.map(branch => (
+                <div key={branch.id} className="checkpoint-item">
+                  <span className="checkpoint-name">⑂ {branch.branch?.name}</span>
+                  <button
+                    onClick={() => setComparison({ title: `current project → ${branch.branch?.name}`, before: project.files, after: branch.files })}
+                    title="Compare the branch with the current project"
+                  >
+                    ⇄
+                  </button>
+                  <button onClick={() => setMergingBranch(branch)} title="Merge the branch into this project">Merge</button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {comparison && (
+        <div className="checkpoints-dialog-overlay" onClick={() => setComparison(null)}>
+          <div className="checkpoints-dialog" onClick={(e) => e.stopPropagation()}>
+            <div className="checkpoints-dialog-header">
+              <span className="checkpoints-dialog-title">{comparison.title}</span>
+              <button className="checkpoints-dialog-close" onClick={() => setComparison(null)}>✕</button>
+            </div>
+            <div className="checkpoints-dialog-changes">
+              {(() => {
+                const changes = CheckpointService.toCodeChanges(
+                  CheckpointService.compare(comparison.before, comparison.after),
+                  comparison.title
+                );
+                return changes.length === 0
+                  ? <div className="checkpoints-note">No differences</div>
+                  : changes.map(change => <FileDiff key={change.fileId} change={change} />);
+              })()}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {mergingBranch && (
+        <MergeDialog
+          target={project}
+          branch={mergingBranch}
+          onApply={handleMerge}
+          onClose={() => setMergingBranch(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CheckpointsPanel;
\ No newline at end of file
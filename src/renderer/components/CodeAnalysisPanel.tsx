@@ -1,6 +1,8 @@
-import React, { useState } from 'react';
-import { CodeAnalysis, CodeSuggestion as CodeSuggestionType } from '../types';
+import React, { useMemo, useState } from 'react';
+import { CodeAnalysis, CodeMetrics, CodeSuggestion as CodeSuggestionType, FunctionMetrics } from '../types';
 import CodeSuggestion from './CodeSuggestion';
+import CodeAnalysisService from '../services/CodeAnalysisService';
+import CodeHistoryService from '../services/CodeHistoryService';
 import './CodeAnalysisPanel.css';
 
 interface CodeAnalysisPanelProps {
@@ -10,15 +12,103 @@ interface CodeAnalysisPanelProps {
   onDismissSuggestion: (suggestionId: string) => void;
   isVisible: boolean;
   onClose: () => void;
+  fileId?: string; // the analyzed file, whose saved versions make up the trend chart
 }
 
+type TrendSeries = 'complexity' | 'maintainability' | 'heavyOperations';
+
+const TREND_SERIES: Record<TrendSeries, { label: string; value: (metrics: CodeMetrics) => number }> = {
+  complexity: {
+    label: 'Complexity',
+    value: metrics => Math.max(1, ...metrics.functions.map(fn => fn.cyclomaticComplexity))
+  },
+  maintainability: {
+    label: 'Maintainability',
+    value: metrics => metrics.functions.length > 0
+      ? Math.round(metrics.functions.reduce((sum, fn) => sum + fn.maintainabilityIndex, 0) / metrics.functions.length)
+      : 100
+  },
+  heavyOperations: {
+    label: 'Hashes & signatures',
+    value: metrics => metrics.functions.reduce((sum, fn) => sum + getHeavyOperations(fn), 0)
+  }
+};
+
+const getHeavyOperations = (fn: FunctionMetrics) => fn.hashes + fn.signatureChecks;
+
+// Past these a function is flagged as likely expensive to prove
+const EXPENSIVE_COMPLEXITY = 10;
+const EXPENSIVE_OPERATIONS = 8;
+const EXPENSIVE_ITERATIONS = 64;
+
+const isExpensive = (fn: FunctionMetrics) =>
+  fn.cyclomaticComplexity > EXPENSIVE_COMPLEXITY ||
+  getHeavyOperations(fn) >= EXPENSIVE_OPERATIONS ||
+  fn.loopIterations >= EXPENSIVE_ITERATIONS;
+
+const MetricsTrend: React.FC<{ fileId: string; current: CodeMetrics }> = ({ fileId, current }) => {
+  const [series, setSeries] = useState<TrendSeries>('complexity');
+
+  // Every version in the file's history, ending with the analyzed content
+  const versions = useMemo(() => {
+    const history = CodeHistoryService.getHistory(fileId).map(entry => ({
+      label: `${entry.description} · ${new Date(entry.timestamp).toLocaleString()}`,
+      metrics: CodeAnalysisService.getMetrics(entry.content)
+    }));
+    return [...history, { label: 'Analyzed version', metrics: current }];
+  }, [fileId, current]);
+
+  if (versions.length < 2) {
+    return <div className="metrics-trend-empty">Save or edit the file to start a trend</div>;
+  }
+
+  const values = versions.map(version => TREND_SERIES[series].value(version.metrics));
+  const max = Math.max(1, ...values);
+  const width = 300;
+  const height = 80;
+  const points = values.map((value, index) => ({
+    x: (index / (values.length - 1)) * width,
+    y: height - (value / max) * height
+  }));
+
+  return (
+    <div className="metrics-trend">
+      <div className="metrics-trend-series">
+        {(Object.keys(TREND_SERIES) as TrendSeries[]).map(key => (
+          <button
+            key={key}
+            className={`trend-series-btn ${series === key ? 'active' : ''}`}
+            onClick={() => setSeries(key)}
+          >
+            {TREND_SERIES[key].label}
+          </button>
+        ))}
+      </div>
+      <svg className="metrics-trend-chart" viewBox={`-4 -4 ${width + 8} ${height + 8}`} preserveAspectRatio="none">
+        <polyline points={points.map(point => `${point.x},${point.y}`).join(' ')} />
+        {points.map((point, index) => (
+          <circle key={index} cx={point.x} cy={point.y} r={3}>
+            <title>{`${versions[index].label}: ${values[index]}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="metrics-trend-range">
+        <span>{values[0]}</span>
+        <span>{versions.length} versions</span>
+        <span>{values[values.length - 1]}</span>
+      </div>
+    </div>
+  );
+};
+
 const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
   analysis,
   suggestions,
   onApplySuggestion,
   onDismissSuggestion,
   isVisible,
-  onClose
+  onClose,
+  fileId
 }) => {
   const [activeTab, setActiveTab] = useState<'issues' | 'suggestions' | 'metrics'>('suggestions');
 
@@ -57,6 +147,8 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
 
   const complexityInfo = getComplexityLevel(analysis.complexity);
   const maintainabilityInfo = getMaintainabilityLevel(analysis.maintainabilityIndex);
+  const { metrics } = analysis;
+  const heavyOperations = metrics.functions.reduce((sum, fn) => sum + getHeavyOperations(fn), 0);
 
   return (
     <div className="code-analysis-panel">
@@ -179,6 +271,32 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
                 </div>
               </div>
 
+              <div className="metric-card">
+                <div className="metric-header">
+                  <span className="metric-icon">📄</span>
+                  <span className="metric-title">Lines of Code</span>
+                </div>
+                <div className="metric-value">
+                  {metrics.linesOfCode}
+                </div>
+                <div className="metric-label">
+                  {metrics.commentLines} comment lines
+                </div>
+              </div>
+
+              <div className="metric-card">
+                <div className="metric-header">
+                  <span className="metric-icon">🔐</span>
+                  <span className="metric-title">Heavy Operations</span>
+                </div>
+                <div className="metric-value">
+                  {heavyOperations}
+                </div>
+                <div className="metric-label">
+                  Hashes &amp; signatures
+                </div>
+              </div>
+
               <div className="metric-card">
                 <div className="metric-header">
                   <span className="metric-icon">🐛</span>
@@ -206,6 +324,59 @@ const CodeAnalysisPanel: React.FC<CodeAnalysisPanelProps> = ({
               </div>
             </div>
 
+            {metrics.functions.length > 0 && (
+              <div className="function-metrics">
+                <div className="suggestions-header">
+                  <span className="suggestions-icon">⚙️</span>
+                  Per Function
+                </div>
+                <table className="function-metrics-table">
+                  <thead>
+                    <tr>
+                      <th>Function</th>
+                      <th title="Lines of code">LOC</th>
+                      <th title="Cyclomatic complexity">CC</th>
+                      <th title="Deepest nesting of if, for and async blocks">Nest</th>
+                      <th title="Hash and commit calls, per unrolled loop iteration">Hash</th>
+                      <th title="Signature checks, per unrolled loop iteration">Sig</th>
+                      <th title="Loop iterations after unrolling">Loops</th>
+                      <th title="Maintainability index">MI</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {metrics.functions.map(fn => (
+                      <tr
+                        key={`${fn.variant}:${fn.name}:${fn.line}`}
+                        className={isExpensive(fn) ? 'expensive' : ''}
+                        title={isExpensive(fn) ? 'Likely expensive to prove' : undefined}
+                      >
+                        <td className="function-name">
+                          <span className="function-variant">{fn.variant}</span> {fn.name}
+                        </td>
+                        <td>{fn.linesOfCode}</td>
+                        <td style={{ color: getComplexityLevel(fn.cyclomaticComplexity).color }}>{fn.cyclomaticComplexity}</td>
+                        <td>{fn.nestingDepth}</td>
+                        <td>{fn.hashes}</td>
+                        <td>{fn.signatureChecks}</td>
+                        <td>{fn.loopIterations}</td>
+                        <td style={{ color: getMaintainabilityLevel(fn.maintainabilityIndex).color }}>{fn.maintainabilityIndex}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {fileId && (
+              <div className="metrics-trend-section">
+                <div className="suggestions-header">
+                  <span className="suggestions-icon">📈</span>
+                  Trend
+                </div>
+                <MetricsTrend fileId={fileId} current={metrics} />
+              </div>
+            )}
+
             {analysis.suggestions.length > 0 && (
               <div className="general-suggestions">
                 <div className="suggestions-header">
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { CodeSuggestion as CodeSuggestionType, CodeDiff } from '../types';
+import { CodeSuggestion as CodeSuggestionType } from '../types';
 import ConfirmationDialog from './ConfirmationDialog';
+import { FileDiff } from './AgentChanges';
 import './CodeSuggestion.css';
 
 interface CodeSuggestionProps {
@@ -17,6 +18,18 @@ const CodeSuggestion: React.FC<CodeSuggestionProps> = ({
   const [isExpanded, setIsExpanded] = useState(false);
   const [showDiff, setShowDiff] = useState(false);
   const [showConfirmation, setShowConfirmation] = useState(false);
+  // New content per change index where the user left some hunks out
+  const [selections, setSelections] = useState<Record<number, string>>({});
+
+  const selectedSuggestion: CodeSuggestionType = {
+    ...suggestion,
+    changes: suggestion.changes
+      .map((change, index) => (index in selections ? { ...change, newContent: selections[index] } : change))
+      .filter(change => change.newContent !== change.oldContent)
+  };
+  const isPartial = Object.keys(selections).some(index =>
+    selections[Number(index)] !== suggestion.changes[Number(index)].newContent
+  );
 
   const getCategoryIcon = (category: string) => {
     switch (category) {
@@ -47,7 +60,7 @@ const CodeSuggestion: React.FC<CodeSuggestionProps> = ({
 
   const handleConfirmApply = () => {
     setShowConfirmation(false);
-    onApply(suggestion);
+    onApply(selectedSuggestion);
   };
 
   const handleCancelApply = () => {
@@ -58,34 +71,11 @@ const CodeSuggestion: React.FC<CodeSuggestionProps> = ({
     onDismiss(suggestion.id);
   };
 
-  const renderCodeDiff = (change: any) => {
-    const oldLines = change.oldContent.split('\n');
-    const newLines = change.newContent.split('\n');
-    
-    return (
-      <div className="code-diff">
-        <div className="diff-header">
-          <span className="diff-file">📄 {change.description}</span>
-        </div>
-        <div className="diff-content">
-          <div className="diff-old">
-            <div className="diff-label">- Before</div>
-            <pre className="diff-code old">{change.oldContent}</pre>
-          </div>
-          <div className="diff-new">
-            <div className="diff-label">+ After</div>
-            <pre className="diff-code new">{change.newContent}</pre>
-          </div>
-        </div>
-      </div>
-    );
-  };
-
   return (
     <>
       <ConfirmationDialog
         isOpen={showConfirmation}
-        suggestion={suggestion}
+        suggestion={selectedSuggestion}
         onConfirm={handleConfirmApply}
         onCancel={handleCancelApply}
       />
@@ -144,7 +134,10 @@ const CodeSuggestion: React.FC<CodeSuggestionProps> = ({
               </div>
               {suggestion.changes.map((change, index) => (
                 <div key={index} className="change-item">
-                  {renderCodeDiff(change)}
+                  <FileDiff
+                    change={change}
+                    onSelectionChange={newContent => setSelections(prev => ({ ...prev, [index]: newContent }))}
+                  />
                 </div>
               ))}
             </div>
@@ -154,9 +147,10 @@ const CodeSuggestion: React.FC<CodeSuggestionProps> = ({
             <button
               className="apply-btn"
               onClick={handleApply}
-              title="Apply this suggestion"
+              title={isPartial ? 'Apply the selected changes' : 'Apply this suggestion'}
+              disabled={selectedSuggestion.changes.length === 0}
             >
-              ✅ Apply
+              {isPartial ? '✅ Apply selected' : '✅ Apply'}
             </button>
             <button
               className="dismiss-btn"
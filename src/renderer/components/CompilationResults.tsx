@@ -1,5 +1,5 @@
-import React from 'react';
-import { CompilationResult, TestResult } from '../services/LeoCompilationService';
+import React, { useEffect, useRef } from 'react';
+import { CompilationResult, TestResult, BuildOutputLine, RunSummary } from '../services/LeoCompilationService';
 import './CompilationResults.css';
 
 interface CompilationResultsProps {
@@ -10,14 +10,96 @@ interface CompilationResultsProps {
 interface TestResultsProps {
   result: TestResult;
   onClose?: () => void;
+  onRunTest?: (testName: string) => void;
 }
 
+interface BuildOutputProps {
+  title: string;
+  lines: Array<Pick<BuildOutputLine, 'stream' | 'line'>>;
+  isRunning: boolean;
+  onCancel?: () => void;
+}
+
+interface RunHistoryProps {
+  runs: RunSummary[];
+  selectedRunId: string | null;
+  onSelect: (run: RunSummary) => void;
+}
+
+export const BuildOutput: React.FC<BuildOutputProps> = ({ title, lines, isRunning, onCancel }) => {
+  const outputRef = useRef<HTMLPreElement>(null);
+
+  // Keep the newest line in view while the run is streaming
+  useEffect(() => {
+    if (isRunning && outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [lines.length, isRunning]);
+
+  return (
+    <div className="build-output">
+      <div className="build-output-header">
+        <span className="build-output-title">
+          {isRunning && <span className="spinner"></span>}
+          {title}
+        </span>
+        {isRunning && onCancel && (
+          <button className="cancel-run-button" onClick={onCancel} title="Stop this run">
+            ⏹ Cancel
+          </button>
+        )}
+      </div>
+      <pre className="build-output-lines" ref={outputRef}>
+        {lines.length === 0 && isRunning ? 'Waiting for output...' : null}
+        {lines.map((entry, index) => (
+          <div key={index} className={`output-line ${entry.stream}`}>{entry.line}</div>
+        ))}
+      </pre>
+    </div>
+  );
+};
+
+export const RunHistory: React.FC<RunHistoryProps> = ({ runs, selectedRunId, onSelect }) => {
+  if (runs.length === 0) {
+    return null;
+  }
+
+  const getRunIcon = (run: RunSummary) => {
+    if (!run.finishedAt) return '⏳';
+    if (run.canceled) return '⏹';
+    return run.success ? '✅' : '❌';
+  };
+
+  return (
+    <div className="run-history">
+      <h4>Previous Runs</h4>
+      <div className="run-history-list">
+        {runs.map(run => (
+          <button
+            key={run.runId}
+            className={`run-history-item ${selectedRunId === run.runId ? 'active' : ''}`}
+            onClick={() => onSelect(run)}
+          >
+            <span className="run-icon">{getRunIcon(run)}</span>
+            <span className="run-command">{run.command}</span>
+            <span className="run-time">{new Date(run.startedAt).toLocaleString()}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 export const CompilationResults: React.FC<CompilationResultsProps> = ({ result, onClose }) => {
   return (
     <div className="compilation-results">
       <div className="compilation-header">
         <div className="compilation-status">
-          {result.success ? (
+          {result.toolchainMissing ? (
+            <span className="status-warning">⚠️ Leo Toolchain Not Found</span>
+          ) : result.canceled ? (
+            <span className="status-warning">⏹ Compilation Canceled</span>
+          ) : result.success ? (
             <span className="status-success">✅ Compilation Successful</span>
           ) : (
             <span className="status-error">❌ Compilation Failed</span>
@@ -68,14 +150,22 @@ export const CompilationResults: React.FC<CompilationResultsProps> = ({ result,
   );
 };
 
-export const TestResults: React.FC<TestResultsProps> = ({ result, onClose }) => {
-  const passRate = (result.testsPassed / result.testsTotal) * 100;
+export const TestResults: React.FC<TestResultsProps> = ({ result, onClose, onRunTest }) => {
+  const passRate = result.testsTotal > 0 ? (result.testsPassed / result.testsTotal) * 100 : 0;
 
   return (
     <div className="test-results">
       <div className="test-header">
         <div className="test-status">
-          {result.success ? (
+          {result.toolchainMissing ? (
+            <span className="status-warning">⚠️ Leo Toolchain Not Found</span>
+          ) : result.canceled ? (
+            <span className="status-warning">⏹ Tests Canceled</span>
+          ) : result.error ? (
+            <span className="status-error">❌ Tests Could Not Run</span>
+          ) : result.testsTotal === 0 ? (
+            <span className="status-warning">⚠️ No Tests Found</span>
+          ) : result.success ? (
             <span className="status-success">✅ All Tests Passed</span>
           ) : (
             <span className="status-error">❌ Some Tests Failed</span>
@@ -101,6 +191,25 @@ export const TestResults: React.FC<TestResultsProps> = ({ result, onClose }) =>
         </div>
       </div>
 
+      {result.tests.length > 0 && (
+        <div className="test-cases">
+          {result.tests.map(test => (
+            <div key={test.name} className={`test-case ${test.passed ? 'passed' : 'failed'}`}>
+              <span className="test-case-icon">{test.passed ? '✅' : '🔴'}</span>
+              <span className="test-case-name">{test.name}</span>
+              {test.duration !== undefined && (
+                <span className="test-case-duration">{test.duration}ms</span>
+              )}
+              {onRunTest && (
+                <button className="test-case-run" onClick={() => onRunTest(test.name)} title="Run this test only">
+                  Run
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="test-output">
         <pre>{result.output}</pre>
       </div>
@@ -112,10 +221,12 @@ export const TestResults: React.FC<TestResultsProps> = ({ result, onClose }) =>
             <div key={index} className="failure-item">
               <div className="failure-name">🔴 {failure.testName}</div>
               <div className="failure-message">{failure.message}</div>
-              <div className="failure-details">
-                <div className="expected">Expected: <code>{failure.expected}</code></div>
-                <div className="actual">Actual: <code>{failure.actual}</code></div>
-              </div>
+              {(failure.expected || failure.actual) && (
+                <div className="failure-details">
+                  <div className="expected">Expected: <code>{failure.expected}</code></div>
+                  <div className="actual">Actual: <code>{failure.actual}</code></div>
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DiffHunk, DiffLine, applyHunks, diffLines, groupIntoHunks } from '../utils/lineDiff';
+import './DiffViewer.css';
+
+export type DiffViewMode = 'inline' | 'side-by-side';
+
+interface DiffViewerProps {
+  oldContent: string;
+  newContent: string;
+  initialMode?: DiffViewMode;
+  // When set, each hunk can be accepted or left out; called with the old content plus the accepted hunks
+  onSelectionChange?: (content: string) => void;
+}
+
+interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Removed lines sit next to the added lines that replace them
+const toRows = (lines: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === 'unchanged') {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === 'removed') removed.push(lines[index++]);
+    while (index < lines.length && lines[index].type === 'added') added.push(lines[index++]);
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row], right: added[row] });
+    }
+  }
+  return rows;
+};
+
+const MARKERS = { added: '+', removed: '-', unchanged: ' ' };
+
+const InlineLine: React.FC<{ line: DiffLine }> = ({ line }) => (
+  <div className={`diff-line ${line.type}`}>
+    <span className="diff-line-number">{line.oldLine ?? ''}</span>
+    <span className="diff-line-number">{line.newLine ?? ''}</span>
+    <span className="diff-line-marker">{MARKERS[line.type]}</span>
+    <span className="diff-line-content">{line.content}</span>
+  </div>
+);
+
+const SideBySideCell: React.FC<{ line?: DiffLine; side: 'left' | 'right' }> = ({ line, side }) => (
+  <div className={`diff-line ${line?.type ?? 'empty'}`}>
+    <span className="diff-line-number">{(side === 'left' ? line?.oldLine : line?.newLine) ?? ''}</span>
+    <span className="diff-line-marker">{line ? MARKERS[line.type] : ''}</span>
+    <span className="diff-line-content">{line?.content ?? ''}</span>
+  </div>
+);
+
+/**
+ * Line diff of two texts, inline or side by side, optionally letting the user
+ * pick which hunks to accept
+ */
+const DiffViewer: React.FC<DiffViewerProps> = ({ oldContent, newContent, initialMode = 'inline', onSelectionChange }) => {
+  const [mode, setMode] = useState<DiffViewMode>(initialMode);
+
+  const { lines, hunks } = useMemo(() => {
+    const diff = diffLines(oldContent, newContent);
+    return { lines: diff, hunks: groupIntoHunks(diff) };
+  }, [oldContent, newContent]);
+
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(hunks.map((_, index) => index)));
+
+  useEffect(() => {
+    setAccepted(new Set(hunks.map((_, index) => index)));
+  }, [hunks]);
+
+  const updateSelection = (next: Set<number>) => {
+    setAccepted(next);
+    onSelectionChange?.(next.size === hunks.length ? newContent : applyHunks(lines, hunks, next));
+  };
+
+  const toggleHunk = (index: number) => {
+    const next = new Set(accepted);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    updateSelection(next);
+  };
+
+  const renderHunk = (hunk: DiffHunk, index: number) => {
+    const isAccepted = accepted.has(index);
+    return (
+      <div key={index} className={`diff-hunk ${onSelectionChange && !isAccepted ? 'rejected' : ''}`}>
+        <div className="diff-hunk-header">
+          {onSelectionChange && (
+            <input
+              type="checkbox"
+              checked={isAccepted}
+              onChange={() => toggleHunk(index)}
+              title={isAccepted ? 'Leave this change out' : 'Include this change'}
+            />
+          )}
+          <span>@@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@</span>
+        </div>
+        {mode === 'inline'
+          ? hunk.lines.map((line, lineIndex) => <InlineLine key={lineIndex} line={line} />)
+          : toRows(hunk.lines).map((row, rowIndex) => (
+              <div key={rowIndex} className="diff-row">
+                <SideBySideCell line={row.left} side="left" />
+                <SideBySideCell line={row.right} side="right" />
+              </div>
+            ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`diff-viewer ${mode}`}>
+      <div className="diff-viewer-toolbar">
+        <div className="diff-viewer-modes">
+          <button className={mode === 'inline' ? 'active' : ''} onClick={() => setMode('inline')}>Inline</button>
+          <button className={mode === 'side-by-side' ? 'active' : ''} onClick={() => setMode('side-by-side')}>
+            Side by side
+          </button>
+        </div>
+        {onSelectionChange && hunks.length > 1 && (
+          <div className="diff-viewer-selection">
+            <span>{accepted.size} of {hunks.length} changes</span>
+            <button onClick={() => updateSelection(new Set(hunks.map((_, index) => index)))}>All</button>
+            <button onClick={() => updateSelection(new Set())}>None</button>
+          </div>
+        )}
+      </div>
+      {hunks.length === 0 ? (
+        <div className="diff-viewer-empty">No differences</div>
+      ) : (
+        hunks.map(renderHunk)
+      )}
+    </div>
+  );
+};
+
+export default DiffViewer;
\ No newline at end of file
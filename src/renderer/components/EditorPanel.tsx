@@ -1,81 +1,191 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import Editor from '@monaco-editor/react';
 import { useTheme } from '../contexts/ThemeContext';
-import { LeoFile } from '../types';
+import { LeoFile, LeoProject } from '../types';
 import FileTabs from './FileTabs';
 import CodeHistoryService from '../services/CodeHistoryService';
+import DiagnosticsService, { Diagnostic } from '../services/DiagnosticsService';
+import FormatterService from '../services/FormatterService';
+import LeoLanguageService, { LeoOutlineItem } from '../services/LeoLanguageService';
+import ProblemsPanel from './ProblemsPanel';
+import Breadcrumbs from './Breadcrumbs';
+import SymbolQuickPick from './SymbolQuickPick';
+import RenameDialog, { RenameRequest } from './RenameDialog';
+import { disposeStaleLeoModels, formatLeoEditor, registerLeoProviders, showLeoDiagnostics, updateLeoEditorContext } from '../utils/leoMonaco';
 import './EditorPanel.css';
 
+export interface EditorRevealRequest {
+  fileId: string;
+  line: number;
+  column: number;
+}
+
 interface EditorPanelProps {
+  project?: LeoProject;
+  revealRequest?: EditorRevealRequest | null; // a new object asks the editor to show that position
   currentFile: LeoFile | null;
   openFiles: LeoFile[];
   onFileChange: (content: string) => void;
   onFileSave: (file: LeoFile) => void;
   onFileSelect: (file: LeoFile) => void;
   onFileClose: (file: LeoFile) => void;
+  onProjectEdit?: (project: LeoProject) => void; // edits spanning several files, such as a rename
 }
 
 const EditorPanel: React.FC<EditorPanelProps> = ({
+  project,
+  revealRequest,
   currentFile,
   openFiles,
   onFileChange,
   onFileSave,
   onFileSelect,
-  onFileClose
+  onFileClose,
+  onProjectEdit
 }) => {
   const { theme } = useTheme();
   const editorRef = useRef<any>(null);
+  const monacoRef = useRef<any>(null);
   const [isEditorReady, setIsEditorReady] = useState(false);
-  const [lastSavedContent, setLastSavedContent] = useState<string>('');
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const [formatOnSave, setFormatOnSave] = useState(() => FormatterService.isFormatOnSave());
+  const [cursorOffset, setCursorOffset] = useState(0);
+  const [showSymbolPicker, setShowSymbolPicker] = useState(false);
+  const [renameRequest, setRenameRequest] = useState<RenameRequest | null>(null);
+  // The content-change listener is registered once, so it reads the current file and handlers through refs
+  const currentFileRef = useRef(currentFile);
+  currentFileRef.current = currentFile;
+  const lastSavedContentRef = useRef('');
+  const changeHandlersRef = useRef({ onFileChange, onFileSave });
+  changeHandlersRef.current = { onFileChange, onFileSave };
+  // The debounced auto-save waiting to run, with the content it will write
+  const pendingSaveRef = useRef<{ fileId: string; content: string; timeout: ReturnType<typeof setTimeout> } | null>(null);
+  // Cursor position to restore once a go-to-definition target file is shown
+  const pendingRevealRef = useRef<{ fileId: string; line: number; column: number } | null>(null);
 
   // Handle editor mount
   const handleEditorDidMount = (editor: any, monaco: any) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
     setIsEditorReady(true);
 
     // Configure Leo language syntax highlighting
     configureLeoLanguage(monaco);
+    showLeoDiagnostics(monaco, editor.getModel(), currentFile?.id, DiagnosticsService.getDiagnostics());
 
     // Set up keybindings
     editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
-      if (currentFile) {
-        const content = editor.getValue();
-        const updatedFile = { ...currentFile, content, isModified: false };
-        onFileSave(updatedFile);
-      }
+      saveRef.current();
+    });
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyT, () => {
+      setShowSymbolPicker(true);
+    });
+    editor.addAction({
+      id: 'leoforge.renameSymbol',
+      label: 'Rename Symbol',
+      keybindings: [monaco.KeyCode.F2],
+      contextMenuGroupId: '1_modification',
+      run: () => renameRef.current()
+    });
+
+    editor.onDidChangeCursorPosition((e: any) => {
+      setCursorOffset(editor.getModel()?.getOffsetAt(e.position) ?? 0);
     });
 
     // Auto-save on content change (debounced)
-    let saveTimeout: NodeJS.Timeout;
     editor.onDidChangeModelContent(() => {
       const content = editor.getValue();
-      onFileChange(content);
+      const editedFile = currentFileRef.current;
+      // The editor catching up with a file changed elsewhere (switching files, a rename) is not an edit,
+      // and a pending auto-save of that file would write back the text from before the change
+      if (!editedFile || content === editedFile.content) {
+        if (editedFile && pendingSaveRef.current?.fileId === editedFile.id) cancelPendingSave();
+        return;
+      }
+      changeHandlersRef.current.onFileChange(content);
       
       // Add to history if content has changed significantly
-      if (currentFile && content !== lastSavedContent) {
+      if (content !== lastSavedContentRef.current) {
         // Only add to history if the change is substantial (more than just whitespace)
-        const trimmedOld = lastSavedContent.trim();
+        const trimmedOld = lastSavedContentRef.current.trim();
         const trimmedNew = content.trim();
         if (trimmedOld !== trimmedNew) {
           CodeHistoryService.addEntry(
-            { ...currentFile, content: lastSavedContent }, 
+            { ...editedFile, content: lastSavedContentRef.current }, 
             'Manual edit', 
             false
           );
-          setLastSavedContent(content);
+          lastSavedContentRef.current = content;
         }
       }
       
-      // Debounced auto-save after 2 seconds of inactivity
-      clearTimeout(saveTimeout);
-      saveTimeout = setTimeout(() => {
-        if (currentFile) {
-          const updatedFile = { ...currentFile, content, isModified: false };
-          onFileSave(updatedFile);
-        }
+      // Debounced auto-save after 2 seconds of inactivity, of the file that was edited even if another tab is shown by then
+      cancelPendingSave();
+      const timeout = setTimeout(() => {
+        pendingSaveRef.current = null;
+        changeHandlersRef.current.onFileSave({ ...editedFile, content, isModified: false });
       }, 2000);
+      pendingSaveRef.current = { fileId: editedFile.id, content, timeout };
+    });
+  };
+
+  const cancelPendingSave = () => {
+    if (pendingSaveRef.current) {
+      clearTimeout(pendingSaveRef.current.timeout);
+      pendingSaveRef.current = null;
+    }
+  };
+
+  // Explicit saves (Ctrl+S, the Save button) format Leo files first when format-on-save is on
+  const saveEditorContent = () => {
+    const editor = editorRef.current;
+    if (!editor || !currentFile) return;
+
+    if (formatOnSave && currentFile.type === 'leo') {
+      const error = formatLeoEditor(editor);
+      if (error) console.warn(`Saved ${currentFile.name} without formatting: ${error}`);
+    }
+    onFileSave({ ...currentFile, content: editor.getValue(), isModified: false });
+  };
+  // The Ctrl+S command is bound once, so it calls through a ref to see the current file
+  const saveRef = useRef(saveEditorContent);
+  saveRef.current = saveEditorContent;
+
+  const startRename = () => {
+    const editor = editorRef.current;
+    if (!editor || !currentFile || currentFile.type !== 'leo' || !project || !onProjectEdit) return;
+    setRenameRequest({
+      document: { project, file: currentFile, content: editor.getValue() },
+      offset: editor.getModel().getOffsetAt(editor.getPosition())
     });
   };
+  const renameRef = useRef(startRename);
+  renameRef.current = startRename;
+
+  // Project-wide edits go through onProjectEdit, so linked projects are written to disk
+  const handleFormatProject = () => {
+    if (!project || !onProjectEdit) return;
+    const { project: formattedProject, formatted, failed } = FormatterService.formatProject(project);
+
+    if (formatted.length > 0) {
+      // Each file's previous version stays in its history
+      formatted.forEach(file => CodeHistoryService.addEntry(file, 'Format project'));
+      CodeHistoryService.recordProjectChange(project, formattedProject, 'user', 'Format project');
+      onProjectEdit(formattedProject);
+    }
+
+    // The files themselves show a successful run; only files left as they were need a word
+    if (failed.length > 0) {
+      const summary = formatted.length === 1 ? 'Formatted 1 file.' : `Formatted ${formatted.length} files.`;
+      const failures = failed.map(({ file, error }) => `${file.path}: ${error}`);
+      alert(`${summary}\n\nNot formatted:\n${failures.join('\n')}`);
+    }
+  };
+
+  const handleFormatOnSaveChange = (enabled: boolean) => {
+    setFormatOnSave(enabled);
+    FormatterService.setFormatOnSave(enabled);
+  };
 
   // Configure Leo language syntax highlighting
   const configureLeoLanguage = (monaco: any) => {
@@ -153,6 +263,9 @@ const EditorPanel: React.FC<EditorPanelProps> = ({
         { open: '"', close: '"' }
       ]
     });
+
+    // Completion, hover, signature help, go-to-definition and quick fixes
+    registerLeoProviders(monaco);
   };
 
   // Get Monaco theme based on current theme
@@ -163,10 +276,101 @@ const EditorPanel: React.FC<EditorPanelProps> = ({
   // Update last saved content when file changes
   useEffect(() => {
     if (currentFile) {
-      setLastSavedContent(currentFile.content);
+      lastSavedContentRef.current = currentFile.content;
+    }
+
+    const reveal = pendingRevealRef.current;
+    if (reveal && reveal.fileId === currentFile?.id) {
+      pendingRevealRef.current = null;
+      revealPosition(reveal.line, reveal.column);
     }
   }, [currentFile?.id]);
 
+  const revealPosition = (line: number, column: number) => {
+    if (!editorRef.current) return;
+    editorRef.current.setPosition({ lineNumber: line, column });
+    editorRef.current.revealLineInCenter(line);
+    editorRef.current.focus();
+  };
+
+  // Show a position in any project file, switching files if needed
+  const openFileAt = (file: LeoFile, line: number, column: number) => {
+    if (file.id === currentFile?.id) {
+      revealPosition(line, column);
+      return;
+    }
+    pendingRevealRef.current = { fileId: file.id, line, column };
+    onFileSelect(file);
+  };
+
+  const handleProblemSelect = (diagnostic: Diagnostic) => {
+    const file = project?.files.find(f => f.id === diagnostic.fileId);
+    if (file) {
+      openFileAt(file, Math.max(1, diagnostic.line), diagnostic.column || 1);
+    }
+  };
+
+  const revealSymbol = (item: LeoOutlineItem) => {
+    const file = project?.files.find(f => f.id === item.fileId);
+    if (file) {
+      openFileAt(file, item.nameSpan.start.line, item.nameSpan.start.column);
+    }
+  };
+
+  // Positions picked outside the editor, e.g. in the outline
+  useEffect(() => {
+    const file = revealRequest && project?.files.find(f => f.id === revealRequest.fileId);
+    if (revealRequest && file) {
+      openFileAt(file, revealRequest.line, revealRequest.column);
+    }
+  }, [revealRequest]);
+
+  // Declarations around the cursor, for the breadcrumbs
+  const symbolPath = useMemo(
+    () => currentFile?.type === 'leo' ? LeoLanguageService.getSymbolPath(currentFile.id, currentFile.content, cursorOffset) : [],
+    [currentFile?.id, currentFile?.content, cursorOffset]
+  );
+
+  // Keep the language providers pointed at what this editor shows
+  useEffect(() => {
+    updateLeoEditorContext({ project, file: currentFile, openFile: openFileAt });
+  }, [project, currentFile, onFileSelect]);
+
+  useEffect(() => {
+    if (isEditorReady && monacoRef.current) {
+      disposeStaleLeoModels(monacoRef.current, project);
+    }
+  }, [project, isEditorReady]);
+
+  useEffect(() => DiagnosticsService.subscribe(setDiagnostics), []);
+
+  // An edit made outside the editor (formatting, a rename, an agent edit) supersedes a pending auto-save of that file
+  useEffect(() => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    const file = currentFile?.id === pending.fileId ? currentFile : project?.files.find(f => f.id === pending.fileId);
+    if (file && file.content !== pending.content) {
+      cancelPendingSave();
+    }
+  }, [project, currentFile?.content]);
+
+  useEffect(() => cancelPendingSave, []);
+
+  // Recheck the project in the background as files change
+  useEffect(() => {
+    if (project) {
+      DiagnosticsService.scheduleCheck(project);
+    } else {
+      DiagnosticsService.clear();
+    }
+  }, [project]);
+
+  useEffect(() => {
+    if (isEditorReady && monacoRef.current && editorRef.current) {
+      showLeoDiagnostics(monacoRef.current, editorRef.current.getModel(), currentFile?.id, diagnostics);
+    }
+  }, [diagnostics, currentFile?.id, isEditorReady]);
+
   // Editor options
   const editorOptions = {
     minimap: { enabled: true },
@@ -206,16 +410,38 @@ const EditorPanel: React.FC<EditorPanelProps> = ({
           )}
         </div>
         <div className="header-right">
+          {project && (
+            <button
+              className="symbol-button"
+              onClick={() => setShowSymbolPicker(true)}
+              title="Go to symbol in project (Ctrl+T)"
+            >
+              Go to Symbol
+            </button>
+          )}
+          {project && onProjectEdit && project.files.some(file => file.type === 'leo') && (
+            <button
+              className="symbol-button"
+              onClick={handleFormatProject}
+              title="Format every Leo file in the project"
+            >
+              Format Project
+            </button>
+          )}
+          {currentFile?.type === 'leo' && (
+            <label className="format-on-save" title="Format Leo files when saving with Ctrl+S or the Save button">
+              <input
+                type="checkbox"
+                checked={formatOnSave}
+                onChange={e => handleFormatOnSaveChange(e.target.checked)}
+              />
+              Format on save
+            </label>
+          )}
           {currentFile && (
             <button 
               className="save-button"
-              onClick={() => {
-                if (editorRef.current && currentFile) {
-                  const content = editorRef.current.getValue();
-                  const updatedFile = { ...currentFile, content, isModified: false };
-                  onFileSave(updatedFile);
-                }
-              }}
+              onClick={saveEditorContent}
               disabled={!currentFile.isModified}
             >
               Save (Ctrl+S)
@@ -224,6 +450,8 @@ const EditorPanel: React.FC<EditorPanelProps> = ({
         </div>
       </div>
 
+      {currentFile && <Breadcrumbs file={currentFile} symbols={symbolPath} onSelect={revealSymbol} />}
+
       <div className="editor-container">
         {currentFile ? (
           <Editor
@@ -244,6 +472,32 @@ const EditorPanel: React.FC<EditorPanelProps> = ({
           </div>
         )}
       </div>
+
+      {project && <ProblemsPanel diagnostics={diagnostics} onSelect={handleProblemSelect} />}
+
+      {project && (
+        <SymbolQuickPick
+          isOpen={showSymbolPicker}
+          project={project}
+          onSelect={revealSymbol}
+          onClose={() => {
+            setShowSymbolPicker(false);
+            editorRef.current?.focus();
+          }}
+        />
+      )}
+
+      {project && onProjectEdit && (
+        <RenameDialog
+          request={renameRequest}
+          project={project}
+          onApply={onProjectEdit}
+          onClose={() => {
+            setRenameRequest(null);
+            editorRef.current?.focus();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -1,4 +1,5 @@
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import RecoveryService from '../services/RecoveryService';
 import './ErrorBoundary.css';
 
 interface Props {
@@ -24,6 +25,8 @@ class ErrorBoundary extends Component<Props, State> {
 
   componentDidCatch(error: Error, errorInfo: ErrorInfo) {
     console.error('ErrorBoundary caught an error:', error, errorInfo);
+    // Journal unsaved buffers now, in case the reload below or a crash follows
+    RecoveryService.flush();
     this.setState({
       error,
       errorInfo
@@ -50,6 +53,9 @@ class ErrorBoundary extends Component<Props, State> {
             <div className="error-icon">⚠️</div>
             <h2>Something went wrong</h2>
             <p>An unexpected error occurred in the application.</p>
+            {RecoveryService.isAvailable() && (
+              <p>Unsaved changes are kept and will be offered for recovery if you reload.</p>
+            )}
             
             {this.state.error && (
               <details className="error-details">
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { LeoFile } from '../types';
+import CodeHistoryService, { CodeHistoryEntry } from '../services/CodeHistoryService';
+import DiffViewer from './DiffViewer';
+import './FileHistoryDialog.css';
+
+interface FileHistoryDialogProps {
+  isOpen: boolean;
+  file: LeoFile;
+  onRestore: (content: string, entry: CodeHistoryEntry) => void;
+  onClose: () => void;
+}
+
+/**
+ * Compare the current file with any saved version and bring back all or part of it
+ */
+const FileHistoryDialog: React.FC<FileHistoryDialogProps> = ({ isOpen, file, onRestore, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoredContent, setRestoredContent] = useState<string | null>(null);
+
+  const entries = isOpen ? [...CodeHistoryService.getHistory(file.id)].reverse() : [];
+  const selected = entries.find(entry => entry.id === selectedId) || entries.find(entry => entry.content !== file.content);
+
+  useEffect(() => {
+    setRestoredContent(null);
+  }, [selected?.id, file.content]);
+
+  useEffect(() => {
+    if (isOpen) setSelectedId(null);
+  }, [isOpen, file.id]);
+
+  if (!isOpen) return null;
+
+  const content = restoredContent ?? selected?.content;
+
+  return (
+    <div className="file-history-overlay" onClick={onClose}>
+      <div className="file-history-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="file-history-header">
+          <span className="file-history-title">History of {file.name}</span>
+          <button className="file-history-close" onClick={onClose}>✕</button>
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="file-history-empty">No saved versions of this file yet</div>
+        ) : (
+          <div className="file-history-body">
+            <div className="file-history-list">
+              {entries.map(entry => (
+                <button
+                  key={entry.id}
+                  className={`file-history-entry ${entry.id === selected?.id ? 'selected' : ''}`}
+                  onClick={() => setSelectedId(entry.id)}
+                >
+                  <span className="file-history-author">{entry.isAgentChange ? '🤖' : '👤'}</span>
+                  <span className="file-history-description">{entry.description}</span>
+                  <span className="file-history-time">{entry.timestamp.toLocaleString()}</span>
+                </button>
+              ))}
+            </div>
+            <div className="file-history-diff">
+              {selected ? (
+                <DiffViewer
+                  oldContent={file.content}
+                  newContent={selected.content}
+                  initialMode="side-by-side"
+                  onSelectionChange={setRestoredContent}
+                />
+              ) : (
+                <div className="file-history-empty">Every saved version matches the current file</div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="file-history-actions">
+          <button className="file-history-cancel" onClick={onClose}>Close</button>
+          <button
+            className="file-history-restore"
+            onClick={() => selected && content !== undefined && onRestore(content, selected)}
+            disabled={!selected || content === file.content}
+          >
+            {restoredContent !== null && restoredContent !== selected?.content ? 'Restore selected changes' : 'Restore this version'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FileHistoryDialog;
\ No newline at end of file
@@ -23,6 +23,7 @@ interface FileTreeItemProps {
   isSelected: boolean;
   onSelect: (file: LeoFile) => void;
   onDelete: (file: LeoFile) => void;
+  isLinked?: boolean; // the project mirrors a folder on disk
 }
 
 const ProjectSelector: React.FC<ProjectSelectorProps> = ({
@@ -108,7 +109,8 @@ const FileTreeItem: React.FC<FileTreeItemProps> = ({
   file,
   isSelected,
   onSelect,
-  onDelete
+  onDelete,
+  isLinked
 }) => {
   const [showContextMenu, setShowContextMenu] = useState(false);
   const [isRenaming, setIsRenaming] = useState(false);
@@ -133,7 +135,8 @@ const FileTreeItem: React.FC<FileTreeItemProps> = ({
   };
 
   const handleDelete = () => {
-    if (window.confirm(`Are you sure you want to delete ${file.name}?`)) {
+    const warning = isLinked ? ' It is also deleted from the linked folder.' : '';
+    if (window.confirm(`Are you sure you want to delete ${file.name}?${warning}`)) {
       onDelete(file);
     }
     setShowContextMenu(false);
@@ -305,6 +308,7 @@ const FileTree: React.FC<FileTreeProps> = ({
                 isSelected={currentFile?.id === file.id}
                 onSelect={onFileSelect}
                 onDelete={onFileDelete}
+                isLinked={!!project.workspaceRoot}
               />
             ))}
           </div>
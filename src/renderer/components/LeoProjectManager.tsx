@@ -1,8 +1,14 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { LeoProject } from '../types';
 import { LeoTemplateService } from '../services/LeoTemplateService';
-import { LeoCompilationService, CompilationResult, TestResult } from '../services/LeoCompilationService';
-import { CompilationResults, TestResults } from './CompilationResults';
+import {
+  LeoCompilationService,
+  CompilationResult,
+  TestResult,
+  BuildOutputLine,
+  RunSummary
+} from '../services/LeoCompilationService';
+import { CompilationResults, TestResults, BuildOutput, RunHistory } from './CompilationResults';
 import './LeoProjectManager.css';
 
 interface LeoProjectManagerProps {
@@ -24,13 +30,44 @@ export const LeoProjectManager: React.FC<LeoProjectManagerProps> = ({
   const [compilationResult, setCompilationResult] = useState<CompilationResult | null>(null);
   const [testResult, setTestResult] = useState<TestResult | null>(null);
   const [showResults, setShowResults] = useState(false);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [outputTitle, setOutputTitle] = useState('');
+  const [outputLines, setOutputLines] = useState<Array<Pick<BuildOutputLine, 'stream' | 'line'>>>([]);
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  const refreshRuns = useCallback(async () => {
+    try {
+      setRuns(await LeoCompilationService.listRuns(project.id));
+    } catch (error) {
+      console.error('Failed to load run history:', error);
+    }
+  }, [project.id]);
+
+  useEffect(() => {
+    refreshRuns();
+  }, [refreshRuns]);
+
+  const startRun = (title: string): string => {
+    const runId = LeoCompilationService.createRunId();
+    setActiveRunId(runId);
+    setSelectedRunId(runId);
+    setOutputTitle(title);
+    setOutputLines([]);
+    return runId;
+  };
+
+  const appendOutput = (line: BuildOutputLine) => {
+    setOutputLines(prev => [...prev, line]);
+  };
 
   const handleCompile = async () => {
     setIsCompiling(true);
     setShowResults(false);
+    const runId = startRun('leo build');
     
     try {
-      const result = await LeoCompilationService.compileProject(project);
+      const result = await LeoCompilationService.compileProject(project, { runId, onOutput: appendOutput });
       setCompilationResult(result);
       setShowResults(true);
       onCompilationResult?.(result);
@@ -38,15 +75,35 @@ export const LeoProjectManager: React.FC<LeoProjectManagerProps> = ({
       console.error('Compilation failed:', error);
     } finally {
       setIsCompiling(false);
+      setActiveRunId(null);
+      refreshRuns();
     }
   };
 
-  const handleTest = async () => {
+  const handleCancelRun = async () => {
+    if (activeRunId) {
+      await LeoCompilationService.cancelRun(activeRunId);
+    }
+  };
+
+  const handleSelectRun = async (run: RunSummary) => {
+    if (activeRunId) return;
+
+    const log = await LeoCompilationService.getRunLog(project.id, run.runId);
+    if (log) {
+      setSelectedRunId(run.runId);
+      setOutputTitle(`${log.summary.command} · ${new Date(log.summary.startedAt).toLocaleString()}`);
+      setOutputLines(log.lines);
+    }
+  };
+
+  const handleTest = async (testName?: string) => {
     setIsTesting(true);
     setShowResults(false);
+    const runId = startRun(testName ? `leo test ${testName}` : 'leo test');
     
     try {
-      const result = await LeoCompilationService.runTests(project);
+      const result = await LeoCompilationService.runTests(project, { runId, onOutput: appendOutput, testName });
       setTestResult(result);
       setShowResults(true);
       onTestResult?.(result);
@@ -54,9 +111,16 @@ export const LeoProjectManager: React.FC<LeoProjectManagerProps> = ({
       console.error('Testing failed:', error);
     } finally {
       setIsTesting(false);
+      setActiveRunId(null);
+      refreshRuns();
     }
   };
 
+  const handleRunSingleTest = (testName: string) => {
+    if (activeRunId) return;
+    handleTest(testName);
+  };
+
   const handleExport = async () => {
     setIsExporting(true);
     
@@ -127,8 +191,8 @@ export const LeoProjectManager: React.FC<LeoProjectManagerProps> = ({
 
         <button 
           className="action-button test-button"
-          onClick={handleTest}
-          disabled={isTesting}
+          onClick={() => handleTest()}
+          disabled={isTesting || isCompiling}
         >
           {isTesting ? (
             <>
@@ -160,6 +224,15 @@ export const LeoProjectManager: React.FC<LeoProjectManagerProps> = ({
         </button>
       </div>
 
+      {(activeRunId || outputLines.length > 0) && (
+        <BuildOutput
+          title={outputTitle}
+          lines={outputLines}
+          isRunning={!!activeRunId}
+          onCancel={handleCancelRun}
+        />
+      )}
+
       {showResults && (
         <div className="results-section">
           {compilationResult && (
@@ -173,11 +246,18 @@ export const LeoProjectManager: React.FC<LeoProjectManagerProps> = ({
             <TestResults 
               result={testResult}
               onClose={() => setTestResult(null)}
+              onRunTest={isTesting ? undefined : handleRunSingleTest}
             />
           )}
         </div>
       )}
 
+      <RunHistory
+        runs={runs}
+        selectedRunId={selectedRunId}
+        onSelect={handleSelectRun}
+      />
+
       <div className="project-structure">
         <h4>Project Structure</h4>
         <div className="file-list">
@@ -2,21 +2,29 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useTheme } from '../contexts/ThemeContext';
 import { useApp } from '../contexts/AppContext';
 import ChatPanel from './ChatPanel';
-import EditorPanel from './EditorPanel';
+import EditorPanel, { EditorRevealRequest } from './EditorPanel';
 import FileTree from './FileTree';
+import OutlinePanel from './OutlinePanel';
+import TimelinePanel from './TimelinePanel';
+import CheckpointsPanel from './CheckpointsPanel';
 import ThemeToggle from './ThemeToggle';
 import ProjectSwitcher from './ProjectSwitcher';
+import SettingsPanel from './SettingsPanel';
 import { ChatMessage, LeoFile, LeoProject } from '../types';
 import MultiProjectChatManager from '../services/MultiProjectChatManager';
 import WorkflowService from '../services/WorkflowService';
+import CodeHistoryService from '../services/CodeHistoryService';
+import RecoveryService from '../services/RecoveryService';
 import './MainInterface.css';
 
 const MainInterface: React.FC = () => {
   const { } = useTheme();
-  const { state, updateProject, switchToProject, createNewProject } = useApp();
+  const { state, addProject, updateProject, switchToProject, createNewProject } = useApp();
   const [currentFile, setCurrentFile] = useState<LeoFile | null>(null);
   const [openFiles, setOpenFiles] = useState<LeoFile[]>([]);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [showSettings, setShowSettings] = useState(false);
+  const [revealRequest, setRevealRequest] = useState<EditorRevealRequest | null>(null);
   
   // Resizable panel state
   const [sidebarWidth, setSidebarWidth] = useState(250);
@@ -24,6 +32,9 @@ const MainInterface: React.FC = () => {
   const [isResizingSidebar, setIsResizingSidebar] = useState(false);
   const [isResizingChat, setIsResizingChat] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Handlers that await a disk write read the project through a ref to see edits made meanwhile
+  const currentProjectRef = useRef(state.currentProject);
+  currentProjectRef.current = state.currentProject;
 
   // Set the first file as current when project changes and load editor state
   useEffect(() => {
@@ -64,6 +75,20 @@ const MainInterface: React.FC = () => {
     setChatMessages(messages);
   }, [state.currentProject]);
 
+  // Undo history and the timeline are kept per project
+  useEffect(() => {
+    if (state.currentProject) {
+      CodeHistoryService.openProject(state.currentProject);
+    }
+  }, [state.currentProject?.id]);
+
+  // Unsaved buffers are journaled so a crash or a forced quit does not lose them
+  useEffect(() => {
+    if (state.currentProject) {
+      RecoveryService.track(state.currentProject);
+    }
+  }, [state.currentProject]);
+
   // Resize handlers
   const handleSidebarResize = useCallback((e: MouseEvent) => {
     if (!isResizingSidebar || !containerRef.current) return;
@@ -119,14 +144,14 @@ const MainInterface: React.FC = () => {
     }
   };
 
-  const handleMessagesUpdate = async (messages: ChatMessage[]) => {
+  const handleMessagesUpdate = async (messages: ChatMessage[], baseProject: LeoProject | null = state.currentProject) => {
     setChatMessages(messages);
     
-    if (state.currentProject) {
+    if (baseProject) {
       try {
         // Update project chat history
         const updatedProject = {
-          ...state.currentProject,
+          ...baseProject,
           chatHistory: messages,
           updatedAt: new Date()
         };
@@ -137,8 +162,14 @@ const MainInterface: React.FC = () => {
         
         // Add new messages to chat manager
         const currentMessages = MultiProjectChatManager.getActiveProjectMessages();
+        const changedMessages = messages
+          .slice(0, currentMessages.length)
+          .filter((message, index) => message !== currentMessages[index] && message.id === currentMessages[index].id);
         const newMessages = messages.slice(currentMessages.length);
         
+        for (const message of changedMessages) {
+          await MultiProjectChatManager.updateMessage(message);
+        }
         for (const message of newMessages) {
           await MultiProjectChatManager.addMessage(message);
         }
@@ -148,19 +179,68 @@ const MainInterface: React.FC = () => {
     }
   };
 
-  const handleCodeUpdate = (code: string) => {
+  // Keep the open tabs in step with a project whose files were changed, created or deleted
+  const syncOpenFiles = (updatedProject: LeoProject) => {
+    const findUpdated = (file: LeoFile) => updatedProject.files.find(f => f.id === file.id);
+    const remainingOpenFiles = openFiles.map(findUpdated).filter((file): file is LeoFile => !!file);
+
+    setOpenFiles(remainingOpenFiles);
+    setCurrentFile(prev => {
+      if (!prev) return prev;
+      return findUpdated(prev) || remainingOpenFiles[remainingOpenFiles.length - 1] || null;
+    });
+  };
+
+  // Folder-linked projects mirror every change to disk; files that could not be written stay modified
+  const writeToWorkspace = async (updatedProject: LeoProject): Promise<LeoProject> => {
+    const { project, errors } = await WorkflowService.syncProjectToWorkspace(state.currentProject, updatedProject);
+    if (errors.length > 0) {
+      WorkflowService.handleError(new Error(errors.join('\n')), 'MainInterface.writeToWorkspace');
+    }
+    return project;
+  };
+
+  // Agent edits can touch, create or delete any file in the project
+  const handleAgentProjectUpdate = async (updatedProject: LeoProject, messages: ChatMessage[]) => {
+    const writtenProject = await writeToWorkspace(updatedProject);
+    syncOpenFiles(writtenProject);
+    await handleMessagesUpdate(messages, writtenProject);
+  };
+
+  // Editor refactorings such as rename change several files at once
+  const handleProjectEdit = async (updatedProject: LeoProject) => {
+    const writtenProject = await writeToWorkspace(updatedProject);
+    syncOpenFiles(writtenProject);
+    try {
+      await WorkflowService.saveProjectChanges(writtenProject);
+      await updateProject(writtenProject);
+    } catch (error) {
+      WorkflowService.handleError(error as Error, 'MainInterface.projectEdit');
+    }
+  };
+
+  const handleProjectFork = async (branch: LeoProject) => {
+    try {
+      await addProject(branch);
+      await switchToProject(branch.id);
+    } catch (error) {
+      WorkflowService.handleError(error as Error, 'MainInterface.projectFork');
+    }
+  };
+
+  const handleCodeUpdate = async (code: string) => {
     if (currentFile && state.currentProject) {
       const updatedFile = { ...currentFile, content: code, isModified: true };
       const updatedFiles = state.currentProject.files.map(file => 
         file.id === currentFile.id ? updatedFile : file
       );
-      const updatedProject = {
+      const updatedProject = await writeToWorkspace({
         ...state.currentProject,
         files: updatedFiles,
         updatedAt: new Date()
-      };
+      });
       updateProject(updatedProject);
-      setCurrentFile(updatedFile);
+      setCurrentFile(updatedProject.files.find(file => file.id === currentFile.id) || updatedFile);
     }
   };
 
@@ -180,18 +260,30 @@ const MainInterface: React.FC = () => {
     }
   };
 
-  const handleFileSave = (file: LeoFile) => {
+  const handleFileSave = async (file: LeoFile) => {
     if (state.currentProject) {
-      const updatedFiles = state.currentProject.files.map(f => 
+      // Folder-linked projects are written back to disk; the file stays modified if that fails
+      try {
+        await WorkflowService.saveFileToWorkspace(state.currentProject, file);
+      } catch (error) {
+        file = { ...file, isModified: true };
+        WorkflowService.handleError(error as Error, 'MainInterface.fileSave');
+      }
+
+      // Edits made while the file was being written are in the latest project
+      const project = currentProjectRef.current?.id === state.currentProject.id ? currentProjectRef.current : state.currentProject;
+      const updatedFiles = project.files.map(f => 
         f.id === file.id ? file : f
       );
       const updatedProject = {
-        ...state.currentProject,
+        ...project,
         files: updatedFiles,
         updatedAt: new Date()
       };
+      CodeHistoryService.recordChange(updatedProject, 'user');
       updateProject(updatedProject);
-      setCurrentFile(file);
+      // A delayed auto-save can arrive after another tab was selected
+      setCurrentFile(prev => (prev?.id === file.id ? file : prev));
       
       // Update open files list
       setOpenFiles(prev => prev.map(f => f.id === file.id ? file : f));
@@ -238,12 +330,15 @@ const MainInterface: React.FC = () => {
     }
   };
 
-  const handleFileCreate = (name: string, type: 'leo' | 'md' | 'json') => {
+  const handleFileCreate = async (name: string, type: 'leo' | 'md' | 'json') => {
     if (state.currentProject) {
+      const fileName = name.includes('.') ? name : `${name}.${type}`;
+      // Linked Leo packages keep their sources under src/
+      const filePath = state.currentProject.workspaceRoot && type === 'leo' ? `src/${fileName}` : `/${fileName}`;
       const newFile: LeoFile = {
         id: Date.now().toString(),
-        name: name.includes('.') ? name : `${name}.${type}`,
-        path: `/${name.includes('.') ? name : `${name}.${type}`}`,
+        name: fileName,
+        path: filePath,
         content: getDefaultContent(type),
         type,
         isModified: false
@@ -255,12 +350,14 @@ const MainInterface: React.FC = () => {
         updatedAt: new Date()
       };
       
-      updateProject(updatedProject);
-      handleFileSelect(newFile);
+      CodeHistoryService.recordProjectChange(state.currentProject, updatedProject, 'user', `Created ${fileName}`);
+      const writtenProject = await writeToWorkspace(updatedProject);
+      updateProject(writtenProject);
+      handleFileSelect(writtenProject.files.find(f => f.id === newFile.id) || newFile);
     }
   };
 
-  const handleFileDelete = (file: LeoFile) => {
+  const handleFileDelete = async (file: LeoFile) => {
     if (state.currentProject) {
       const updatedFiles = state.currentProject.files.filter(f => f.id !== file.id);
       const updatedProject = {
@@ -269,7 +366,8 @@ const MainInterface: React.FC = () => {
         updatedAt: new Date()
       };
       
-      updateProject(updatedProject);
+      CodeHistoryService.recordProjectChange(state.currentProject, updatedProject, 'user', `Deleted ${file.name}`);
+      updateProject(await writeToWorkspace(updatedProject));
       handleFileClose(file);
     }
   };
@@ -310,9 +408,16 @@ Write your documentation here...`;
             onNewProject={createNewProject}
           />
         </div>
-        <ThemeToggle />
+        <div className="header-right">
+          <button className="settings-button" onClick={() => setShowSettings(true)} title="AI provider settings">
+            ⚙️ Settings
+          </button>
+          <ThemeToggle />
+        </div>
       </div>
 
+      <SettingsPanel isOpen={showSettings} onClose={() => setShowSettings(false)} />
+
       <div className="main-content" ref={containerRef}>
         <div 
           className="sidebar-section"
@@ -327,6 +432,30 @@ Write your documentation here...`;
               onFileDelete={handleFileDelete}
             />
           )}
+          {state.currentProject && (
+            <OutlinePanel
+              project={state.currentProject}
+              currentFile={currentFile}
+              onSelect={item => setRevealRequest({
+                fileId: item.fileId,
+                line: item.nameSpan.start.line,
+                column: item.nameSpan.start.column
+              })}
+            />
+          )}
+          {state.currentProject && (
+            <TimelinePanel
+              project={state.currentProject}
+              onRestore={handleProjectEdit}
+            />
+          )}
+          {state.currentProject && (
+            <CheckpointsPanel
+              project={state.currentProject}
+              onProjectEdit={handleProjectEdit}
+              onFork={handleProjectFork}
+            />
+          )}
         </div>
 
         <div 
@@ -342,6 +471,8 @@ Write your documentation here...`;
             messages={chatMessages}
             onMessagesUpdate={handleMessagesUpdate}
             onCodeUpdate={handleCodeUpdate}
+            project={state.currentProject || undefined}
+            onProjectUpdate={handleAgentProjectUpdate}
             context={{
               projectId: state.currentProject?.id,
               currentFile: currentFile || undefined,
@@ -358,12 +489,15 @@ Write your documentation here...`;
 
         <div className="editor-section">
           <EditorPanel
+            project={state.currentProject || undefined}
+            revealRequest={revealRequest}
             currentFile={currentFile}
             openFiles={openFiles}
             onFileChange={handleFileChange}
             onFileSave={handleFileSave}
             onFileSelect={handleFileSelect}
             onFileClose={handleFileClose}
+            onProjectEdit={handleProjectEdit}
           />
         </div>
       </div>
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { LeoProject } from '../types';
+import CheckpointService, { ConflictResolution, MergeFile, MergePlan } from '../services/CheckpointService';
+import { FileDiff } from './AgentChanges';
+import './MergeDialog.css';
+
+interface MergeDialogProps {
+  target: LeoProject;
+  branch: LeoProject;
+  onApply: (project: LeoProject) => void;
+  onClose: () => void;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  current: 'Keep current',
+  branch: 'Take branch',
+  both: 'Keep both'
+};
+
+const countConflicts = (file: MergeFile) => file.chunks.filter(chunk => chunk.kind === 'conflict').length;
+
+const ConflictedFile: React.FC<{
+  file: MergeFile;
+  resolutions: ConflictResolution[];
+  onResolve: (index: number, resolution: ConflictResolution) => void;
+}> = ({ file, resolutions, onResolve }) => {
+  let conflictIndex = 0;
+  return (
+    <div className="merge-file conflict">
+      <div className="merge-file-header">
+        <span className="merge-file-path">{file.path}</span>
+        <span className="merge-file-status">
+          {resolutions.filter(Boolean).length} of {countConflicts(file)} conflicts resolved
+        </span>
+      </div>
+      {(file.current === null || file.branch === null) && (
+        <div className="merge-file-note">
+          {file.current === null ? 'Deleted here but edited on the branch' : 'Edited here but deleted on the branch'}
+        </div>
+      )}
+      <div className="merge-file-body">
+        {file.chunks.map((chunk, chunkIndex) => {
+          if (chunk.kind === 'clean') {
+            return <pre key={chunkIndex} className="merge-clean">{chunk.lines.join('\n')}</pre>;
+          }
+          const index = conflictIndex++;
+          const resolution = resolutions[index];
+          return (
+            <div key={chunkIndex} className={`merge-conflict ${resolution ? 'resolved' : ''}`}>
+              <div className="merge-conflict-sides">
+                <div className={`merge-conflict-side current ${resolution === 'branch' ? 'dropped' : ''}`}>
+                  <div className="merge-conflict-label">Current</div>
+                  <pre>{chunk.ours.join('\n')}</pre>
+                </div>
+                <div className={`merge-conflict-side branch ${resolution === 'current' ? 'dropped' : ''}`}>
+                  <div className="merge-conflict-label">Branch</div>
+                  <pre>{chunk.theirs.join('\n')}</pre>
+                </div>
+              </div>
+              <div className="merge-conflict-actions">
+                {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(option => (
+                  <button
+                    key={option}
+                    className={resolution === option ? 'active' : ''}
+                    onClick={() => onResolve(index, option)}
+                  >
+                    {RESOLUTION_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Merge what changed on a branch since it was forked back into its parent,
+ * resolving conflicting edits one by one
+ */
+const MergeDialog: React.FC<MergeDialogProps> = ({ target, branch, onApply, onClose }) => {
+  const [plan, setPlan] = useState<MergePlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution[]>>({});
+
+  useEffect(() => {
+    CheckpointService.planMerge(target, branch)
+      .then(setPlan)
+      .catch(planError => setError(planError instanceof Error ? planError.message : 'Unknown error'));
+  }, [target.id, branch.id]);
+
+  const unresolved = (plan?.files || []).reduce(
+    (count, file) => count + countConflicts(file) - (resolutions[file.path] || []).filter(Boolean).length,
+    0
+  );
+
+  const handleResolve = (path: string, index: number, resolution: ConflictResolution) => {
+    setResolutions(prev => {
+      const fileResolutions = [...(prev[path] || [])];
+      fileResolutions[index] = resolution;
+      return { ...prev, [path]: fileResolutions };
+    });
+  };
+
+  const handleApply = () => {
+    if (!plan) return;
+    try {
+      onApply(CheckpointService.applyMerge(target, plan, resolutions));
+      onClose();
+    } catch (applyError) {
+      setError(applyError instanceof Error ? applyError.message : 'Unknown error');
+    }
+  };
+
+  return (
+    <div className="merge-dialog-overlay" onClick={onClose}>
+      <div className="merge-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="merge-dialog-header">
+          <span className="merge-dialog-title">Merge {branch.branch?.name} into {target.name}</span>
+          <button className="merge-dialog-close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="merge-dialog-body">
+          {error ? (
+            <div className="merge-dialog-message error">{error}</div>
+          ) : !plan ? (
+            <div className="merge-dialog-message">Comparing…</div>
+          ) : plan.files.length === 0 ? (
+            <div className="merge-dialog-message">Nothing to merge: every change on the branch is already here</div>
+          ) : (
+            plan.files.map(file => file.status === 'conflict' ? (
+              <ConflictedFile
+                key={file.path}
+                file={file}
+                resolutions={resolutions[file.path] || []}
+                onResolve={(index, resolution) => handleResolve(file.path, index, resolution)}
+              />
+            ) : (
+              <FileDiff
+                key={file.path}
+                change={{
+                  fileId: file.path,
+                  filePath: file.path,
+                  oldContent: file.current ?? '',
+                  newContent: file.merged ?? '',
+                  description: `Changed on ${plan.branchName}`,
+                  kind: file.current === null ? 'create' : file.merged === null ? 'delete' : 'modify'
+                }}
+              />
+            ))
+          )}
+        </div>
+
+        <div className="merge-dialog-actions">
+          {plan && unresolved > 0 && (
+            <span className="merge-dialog-pending">
+              {unresolved} {unresolved === 1 ? 'conflict' : 'conflicts'} left
+            </span>
+          )}
+          <button className="merge-dialog-cancel" onClick={onClose}>Cancel</button>
+          <button
+            className="merge-dialog-apply"
+            onClick={handleApply}
+            disabled={!plan || plan.files.length === 0 || unresolved > 0}
+          >
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeDialog;
\ No newline at end of file
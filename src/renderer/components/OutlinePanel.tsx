@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { LeoFile, LeoProject } from '../types';
+import LeoLanguageService, { LeoOutlineItem, LeoOutlineKind } from '../services/LeoLanguageService';
+import './OutlinePanel.css';
+
+interface OutlinePanelProps {
+  project: LeoProject;
+  currentFile: LeoFile | null;
+  onSelect: (item: LeoOutlineItem) => void;
+}
+
+const OUTLINE_ICONS: Record<LeoOutlineKind, string> = {
+  program: '📦',
+  struct: '🧩',
+  record: '🧾',
+  mapping: '🗂️',
+  const: '#',
+  transition: '⇄',
+  function: 'ƒ',
+  inline: 'ƒ',
+  finalize: '⏱',
+  script: '📜'
+};
+
+export const getOutlineIcon = (item: LeoOutlineItem): string =>
+  // Async functions are what finalize blocks became
+  item.isAsync && item.kind === 'function' ? OUTLINE_ICONS.finalize : OUTLINE_ICONS[item.kind];
+
+export const getOutlineKindLabel = (item: LeoOutlineItem): string =>
+  `${item.isAsync ? 'async ' : ''}${item.kind}`;
+
+const OutlineRow: React.FC<{ item: LeoOutlineItem; depth: number; onSelect: (item: LeoOutlineItem) => void }> = ({
+  item,
+  depth,
+  onSelect
+}) => (
+  <>
+    <div
+      className="outline-item"
+      style={{ paddingLeft: `${12 + depth * 14}px` }}
+      onClick={() => onSelect(item)}
+      title={`${getOutlineKindLabel(item)} ${item.name}${item.detail ? ` ${item.detail}` : ''}`}
+    >
+      <span className={`outline-icon ${item.kind}`}>{getOutlineIcon(item)}</span>
+      <span className="outline-name">{item.name}</span>
+      {item.detail && <span className="outline-detail">{item.detail}</span>}
+    </div>
+    {item.children.map(child => (
+      <OutlineRow key={`${child.kind}:${child.name}:${child.span.start.offset}`} item={child} depth={depth + 1} onSelect={onSelect} />
+    ))}
+  </>
+);
+
+const OutlinePanel: React.FC<OutlinePanelProps> = ({ project, currentFile, onSelect }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  // Files the user opened or closed; otherwise only the current file is expanded
+  const [toggledFiles, setToggledFiles] = useState<Record<string, boolean>>({});
+
+  const outlines = useMemo(
+    () => project.files
+      .filter(file => file.type === 'leo')
+      .map(file => ({ file, items: LeoLanguageService.getOutline(file.id, file.content) })),
+    [project.files]
+  );
+
+  const isFileExpanded = (file: LeoFile) => toggledFiles[file.id] ?? file.id === currentFile?.id;
+
+  const toggleFile = (file: LeoFile) => {
+    setToggledFiles(prev => ({ ...prev, [file.id]: !isFileExpanded(file) }));
+  };
+
+  return (
+    <div className={`outline-panel ${isExpanded ? 'expanded' : ''}`}>
+      <button className="outline-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="outline-toggle">{isExpanded ? '▾' : '▸'}</span>
+        <span className="outline-title">Outline</span>
+      </button>
+
+      {isExpanded && (
+        <div className="outline-list">
+          {outlines.length === 0 ? (
+            <div className="outline-empty">No Leo files in this project</div>
+          ) : (
+            outlines.map(({ file, items }) => (
+              <div key={file.id} className="outline-file">
+                <button
+                  className={`outline-file-header ${file.id === currentFile?.id ? 'current' : ''}`}
+                  onClick={() => toggleFile(file)}
+                  title={file.path}
+                >
+                  <span className="outline-toggle">{isFileExpanded(file) ? '▾' : '▸'}</span>
+                  <span className="outline-file-name">{file.name}</span>
+                </button>
+                {isFileExpanded(file) && (
+                  items.length === 0 ? (
+                    <div className="outline-empty">No declarations</div>
+                  ) : (
+                    items.map(item => (
+                      <OutlineRow key={`${item.kind}:${item.name}`} item={item} depth={0} onSelect={onSelect} />
+                    ))
+                  )
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutlinePanel;
\ No newline at end of file
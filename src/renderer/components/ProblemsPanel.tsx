@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Diagnostic } from '../services/DiagnosticsService';
+import { getRule } from '../lint';
+import FileSystemService from '../services/FileSystemService';
+import './ProblemsPanel.css';
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  onSelect: (diagnostic: Diagnostic) => void;
+}
+
+const SEVERITY_ICONS: Record<Diagnostic['severity'], string> = {
+  error: '❌',
+  warning: '⚠️',
+  info: 'ℹ️'
+};
+
+const openDocs = (docsUrl: string) => {
+  FileSystemService.openDocs(docsUrl).catch(error => console.error('Failed to open rule documentation:', error));
+};
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ diagnostics, onSelect }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [explainedId, setExplainedId] = useState<string | null>(null);
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.filter(d => d.severity === 'warning').length;
+  const infoCount = diagnostics.length - errorCount - warningCount;
+
+  return (
+    <div className={`problems-panel ${isExpanded ? 'expanded' : ''}`}>
+      <button className="problems-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="problems-toggle">{isExpanded ? '▾' : '▸'}</span>
+        <span className="problems-title">Problems</span>
+        <span className="problems-count error">{SEVERITY_ICONS.error} {errorCount}</span>
+        <span className="problems-count warning">{SEVERITY_ICONS.warning} {warningCount}</span>
+        <span className="problems-count info">{SEVERITY_ICONS.info} {infoCount}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="problems-list">
+          {diagnostics.length === 0 ? (
+            <div className="problems-empty">No problems detected in this project</div>
+          ) : (
+            diagnostics.map(diagnostic => {
+              const rule = diagnostic.code ? getRule(diagnostic.code) : undefined;
+              const docsUrl = rule?.docsUrl;
+              return (
+                <React.Fragment key={diagnostic.id}>
+                  <div
+                    className={`problem-item ${diagnostic.severity} ${diagnostic.fileId ? '' : 'unlocated'}`}
+                    onClick={() => diagnostic.fileId && onSelect(diagnostic)}
+                    title={diagnostic.fileId ? 'Go to problem' : undefined}
+                  >
+                    <span className="problem-icon">{SEVERITY_ICONS[diagnostic.severity]}</span>
+                    <span className="problem-message">{diagnostic.message}</span>
+                    {diagnostic.code && (
+                      <span className="problem-code" title={rule?.description}>{diagnostic.code}</span>
+                    )}
+                    {rule && (
+                      <button
+                        className="problem-explain"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setExplainedId(explainedId === diagnostic.id ? null : diagnostic.id);
+                        }}
+                        title="Why is this a problem?"
+                      >
+                        ?
+                      </button>
+                    )}
+                    <span className="problem-location">
+                      {diagnostic.fileName}
+                      {diagnostic.line > 0 && `:${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ''}`}
+                    </span>
+                  </div>
+                  {rule && explainedId === diagnostic.id && (
+                    <div className="problem-explanation">
+                      <strong>{rule.description}.</strong> {rule.docs}
+                      {docsUrl && (
+                        <div className="problem-docs-link">
+                          More in{' '}
+                          <a
+                            href={docsUrl}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              openDocs(docsUrl);
+                            }}
+                          >
+                            {docsUrl}
+                          </a>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </React.Fragment>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProblemsPanel;
\ No newline at end of file
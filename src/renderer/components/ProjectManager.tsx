@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { LeoProject } from '../types';
-import ProjectStorageService, { ProjectMetadata } from '../services/ProjectStorageService';
+import ProjectStorageService, { ProjectMetadata, StorageStats } from '../services/ProjectStorageService';
 import ConfirmationDialog from './ConfirmationDialog';
 import './ProjectManager.css';
 
@@ -22,6 +22,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
   const [projects, setProjects] = useState<ProjectMetadata[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [stats, setStats] = useState<StorageStats | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<{
     show: boolean;
     project: ProjectMetadata | null;
@@ -37,6 +38,7 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
       setError(null);
       const projectsMetadata = await ProjectStorageService.getAllProjectsMetadata();
       setProjects(projectsMetadata);
+      setStats(await ProjectStorageService.getStorageStats());
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load projects');
       console.error('Failed to load projects:', err);
@@ -113,7 +115,8 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
   const formatSize = (bytes: number): string => {
     if (bytes < 1024) return `${bytes} B`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
   };
 
   if (loading) {
@@ -213,6 +216,12 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
         )}
       </div>
 
+      {stats?.quota !== undefined && stats.usage !== undefined && (
+        <div className="project-storage" title={`Projects: ${formatSize(stats.totalSize)}`}>
+          {formatSize(stats.usage)} of {formatSize(stats.quota)} storage used
+        </div>
+      )}
+
       {deleteConfirm.show && deleteConfirm.project && (
         <ConfirmationDialog
           title="Delete Project"
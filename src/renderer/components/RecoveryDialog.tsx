@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { RecoverableFile } from '../services/RecoveryService';
+import DiffViewer from './DiffViewer';
+import './RecoveryDialog.css';
+
+interface RecoveryDialogProps {
+  files: RecoverableFile[];
+  onRestore: (files: RecoverableFile[]) => void;
+  onDiscard: (files: RecoverableFile[]) => void;
+}
+
+const fileKey = (file: RecoverableFile) => `${file.entry.projectId}/${file.entry.fileId}`;
+
+/**
+ * Offered on launch when unsaved buffers from the last session were left in the recovery journal
+ */
+const RecoveryDialog: React.FC<RecoveryDialogProps> = ({ files, onRestore, onDiscard }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(files.map(fileKey)));
+  const [shownKey, setShownKey] = useState(fileKey(files[0]));
+
+  const shown = files.find(file => fileKey(file) === shownKey) || files[0];
+  const selectedFiles = files.filter(file => selected.has(fileKey(file)));
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="recovery-overlay">
+      <div className="recovery-dialog">
+        <div className="recovery-header">
+          <span className="recovery-title">Recover unsaved changes</span>
+          <span className="recovery-subtitle">
+            {files.length === 1 ? 'A file was' : `${files.length} files were`} not saved when LeoForge last closed
+          </span>
+        </div>
+
+        <div className="recovery-body">
+          <div className="recovery-list">
+            {files.map(file => {
+              const key = fileKey(file);
+              return (
+                <div
+                  key={key}
+                  className={`recovery-entry ${key === fileKey(shown) ? 'shown' : ''}`}
+                  onClick={() => setShownKey(key)}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(key)}
+                    onChange={() => toggle(key)}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                  <span className="recovery-path">{file.entry.path}</span>
+                  <span className="recovery-project">
+                    {file.entry.projectName} · {new Date(file.entry.journaledAt).toLocaleString()}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+          <div className="recovery-diff">
+            {!shown.inProject ? (
+              <div className="recovery-note">This file is no longer in the project; restoring adds it back</div>
+            ) : shown.savedContent === null && (
+              <div className="recovery-note">No saved version of this file is known</div>
+            )}
+            <DiffViewer
+              key={fileKey(shown)}
+              oldContent={shown.savedContent ?? ''}
+              newContent={shown.entry.content}
+              initialMode="side-by-side"
+            />
+          </div>
+        </div>
+
+        <div className="recovery-actions">
+          {selectedFiles.length < files.length && (
+            <span className="recovery-pending">Unchecked files go back to their saved version</span>
+          )}
+          <button
+            className="recovery-discard"
+            onClick={() => window.confirm('Discard the unsaved changes of every file listed? They go back to their saved version.') && onDiscard(files)}
+          >
+            Discard all
+          </button>
+          <button
+            className="recovery-restore"
+            onClick={() => onRestore(selectedFiles)}
+            disabled={selectedFiles.length === 0}
+          >
+            Restore {selectedFiles.length === files.length ? 'all' : `${selectedFiles.length} selected`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryDialog;
\ No newline at end of file
@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LeoProject } from '../types';
+import { LeoDocument } from '../services/LeoLanguageService';
+import RenameService, { RenamePlan } from '../services/RenameService';
+import { FileDiff } from './AgentChanges';
+import './RenameDialog.css';
+
+export interface RenameRequest {
+  document: LeoDocument;
+  offset: number;
+}
+
+interface RenameDialogProps {
+  request: RenameRequest | null;
+  project: LeoProject;
+  onApply: (project: LeoProject) => void;
+  onClose: () => void;
+}
+
+/**
+ * Rename a symbol across the project, previewing every file it touches
+ */
+const RenameDialog: React.FC<RenameDialogProps> = ({ request, project, onApply, onClose }) => {
+  const [newName, setNewName] = useState('');
+  const [applyError, setApplyError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const prepared = useMemo(
+    () => (request ? RenameService.prepareRename(request.document, request.offset) : null),
+    [request]
+  );
+  const target = prepared?.target;
+
+  useEffect(() => {
+    setNewName(target?.symbol.name || '');
+    setApplyError(null);
+    setTimeout(() => inputRef.current?.select(), 0);
+  }, [target]);
+
+  const preview = useMemo((): { plan?: RenamePlan; error?: string } | null => {
+    if (!request || !target || newName === target.symbol.name) return null;
+    const error = RenameService.validateName(request.document, target, newName);
+    return error ? { error } : { plan: RenameService.planRename(request.document, target, newName) };
+  }, [request, target, newName]);
+
+  if (!request || !prepared) return null;
+
+  const plan = preview?.plan;
+  const fileCount = new Set(target?.references.map(reference => reference.fileId)).size;
+
+  const handleApply = () => {
+    if (!plan) return;
+    try {
+      onApply(RenameService.applyRename(project, plan));
+      onClose();
+    } catch (error) {
+      setApplyError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleApply();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="rename-dialog-overlay" onClick={onClose}>
+      <div className="rename-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="rename-dialog-header">
+          <span className="rename-dialog-title">
+            {target ? `Rename ${target.symbol.kind} ${target.symbol.name}` : 'Rename symbol'}
+          </span>
+          <button className="rename-dialog-close" onClick={onClose}>✕</button>
+        </div>
+
+        {!target ? (
+          <div className="rename-dialog-message error">{prepared.error}</div>
+        ) : (
+          <>
+            <input
+              ref={inputRef}
+              className="rename-dialog-input"
+              value={newName}
+              onChange={(e) => {
+                setNewName(e.target.value.trim());
+                setApplyError(null);
+              }}
+              onKeyDown={handleKeyDown}
+              spellCheck={false}
+            />
+            <div className={`rename-dialog-message ${preview?.error || applyError ? 'error' : ''}`}>
+              {applyError || preview?.error || (
+                `${target.references.length} ${target.references.length === 1 ? 'reference' : 'references'} in ` +
+                `${fileCount} ${fileCount === 1 ? 'file' : 'files'}`
+              )}
+            </div>
+
+            {plan && (
+              <div className="rename-dialog-preview">
+                {plan.changes.map(change => (
+                  <FileDiff key={change.fileId} change={change} />
+                ))}
+              </div>
+            )}
+
+            <div className="rename-dialog-actions">
+              <button className="rename-dialog-cancel" onClick={onClose}>Cancel</button>
+              <button className="rename-dialog-apply" onClick={handleApply} disabled={!plan}>
+                Rename
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RenameDialog;
\ No newline at end of file
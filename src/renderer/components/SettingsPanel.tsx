@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import LLMService from '../services/LLMService';
+import type { LLMProviderId, LLMSettings, LLMSettingsUpdate, LocalLLMApi } from '../../main/preload';
+import './SettingsPanel.css';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PROVIDER_OPTIONS: Array<{ id: LLMProviderId; label: string; description: string }> = [
+  { id: 'openai', label: 'OpenAI-compatible', description: 'OpenAI or any server implementing the chat completions API' },
+  { id: 'local', label: 'Local model', description: 'Ollama or llama.cpp running on this machine' },
+  { id: 'mock', label: 'Offline mock', description: 'Deterministic replies without calling a model' }
+];
+
+const sameOrigin = (a: string, b: string) => {
+  try {
+    return new URL(a.trim()).origin === new URL(b.trim()).origin;
+  } catch {
+    return a.trim() === b.trim();
+  }
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose }) => {
+  const [settings, setSettings] = useState<LLMSettings | null>(null);
+  const [apiKey, setApiKey] = useState('');
+  const [savedBaseUrl, setSavedBaseUrl] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setApiKey('');
+    setError(null);
+    LLMService.getSettings()
+      .then(loaded => {
+        setSettings(loaded);
+        setSavedBaseUrl(loaded.openai.baseUrl);
+      })
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'Unknown error'));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateOpenAI = (changes: Partial<LLMSettings['openai']>) => {
+    setSettings(prev => prev && { ...prev, openai: { ...prev.openai, ...changes } });
+  };
+
+  const updateLocal = (changes: Partial<LLMSettings['local']>) => {
+    setSettings(prev => prev && { ...prev, local: { ...prev.local, ...changes } });
+  };
+
+  const save = async (update: LLMSettingsUpdate) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await LLMService.updateSettings(update);
+      setSettings(saved);
+      setSavedBaseUrl(saved.openai.baseUrl);
+      return true;
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Unknown error');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    const saved = await save({
+      provider: settings.provider,
+      temperature: settings.temperature,
+      contextTokenBudget: settings.contextTokenBudget,
+      openai: {
+        baseUrl: settings.openai.baseUrl,
+        model: settings.openai.model,
+        ...(apiKey.trim() ? { apiKey: apiKey.trim() } : {})
+      },
+      local: settings.local
+    });
+    if (saved) {
+      onClose();
+    }
+  };
+
+  const handleRemoveKey = async () => {
+    if (window.confirm('Remove the stored API key?')) {
+      await save({ openai: { apiKey: null } });
+    }
+  };
+
+  // The stored key is dropped when the server changes, so it has to be entered again
+  const keepsStoredKey = !!settings?.openai.hasApiKey && sameOrigin(settings.openai.baseUrl, savedBaseUrl);
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <div className="settings-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="settings-header">
+          <h2>AI Provider Settings</h2>
+          <button className="settings-close" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="settings-content">
+          {error && <div className="settings-error">{error}</div>}
+
+          {!settings ? (
+            !error && <div className="settings-loading">Loading settings...</div>
+          ) : (
+            <>
+              <div className="settings-section">
+                <label className="settings-label">Provider</label>
+                <div className="provider-options">
+                  {PROVIDER_OPTIONS.map(option => (
+                    <label
+                      key={option.id}
+                      className={`provider-option ${settings.provider === option.id ? 'selected' : ''}`}
+                    >
+                      <input
+                        type="radio"
+                        name="llm-provider"
+                        checked={settings.provider === option.id}
+                        onChange={() => setSettings({ ...settings, provider: option.id })}
+                      />
+                      <div>
+                        <div className="provider-name">{option.label}</div>
+                        <div className="provider-description">{option.description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {settings.provider === 'openai' && (
+                <div className="settings-section">
+                  <label className="settings-label">Base URL</label>
+                  <input
+                    className="settings-input"
+                    value={settings.openai.baseUrl}
+                    onChange={(e) => updateOpenAI({ baseUrl: e.target.value })}
+                  />
+
+                  <label className="settings-label">Model</label>
+                  <input
+                    className="settings-input"
+                    value={settings.openai.model}
+                    onChange={(e) => updateOpenAI({ model: e.target.value })}
+                  />
+
+                  <label className="settings-label">API key</label>
+                  <input
+                    className="settings-input"
+                    type="password"
+                    autoComplete="off"
+                    placeholder={keepsStoredKey ? '•••••••• (stored - leave empty to keep)' : 'sk-...'}
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                  />
+                  <div className="settings-hint">
+                    {settings.secureStorageAvailable
+                      ? 'The key is encrypted with your system keychain and never leaves the main process.'
+                      : 'No system keychain is available, so the key is only kept until the app closes.'}
+                    {settings.openai.hasApiKey && !keepsStoredKey && (
+                      <> The stored key belongs to another server and is removed on save.</>
+                    )}
+                    {keepsStoredKey && (
+                      <button className="settings-link" onClick={handleRemoveKey} disabled={isSaving}>
+                        Remove stored key
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {settings.provider === 'local' && (
+                <div className="settings-section">
+                  <label className="settings-label">Server</label>
+                  <select
+                    className="settings-input"
+                    value={settings.local.api}
+                    onChange={(e) => updateLocal({ api: e.target.value as LocalLLMApi })}
+                  >
+                    <option value="ollama">Ollama</option>
+                    <option value="llamacpp">llama.cpp server</option>
+                  </select>
+
+                  <label className="settings-label">Base URL</label>
+                  <input
+                    className="settings-input"
+                    value={settings.local.baseUrl}
+                    onChange={(e) => updateLocal({ baseUrl: e.target.value })}
+                  />
+
+                  <label className="settings-label">Model</label>
+                  <input
+                    className="settings-input"
+                    value={settings.local.model}
+                    onChange={(e) => updateLocal({ model: e.target.value })}
+                  />
+                </div>
+              )}
+
+              <div className="settings-section">
+                <label className="settings-label">Context budget (tokens)</label>
+                <input
+                  className="settings-input"
+                  type="number"
+                  min={1000}
+                  max={128000}
+                  step={1000}
+                  value={settings.contextTokenBudget}
+                  onChange={(e) => setSettings({ ...settings, contextTokenBudget: Number(e.target.value) })}
+                />
+                <div className="settings-hint">
+                  How much of the project (files, build errors, analysis issues) is sent with each question.
+                </div>
+              </div>
+
+              {settings.provider !== 'mock' && (
+                <div className="settings-section">
+                  <label className="settings-label">
+                    Temperature <span className="settings-value">{settings.temperature.toFixed(1)}</span>
+                  </label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={settings.temperature}
+                    onChange={(e) => setSettings({ ...settings, temperature: Number(e.target.value) })}
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="settings-actions">
+          <button className="settings-cancel" onClick={onClose}>Cancel</button>
+          <button className="settings-save" onClick={handleSave} disabled={!settings || isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
\ No newline at end of file
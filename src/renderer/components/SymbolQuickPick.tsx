@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LeoProject } from '../types';
+import LeoLanguageService, { LeoOutlineItem } from '../services/LeoLanguageService';
+import { getOutlineIcon, getOutlineKindLabel } from './OutlinePanel';
+import './SymbolQuickPick.css';
+
+interface SymbolQuickPickProps {
+  isOpen: boolean;
+  project: LeoProject;
+  onSelect: (item: LeoOutlineItem) => void;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+/**
+ * "Go to symbol in project": filter every declaration by name and jump to it
+ */
+const SymbolQuickPick: React.FC<SymbolQuickPickProps> = ({ isOpen, project, onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const symbols = useMemo(
+    () => (isOpen ? LeoLanguageService.getProjectSymbols(project) : []),
+    [isOpen, project.files]
+  );
+  const fileNames = useMemo(
+    () => new Map(project.files.map(file => [file.id, file.name])),
+    [project.files]
+  );
+
+  // Names starting with the query come first, then other matches, in file order
+  const matches = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const scored = symbols
+      .map(item => ({ item, position: item.name.toLowerCase().indexOf(needle) }))
+      .filter(({ position }) => position !== -1)
+      .sort((a, b) => Number(a.position !== 0) - Number(b.position !== 0));
+    return scored.slice(0, MAX_RESULTS).map(({ item }) => item);
+  }, [symbols, query]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setActiveIndex(0);
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const choose = (item: LeoOutlineItem | undefined) => {
+    if (!item) return;
+    onClose();
+    onSelect(item);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(index => Math.min(index + 1, matches.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        choose(matches[activeIndex]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return (
+    <div className="symbol-quick-pick-overlay" onClick={onClose}>
+      <div className="symbol-quick-pick" onClick={(e) => e.stopPropagation()}>
+        <input
+          ref={inputRef}
+          className="symbol-quick-pick-input"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Go to symbol in project..."
+          spellCheck={false}
+        />
+        <div className="symbol-quick-pick-list" ref={listRef}>
+          {matches.length === 0 ? (
+            <div className="symbol-quick-pick-empty">No matching symbols</div>
+          ) : (
+            matches.map((item, index) => (
+              <div
+                key={`${item.fileId}:${item.kind}:${item.name}:${item.span.start.offset}`}
+                className={`symbol-quick-pick-item ${index === activeIndex ? 'active' : ''}`}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => choose(item)}
+              >
+                <span className="symbol-quick-pick-icon">{getOutlineIcon(item)}</span>
+                <span className="symbol-quick-pick-name">{item.name}</span>
+                <span className="symbol-quick-pick-kind">{getOutlineKindLabel(item)}</span>
+                <span className="symbol-quick-pick-file">{fileNames.get(item.fileId)}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SymbolQuickPick;
\ No newline at end of file
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { CodeChange, LeoProject } from '../types';
+import CodeHistoryService, { TimelineEntry, TimelineFileChange } from '../services/CodeHistoryService';
+import { FileDiff } from './AgentChanges';
+import './TimelinePanel.css';
+
+interface TimelinePanelProps {
+  project: LeoProject;
+  onRestore: (project: LeoProject) => void;
+}
+
+const AUTHOR_ICONS: Record<TimelineEntry['author'], string> = {
+  user: '👤',
+  agent: '🤖'
+};
+
+const toCodeChange = (change: TimelineFileChange, description: string): CodeChange => ({
+  fileId: change.fileId,
+  filePath: change.path,
+  oldContent: change.before ?? '',
+  newContent: change.after ?? '',
+  description,
+  kind: change.before === null ? 'create' : change.after === null ? 'delete' : 'modify'
+});
+
+const formatTime = (timestamp: Date): string => {
+  const sameDay = timestamp.toDateString() === new Date().toDateString();
+  return sameDay
+    ? timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : timestamp.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * Every change to the project, newest first, with who made it and a way back to it
+ */
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ project, onRestore }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [viewedEntry, setViewedEntry] = useState<TimelineEntry | null>(null);
+
+  useEffect(() => CodeHistoryService.subscribe(setTimeline), []);
+
+  const latestId = timeline[timeline.length - 1]?.id;
+
+  const handleRestore = (entry: TimelineEntry) => {
+    if (!window.confirm(`Restore the whole project to how it was after "${entry.description}"?`)) return;
+    try {
+      onRestore(CodeHistoryService.restoreTo(project, entry.id));
+      setViewedEntry(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  return (
+    <div className={`timeline-panel ${isExpanded ? 'expanded' : ''}`}>
+      <button className="timeline-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="timeline-toggle">{isExpanded ? '▾' : '▸'}</span>
+        <span className="timeline-title">Timeline</span>
+        {timeline.length > 0 && <span className="timeline-count">{timeline.length}</span>}
+      </button>
+
+      {isExpanded && (
+        <div className="timeline-list">
+          {timeline.length === 0 ? (
+            <div className="timeline-empty">No changes recorded yet</div>
+          ) : (
+            [...timeline].reverse().map(entry => (
+              <div key={entry.id} className={`timeline-entry ${entry.author}`}>
+                <button
+                  className="timeline-entry-summary"
+                  onClick={() => setViewedEntry(entry)}
+                  title={entry.changes.map(change => change.path).join('\n')}
+                >
+                  <span className="timeline-author" title={entry.author === 'agent' ? 'Agent' : 'You'}>
+                    {AUTHOR_ICONS[entry.author]}
+                  </span>
+                  <span className="timeline-description">{entry.description}</span>
+                  <span className="timeline-time">{formatTime(entry.timestamp)}</span>
+                </button>
+                <div className="timeline-files">
+                  {entry.changes.map(change => change.path.split('/').pop()).join(', ')}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {viewedEntry && (
+        <div className="timeline-dialog-overlay" onClick={() => setViewedEntry(null)}>
+          <div className="timeline-dialog" onClick={(e) => e.stopPropagation()}>
+            <div className="timeline-dialog-header">
+              <span className="timeline-dialog-title">
+                {AUTHOR_ICONS[viewedEntry.author]} {viewedEntry.description}
+              </span>
+              <span className="timeline-time">{viewedEntry.timestamp.toLocaleString()}</span>
+              <button className="timeline-dialog-close" onClick={() => setViewedEntry(null)}>✕</button>
+            </div>
+            <div className="timeline-dialog-changes">
+              {viewedEntry.changes.map(change => (
+                <FileDiff key={change.fileId} change={toCodeChange(change, viewedEntry.description)} />
+              ))}
+            </div>
+            <div className="timeline-dialog-actions">
+              <button
+                className="timeline-restore"
+                onClick={() => handleRestore(viewedEntry)}
+                disabled={viewedEntry.id === latestId}
+                title={viewedEntry.id === latestId ? 'This is the current state of the project' : undefined}
+              >
+                Restore project to this point
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimelinePanel;
\ No newline at end of file
@@ -6,6 +6,7 @@ import ChatMessage from './ChatMessage';
 import ThemeToggle from './ThemeToggle';
 import ProjectManager from './ProjectManager';
 import WorkflowService from '../services/WorkflowService';
+import FileSystemService from '../services/FileSystemService';
 
 import './WelcomeScreen.css';
 
@@ -107,6 +108,25 @@ const WelcomeScreen: React.FC = () => {
     }
   };
 
+  const handleOpenFolder = async () => {
+    try {
+      const project = await WorkflowService.openProjectFromFolder();
+      if (!project) return;
+
+      await addProject(project);
+      setView('main');
+    } catch (error) {
+      WorkflowService.handleError(error as Error, 'WelcomeScreen.openFolder');
+      const errorResponse: ChatMessageType = {
+        id: Date.now().toString(),
+        content: `Failed to open the folder: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        sender: 'agent',
+        timestamp: new Date()
+      };
+      setChatMessages(prev => [...prev, errorResponse]);
+    }
+  };
+
   const handleProjectDelete = async () => {
     await loadProjects(); // Refresh the project list
   };
@@ -130,6 +150,15 @@ const WelcomeScreen: React.FC = () => {
       <div className="welcome-header">
         <h1 className="welcome-title">LeoForge Neo</h1>
         <div className="header-actions">
+          {FileSystemService.isAvailable() && (
+            <button 
+              className="btn-manage-projects"
+              onClick={handleOpenFolder}
+              title="Open a Leo package folder from disk"
+            >
+              Open Folder
+            </button>
+          )}
           {state.projects.length > 0 && (
             <button 
               className="btn-manage-projects"
@@ -0,0 +1,64 @@
+import { LeoFile } from '../types';
+import { getRule } from './engine';
+import { LintConfig, RuleSetting } from './types';
+
+export const LINT_CONFIG_FILE = '.leoforgerc.json';
+
+const RULE_SETTINGS: RuleSetting[] = ['off', 'info', 'warning', 'error'];
+
+export interface LintConfigResult {
+  config: LintConfig;
+  errors: string[];
+  file?: LeoFile;
+}
+
+/**
+ * Read a `.leoforgerc.json` such as `{ "rules": { "magic-numbers": "off" } }`.
+ * Invalid entries are reported and ignored rather than failing the whole file.
+ */
+export function parseLintConfig(content: string): { config: LintConfig; errors: string[] } {
+  const config: LintConfig = { rules: {} };
+  const errors: string[] = [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return { config, errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { config, errors: ['Expected a JSON object'] };
+  }
+
+  const rules = (raw as { rules?: unknown }).rules;
+  if (rules === undefined) {
+    return { config, errors };
+  }
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    return { config, errors: ['"rules" must be an object mapping rule ids to settings'] };
+  }
+
+  for (const [ruleId, setting] of Object.entries(rules as Record<string, unknown>)) {
+    if (!getRule(ruleId)) {
+      errors.push(`Unknown rule '${ruleId}'`);
+    } else if (!RULE_SETTINGS.includes(setting as RuleSetting)) {
+      errors.push(`Invalid setting for '${ruleId}': expected one of ${RULE_SETTINGS.join(', ')}`);
+    } else {
+      config.rules[ruleId] = setting as RuleSetting;
+    }
+  }
+
+  return { config, errors };
+}
+
+/**
+ * The project's lint config, from its `.leoforgerc.json` if it has one
+ */
+export function loadLintConfig(files: LeoFile[]): LintConfigResult {
+  const file = files.find(f => f.name === LINT_CONFIG_FILE);
+  if (!file) {
+    return { config: { rules: {} }, errors: [] };
+  }
+  return { ...parseLintConfig(file.content), file };
+}
\ No newline at end of file
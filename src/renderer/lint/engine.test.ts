@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { lint, loadLintConfig, parseLintConfig, LintConfig } from '.';
+import { LeoFile } from '../types';
+
+const wrap = (body: string) => `program t.aleo {\n${body}\n}\n`;
+
+// `rule@line` for each issue, optionally limited to some rules
+function issuesOf(source: string, ruleIds?: string[], config?: LintConfig): string[] {
+  return lint(source, 'main.leo', config).issues
+    .filter(issue => !ruleIds || ruleIds.includes(issue.rule))
+    .map(issue => `${issue.rule}@${issue.line}`);
+}
+
+describe('lint', () => {
+  it('reports parser errors and missing semicolons as separate rules', () => {
+    expect(issuesOf(wrap('    function f() -> u8 {\n        let a: u8 = 1u8\n        return a;\n    }'), ['syntax-error', 'missing-semicolon']))
+      .toEqual(['missing-semicolon@3']);
+    expect(issuesOf(wrap('    function f() {\n        let = 1u8;\n    }'), ['syntax-error', 'missing-semicolon']))
+      .toEqual(['syntax-error@3']);
+  });
+
+  it('flags unused variables unless they start with an underscore', () => {
+    const source = wrap(`    function f(a: u8) -> u8 {
+        let unused: u8 = a;
+        let _ignored: u8 = a;
+        let used: u8 = a;
+        return used;
+    }`);
+    expect(issuesOf(source, ['unused-variable'])).toEqual(['unused-variable@3']);
+  });
+
+  it('flags large literals outside constants, TODO comments and bare asserts', () => {
+    const source = wrap(`    const MAX_SUPPLY: u64 = 1000000u64;
+    function f(a: u64) {
+        // TODO: cap minting
+        assert(a < 50000u64);
+        assert_eq(a, MAX_SUPPLY);
+    }`);
+    expect(issuesOf(source, ['magic-numbers', 'todo-fixme', 'assert-style'])).toEqual([
+      'todo-fixme@4',
+      'assert-style@5',
+      'magic-numbers@5'
+    ]);
+  });
+
+  it('applies the severities of the config and skips rules turned off', () => {
+    const source = wrap('    function f(a: u8) {\n        let unused: u8 = a;\n    }');
+    const config: LintConfig = { rules: { 'unused-variable': 'error' } };
+
+    expect(lint(source, 'main.leo', config).issues.find(issue => issue.rule === 'unused-variable')?.severity).toBe('error');
+    expect(issuesOf(source, ['unused-variable'], { rules: { 'unused-variable': 'off' } })).toEqual([]);
+  });
+
+  it('honours leoforge-disable-next-line comments', () => {
+    const source = wrap(`    function f(a: u8) {
+        // leoforge-disable-next-line unused-variable
+        let first: u8 = a;
+        // leoforge-disable-next-line magic-numbers
+        let second: u8 = a;
+        // leoforge-disable-next-line
+        let third: u8 = 100u8 + a;
+    }`);
+    expect(issuesOf(source, ['unused-variable'])).toEqual(['unused-variable@6']);
+  });
+});
+
+describe('parseLintConfig', () => {
+  it('reads rule settings', () => {
+    expect(parseLintConfig('{ "rules": { "magic-numbers": "off", "unused-variable": "error" } }')).toEqual({
+      config: { rules: { 'magic-numbers': 'off', 'unused-variable': 'error' } },
+      errors: []
+    });
+  });
+
+  it('reports invalid entries and keeps the valid ones', () => {
+    const { config, errors } = parseLintConfig('{ "rules": { "no-such-rule": "off", "todo-fixme": "loud", "assert-style": "off" } }');
+
+    expect(config).toEqual({ rules: { 'assert-style': 'off' } });
+    expect(errors).toEqual([
+      "Unknown rule 'no-such-rule'",
+      "Invalid setting for 'todo-fixme': expected one of off, info, warning, error"
+    ]);
+  });
+
+  it('rejects files that are not a JSON object', () => {
+    expect(parseLintConfig('{ rules').errors[0]).toMatch(/^Invalid JSON/);
+    expect(parseLintConfig('[]').errors).toEqual(['Expected a JSON object']);
+    expect(parseLintConfig('{ "rules": [] }').errors).toEqual(['"rules" must be an object mapping rule ids to settings']);
+  });
+});
+
+describe('loadLintConfig', () => {
+  it('uses .leoforgerc.json from the project files', () => {
+    const file: LeoFile = {
+      id: 'config',
+      name: '.leoforgerc.json',
+      path: '.leoforgerc.json',
+      content: '{ "rules": { "todo-fixme": "off" } }',
+      type: 'json',
+      isModified: false
+    };
+
+    expect(loadLintConfig([file])).toEqual({ config: { rules: { 'todo-fixme': 'off' } }, errors: [], file });
+    expect(loadLintConfig([])).toEqual({ config: { rules: {} }, errors: [] });
+  });
+});
\ No newline at end of file
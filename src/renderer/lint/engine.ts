@@ -0,0 +1,80 @@
+import { Comment, parseLeo, ParseDiagnostic, SourceFile } from '../parser';
+import { BUILTIN_RULES } from './rules';
+import { LintConfig, LintIssue, LintRule } from './types';
+
+export interface LintResult {
+  ast: SourceFile;
+  parseDiagnostics: ParseDiagnostic[];
+  issues: LintIssue[];
+}
+
+const DISABLE_NEXT_LINE = /leoforge-disable-next-line\b([^\n]*)/;
+
+const registry: Map<string, LintRule> = new Map(BUILTIN_RULES.map(rule => [rule.id, rule]));
+
+/**
+ * Add a rule, or replace the one with the same id
+ */
+export function registerRule(rule: LintRule): void {
+  registry.set(rule.id, rule);
+}
+
+export function getRule(id: string): LintRule | undefined {
+  return registry.get(id);
+}
+
+export function getRules(): LintRule[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Run every enabled rule over a Leo file. Never throws; a failing rule is
+ * logged and skipped.
+ */
+export function lint(source: string, fileName: string, config: LintConfig = { rules: {} }): LintResult {
+  const { ast, diagnostics } = parseLeo(source);
+  const suppressions = findSuppressions(ast.comments);
+  const issues: LintIssue[] = [];
+
+  for (const rule of registry.values()) {
+    const severity = config.rules[rule.id] ?? rule.defaultSeverity;
+    if (severity === 'off') continue;
+
+    try {
+      for (const report of rule.check({ source, fileName, ast, parseDiagnostics: diagnostics })) {
+        const line = report.span.start.line;
+        const suppressed = suppressions.get(line);
+        if (suppressed && (suppressed.size === 0 || suppressed.has(rule.id))) continue;
+
+        issues.push({ line, column: report.span.start.column, message: report.message, severity, rule: rule.id });
+      }
+    } catch (error) {
+      console.error(`Lint rule ${rule.id} failed on ${fileName}:`, error);
+    }
+  }
+
+  return {
+    ast,
+    parseDiagnostics: diagnostics,
+    issues: issues.sort((a, b) => a.line - b.line || a.column - b.column)
+  };
+}
+
+/**
+ * Lines silenced by `// leoforge-disable-next-line [rule-id, ...]` comments,
+ * mapped to the rule ids they silence (empty for all rules)
+ */
+function findSuppressions(comments: Comment[]): Map<number, Set<string>> {
+  const suppressions = new Map<number, Set<string>>();
+  for (const comment of comments) {
+    const match = DISABLE_NEXT_LINE.exec(comment.text);
+    if (!match) continue;
+
+    const ruleIds = match[1].replace(/\*\/\s*$/, '').split(/[\s,]+/).filter(Boolean);
+    const line = comment.span.end.line + 1;
+    const existing = suppressions.get(line);
+    if (existing && existing.size === 0) continue;
+    suppressions.set(line, ruleIds.length === 0 ? new Set() : new Set([...(existing || []), ...ruleIds]));
+  }
+  return suppressions;
+}
\ No newline at end of file
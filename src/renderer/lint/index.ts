@@ -0,0 +1,7 @@
+export * from './types';
+export { BUILTIN_RULES } from './rules';
+export { SECURITY_RULES } from './securityRules';
+export { lint, registerRule, getRule, getRules } from './engine';
+export type { LintResult } from './engine';
+export { LINT_CONFIG_FILE, loadLintConfig, parseLintConfig } from './config';
+export type { LintConfigResult } from './config';
\ No newline at end of file
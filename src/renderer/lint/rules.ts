@@ -0,0 +1,117 @@
+import { FunctionDeclaration, Identifier, isReference, walk } from '../parser';
+import { SECURITY_RULES } from './securityRules';
+import { LintRule, RuleReport } from './types';
+
+// Built-in rules, in the order their problems are reported
+
+const syntaxError: LintRule = {
+  id: 'syntax-error',
+  defaultSeverity: 'error',
+  category: 'correctness',
+  description: 'Code the parser cannot read',
+  docs: 'The file does not parse as Leo. Everything after the error may be analysed incompletely until it is fixed.',
+  check: ({ parseDiagnostics }) => parseDiagnostics
+    .filter(diagnostic => !diagnostic.code)
+    .map(diagnostic => ({ span: diagnostic.span, message: diagnostic.message }))
+};
+
+const missingSemicolon: LintRule = {
+  id: 'missing-semicolon',
+  defaultSeverity: 'error',
+  category: 'correctness',
+  description: 'Statement without a terminating semicolon',
+  docs: 'Leo requires every statement and mapping declaration to end with `;`. The compiler rejects the file otherwise.',
+  check: ({ parseDiagnostics }) => parseDiagnostics
+    .filter(diagnostic => diagnostic.code === 'missing-semicolon')
+    .map(diagnostic => ({ span: diagnostic.span, message: diagnostic.message }))
+};
+
+const todoFixme: LintRule = {
+  id: 'todo-fixme',
+  defaultSeverity: 'info',
+  category: 'maintainability',
+  description: 'TODO or FIXME comment',
+  docs: 'Marks unfinished work. Resolve the comment or track it elsewhere before deploying the program.',
+  check: ({ ast }) => ast.comments
+    .filter(comment => comment.text.includes('TODO') || comment.text.includes('FIXME'))
+    .map(comment => ({ span: comment.span, message: 'TODO or FIXME comment found - consider addressing this' }))
+};
+
+const magicNumbers: LintRule = {
+  id: 'magic-numbers',
+  defaultSeverity: 'info',
+  category: 'style',
+  description: 'Large numeric literal outside a constant',
+  docs: 'Numbers with four or more digits (limits, fees, supplies) are easier to audit as named constants: `const MAX_SUPPLY: u64 = 1000000u64;`.',
+  check: ({ ast }) => {
+    const reports: RuleReport[] = [];
+    walk(ast, (node, parent) => {
+      // Named constants are where magic numbers belong
+      if (node.kind === 'ConstDeclaration' || (node.kind === 'VariableDeclaration' && node.isConst)) {
+        return false;
+      }
+      if (node.kind === 'Literal' && node.type !== 'address' && node.type !== 'boolean' && node.type !== 'string' &&
+          node.value.replace(/_/g, '').length >= 4 && parent?.kind !== 'ArrayType') {
+        reports.push({ span: node.span, message: 'Consider using named constants instead of magic numbers' });
+      }
+    });
+    return reports;
+  }
+};
+
+const assertStyle: LintRule = {
+  id: 'assert-style',
+  defaultSeverity: 'info',
+  category: 'style',
+  description: '`assert` where `assert_eq` or `assert_neq` would say more',
+  docs: '`assert_eq(a, b)` and `assert_neq(a, b)` state the expected relation directly and give better failure messages than `assert(a == b)`.',
+  check: ({ ast }) => {
+    const reports: RuleReport[] = [];
+    walk(ast, node => {
+      if (node.kind === 'AssertStatement' && node.variant === 'assert') {
+        reports.push({ span: node.span, message: 'Consider using assert_eq for better error messages' });
+      }
+    });
+    return reports;
+  }
+};
+
+const unusedVariable: LintRule = {
+  id: 'unused-variable',
+  defaultSeverity: 'warning',
+  category: 'correctness',
+  description: 'Local variable that is never read',
+  docs: 'A `let` whose value is never used is usually a leftover or a bug. Remove it, or prefix the name with `_` if it is intentional.',
+  check: ({ ast }) => {
+    const functions = (ast.program?.items || []).filter(
+      (item): item is FunctionDeclaration => item.kind === 'FunctionDeclaration'
+    );
+
+    return functions.flatMap(fn => {
+      const declared: Identifier[] = [];
+      const referenced = new Set<string>();
+
+      walk(fn.body, (node, parent) => {
+        if (node.kind === 'VariableDeclaration') {
+          declared.push(...node.names);
+        } else if (node.kind === 'Identifier' && isReference(node, parent)) {
+          referenced.add(node.name);
+        }
+      });
+
+      return declared
+        .filter(name => !name.name.startsWith('_') && !referenced.has(name.name))
+        .map(name => ({ span: name.span, message: `Variable '${name.name}' is never used` }));
+    });
+  }
+};
+
+export const BUILTIN_RULES: LintRule[] = [
+  syntaxError,
+  missingSemicolon,
+  todoFixme,
+  magicNumbers,
+  assertStyle,
+  unusedVariable,
+  ...SECURITY_RULES
+];
\ No newline at end of file
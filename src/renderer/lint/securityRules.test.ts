@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { lint } from '.';
+
+// Messages of one rule's issues, prefixed with their line
+function reportsOf(ruleId: string, source: string): string[] {
+  return lint(source, 'main.leo').issues
+    .filter(issue => issue.rule === ruleId)
+    .map(issue => `${issue.line}: ${issue.message}`);
+}
+
+describe('public-record-leak', () => {
+  it('flags record data returned publicly or passed to finalization', () => {
+    const source = `program t.aleo {
+    record Token { owner: address, amount: u64 }
+    async transition reveal(token: Token) -> (Token, public u64, Future) {
+        let f: Future = finalize_reveal(token.amount);
+        return (token, token.amount, f);
+    }
+    async function finalize_reveal(amount: u64) {}
+}`;
+    expect(reportsOf('public-record-leak', source)).toEqual([
+      "4: Private record 'token' data is passed to async function 'finalize_reveal', whose inputs are public",
+      "5: Private record 'token' data is returned as a public output"
+    ]);
+  });
+
+  it('allows private outputs', () => {
+    const source = `program t.aleo {
+    record Token { owner: address, amount: u64 }
+    transition split(token: Token) -> (Token, u64) {
+        return (token, token.amount);
+    }
+}`;
+    expect(reportsOf('public-record-leak', source)).toEqual([]);
+  });
+});
+
+describe('caller-vs-signer', () => {
+  it('flags authorization on self.signer', () => {
+    const source = `program t.aleo {
+    transition admin_only(admin: address) {
+        assert_eq(self.signer, admin);
+        if self.signer != admin { return; }
+    }
+}`;
+    expect(reportsOf('caller-vs-signer', source).map(report => report.split(':')[0])).toEqual(['3', '4']);
+  });
+
+  it('allows comparing self.signer with self.caller', () => {
+    const source = `program t.aleo {
+    transition direct_only() {
+        assert_eq(self.caller, self.signer);
+        assert(self.signer == self.caller);
+        assert_neq(self.signer, self.caller);
+    }
+}`;
+    expect(reportsOf('caller-vs-signer', source)).toEqual([]);
+  });
+});
+
+describe('unchecked-underflow', () => {
+  const program = (body: string) => `program t.aleo {
+    mapping balances: address => u64;
+    async function withdraw(from: address, amount: u64) {
+        let balance: u64 = Mapping::get_or_use(balances, from, 0u64);
+${body}
+    }
+}`;
+
+  it('flags subtracting from a balance without a bounds check', () => {
+    expect(reportsOf('unchecked-underflow', program('        Mapping::set(balances, from, balance - amount);'))).toEqual([
+      "5: 'balance' may be smaller than 'amount'; assert balance >= amount before subtracting"
+    ]);
+  });
+
+  it('flags sub_wrapped on a balance', () => {
+    expect(reportsOf('unchecked-underflow', program('        Mapping::set(balances, from, balance.sub_wrapped(amount));'))).toEqual([
+      "5: sub_wrapped on balance 'balance' wraps around instead of failing on underflow"
+    ]);
+  });
+
+  it('accepts a subtraction guarded by an assert', () => {
+    const body = '        assert(balance >= amount);\n        Mapping::set(balances, from, balance - amount);';
+    expect(reportsOf('unchecked-underflow', program(body))).toEqual([]);
+  });
+});
+
+describe('mapping-get-without-default', () => {
+  it('flags Mapping::get unless contains was checked first', () => {
+    const source = `program t.aleo {
+    mapping balances: address => u64;
+    async function read(a: address, b: address) {
+        let first: u64 = Mapping::get(balances, a);
+        let second: u64 = Mapping::get_or_use(balances, b, 0u64);
+        assert(first > second);
+    }
+    async function checked(a: address) {
+        assert(Mapping::contains(balances, a));
+        let value: u64 = Mapping::get(balances, a);
+        assert(value > 0u64);
+    }
+}`;
+    expect(reportsOf('mapping-get-without-default', source)).toEqual([
+      "4: Reading 'balances' without a default halts when the key is missing; use get_or_use or check contains first"
+    ]);
+  });
+});
+
+describe('record-not-reemitted', () => {
+  it('flags a consumed record with no output of its type', () => {
+    const source = `program t.aleo {
+    record Token { owner: address, amount: u64 }
+    transition burn(token: Token) -> u64 {
+        return token.amount;
+    }
+    transition keep(token: Token) -> Token {
+        return token;
+    }
+}`;
+    expect(reportsOf('record-not-reemitted', source)).toEqual([
+      "3: Record 'token' is consumed but no Token record is returned"
+    ]);
+  });
+});
+
+describe('missing-owner-check', () => {
+  const program = (check: string) => `program t.aleo {
+    mapping balances: address => u64;
+    async transition transfer(from: address, to: address, amount: u64) -> Future {
+${check}
+        return finalize_transfer(from, to, amount);
+    }
+    async function finalize_transfer(from: address, to: address, amount: u64) {
+        let balance: u64 = Mapping::get_or_use(balances, from, 0u64);
+        assert(balance >= amount);
+        Mapping::set(balances, from, balance - amount);
+    }
+}`;
+
+  it('flags debiting an address parameter that is never checked', () => {
+    expect(reportsOf('missing-owner-check', program(''))).toEqual([
+      "5: 'from' is debited in 'finalize_transfer' but never checked against self.caller"
+    ]);
+  });
+
+  it('accepts an address checked against self.caller', () => {
+    expect(reportsOf('missing-owner-check', program('        assert_eq(from, self.caller);'))).toEqual([]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,457 @@
+import {
+  AstNode,
+  CallExpression,
+  Expression,
+  FunctionDeclaration,
+  Parameter,
+  SourceFile,
+  TypeNode,
+  isReference,
+  walk
+} from '../parser';
+import { LintRule, RuleContext, RuleReport } from './types';
+
+// Rules for Aleo-specific pitfalls. Each one is explained in docs/security-rules.md.
+
+const DOCS = 'docs/security-rules.md';
+
+// Helpers
+
+function getFunctions(ast: SourceFile): FunctionDeclaration[] {
+  return (ast.program?.items || []).filter((item): item is FunctionDeclaration => item.kind === 'FunctionDeclaration');
+}
+
+function getRecordNames(ast: SourceFile): Set<string> {
+  const names = new Set<string>();
+  for (const item of ast.program?.items || []) {
+    if (item.kind === 'StructDeclaration' && item.isRecord) names.add(item.name.name);
+  }
+  return names;
+}
+
+/** Records are local record types or any type from another program */
+function isRecordType(type: TypeNode, records: Set<string>): boolean {
+  return type.kind === 'NamedType' && (!!type.program || records.has(type.name));
+}
+
+function flattenTypes(type?: TypeNode): TypeNode[] {
+  if (!type) return [];
+  return type.kind === 'TupleType' ? type.elements.flatMap(flattenTypes) : [type];
+}
+
+/** Functions whose inputs become public on-chain: async functions and old-style finalize blocks */
+function getAsyncFunctions(ast: SourceFile): Map<string, FunctionDeclaration> {
+  const functions = new Map<string, FunctionDeclaration>();
+  for (const fn of getFunctions(ast)) {
+    if (fn.variant === 'finalize' || (fn.isAsync && fn.variant === 'function')) {
+      functions.set(fn.name.name, fn);
+    }
+  }
+  return functions;
+}
+
+/**
+ * Calls from a transition into its async counterpart, with the arguments passed
+ */
+function findAsyncCalls(
+  transition: FunctionDeclaration,
+  asyncFunctions: Map<string, FunctionDeclaration>
+): Array<{ target: FunctionDeclaration; arguments: Expression[]; node: AstNode }> {
+  const calls: Array<{ target: FunctionDeclaration; arguments: Expression[]; node: AstNode }> = [];
+  walk(transition.body, node => {
+    if (node.kind === 'CallExpression' && node.callee.kind === 'Identifier') {
+      const target = asyncFunctions.get(node.callee.name);
+      if (target && target !== transition) calls.push({ target, arguments: node.arguments, node });
+    }
+    // `return then finalize(...)` targets the finalize block named after the transition
+    if (node.kind === 'ReturnStatement' && node.finalizeArguments) {
+      const target = asyncFunctions.get(transition.name.name);
+      if (target && target.variant === 'finalize') calls.push({ target, arguments: node.finalizeArguments, node });
+    }
+  });
+  return calls;
+}
+
+function readsName(node: AstNode, name: string): boolean {
+  let found = false;
+  walk(node, (child, parent) => {
+    if (found) return false;
+    if (child.kind === 'Identifier' && child.name === name && isReference(child, parent)) found = true;
+  });
+  return found;
+}
+
+function isSelfMember(node: AstNode, property: 'caller' | 'signer'): boolean {
+  return node.kind === 'MemberExpression' && node.object.kind === 'Identifier' &&
+    node.object.name === 'self' && node.property.name === property;
+}
+
+function containsSelfMember(node: AstNode, property: 'caller' | 'signer'): AstNode | undefined {
+  let found: AstNode | undefined;
+  walk(node, child => {
+    if (found) return false;
+    if (isSelfMember(child, property)) found = child;
+  });
+  return found;
+}
+
+function comparesCallerWithSigner(left: AstNode | undefined, right: AstNode | undefined): boolean {
+  if (!left || !right) return false;
+  return (isSelfMember(left, 'caller') && isSelfMember(right, 'signer')) ||
+    (isSelfMember(left, 'signer') && isSelfMember(right, 'caller'));
+}
+
+// A self.signer in a condition, other than in a direct comparison with self.caller
+function findSignerCheck(condition: AstNode): AstNode | undefined {
+  let found: AstNode | undefined;
+  walk(condition, child => {
+    if (found) return false;
+    if (child.kind === 'BinaryExpression' && (child.operator === '==' || child.operator === '!=') &&
+      comparesCallerWithSigner(child.left, child.right)) return false;
+    if (isSelfMember(child, 'signer')) found = child;
+  });
+  return found;
+}
+
+function sourceOf(context: RuleContext, node: AstNode): string {
+  return context.source.slice(node.span.start.offset, node.span.end.offset).replace(/\s+/g, '');
+}
+
+/**
+ * A mapping read, `Mapping::get(m, k)` or `m.get(k)` (also get_or_use), as mapping name and key
+ */
+function asMappingRead(node: AstNode, mappings: Set<string>): { mapping: string; key?: Expression; method: string } | undefined {
+  if (node.kind !== 'CallExpression') return undefined;
+  const call: CallExpression = node;
+
+  if (call.callee.kind === 'PathExpression' && call.callee.segments[0]?.name === 'Mapping') {
+    const method = call.callee.segments[1]?.name;
+    const mapping = call.arguments[0];
+    if ((method === 'get' || method === 'get_or_use') && mapping?.kind === 'Identifier') {
+      return { mapping: mapping.name, key: call.arguments[1], method };
+    }
+  }
+
+  if (call.callee.kind === 'MemberExpression' && call.callee.object.kind === 'Identifier' &&
+      mappings.has(call.callee.object.name)) {
+    const method = call.callee.property.name;
+    if (method === 'get' || method === 'get_or_use') {
+      return { mapping: call.callee.object.name, key: call.arguments[0], method };
+    }
+  }
+  return undefined;
+}
+
+function getMappingNames(ast: SourceFile): Set<string> {
+  const names = new Set<string>();
+  for (const item of ast.program?.items || []) {
+    if (item.kind === 'MappingDeclaration') names.add(item.name.name);
+  }
+  return names;
+}
+
+/** Subtractions as [left, right, node], in source order: `a - b`, `a -= b`, `a.sub(b)`, `a.sub_wrapped(b)` */
+function findSubtractions(root: AstNode): Array<{ left: Expression; right: Expression; node: AstNode; wrapped: boolean }> {
+  const found: Array<{ left: Expression; right: Expression; node: AstNode; wrapped: boolean }> = [];
+  walk(root, node => {
+    if (node.kind === 'BinaryExpression' && node.operator === '-') {
+      found.push({ left: node.left, right: node.right, node, wrapped: false });
+    } else if (node.kind === 'AssignmentStatement' && node.operator === '-=') {
+      found.push({ left: node.target, right: node.value, node, wrapped: false });
+    } else if (node.kind === 'CallExpression' && node.callee.kind === 'MemberExpression' &&
+               (node.callee.property.name === 'sub' || node.callee.property.name === 'sub_wrapped') && node.arguments[0]) {
+      found.push({ left: node.callee.object, right: node.arguments[0], node, wrapped: node.callee.property.name === 'sub_wrapped' });
+    }
+  });
+  return found;
+}
+
+/** Checks made before `offset` in a function: assert statements and if conditions */
+function conditionsBefore(fn: FunctionDeclaration, offset: number): AstNode[] {
+  const conditions: AstNode[] = [];
+  walk(fn.body, node => {
+    if (node.span.start.offset >= offset) return false;
+    if (node.kind === 'AssertStatement') conditions.push(node);
+    if (node.kind === 'IfStatement') conditions.push(node.condition);
+  });
+  return conditions;
+}
+
+// Rules
+
+const publicRecordLeak: LintRule = {
+  id: 'public-record-leak',
+  defaultSeverity: 'warning',
+  category: 'security',
+  description: 'Private record data made public',
+  docs: 'Inputs to async functions and outputs marked `public` are visible on-chain. Passing a record field there reveals data the record was meant to keep private.',
+  docsUrl: `${DOCS}#public-record-leak`,
+  check: context => {
+    const { ast } = context;
+    const records = getRecordNames(ast);
+    const asyncFunctions = getAsyncFunctions(ast);
+    const reports: RuleReport[] = [];
+
+    for (const fn of getFunctions(ast).filter(f => f.variant === 'transition')) {
+      const recordParams = fn.parameters.filter(p => isRecordType(p.type, records)).map(p => p.name.name);
+      if (recordParams.length === 0) continue;
+
+      const check = (expression: Expression, destination: string) => {
+        const leaked = recordParams.find(name => readsName(expression, name));
+        if (leaked) {
+          reports.push({
+            span: expression.span,
+            message: `Private record '${leaked}' data is ${destination}`
+          });
+        }
+      };
+
+      for (const call of findAsyncCalls(fn, asyncFunctions)) {
+        call.arguments.forEach(argument => check(argument, `passed to async function '${call.target.name.name}', whose inputs are public`));
+      }
+
+      // Outputs marked public
+      walk(fn.body, node => {
+        if (node.kind !== 'ReturnStatement' || !node.value || !fn.returnType) return;
+        const types = fn.returnType.kind === 'TupleType' ? fn.returnType.elements : [fn.returnType];
+        const values = node.value.kind === 'TupleExpression' ? node.value.elements : [node.value];
+        values.forEach((value, index) => {
+          if (types[index]?.visibility === 'public') check(value, 'returned as a public output');
+        });
+      });
+    }
+    return reports;
+  }
+};
+
+const callerVsSigner: LintRule = {
+  id: 'caller-vs-signer',
+  defaultSeverity: 'warning',
+  category: 'security',
+  description: '`self.signer` used for authorization',
+  docs: '`self.signer` is whoever signed the transaction, even when the call arrives through another program. A malicious program the user interacts with can pass a `self.signer` check; authorize with `self.caller` instead.',
+  docsUrl: `${DOCS}#caller-vs-signer`,
+  check: ({ ast }) => {
+    const reports: RuleReport[] = [];
+    walk(ast, node => {
+      // `assert_eq(self.caller, self.signer)` checks the call is direct, which is the safe use of self.signer
+      if (node.kind === 'AssertStatement' && node.variant !== 'assert' && comparesCallerWithSigner(node.arguments[0], node.arguments[1])) return;
+
+      const conditions = node.kind === 'AssertStatement' ? node.arguments
+        : node.kind === 'IfStatement' ? [node.condition]
+        : [];
+      for (const condition of conditions) {
+        const signer = findSignerCheck(condition);
+        if (signer) {
+          reports.push({
+            span: signer.span,
+            message: 'Authorization based on self.signer can be passed through an intermediate program; check self.caller'
+          });
+        }
+      }
+    });
+    return reports;
+  }
+};
+
+const uncheckedUnderflow: LintRule = {
+  id: 'unchecked-underflow',
+  defaultSeverity: 'warning',
+  category: 'security',
+  description: 'Balance subtraction without an explicit bounds check',
+  docs: 'Subtracting from an unsigned balance halts the transaction on underflow with an opaque error, and `sub_wrapped` silently wraps to a huge value. Assert the balance covers the amount first.',
+  docsUrl: `${DOCS}#unchecked-underflow`,
+  check: context => {
+    const { ast } = context;
+    const mappings = getMappingNames(ast);
+    const records = getRecordNames(ast);
+    const reports: RuleReport[] = [];
+
+    for (const fn of getFunctions(ast)) {
+      // Balances are values read from mappings and fields of record inputs
+      const balances = new Set<string>();
+      const recordParams = new Set(fn.parameters.filter(p => isRecordType(p.type, records)).map(p => p.name.name));
+      walk(fn.body, node => {
+        if (node.kind === 'VariableDeclaration' && node.names.length === 1 && asMappingRead(node.value, mappings)) {
+          balances.add(node.names[0].name);
+        }
+      });
+      const isBalance = (expression: Expression) =>
+        (expression.kind === 'Identifier' && balances.has(expression.name)) ||
+        (expression.kind === 'MemberExpression' && expression.object.kind === 'Identifier' && recordParams.has(expression.object.name)) ||
+        !!asMappingRead(expression, mappings);
+
+      for (const subtraction of findSubtractions(fn.body)) {
+        if (!isBalance(subtraction.left)) continue;
+
+        const left = sourceOf(context, subtraction.left);
+        if (subtraction.wrapped) {
+          reports.push({ span: subtraction.node.span, message: `sub_wrapped on balance '${left}' wraps around instead of failing on underflow` });
+          continue;
+        }
+
+        const right = sourceOf(context, subtraction.right);
+        const guarded = conditionsBefore(fn, subtraction.node.span.start.offset).some(condition => {
+          let found = false;
+          walk(condition, node => {
+            if (node.kind !== 'BinaryExpression' || !['>=', '>', '<=', '<'].includes(node.operator)) return;
+            const sides = [sourceOf(context, node.left), sourceOf(context, node.right)];
+            if (sides.includes(left) && sides.includes(right)) found = true;
+          });
+          return found;
+        });
+        if (!guarded) {
+          reports.push({
+            span: subtraction.node.span,
+            message: `'${left}' may be smaller than '${right}'; assert ${left} >= ${right} before subtracting`
+          });
+        }
+      }
+    }
+    return reports;
+  }
+};
+
+const mappingGetWithoutDefault: LintRule = {
+  id: 'mapping-get-without-default',
+  defaultSeverity: 'warning',
+  category: 'security',
+  description: 'Mapping read that halts when the key is missing',
+  docs: '`Mapping::get` aborts finalization if the key has no value, so the first interaction of a new account fails. Use `Mapping::get_or_use` with a default, or check `Mapping::contains` first.',
+  docsUrl: `${DOCS}#mapping-get-without-default`,
+  check: ({ ast }) => {
+    const mappings = getMappingNames(ast);
+    const reports: RuleReport[] = [];
+
+    for (const fn of getFunctions(ast)) {
+      // Mappings already checked with contains earlier in the function
+      const checked = new Set<string>();
+      walk(fn.body, node => {
+        if (node.kind !== 'CallExpression') return;
+
+        const callee = node.callee;
+        if (callee.kind === 'PathExpression' && callee.segments[0]?.name === 'Mapping' && callee.segments[1]?.name === 'contains' &&
+            node.arguments[0]?.kind === 'Identifier') {
+          checked.add(node.arguments[0].name);
+        } else if (callee.kind === 'MemberExpression' && callee.property.name === 'contains' && callee.object.kind === 'Identifier') {
+          checked.add(callee.object.name);
+        }
+
+        const read = asMappingRead(node, mappings);
+        if (read && read.method === 'get' && !checked.has(read.mapping)) {
+          reports.push({
+            span: node.span,
+            message: `Reading '${read.mapping}' without a default halts when the key is missing; use get_or_use or check contains first`
+          });
+        }
+      });
+    }
+    return reports;
+  }
+};
+
+const recordNotReemitted: LintRule = {
+  id: 'record-not-reemitted',
+  defaultSeverity: 'warning',
+  category: 'security',
+  description: 'Record input consumed without an output of its type',
+  docs: 'A record passed to a transition is spent. If the transition returns no record of the same type, whatever value it held is destroyed. Return the remainder as a new record, or suppress this for intentional burns.',
+  docsUrl: `${DOCS}#record-not-reemitted`,
+  check: ({ ast }) => {
+    const records = getRecordNames(ast);
+    const reports: RuleReport[] = [];
+
+    for (const fn of getFunctions(ast).filter(f => f.variant === 'transition')) {
+      const outputs = new Set(flattenTypes(fn.returnType).map(type => type.kind === 'NamedType' ? type.name : type.text));
+
+      for (const parameter of fn.parameters.filter((p): p is Parameter => isRecordType(p.type, records))) {
+        const typeName = parameter.type.kind === 'NamedType' ? parameter.type.name : parameter.type.text;
+        if (outputs.has(typeName)) continue;
+
+        // Handing the record to another program moves it rather than destroying it
+        let forwarded = false;
+        walk(fn.body, node => {
+          if (node.kind === 'CallExpression' && node.callee.kind === 'LocatorExpression' &&
+              node.arguments.some(argument => readsName(argument, parameter.name.name))) {
+            forwarded = true;
+          }
+        });
+        if (!forwarded) {
+          reports.push({
+            span: parameter.name.span,
+            message: `Record '${parameter.name.name}' is consumed but no ${typeName} record is returned`
+          });
+        }
+      }
+    }
+    return reports;
+  }
+};
+
+const missingOwnerCheck: LintRule = {
+  id: 'missing-owner-check',
+  defaultSeverity: 'warning',
+  category: 'security',
+  description: 'Balance of an unchecked address is debited',
+  docs: 'When a transition passes an address parameter to finalization and that address\'s mapping balance is reduced there, anyone can debit any account. Pass `self.caller` instead, or assert the parameter equals `self.caller`.',
+  docsUrl: `${DOCS}#missing-owner-check`,
+  check: ({ ast }) => {
+    const mappings = getMappingNames(ast);
+    const asyncFunctions = getAsyncFunctions(ast);
+    const reports: RuleReport[] = [];
+
+    // Parameter positions of each async function whose balance is reduced
+    const debited = new Map<FunctionDeclaration, Set<number>>();
+    for (const fn of asyncFunctions.values()) {
+      const keysByVariable = new Map<string, string>();
+      walk(fn.body, node => {
+        if (node.kind === 'VariableDeclaration' && node.names.length === 1) {
+          const read = asMappingRead(node.value, mappings);
+          if (read?.key?.kind === 'Identifier') keysByVariable.set(node.names[0].name, read.key.name);
+        }
+      });
+
+      const indices = new Set<number>();
+      for (const { left } of findSubtractions(fn.body)) {
+        const read = asMappingRead(left, mappings);
+        const key = read?.key?.kind === 'Identifier' ? read.key.name
+          : left.kind === 'Identifier' ? keysByVariable.get(left.name)
+          : undefined;
+        const index = fn.parameters.findIndex(p => p.name.name === key);
+        if (index !== -1) indices.add(index);
+      }
+      if (indices.size > 0) debited.set(fn, indices);
+    }
+
+    for (const transition of getFunctions(ast).filter(f => f.variant === 'transition')) {
+      for (const call of findAsyncCalls(transition, asyncFunctions)) {
+        for (const index of debited.get(call.target) || []) {
+          const argument = call.arguments[index];
+          if (!argument || argument.kind !== 'Identifier') continue;
+          if (!transition.parameters.some(p => p.name.name === argument.name)) continue;
+
+          const checked = conditionsBefore(transition, transition.body.span.end.offset).some(condition =>
+            readsName(condition, argument.name) &&
+            (!!containsSelfMember(condition, 'caller') || !!containsSelfMember(condition, 'signer'))
+          );
+          if (!checked) {
+            reports.push({
+              span: argument.span,
+              message: `'${argument.name}' is debited in '${call.target.name.name}' but never checked against self.caller`
+            });
+          }
+        }
+      }
+    }
+    return reports;
+  }
+};
+
+export const SECURITY_RULES: LintRule[] = [
+  publicRecordLeak,
+  callerVsSigner,
+  uncheckedUnderflow,
+  mappingGetWithoutDefault,
+  recordNotReemitted,
+  missingOwnerCheck
+];
\ No newline at end of file
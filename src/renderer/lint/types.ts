@@ -0,0 +1,42 @@
+import { ParseDiagnostic, SourceFile, Span } from '../parser';
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+export type RuleCategory = 'correctness' | 'security' | 'style' | 'maintainability';
+
+/** A rule's configured level; `off` disables it */
+export type RuleSetting = RuleSeverity | 'off';
+
+export interface RuleContext {
+  source: string;
+  fileName: string;
+  ast: SourceFile;
+  parseDiagnostics: ParseDiagnostic[];
+}
+
+export interface RuleReport {
+  span: Span;
+  message: string;
+}
+
+export interface LintRule {
+  id: string; // kebab-case, used in config files and suppression comments
+  defaultSeverity: RuleSeverity;
+  category: RuleCategory;
+  description: string; // one line, shown next to reported problems
+  docs: string; // why the rule exists and how to satisfy it
+  docsUrl?: string; // longer explanation: a docs/ page relative to the repository root, or an https URL
+  check: (context: RuleContext) => RuleReport[];
+}
+
+export interface LintConfig {
+  rules: Record<string, RuleSetting>;
+}
+
+export interface LintIssue {
+  line: number;
+  column: number;
+  message: string;
+  severity: RuleSeverity;
+  rule: string;
+}
\ No newline at end of file
@@ -0,0 +1,327 @@
+// Typed syntax tree for Leo source files
+
+export interface Position {
+  offset: number; // 0-based character offset
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface Span {
+  start: Position;
+  end: Position; // exclusive
+}
+
+export interface Comment {
+  text: string; // including the // or /* */ markers
+  block: boolean;
+  span: Span;
+}
+
+export interface ParseDiagnostic {
+  message: string;
+  span: Span;
+  code?: 'missing-semicolon';
+}
+
+interface BaseNode {
+  span: Span;
+  parenthesized?: boolean; // expressions written as `(expr)`; the span excludes the parentheses
+}
+
+export type Visibility = 'public' | 'private' | 'constant';
+
+export interface Identifier extends BaseNode {
+  kind: 'Identifier';
+  name: string;
+}
+
+export interface SourceFile extends BaseNode {
+  kind: 'SourceFile';
+  imports: ImportDeclaration[];
+  program?: ProgramDeclaration;
+  comments: Comment[];
+}
+
+export interface ImportDeclaration extends BaseNode {
+  kind: 'ImportDeclaration';
+  name: Identifier; // `credits` in `import credits.aleo;`
+  programId: string; // `credits.aleo`
+}
+
+export interface ProgramDeclaration extends BaseNode {
+  kind: 'ProgramDeclaration';
+  name: Identifier;
+  programId: string;
+  items: ProgramItem[];
+}
+
+// Program items
+
+export type ProgramItem = StructDeclaration | MappingDeclaration | FunctionDeclaration | ConstDeclaration;
+
+export interface StructDeclaration extends BaseNode {
+  kind: 'StructDeclaration';
+  isRecord: boolean;
+  name: Identifier;
+  fields: FieldDeclaration[];
+}
+
+export interface FieldDeclaration extends BaseNode {
+  kind: 'FieldDeclaration';
+  name: Identifier;
+  type: TypeNode;
+  visibility?: Visibility;
+}
+
+export interface MappingDeclaration extends BaseNode {
+  kind: 'MappingDeclaration';
+  name: Identifier;
+  keyType: TypeNode;
+  valueType: TypeNode;
+}
+
+export type FunctionVariant = 'transition' | 'function' | 'inline' | 'finalize' | 'script';
+
+export interface Annotation extends BaseNode {
+  kind: 'Annotation';
+  name: string;
+}
+
+export interface FunctionDeclaration extends BaseNode {
+  kind: 'FunctionDeclaration';
+  variant: FunctionVariant;
+  isAsync: boolean;
+  annotations: Annotation[];
+  name: Identifier;
+  parameters: Parameter[];
+  returnType?: TypeNode;
+  body: Block;
+}
+
+export interface Parameter extends BaseNode {
+  kind: 'Parameter';
+  name: Identifier;
+  type: TypeNode;
+  visibility?: Visibility;
+}
+
+export interface ConstDeclaration extends BaseNode {
+  kind: 'ConstDeclaration';
+  name: Identifier;
+  type?: TypeNode;
+  value: Expression;
+}
+
+// Types
+
+export type TypeNode = NamedType | TupleType | ArrayType;
+
+interface BaseType extends BaseNode {
+  text: string; // normalized source text, e.g. `[u8; 32u32]`
+  visibility?: Visibility; // only in return types
+}
+
+export interface NamedType extends BaseType {
+  kind: 'NamedType';
+  name: string; // `u64`, `Token`, `Future`
+  program?: string; // `credits.aleo` in `credits.aleo/credits`
+}
+
+export interface TupleType extends BaseType {
+  kind: 'TupleType';
+  elements: TypeNode[];
+}
+
+export interface ArrayType extends BaseType {
+  kind: 'ArrayType';
+  element: TypeNode;
+  length: Expression;
+}
+
+// Statements
+
+export type Statement =
+  | Block
+  | VariableDeclaration
+  | ReturnStatement
+  | AssignmentStatement
+  | IfStatement
+  | ForStatement
+  | AssertStatement
+  | ExpressionStatement;
+
+export interface Block extends BaseNode {
+  kind: 'Block';
+  statements: Statement[];
+}
+
+export interface VariableDeclaration extends BaseNode {
+  kind: 'VariableDeclaration';
+  isConst: boolean;
+  names: Identifier[]; // more than one for `let (a, b) = ...`
+  type?: TypeNode;
+  value: Expression;
+}
+
+export interface ReturnStatement extends BaseNode {
+  kind: 'ReturnStatement';
+  value?: Expression;
+  finalizeArguments?: Expression[]; // `return then finalize(...)`
+}
+
+export interface AssignmentStatement extends BaseNode {
+  kind: 'AssignmentStatement';
+  operator: string; // `=`, `+=`, ...
+  target: Expression;
+  value: Expression;
+}
+
+export interface IfStatement extends BaseNode {
+  kind: 'IfStatement';
+  condition: Expression;
+  consequent: Block;
+  alternate?: Block | IfStatement;
+}
+
+export interface ForStatement extends BaseNode {
+  kind: 'ForStatement';
+  variable: Identifier;
+  type?: TypeNode;
+  start: Expression;
+  end: Expression;
+  body: Block;
+}
+
+export interface AssertStatement extends BaseNode {
+  kind: 'AssertStatement';
+  variant: 'assert' | 'assert_eq' | 'assert_neq';
+  arguments: Expression[];
+}
+
+export interface ExpressionStatement extends BaseNode {
+  kind: 'ExpressionStatement';
+  expression: Expression;
+}
+
+// Expressions
+
+export type Expression =
+  | Identifier
+  | Literal
+  | PathExpression
+  | LocatorExpression
+  | MemberExpression
+  | IndexExpression
+  | CallExpression
+  | UnaryExpression
+  | BinaryExpression
+  | TernaryExpression
+  | CastExpression
+  | StructExpression
+  | TupleExpression
+  | ArrayExpression
+  | AsyncBlockExpression;
+
+export type LiteralType = 'integer' | 'field' | 'group' | 'scalar' | 'boolean' | 'address' | 'string';
+
+export interface Literal extends BaseNode {
+  kind: 'Literal';
+  type: LiteralType;
+  value: string; // source text without the type suffix
+  suffix?: string; // `u32`, `field`, ...
+}
+
+export interface PathExpression extends BaseNode {
+  kind: 'PathExpression';
+  segments: Identifier[]; // `Mapping::get`
+}
+
+export interface LocatorExpression extends BaseNode {
+  kind: 'LocatorExpression';
+  programId: string; // `credits.aleo`
+  name: Identifier; // `transfer_public`
+}
+
+export interface MemberExpression extends BaseNode {
+  kind: 'MemberExpression';
+  object: Expression;
+  property: Identifier; // a number for tuple access (`pair.0`)
+}
+
+export interface IndexExpression extends BaseNode {
+  kind: 'IndexExpression';
+  object: Expression;
+  index: Expression;
+}
+
+export interface CallExpression extends BaseNode {
+  kind: 'CallExpression';
+  callee: Expression;
+  arguments: Expression[];
+}
+
+export interface UnaryExpression extends BaseNode {
+  kind: 'UnaryExpression';
+  operator: '!' | '-';
+  operand: Expression;
+}
+
+export interface BinaryExpression extends BaseNode {
+  kind: 'BinaryExpression';
+  operator: string;
+  left: Expression;
+  right: Expression;
+}
+
+export interface TernaryExpression extends BaseNode {
+  kind: 'TernaryExpression';
+  condition: Expression;
+  consequent: Expression;
+  alternate: Expression;
+}
+
+export interface CastExpression extends BaseNode {
+  kind: 'CastExpression';
+  expression: Expression;
+  type: TypeNode;
+}
+
+export interface StructExpression extends BaseNode {
+  kind: 'StructExpression';
+  name: Identifier;
+  fields: StructFieldInit[];
+}
+
+export interface StructFieldInit extends BaseNode {
+  kind: 'StructFieldInit';
+  name: Identifier;
+  value?: Expression; // absent for the shorthand `Point { x, y }`
+}
+
+export interface TupleExpression extends BaseNode {
+  kind: 'TupleExpression';
+  elements: Expression[];
+}
+
+export interface ArrayExpression extends BaseNode {
+  kind: 'ArrayExpression';
+  elements: Expression[];
+}
+
+export interface AsyncBlockExpression extends BaseNode {
+  kind: 'AsyncBlockExpression';
+  body: Block;
+}
+
+export type AstNode =
+  | SourceFile
+  | ImportDeclaration
+  | ProgramDeclaration
+  | ProgramItem
+  | FieldDeclaration
+  | Annotation
+  | Parameter
+  | TypeNode
+  | Statement
+  | Expression
+  | StructFieldInit;
\ No newline at end of file
@@ -0,0 +1,6 @@
+export * from './ast';
+export { tokenize, INTEGER_SUFFIXES, LITERAL_SUFFIXES } from './lexer';
+export type { Token, TokenKind, LexResult } from './lexer';
+export { BINARY_PRECEDENCE, LeoParser, parseLeo } from './parser';
+export type { ParseResult } from './parser';
+export { getChildren, walk, isReference } from './walk';
\ No newline at end of file
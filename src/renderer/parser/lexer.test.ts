@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { tokenize } from './lexer';
+
+const values = (source: string) => tokenize(source).tokens.map(token => `${token.kind}:${token.value}`);
+
+describe('tokenize', () => {
+  it('splits a statement into identifiers, literals and symbols', () => {
+    expect(values('let total: u64 = a + 10u64;')).toEqual([
+      'identifier:let',
+      'identifier:total',
+      'symbol::',
+      'identifier:u64',
+      'symbol:=',
+      'identifier:a',
+      'symbol:+',
+      'integer:10u64',
+      'symbol:;',
+      'eof:'
+    ]);
+  });
+
+  it('prefers the longest operator', () => {
+    expect(values('a **= b ** c; x::y -> z')).toEqual([
+      'identifier:a', 'symbol:**=', 'identifier:b', 'symbol:**', 'identifier:c', 'symbol:;',
+      'identifier:x', 'symbol:::', 'identifier:y', 'symbol:->', 'identifier:z', 'eof:'
+    ]);
+  });
+
+  it('recognizes addresses, strings and radix literals', () => {
+    const address = `aleo1${'q'.repeat(58)}`;
+    expect(values(`${address} "a \\"quoted\\" word" 0xff_u8 1field`)).toEqual([
+      `address:${address}`,
+      'string:"a \\"quoted\\" word"',
+      'integer:0xff_u8',
+      'integer:1field',
+      'eof:'
+    ]);
+  });
+
+  it('returns comments separately with their positions', () => {
+    const { tokens, comments } = tokenize('// line\nlet a = 1u8; /* block\n comment */');
+
+    expect(tokens.map(token => token.value)).toEqual(['let', 'a', '=', '1u8', ';', '']);
+    expect(comments.map(comment => [comment.text, comment.block, comment.span.start.line])).toEqual([
+      ['// line', false, 1],
+      ['/* block\n comment */', true, 2]
+    ]);
+  });
+
+  it('tracks lines and columns', () => {
+    const [first, second] = tokenize('a\n  bc').tokens;
+    expect(first.span).toMatchObject({ start: { line: 1, column: 1, offset: 0 }, end: { line: 1, column: 2 } });
+    expect(second.span).toMatchObject({ start: { line: 2, column: 3, offset: 4 }, end: { line: 2, column: 5 } });
+  });
+
+  it('reports bad input and keeps going', () => {
+    const { tokens, diagnostics } = tokenize('let a = 5u7 # "open\n/* never closed');
+
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "Invalid literal suffix 'u7'",
+      "Unexpected character '#'",
+      'Unterminated string literal',
+      'Unterminated block comment'
+    ]);
+    expect(tokens.map(token => token.kind)).toEqual(['identifier', 'identifier', 'symbol', 'integer', 'string', 'eof']);
+  });
+});
\ No newline at end of file
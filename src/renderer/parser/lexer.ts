@@ -0,0 +1,142 @@
+import { Comment, ParseDiagnostic, Position, Span } from './ast';
+
+export type TokenKind = 'identifier' | 'integer' | 'address' | 'string' | 'symbol' | 'eof';
+
+export interface Token {
+  kind: TokenKind;
+  value: string;
+  span: Span;
+}
+
+export interface LexResult {
+  tokens: Token[]; // always ends with an `eof` token
+  comments: Comment[];
+  diagnostics: ParseDiagnostic[];
+}
+
+export const INTEGER_SUFFIXES = ['u8', 'u16', 'u32', 'u64', 'u128', 'i8', 'i16', 'i32', 'i64', 'i128'];
+export const LITERAL_SUFFIXES = [...INTEGER_SUFFIXES, 'field', 'group', 'scalar'];
+
+// Longest first so `**=` wins over `**` and `*`
+const SYMBOLS = [
+  '**=', '<<=', '>>=', '&&=', '||=',
+  '**', '==', '!=', '<=', '>=', '&&', '||', '<<', '>>', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '->', '=>', '::', '..',
+  '{', '}', '(', ')', '[', ']', ';', ':', ',', '.', '=', '+', '-', '*', '/', '%', '<', '>', '!', '&', '|', '^', '?', '@'
+];
+
+const ADDRESS_PATTERN = /^aleo1[a-z0-9]{58}$/;
+
+/**
+ * Split Leo source into tokens. Comments are returned separately; unknown
+ * characters are reported and skipped.
+ */
+export function tokenize(source: string): LexResult {
+  const lineStarts = computeLineStarts(source);
+  const positionAt = (offset: number): Position => {
+    // Binary search for the line containing offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { offset, line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+  const spanOf = (start: number, end: number): Span => ({ start: positionAt(start), end: positionAt(end) });
+
+  const tokens: Token[] = [];
+  const comments: Comment[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  let offset = 0;
+
+  while (offset < source.length) {
+    const char = source[offset];
+
+    if (/\s/.test(char)) {
+      offset++;
+      continue;
+    }
+
+    if (source.startsWith('//', offset)) {
+      const end = source.indexOf('\n', offset);
+      const stop = end === -1 ? source.length : end;
+      comments.push({ text: source.slice(offset, stop).replace(/\r$/, ''), block: false, span: spanOf(offset, stop) });
+      offset = stop;
+      continue;
+    }
+
+    if (source.startsWith('/*', offset)) {
+      const end = source.indexOf('*/', offset + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      if (end === -1) {
+        diagnostics.push({ message: 'Unterminated block comment', span: spanOf(offset, stop) });
+      }
+      comments.push({ text: source.slice(offset, stop), block: true, span: spanOf(offset, stop) });
+      offset = stop;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const start = offset;
+      while (offset < source.length && /[A-Za-z0-9_]/.test(source[offset])) offset++;
+      const value = source.slice(start, offset);
+      tokens.push({ kind: ADDRESS_PATTERN.test(value) ? 'address' : 'identifier', value, span: spanOf(start, offset) });
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const start = offset;
+      const radix = /^0[xob]/.test(source.slice(offset, offset + 2)) ? source[offset + 1] : '';
+      if (radix) offset += 2;
+      const digits = radix === 'x' ? /[0-9a-fA-F_]/ : /[0-9_]/;
+      while (offset < source.length && digits.test(source[offset])) offset++;
+
+      // Type suffix, e.g. 10u32 or 1field
+      const suffixStart = offset;
+      while (offset < source.length && /[A-Za-z0-9_]/.test(source[offset])) offset++;
+      const suffix = source.slice(suffixStart, offset);
+      if (suffix && !LITERAL_SUFFIXES.includes(suffix)) {
+        diagnostics.push({ message: `Invalid literal suffix '${suffix}'`, span: spanOf(suffixStart, offset) });
+      }
+      tokens.push({ kind: 'integer', value: source.slice(start, offset), span: spanOf(start, offset) });
+      continue;
+    }
+
+    if (char === '"') {
+      const start = offset;
+      offset++;
+      while (offset < source.length && source[offset] !== '"' && source[offset] !== '\n') {
+        offset += source[offset] === '\\' ? 2 : 1;
+      }
+      if (source[offset] === '"') {
+        offset++;
+      } else {
+        diagnostics.push({ message: 'Unterminated string literal', span: spanOf(start, offset) });
+      }
+      tokens.push({ kind: 'string', value: source.slice(start, offset), span: spanOf(start, offset) });
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(candidate => source.startsWith(candidate, offset));
+    if (symbol) {
+      tokens.push({ kind: 'symbol', value: symbol, span: spanOf(offset, offset + symbol.length) });
+      offset += symbol.length;
+      continue;
+    }
+
+    diagnostics.push({ message: `Unexpected character '${char}'`, span: spanOf(offset, offset + 1) });
+    offset++;
+  }
+
+  tokens.push({ kind: 'eof', value: '', span: spanOf(source.length, source.length) });
+  return { tokens, comments, diagnostics };
+}
+
+function computeLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { parseLeo } from './parser';
+import { Expression, FunctionDeclaration, MappingDeclaration, StructDeclaration, VariableDeclaration } from './ast';
+
+// Fully parenthesized form of an expression, to check precedence and associativity
+function show(expression: Expression): string {
+  switch (expression.kind) {
+    case 'Identifier': return expression.name;
+    case 'Literal': return `${expression.value}${expression.suffix || ''}`;
+    case 'BinaryExpression': return `(${show(expression.left)} ${expression.operator} ${show(expression.right)})`;
+    case 'UnaryExpression': return `(${expression.operator}${show(expression.operand)})`;
+    case 'TernaryExpression': return `(${show(expression.condition)} ? ${show(expression.consequent)} : ${show(expression.alternate)})`;
+    case 'CastExpression': return `(${show(expression.expression)} as ${expression.type.text})`;
+    case 'MemberExpression': return `${show(expression.object)}.${expression.property.name}`;
+    case 'CallExpression': return `${show(expression.callee)}(${expression.arguments.map(show).join(', ')})`;
+    case 'PathExpression': return expression.segments.map(segment => segment.name).join('::');
+    default: return expression.kind;
+  }
+}
+
+function parseExpression(source: string): string {
+  const { ast, diagnostics } = parseLeo(`program t.aleo { function f() { let x = ${source}; } }`);
+  expect(diagnostics).toEqual([]);
+  const fn = ast.program!.items[0] as FunctionDeclaration;
+  return show((fn.body.statements[0] as VariableDeclaration).value);
+}
+
+const TOKEN_PROGRAM = `import credits.aleo;
+
+program token.aleo {
+    record Token {
+        owner: address,
+        amount: u64,
+    }
+
+    mapping balances: address => u64;
+
+    async transition transfer_public(public to: address, public amount: u64) -> Future {
+        return finalize_transfer(self.caller, to, amount);
+    }
+
+    async function finalize_transfer(from: address, to: address, amount: u64) {
+        let current: u64 = Mapping::get_or_use(balances, from, 0u64);
+        Mapping::set(balances, from, current - amount);
+    }
+}
+`;
+
+describe('parseLeo', () => {
+  it('parses imports and program items', () => {
+    const { ast, diagnostics } = parseLeo(TOKEN_PROGRAM);
+
+    expect(diagnostics).toEqual([]);
+    expect(ast.imports.map(declaration => declaration.programId)).toEqual(['credits.aleo']);
+    expect(ast.program?.programId).toBe('token.aleo');
+    expect(ast.program?.items.map(item => `${item.kind}:${item.name.name}`)).toEqual([
+      'StructDeclaration:Token',
+      'MappingDeclaration:balances',
+      'FunctionDeclaration:transfer_public',
+      'FunctionDeclaration:finalize_transfer'
+    ]);
+  });
+
+  it('keeps declaration details', () => {
+    const items = parseLeo(TOKEN_PROGRAM).ast.program!.items;
+    const record = items[0] as StructDeclaration;
+    const mapping = items[1] as MappingDeclaration;
+    const transition = items[2] as FunctionDeclaration;
+    const finalize = items[3] as FunctionDeclaration;
+
+    expect(record.isRecord).toBe(true);
+    expect(record.fields.map(field => `${field.name.name}: ${field.type.text}`)).toEqual(['owner: address', 'amount: u64']);
+    expect([mapping.keyType.text, mapping.valueType.text]).toEqual(['address', 'u64']);
+    expect(transition).toMatchObject({ variant: 'transition', isAsync: true });
+    expect(transition.parameters.map(p => `${p.visibility} ${p.name.name}`)).toEqual(['public to', 'public amount']);
+    expect(transition.returnType?.text).toBe('Future');
+    expect(finalize).toMatchObject({ variant: 'function', isAsync: true });
+    expect(finalize.body.statements.map(statement => statement.kind)).toEqual(['VariableDeclaration', 'ExpressionStatement']);
+  });
+
+  it('follows operator precedence and associativity', () => {
+    expect(parseExpression('a + b * c - d')).toBe('((a + (b * c)) - d)');
+    expect(parseExpression('a ** b ** c')).toBe('(a ** (b ** c))');
+    expect(parseExpression('a || b && c == d')).toBe('(a || (b && (c == d)))');
+    expect(parseExpression('-a as u8 + 1u8')).toBe('(((-a) as u8) + 1u8)');
+    expect(parseExpression('a < b ? x : y')).toBe('((a < b) ? x : y)');
+    expect(parseExpression('self.caller')).toBe('self.caller');
+    expect(parseExpression('BHP256::hash_to_field(a)')).toBe('BHP256::hash_to_field(a)');
+  });
+
+  it('reports a missing semicolon without losing the statement', () => {
+    const { ast, diagnostics } = parseLeo('program t.aleo { function f() -> u8 { let a: u8 = 1u8\n return a; } }');
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ code: 'missing-semicolon', span: { start: { line: 1 } } });
+    const fn = ast.program!.items[0] as FunctionDeclaration;
+    expect(fn.body.statements.map(statement => statement.kind)).toEqual(['VariableDeclaration', 'ReturnStatement']);
+  });
+
+  it('recovers after a syntax error and parses the rest of the program', () => {
+    const { ast, diagnostics } = parseLeo(`program t.aleo {
+    function broken() {
+        let = 1u8;
+        return;
+    }
+
+    function fine() {}
+}`);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].span.start.line).toBe(3);
+    expect(ast.program?.items.map(item => item.name.name)).toEqual(['broken', 'fine']);
+  });
+
+  it('collects comments and lexer errors', () => {
+    const { ast, diagnostics } = parseLeo('// token\nprogram t.aleo { function f() { let a = 1u8 # 2u8; } }');
+
+    expect(ast.comments.map(comment => comment.text)).toEqual(['// token']);
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toContain("Unexpected character '#'");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,893 @@
+import {
+  Annotation,
+  AssertStatement,
+  Block,
+  ConstDeclaration,
+  Expression,
+  FieldDeclaration,
+  ForStatement,
+  FunctionDeclaration,
+  FunctionVariant,
+  Identifier,
+  IfStatement,
+  ImportDeclaration,
+  Literal,
+  MappingDeclaration,
+  Parameter,
+  ParseDiagnostic,
+  ProgramDeclaration,
+  ProgramItem,
+  ReturnStatement,
+  SourceFile,
+  Span,
+  Statement,
+  StructDeclaration,
+  StructFieldInit,
+  TypeNode,
+  VariableDeclaration,
+  Visibility
+} from './ast';
+import { INTEGER_SUFFIXES, LITERAL_SUFFIXES, Token, tokenize } from './lexer';
+
+export interface ParseResult {
+  ast: SourceFile;
+  diagnostics: ParseDiagnostic[]; // lexer and parser errors, in source order
+}
+
+class ParseError extends Error {
+  constructor(message: string, public span: Span) {
+    super(message);
+  }
+}
+
+const FUNCTION_VARIANTS: FunctionVariant[] = ['transition', 'function', 'inline', 'finalize', 'script'];
+const ITEM_KEYWORDS = ['struct', 'record', 'mapping', ...FUNCTION_VARIANTS];
+const STATEMENT_KEYWORDS = ['let', 'const', 'return', 'if', 'for', 'assert', 'assert_eq', 'assert_neq'];
+const VISIBILITIES: Visibility[] = ['public', 'private', 'constant'];
+const ASSIGNMENT_OPERATORS = ['=', '+=', '-=', '*=', '/=', '%=', '**=', '<<=', '>>=', '&=', '|=', '^=', '&&=', '||='];
+
+// Higher binds tighter; `**` is right-associative
+export const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '|': 5,
+  '^': 6,
+  '&': 7,
+  '<<': 8, '>>': 8,
+  '+': 9, '-': 9,
+  '*': 10, '/': 10, '%': 10,
+  '**': 11
+};
+
+/**
+ * Recursive-descent parser for Leo. Errors are collected rather than thrown:
+ * a broken statement or item is skipped and parsing resumes after it.
+ */
+export class LeoParser {
+  private tokens: Token[];
+  private diagnostics: ParseDiagnostic[];
+  private comments: SourceFile['comments'];
+  private index = 0;
+  // Off while parsing `if`/`for` headers, where `x {` starts the block
+  private allowStructLiterals = true;
+
+  constructor(private source: string) {
+    const lexed = tokenize(source);
+    this.tokens = lexed.tokens;
+    this.comments = lexed.comments;
+    this.diagnostics = lexed.diagnostics;
+  }
+
+  parse(): ParseResult {
+    const start = this.peek();
+    const imports: ImportDeclaration[] = [];
+    let program: ProgramDeclaration | undefined;
+
+    while (!this.isEof()) {
+      try {
+        if (this.isWord('import')) {
+          imports.push(this.parseImport());
+        } else if (this.isWord('program')) {
+          if (program) {
+            this.report(new ParseError('Only one program can be declared per file', this.peek().span));
+          }
+          program = this.parseProgram();
+        } else {
+          throw new ParseError(`Expected an import or program declaration but found ${this.describe(this.peek())}`, this.peek().span);
+        }
+      } catch (error) {
+        this.report(error);
+        this.skipToTopLevel();
+      }
+    }
+
+    if (!program && this.tokens.length > 1) {
+      this.report(new ParseError('Missing program declaration', start.span));
+    }
+
+    const ast: SourceFile = {
+      kind: 'SourceFile',
+      imports,
+      program,
+      comments: this.comments,
+      span: { start: { offset: 0, line: 1, column: 1 }, end: this.peek().span.end }
+    };
+    const diagnostics = [...this.diagnostics].sort((a, b) => a.span.start.offset - b.span.start.offset);
+    return { ast, diagnostics };
+  }
+
+  // Declarations
+
+  private parseImport(): ImportDeclaration {
+    const start = this.advance();
+    const { name, programId } = this.parseProgramId();
+    this.expectSemicolon();
+    return { kind: 'ImportDeclaration', name, programId, span: this.spanFrom(start) };
+  }
+
+  private parseProgram(): ProgramDeclaration {
+    const start = this.advance();
+    const { name, programId } = this.parseProgramId();
+    this.expectSymbol('{');
+
+    const items: ProgramItem[] = [];
+    while (!this.isSymbol('}') && !this.isEof()) {
+      try {
+        items.push(this.parseItem());
+      } catch (error) {
+        this.report(error);
+        this.skipToNextItem();
+      }
+    }
+
+    if (!this.matchSymbol('}')) {
+      this.report(new ParseError(`Expected '}' to close program ${programId}`, this.peek().span));
+    }
+    return { kind: 'ProgramDeclaration', name, programId, items, span: this.spanFrom(start) };
+  }
+
+  private parseProgramId(): { name: Identifier; programId: string } {
+    const name = this.expectIdentifier('program name');
+    this.expectSymbol('.');
+    const network = this.expectIdentifier('network');
+    if (network.name !== 'aleo') {
+      this.report(new ParseError(`Expected '.aleo' but found '.${network.name}'`, network.span));
+    }
+    return { name, programId: `${name.name}.${network.name}` };
+  }
+
+  private parseItem(): ProgramItem {
+    const start = this.peek();
+    const annotations: Annotation[] = [];
+    while (this.isSymbol('@')) {
+      annotations.push(this.parseAnnotation());
+    }
+
+    if (this.isWord('struct') || this.isWord('record')) return this.parseStruct();
+    if (this.isWord('mapping')) return this.parseMapping();
+    if (this.isWord('const')) return this.parseConstDeclaration();
+    if (this.isWord('async') || FUNCTION_VARIANTS.some(variant => this.isWord(variant))) {
+      return this.parseFunction(annotations, start);
+    }
+
+    throw new ParseError(
+      `Expected a struct, record, mapping, const or function but found ${this.describe(this.peek())}`,
+      this.peek().span
+    );
+  }
+
+  private parseAnnotation(): Annotation {
+    const start = this.advance();
+    const name = this.expectIdentifier('annotation name');
+    if (this.isSymbol('(')) {
+      this.skipBalanced('(', ')');
+    }
+    return { kind: 'Annotation', name: name.name, span: this.spanFrom(start) };
+  }
+
+  private parseStruct(): StructDeclaration {
+    const start = this.advance();
+    const name = this.expectIdentifier(`${start.value} name`);
+    this.expectSymbol('{');
+
+    const fields: FieldDeclaration[] = [];
+    while (!this.isSymbol('}') && !this.isEof() && !this.isItemStart()) {
+      try {
+        const fieldStart = this.peek();
+        const visibility = this.parseVisibility();
+        const fieldName = this.expectIdentifier('field name');
+        this.expectSymbol(':');
+        const type = this.parseType();
+        fields.push({ kind: 'FieldDeclaration', name: fieldName, type, visibility, span: this.spanFrom(fieldStart) });
+
+        // Fields are separated by commas; older code uses semicolons
+        if (!this.matchSymbol(',') && !this.matchSymbol(';') && !this.isSymbol('}')) {
+          this.report(new ParseError(`Expected ',' after field '${fieldName.name}'`, this.previous().span));
+        }
+      } catch (error) {
+        this.report(error);
+        this.skipUntil([',', '}'], [',']);
+      }
+    }
+
+    this.expectClosingBrace(`${start.value} ${name.name}`);
+    return { kind: 'StructDeclaration', isRecord: start.value === 'record', name, fields, span: this.spanFrom(start) };
+  }
+
+  private parseMapping(): MappingDeclaration {
+    const start = this.advance();
+    const name = this.expectIdentifier('mapping name');
+    this.expectSymbol(':');
+    const keyType = this.parseType();
+    this.expectSymbol('=>');
+    const valueType = this.parseType();
+    this.expectSemicolon();
+    return { kind: 'MappingDeclaration', name, keyType, valueType, span: this.spanFrom(start) };
+  }
+
+  private parseConstDeclaration(): ConstDeclaration {
+    const start = this.advance();
+    const name = this.expectIdentifier('constant name');
+    const type = this.matchSymbol(':') ? this.parseType() : undefined;
+    this.expectSymbol('=');
+    const value = this.parseExpression();
+    this.expectSemicolon();
+    return { kind: 'ConstDeclaration', name, type, value, span: this.spanFrom(start) };
+  }
+
+  private parseFunction(annotations: Annotation[], start: Token): FunctionDeclaration {
+    const isAsync = this.matchWord('async');
+    const variantToken = this.peek();
+    const variant = FUNCTION_VARIANTS.find(candidate => this.isWord(candidate));
+    if (!variant) {
+      throw new ParseError(`Expected 'transition' or 'function' after 'async'`, variantToken.span);
+    }
+    this.advance();
+
+    const name = this.expectIdentifier(`${variant} name`);
+    const parameters = this.parseParameters();
+    const returnType = this.matchSymbol('->') ? this.parseType(true) : undefined;
+    const body = this.parseBlock();
+
+    return {
+      kind: 'FunctionDeclaration',
+      variant,
+      isAsync,
+      annotations,
+      name,
+      parameters,
+      returnType,
+      body,
+      span: this.spanFrom(start)
+    };
+  }
+
+  private parseParameters(): Parameter[] {
+    this.expectSymbol('(');
+    const parameters: Parameter[] = [];
+
+    while (!this.isSymbol(')') && !this.isEof()) {
+      const start = this.peek();
+      const visibility = this.parseVisibility();
+      const name = this.expectIdentifier('parameter name');
+      this.expectSymbol(':');
+      const type = this.parseType();
+      parameters.push({ kind: 'Parameter', name, type, visibility, span: this.spanFrom(start) });
+      if (!this.matchSymbol(',')) break;
+    }
+
+    this.expectSymbol(')');
+    return parameters;
+  }
+
+  private parseVisibility(): Visibility | undefined {
+    const token = this.peek();
+    // `public: u8` would be a field called public
+    if (token.kind === 'identifier' && VISIBILITIES.includes(token.value as Visibility) && !this.isSymbol(':', 1)) {
+      this.advance();
+      return token.value as Visibility;
+    }
+    return undefined;
+  }
+
+  // Types
+
+  private parseType(allowVisibility: boolean = false): TypeNode {
+    const visibility = allowVisibility ? this.parseVisibility() : undefined;
+    const start = this.peek();
+
+    if (this.matchSymbol('(')) {
+      const elements: TypeNode[] = [];
+      while (!this.isSymbol(')') && !this.isEof()) {
+        elements.push(this.parseType(allowVisibility));
+        if (!this.matchSymbol(',')) break;
+      }
+      this.expectSymbol(')');
+      return { kind: 'TupleType', elements, visibility, text: this.textFrom(start), span: this.spanFrom(start) };
+    }
+
+    if (this.matchSymbol('[')) {
+      const element = this.parseType();
+      this.expectSymbol(';');
+      const length = this.parseExpression();
+      this.expectSymbol(']');
+      return { kind: 'ArrayType', element, length, visibility, text: this.textFrom(start), span: this.spanFrom(start) };
+    }
+
+    const name = this.expectIdentifier('type');
+    let typeName = name.name;
+    let program: string | undefined;
+
+    // External type, e.g. credits.aleo/credits
+    if (this.isSymbol('.') && this.isWord('aleo', 1) && this.isSymbol('/', 2)) {
+      this.advance();
+      this.advance();
+      this.advance();
+      program = `${name.name}.aleo`;
+      typeName = this.expectIdentifier('type').name;
+    }
+
+    // Generic arguments such as Future<Fn(u64)> are kept as text only
+    if (this.isSymbol('<')) {
+      this.skipGenericArguments();
+    }
+
+    return { kind: 'NamedType', name: typeName, program, visibility, text: this.textFrom(start), span: this.spanFrom(start) };
+  }
+
+  // Statements
+
+  private parseBlock(): Block {
+    const start = this.expectSymbol('{');
+    const statements: Statement[] = [];
+
+    while (!this.isSymbol('}') && !this.isEof()) {
+      // A missing `}` would otherwise swallow the rest of the program
+      if (this.isItemStart()) break;
+
+      try {
+        statements.push(this.parseStatement());
+      } catch (error) {
+        this.report(error);
+        this.skipToNextStatement();
+      }
+    }
+
+    this.expectClosingBrace('block');
+    return { kind: 'Block', statements, span: this.spanFrom(start) };
+  }
+
+  private parseStatement(): Statement {
+    const start = this.peek();
+
+    if (this.isSymbol('{')) return this.parseBlock();
+    if (this.isWord('let') || this.isWord('const')) return this.parseVariableDeclaration();
+    if (this.isWord('return')) return this.parseReturn();
+    if (this.isWord('if')) return this.parseIf();
+    if (this.isWord('for')) return this.parseFor();
+    if ((this.isWord('assert') || this.isWord('assert_eq') || this.isWord('assert_neq')) && this.isSymbol('(', 1)) {
+      return this.parseAssert();
+    }
+
+    const expression = this.parseExpression();
+    const operator = this.peek();
+    if (operator.kind === 'symbol' && ASSIGNMENT_OPERATORS.includes(operator.value)) {
+      this.advance();
+      const value = this.parseExpression();
+      this.expectSemicolon();
+      return { kind: 'AssignmentStatement', operator: operator.value, target: expression, value, span: this.spanFrom(start) };
+    }
+
+    this.expectSemicolon();
+    return { kind: 'ExpressionStatement', expression, span: this.spanFrom(start) };
+  }
+
+  private parseVariableDeclaration(): VariableDeclaration {
+    const start = this.advance();
+    const names: Identifier[] = [];
+
+    if (this.matchSymbol('(')) {
+      while (!this.isSymbol(')') && !this.isEof()) {
+        names.push(this.expectIdentifier('variable name'));
+        if (!this.matchSymbol(',')) break;
+      }
+      this.expectSymbol(')');
+    } else {
+      names.push(this.expectIdentifier('variable name'));
+    }
+
+    const type = this.matchSymbol(':') ? this.parseType() : undefined;
+    this.expectSymbol('=');
+    const value = this.parseExpression();
+    this.expectSemicolon();
+
+    return { kind: 'VariableDeclaration', isConst: start.value === 'const', names, type, value, span: this.spanFrom(start) };
+  }
+
+  private parseReturn(): ReturnStatement {
+    const start = this.advance();
+    let value: Expression | undefined;
+    let finalizeArguments: Expression[] | undefined;
+
+    if (!this.isSymbol(';') && !this.isSymbol('}') && !this.isWord('then')) {
+      value = this.parseExpression();
+    }
+    if (this.matchWord('then')) {
+      if (!this.matchWord('finalize')) {
+        throw new ParseError(`Expected 'finalize' after 'then'`, this.peek().span);
+      }
+      finalizeArguments = this.parseArguments();
+    }
+
+    this.expectSemicolon();
+    return { kind: 'ReturnStatement', value, finalizeArguments, span: this.spanFrom(start) };
+  }
+
+  private parseIf(): IfStatement {
+    const start = this.advance();
+    const condition = this.withoutStructLiterals(() => this.parseExpression());
+    const consequent = this.parseBlock();
+    let alternate: Block | IfStatement | undefined;
+
+    if (this.matchWord('else')) {
+      alternate = this.isWord('if') ? this.parseIf() : this.parseBlock();
+    }
+
+    return { kind: 'IfStatement', condition, consequent, alternate, span: this.spanFrom(start) };
+  }
+
+  private parseFor(): ForStatement {
+    const start = this.advance();
+    const variable = this.expectIdentifier('loop variable');
+    const type = this.matchSymbol(':') ? this.parseType() : undefined;
+    if (!this.matchWord('in')) {
+      throw new ParseError(`Expected 'in' but found ${this.describe(this.peek())}`, this.peek().span);
+    }
+
+    const startValue = this.withoutStructLiterals(() => this.parseExpression());
+    this.expectSymbol('..');
+    const end = this.withoutStructLiterals(() => this.parseExpression());
+    const body = this.parseBlock();
+
+    return { kind: 'ForStatement', variable, type, start: startValue, end, body, span: this.spanFrom(start) };
+  }
+
+  private parseAssert(): AssertStatement {
+    const start = this.advance();
+    const args = this.parseArguments();
+    this.expectSemicolon();
+    return {
+      kind: 'AssertStatement',
+      variant: start.value as AssertStatement['variant'],
+      arguments: args,
+      span: this.spanFrom(start)
+    };
+  }
+
+  // Expressions
+
+  private parseExpression(): Expression {
+    const condition = this.parseBinary(1);
+    if (!this.matchSymbol('?')) return condition;
+
+    const consequent = this.parseExpression();
+    this.expectSymbol(':');
+    const alternate = this.parseExpression();
+    return {
+      kind: 'TernaryExpression',
+      condition,
+      consequent,
+      alternate,
+      span: this.join(condition.span, alternate.span)
+    };
+  }
+
+  private parseBinary(minPrecedence: number): Expression {
+    let left = this.parseCast();
+
+    for (;;) {
+      const operator = this.peek();
+      const precedence = operator.kind === 'symbol' ? BINARY_PRECEDENCE[operator.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) break;
+
+      this.advance();
+      const right = this.parseBinary(operator.value === '**' ? precedence : precedence + 1);
+      left = { kind: 'BinaryExpression', operator: operator.value, left, right, span: this.join(left.span, right.span) };
+    }
+
+    return left;
+  }
+
+  private parseCast(): Expression {
+    let expression = this.parseUnary();
+    while (this.matchWord('as')) {
+      const type = this.parseType();
+      expression = { kind: 'CastExpression', expression, type, span: this.join(expression.span, type.span) };
+    }
+    return expression;
+  }
+
+  private parseUnary(): Expression {
+    const start = this.peek();
+    if (this.matchSymbol('!') || this.matchSymbol('-')) {
+      const operand = this.parseUnary();
+      return { kind: 'UnaryExpression', operator: start.value as '!' | '-', operand, span: this.spanFrom(start) };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    let expression = this.parsePrimary();
+
+    for (;;) {
+      if (this.matchSymbol('.')) {
+        const token = this.peek();
+        // Tuple access (`pair.0`) uses a number as the property
+        const property: Identifier = token.kind === 'integer'
+          ? { kind: 'Identifier', name: this.advance().value, span: token.span }
+          : this.expectIdentifier('member name');
+        expression = { kind: 'MemberExpression', object: expression, property, span: this.join(expression.span, property.span) };
+      } else if (this.isSymbol('(')) {
+        const args = this.parseArguments();
+        expression = { kind: 'CallExpression', callee: expression, arguments: args, span: this.join(expression.span, this.previous().span) };
+      } else if (this.matchSymbol('[')) {
+        const index = this.withStructLiterals(() => this.parseExpression());
+        this.expectSymbol(']');
+        expression = { kind: 'IndexExpression', object: expression, index, span: this.join(expression.span, this.previous().span) };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    switch (token.kind) {
+      case 'integer':
+        this.advance();
+        return this.parseNumericLiteral(token);
+      case 'address':
+        this.advance();
+        return { kind: 'Literal', type: 'address', value: token.value, span: token.span };
+      case 'string':
+        this.advance();
+        return { kind: 'Literal', type: 'string', value: token.value, span: token.span };
+      case 'identifier':
+        return this.parseIdentifierExpression();
+    }
+
+    if (this.matchSymbol('(')) {
+      const elements = this.withStructLiterals(() => {
+        const items: Expression[] = [];
+        while (!this.isSymbol(')') && !this.isEof()) {
+          items.push(this.parseExpression());
+          if (!this.matchSymbol(',')) break;
+        }
+        return items;
+      });
+      const trailingComma = this.previous().value === ',';
+      this.expectSymbol(')');
+      // `(x)` is just grouping; `()` and `(x,)` are tuples
+      if (elements.length === 1 && !trailingComma) {
+        return { ...elements[0], parenthesized: true };
+      }
+      return { kind: 'TupleExpression', elements, span: this.spanFrom(token) };
+    }
+
+    if (this.matchSymbol('[')) {
+      const elements = this.withStructLiterals(() => {
+        const items: Expression[] = [];
+        while (!this.isSymbol(']') && !this.isEof()) {
+          items.push(this.parseExpression());
+          if (!this.matchSymbol(',')) break;
+        }
+        return items;
+      });
+      this.expectSymbol(']');
+      return { kind: 'ArrayExpression', elements, span: this.spanFrom(token) };
+    }
+
+    throw new ParseError(`Expected an expression but found ${this.describe(token)}`, token.span);
+  }
+
+  private parseIdentifierExpression(): Expression {
+    const token = this.peek();
+
+    if (token.value === 'true' || token.value === 'false') {
+      this.advance();
+      return { kind: 'Literal', type: 'boolean', value: token.value, span: token.span };
+    }
+
+    if (token.value === 'async' && this.isSymbol('{', 1)) {
+      this.advance();
+      const body = this.parseBlock();
+      return { kind: 'AsyncBlockExpression', body, span: this.spanFrom(token) };
+    }
+
+    // credits.aleo/transfer_public
+    if (this.isSymbol('.', 1) && this.isWord('aleo', 2) && this.isSymbol('/', 3)) {
+      this.advance();
+      this.advance();
+      this.advance();
+      this.advance();
+      const name = this.expectIdentifier('program member');
+      return { kind: 'LocatorExpression', programId: `${token.value}.aleo`, name, span: this.spanFrom(token) };
+    }
+
+    const identifier = this.expectIdentifier('expression');
+
+    if (this.isSymbol('::')) {
+      const segments = [identifier];
+      while (this.matchSymbol('::')) {
+        segments.push(this.expectIdentifier('path segment'));
+      }
+      return { kind: 'PathExpression', segments, span: this.spanFrom(token) };
+    }
+
+    if (this.allowStructLiterals && this.isSymbol('{') && this.looksLikeStructLiteral()) {
+      return this.parseStructExpression(identifier);
+    }
+
+    return identifier;
+  }
+
+  private parseStructExpression(name: Identifier): Expression {
+    this.expectSymbol('{');
+    const fields: StructFieldInit[] = [];
+
+    while (!this.isSymbol('}') && !this.isEof()) {
+      const fieldName = this.expectIdentifier('field name');
+      const value = this.matchSymbol(':') ? this.parseExpression() : undefined;
+      fields.push({ kind: 'StructFieldInit', name: fieldName, value, span: this.join(fieldName.span, this.previous().span) });
+      if (!this.matchSymbol(',')) break;
+    }
+
+    this.expectSymbol('}');
+    return { kind: 'StructExpression', name, fields, span: this.join(name.span, this.previous().span) };
+  }
+
+  private parseNumericLiteral(token: Token): Literal {
+    const suffix = LITERAL_SUFFIXES.find(candidate => token.value.endsWith(candidate) && token.value.length > candidate.length);
+    const value = suffix ? token.value.slice(0, -suffix.length) : token.value;
+    const type = !suffix || INTEGER_SUFFIXES.includes(suffix) ? 'integer' : (suffix as Literal['type']);
+    return { kind: 'Literal', type, value, suffix, span: token.span };
+  }
+
+  private parseArguments(): Expression[] {
+    this.expectSymbol('(');
+    const args = this.withStructLiterals(() => {
+      const items: Expression[] = [];
+      while (!this.isSymbol(')') && !this.isEof()) {
+        items.push(this.parseExpression());
+        if (!this.matchSymbol(',')) break;
+      }
+      return items;
+    });
+    this.expectSymbol(')');
+    return args;
+  }
+
+  // Token helpers
+
+  private peek(ahead: number = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+  }
+
+  private previous(): Token {
+    return this.tokens[Math.max(0, this.index - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.index++;
+    return token;
+  }
+
+  private isEof(): boolean {
+    return this.peek().kind === 'eof';
+  }
+
+  private isSymbol(value: string, ahead: number = 0): boolean {
+    const token = this.peek(ahead);
+    return token.kind === 'symbol' && token.value === value;
+  }
+
+  private isWord(value: string, ahead: number = 0): boolean {
+    const token = this.peek(ahead);
+    return token.kind === 'identifier' && token.value === value;
+  }
+
+  private matchSymbol(value: string): boolean {
+    if (!this.isSymbol(value)) return false;
+    this.advance();
+    return true;
+  }
+
+  private matchWord(value: string): boolean {
+    if (!this.isWord(value)) return false;
+    this.advance();
+    return true;
+  }
+
+  private expectSymbol(value: string): Token {
+    if (!this.isSymbol(value)) {
+      throw new ParseError(`Expected '${value}' but found ${this.describe(this.peek())}`, this.peek().span);
+    }
+    return this.advance();
+  }
+
+  private expectIdentifier(what: string): Identifier {
+    const token = this.peek();
+    if (token.kind !== 'identifier') {
+      throw new ParseError(`Expected ${what} but found ${this.describe(token)}`, token.span);
+    }
+    this.advance();
+    return { kind: 'Identifier', name: token.value, span: token.span };
+  }
+
+  /**
+   * A missing semicolon is reported but doesn't abort the statement
+   */
+  private expectSemicolon(): void {
+    if (this.matchSymbol(';')) return;
+    this.diagnostics.push({
+      message: `Expected ';' after ${this.describe(this.previous())}`,
+      span: this.previous().span,
+      code: 'missing-semicolon'
+    });
+  }
+
+  private expectClosingBrace(what: string): void {
+    if (this.matchSymbol('}')) return;
+    this.report(new ParseError(`Expected '}' to close ${what}`, this.isEof() ? this.previous().span : this.peek().span));
+  }
+
+  private isItemStart(): boolean {
+    const token = this.peek();
+    if (token.kind === 'symbol') return token.value === '@' && this.peek(1).kind === 'identifier';
+    if (token.kind !== 'identifier') return false;
+    if (token.value === 'async') return FUNCTION_VARIANTS.some(variant => this.isWord(variant, 1));
+    return ITEM_KEYWORDS.includes(token.value) && this.peek(1).kind === 'identifier';
+  }
+
+  private looksLikeStructLiteral(): boolean {
+    // Name { }, Name { field, ... } or Name { field: ... }
+    if (this.isSymbol('}', 1)) return true;
+    return this.peek(1).kind === 'identifier' && (this.isSymbol(':', 2) || this.isSymbol(',', 2) || this.isSymbol('}', 2));
+  }
+
+  private withoutStructLiterals<T>(parse: () => T): T {
+    return this.withStructLiteralMode(false, parse);
+  }
+
+  private withStructLiterals<T>(parse: () => T): T {
+    return this.withStructLiteralMode(true, parse);
+  }
+
+  private withStructLiteralMode<T>(allowed: boolean, parse: () => T): T {
+    const saved = this.allowStructLiterals;
+    this.allowStructLiterals = allowed;
+    try {
+      return parse();
+    } finally {
+      this.allowStructLiterals = saved;
+    }
+  }
+
+  // Error recovery
+
+  private report(error: unknown): void {
+    if (!(error instanceof ParseError)) throw error;
+    // One error per position is enough
+    if (this.diagnostics.some(d => d.span.start.offset === error.span.start.offset && d.message === error.message)) return;
+    this.diagnostics.push({ message: error.message, span: error.span });
+  }
+
+  private skipToNextStatement(): void {
+    const start = this.index;
+    let depth = 0;
+
+    while (!this.isEof()) {
+      if (depth === 0) {
+        if (this.matchSymbol(';')) return;
+        if (this.isSymbol('}') || this.isItemStart()) return;
+        const token = this.peek();
+        if (this.index > start && token.kind === 'identifier' && STATEMENT_KEYWORDS.includes(token.value)) return;
+      }
+      const token = this.advance();
+      if (token.kind === 'symbol') {
+        if (token.value === '{' || token.value === '(' || token.value === '[') depth++;
+        if (token.value === '}' || token.value === ')' || token.value === ']') depth = Math.max(0, depth - 1);
+      }
+    }
+  }
+
+  private skipToNextItem(): void {
+    const start = this.index;
+    let depth = 0;
+
+    while (!this.isEof()) {
+      if (depth === 0 && this.index > start && (this.isItemStart() || this.isWord('const') || this.isSymbol('}'))) return;
+      const token = this.advance();
+      if (token.kind === 'symbol') {
+        if (token.value === '{') depth++;
+        if (token.value === '}') depth = Math.max(0, depth - 1);
+      }
+    }
+  }
+
+  private skipToTopLevel(): void {
+    const start = this.index;
+    while (!this.isEof()) {
+      if (this.index > start && (this.isWord('import') || this.isWord('program'))) return;
+      this.advance();
+    }
+  }
+
+  /**
+   * Skip until one of `stopAt` at nesting depth 0; symbols in `consume` are consumed
+   */
+  private skipUntil(stopAt: string[], consume: string[]): void {
+    let depth = 0;
+    while (!this.isEof()) {
+      const token = this.peek();
+      if (depth === 0 && token.kind === 'symbol' && stopAt.includes(token.value)) {
+        if (consume.includes(token.value)) this.advance();
+        return;
+      }
+      this.advance();
+      if (token.kind === 'symbol') {
+        if (token.value === '{' || token.value === '(' || token.value === '[') depth++;
+        if (token.value === '}' || token.value === ')' || token.value === ']') depth = Math.max(0, depth - 1);
+      }
+    }
+  }
+
+  private skipBalanced(open: string, close: string): void {
+    let depth = 0;
+    do {
+      const token = this.advance();
+      if (token.value === open) depth++;
+      if (token.value === close) depth--;
+    } while (depth > 0 && !this.isEof());
+  }
+
+  private skipGenericArguments(): void {
+    let depth = 0;
+    do {
+      const token = this.advance();
+      if (token.value === '<') depth++;
+      if (token.value === '>') depth--;
+      if (token.value === '>>') depth -= 2;
+    } while (depth > 0 && !this.isEof());
+  }
+
+  // Spans
+
+  private spanFrom(start: Token): Span {
+    const end = this.index > 0 ? this.previous().span.end : start.span.end;
+    return { start: start.span.start, end: end.offset >= start.span.start.offset ? end : start.span.end };
+  }
+
+  private join(first: Span, last: Span): Span {
+    return { start: first.start, end: last.end };
+  }
+
+  private textFrom(start: Token): string {
+    return this.source.slice(start.span.start.offset, this.previous().span.end.offset).replace(/\s+/g, ' ');
+  }
+
+  private describe(token: Token): string {
+    return token.kind === 'eof' ? 'end of file' : `'${token.value}'`;
+  }
+}
+
+/**
+ * Parse a Leo source file. Never throws; syntax errors are returned as diagnostics.
+ */
+export function parseLeo(source: string): ParseResult {
+  return new LeoParser(source).parse();
+}
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { AstNode, Identifier } from './ast';
+
+/**
+ * Direct children of a node, in source order
+ */
+export function getChildren(node: AstNode): AstNode[] {
+  const children: Array<AstNode | undefined> = (() => {
+    switch (node.kind) {
+      case 'SourceFile': return [...node.imports, node.program];
+      case 'ImportDeclaration': return [node.name];
+      case 'ProgramDeclaration': return [node.name, ...node.items];
+      case 'StructDeclaration': return [node.name, ...node.fields];
+      case 'FieldDeclaration': return [node.name, node.type];
+      case 'MappingDeclaration': return [node.name, node.keyType, node.valueType];
+      case 'FunctionDeclaration': return [...node.annotations, node.name, ...node.parameters, node.returnType, node.body];
+      case 'Parameter': return [node.name, node.type];
+      case 'ConstDeclaration': return [node.name, node.type, node.value];
+      case 'TupleType': return node.elements;
+      case 'ArrayType': return [node.element, node.length];
+      case 'Block': return node.statements;
+      case 'VariableDeclaration': return [...node.names, node.type, node.value];
+      case 'ReturnStatement': return [node.value, ...(node.finalizeArguments || [])];
+      case 'AssignmentStatement': return [node.target, node.value];
+      case 'IfStatement': return [node.condition, node.consequent, node.alternate];
+      case 'ForStatement': return [node.variable, node.type, node.start, node.end, node.body];
+      case 'AssertStatement': return node.arguments;
+      case 'ExpressionStatement': return [node.expression];
+      case 'PathExpression': return node.segments;
+      case 'LocatorExpression': return [node.name];
+      case 'MemberExpression': return [node.object, node.property];
+      case 'IndexExpression': return [node.object, node.index];
+      case 'CallExpression': return [node.callee, ...node.arguments];
+      case 'UnaryExpression': return [node.operand];
+      case 'BinaryExpression': return [node.left, node.right];
+      case 'TernaryExpression': return [node.condition, node.consequent, node.alternate];
+      case 'CastExpression': return [node.expression, node.type];
+      case 'StructExpression': return [node.name, ...node.fields];
+      case 'StructFieldInit': return [node.name, node.value];
+      case 'TupleExpression': return node.elements;
+      case 'ArrayExpression': return node.elements;
+      case 'AsyncBlockExpression': return [node.body];
+      default: return [];
+    }
+  })();
+  return children.filter((child): child is AstNode => !!child);
+}
+
+/**
+ * Depth-first walk. Returning false from `visit` skips the node's children.
+ */
+export function walk(node: AstNode, visit: (node: AstNode, parent?: AstNode) => boolean | void, parent?: AstNode): void {
+  if (visit(node, parent) === false) return;
+  for (const child of getChildren(node)) {
+    walk(child, visit, node);
+  }
+}
+
+/**
+ * Whether an identifier reads a value, as opposed to naming a declaration,
+ * a member or a path segment
+ */
+export function isReference(node: Identifier, parent?: AstNode): boolean {
+  if (!parent) return true;
+
+  switch (parent.kind) {
+    case 'VariableDeclaration': return !parent.names.includes(node);
+    case 'ForStatement': return parent.variable !== node;
+    case 'ConstDeclaration': return parent.name !== node;
+    case 'MemberExpression': return parent.property !== node;
+    // The shorthand `Point { x }` reads the variable x
+    case 'StructFieldInit': return parent.name !== node || !parent.value;
+    case 'ImportDeclaration':
+    case 'ProgramDeclaration':
+    case 'StructDeclaration':
+    case 'FieldDeclaration':
+    case 'MappingDeclaration':
+    case 'FunctionDeclaration':
+    case 'Parameter':
+    case 'StructExpression':
+    case 'PathExpression':
+    case 'LocatorExpression':
+      return false;
+    default:
+      return true;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { makeFile, makeProject } from '../utils/testFixtures';
+import AgentEditService from './AgentEditService';
+
+const MAIN = 'program token.aleo {\n    transition mint(a: u64) -> u64 {\n        return a;\n    }\n}\n';
+
+describe('AgentEditService.parseEdits', () => {
+  const base = makeProject([makeFile('main', 'src/main.leo', MAIN), makeFile('readme', 'README.md', '# Token\n')]);
+
+  it('applies a search and replace edit to the file', () => {
+    const { changes, errors } = AgentEditService.parseEdits(
+      [{ action: 'modify', path: 'src/main.leo', search: 'return a;', replace: 'return a + 1u64;' }],
+      base
+    );
+
+    expect(errors).toEqual([]);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ fileId: 'main', kind: 'modify', oldContent: MAIN });
+    expect(changes[0].newContent).toContain('return a + 1u64;');
+  });
+
+  it('folds several edits of one file into a single change', () => {
+    const { changes } = AgentEditService.parseEdits([
+      { path: 'src/main.leo', search: 'mint', replace: 'issue', description: 'rename' },
+      { path: 'src/main.leo', search: 'return a;', replace: 'return a * 2u64;', description: 'double' }
+    ], base);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].newContent).toContain('transition issue(a: u64)');
+    expect(changes[0].newContent).toContain('return a * 2u64;');
+    expect(changes[0].description).toContain('rename');
+    expect(changes[0].description).toContain('double');
+  });
+
+  it('matches paths written with "./", a leading slash or backslashes', () => {
+    const { changes, errors } = AgentEditService.parseEdits([
+      { path: './README.md', content: '# Token v2\n' },
+      { path: '\\src\\main.leo', search: 'return a;', replace: 'return 0u64;' }
+    ], base);
+
+    expect(errors).toEqual([]);
+    expect(changes.map(change => change.fileId)).toEqual(['readme', 'main']);
+  });
+
+  it('reports edits that cannot be applied and keeps the others', () => {
+    const { changes, errors } = AgentEditService.parseEdits([
+      { path: 'src/main.leo', search: 'not in the file', replace: 'x' },
+      { path: 'src/main.leo', search: '    ', replace: '\t' },
+      { action: 'create', path: 'README.md', content: '' },
+      { action: 'create', path: 'src/logo.png', content: '' },
+      { action: 'delete', path: 'src/missing.leo' },
+      { action: 'rename', path: 'README.md' },
+      { content: 'no path' },
+      { action: 'create', path: 'src/utils.leo', content: 'program utils.aleo {}\n' }
+    ], base);
+
+    expect(errors).toEqual([
+      'src/main.leo: search text not found',
+      'src/main.leo: search text matches more than once',
+      'README.md: file already exists',
+      'src/logo.png: unsupported file type (use .leo, .md, .json or .in)',
+      'src/missing.leo: file does not exist',
+      'README.md: unknown action "rename"',
+      'Edit: missing "path"'
+    ]);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ kind: 'create', filePath: 'src/utils.leo', oldContent: '' });
+  });
+
+  it('cancels a file created and deleted in the same reply', () => {
+    const { changes, errors } = AgentEditService.parseEdits([
+      { action: 'create', path: 'src/tmp.leo', content: 'program tmp.aleo {}\n' },
+      { action: 'delete', path: 'src/tmp.leo' }
+    ], base);
+
+    expect(errors).toEqual([]);
+    expect(changes).toEqual([]);
+  });
+
+  it('refuses to modify a file deleted earlier in the reply', () => {
+    const { changes, errors } = AgentEditService.parseEdits([
+      { action: 'delete', path: 'README.md' },
+      { path: 'README.md', content: '# Back\n' }
+    ], base);
+
+    expect(errors).toEqual(['README.md: file does not exist']);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({ fileId: 'readme', kind: 'delete' });
+  });
+
+  it('drops modifications that leave the file unchanged', () => {
+    const { changes } = AgentEditService.parseEdits([{ path: 'README.md', content: '# Token\n' }], base);
+    expect(changes).toEqual([]);
+  });
+});
+
+describe('AgentEditService.findConflicts', () => {
+  const base = makeProject([makeFile('main', 'src/main.leo', MAIN)]);
+
+  it('accepts changes that still apply', () => {
+    const { changes } = AgentEditService.parseEdits([
+      { path: 'src/main.leo', search: 'return a;', replace: 'return 1u64;' },
+      { action: 'create', path: 'src/utils.leo', content: '' }
+    ], base);
+
+    expect(AgentEditService.findConflicts(base, changes)).toEqual([]);
+  });
+
+  it('reports files edited, deleted or created since the edit was proposed', () => {
+    const { changes } = AgentEditService.parseEdits([
+      { path: 'src/main.leo', search: 'return a;', replace: 'return 1u64;' },
+      { action: 'create', path: 'src/utils.leo', content: '' }
+    ], base);
+
+    const edited = makeProject([makeFile('main', 'src/main.leo', `${MAIN}// edited\n`), makeFile('utils', 'src/utils.leo', '')]);
+    expect(AgentEditService.findConflicts(edited, changes)).toEqual([
+      'src/main.leo has changed since the edit was proposed',
+      'src/utils.leo already exists'
+    ]);
+
+    expect(AgentEditService.findConflicts(makeProject([]), changes)).toEqual(['src/main.leo no longer exists']);
+  });
+});
\ No newline at end of file
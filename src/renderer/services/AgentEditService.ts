@@ -0,0 +1,299 @@
+import { CodeChange, LeoFile, LeoProject } from '../types';
+import CodeHistoryService from './CodeHistoryService';
+
+export interface ParsedAgentReply {
+  text: string; // the reply with the edit blocks removed
+  changes: CodeChange[];
+  errors: string[];
+}
+
+interface RawEdit {
+  action?: string;
+  path?: string;
+  content?: string;
+  search?: string;
+  replace?: string;
+  description?: string;
+}
+
+const EDIT_BLOCK_LANGUAGE = 'leoforge-edits';
+const EDIT_BLOCK_PATTERN = new RegExp('```' + EDIT_BLOCK_LANGUAGE + '\\s*\\n([\\s\\S]*?)```', 'g');
+const FILE_TYPES: Record<string, LeoFile['type']> = { leo: 'leo', md: 'md', json: 'json', in: 'in' };
+
+/**
+ * Instructions appended to the agent's system prompt describing how to propose edits
+ */
+export const EDIT_FORMAT_INSTRUCTIONS = `To change project files, add one fenced block tagged ${EDIT_BLOCK_LANGUAGE} containing JSON:
+\`\`\`${EDIT_BLOCK_LANGUAGE}
+{"edits": [
+  {"action": "modify", "path": "src/main.leo", "search": "exact existing text", "replace": "new text", "description": "why"},
+  {"action": "modify", "path": "README.md", "content": "full new file content"},
+  {"action": "create", "path": "src/utils.leo", "content": "file content"},
+  {"action": "delete", "path": "inputs/old.in"}
+]}
+\`\`\`
+"search" must match the current file exactly once. Paths are relative to the project root. The user reviews the edits before they are applied.`;
+
+/**
+ * Turns structured edits in agent replies into CodeChanges and applies them to a project
+ */
+class AgentEditService {
+  private static instance: AgentEditService;
+
+  private constructor() {}
+
+  static getInstance(): AgentEditService {
+    if (!AgentEditService.instance) {
+      AgentEditService.instance = new AgentEditService();
+    }
+    return AgentEditService.instance;
+  }
+
+  /**
+   * Extract edit blocks from a reply. Edits touching the same file are folded
+   * into a single whole-file change.
+   */
+  parseReply(reply: string, project: LeoProject): ParsedAgentReply {
+    const errors: string[] = [];
+    const rawEdits: RawEdit[] = [];
+
+    const text = reply.replace(EDIT_BLOCK_PATTERN, (_match, body: string) => {
+      try {
+        const data = JSON.parse(body);
+        const edits = Array.isArray(data) ? data : data?.edits;
+        if (!Array.isArray(edits)) {
+          throw new Error('expected an "edits" array');
+        }
+        rawEdits.push(...edits);
+      } catch (error) {
+        errors.push(`Could not read proposed edits: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      return '';
+    }).trim();
+
+    const parsed = this.parseEdits(rawEdits, project);
+    return { text, changes: parsed.changes, errors: [...errors, ...parsed.errors] };
+  }
+
+  /**
+   * Turn a list of raw edits (as found in an edit block) into CodeChanges
+   */
+  parseEdits(rawEdits: unknown[], project: LeoProject): { changes: CodeChange[]; errors: string[] } {
+    const errors: string[] = [];
+    // path -> pending change, in the order files were first touched
+    const pending = new Map<string, CodeChange>();
+
+    for (const edit of rawEdits as RawEdit[]) {
+      try {
+        this.foldEdit(pending, edit, project);
+      } catch (error) {
+        errors.push(`${edit?.path || 'Edit'}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const changes = Array.from(pending.values()).filter(change =>
+      change.kind !== 'modify' || change.oldContent !== change.newContent
+    );
+
+    return { changes, errors };
+  }
+
+  /**
+   * Check that every change still applies to the project as it is now
+   */
+  findConflicts(project: LeoProject, changes: CodeChange[]): string[] {
+    const conflicts: string[] = [];
+
+    for (const change of changes) {
+      const path = change.filePath || change.fileId;
+      if (change.kind === 'create') {
+        if (this.findFile(project, path)) {
+          conflicts.push(`${path} already exists`);
+        }
+        continue;
+      }
+
+      const file = project.files.find(f => f.id === change.fileId);
+      if (!file) {
+        conflicts.push(`${path} no longer exists`);
+      } else if (file.content !== change.oldContent) {
+        conflicts.push(`${path} has changed since the edit was proposed`);
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Apply all changes or none. Each touched file gets one history entry marked as an agent change.
+   */
+  applyChanges(project: LeoProject, changes: CodeChange[]): LeoProject {
+    const conflicts = this.findConflicts(project, changes);
+    if (conflicts.length > 0) {
+      throw new Error(`Failed to apply edits: ${conflicts.join('; ')}`);
+    }
+
+    let files = [...project.files];
+
+    for (const change of changes) {
+      const description = `Agent: ${change.description}`;
+
+      if (change.kind === 'create') {
+        const path = change.filePath!;
+        const newFile: LeoFile = {
+          id: change.fileId,
+          name: path.split('/').pop() || path,
+          path,
+          content: change.newContent,
+          type: this.getFileType(path)!,
+          isModified: true
+        };
+        files.push(newFile);
+        CodeHistoryService.addEntry(newFile, description, true);
+        continue;
+      }
+
+      const file = files.find(f => f.id === change.fileId)!;
+
+      if (change.kind === 'delete') {
+        // Keep the last content in history so the file can still be recovered
+        CodeHistoryService.addEntry(file, description, true);
+        files = files.filter(f => f.id !== file.id);
+        continue;
+      }
+
+      if (CodeHistoryService.getHistory(file.id).length === 0) {
+        CodeHistoryService.addEntry(file, 'Original', false);
+      }
+      const updatedFile = { ...file, content: change.newContent, isModified: true };
+      files = files.map(f => (f.id === file.id ? updatedFile : f));
+      CodeHistoryService.addEntry(updatedFile, description, true);
+    }
+
+    const updated = { ...project, files, updatedAt: new Date() };
+    const descriptions = Array.from(new Set(changes.map(change => change.description)));
+    CodeHistoryService.recordProjectChange(project, updated, 'agent', `Agent: ${descriptions.join('; ')}`);
+    return updated;
+  }
+
+  /**
+   * The project file at a path written by the model, tolerating "./", a leading "/" and backslashes
+   */
+  findFile(project: LeoProject, path: unknown): LeoFile | undefined {
+    const normalized = this.normalizePath(path);
+    return normalized ? project.files.find(file => this.normalizePath(file.path) === normalized) : undefined;
+  }
+
+  normalizePath(path: unknown): string {
+    if (typeof path !== 'string') return '';
+    return path.trim().replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+  }
+
+  // Private helper methods
+
+  private foldEdit(pending: Map<string, CodeChange>, edit: RawEdit, project: LeoProject): void {
+    const path = this.normalizePath(edit?.path);
+    if (!path) {
+      throw new Error('missing "path"');
+    }
+
+    const action = edit.action || 'modify';
+    const existing = pending.get(path);
+    const file = this.findFile(project, path);
+    const description = edit.description || `${action} ${path}`;
+
+    switch (action) {
+      case 'create': {
+        if (file || existing) {
+          throw new Error('file already exists');
+        }
+        if (!this.getFileType(path)) {
+          throw new Error('unsupported file type (use .leo, .md, .json or .in)');
+        }
+        pending.set(path, {
+          fileId: this.generateFileId(),
+          filePath: path,
+          kind: 'create',
+          oldContent: '',
+          newContent: edit.content ?? '',
+          description
+        });
+        return;
+      }
+
+      case 'delete': {
+        if (existing?.kind === 'create') {
+          pending.delete(path);
+          return;
+        }
+        if (!file || existing?.kind === 'delete') {
+          throw new Error('file does not exist');
+        }
+        pending.set(path, {
+          fileId: file.id,
+          filePath: file.path,
+          kind: 'delete',
+          oldContent: file.content,
+          newContent: '',
+          description
+        });
+        return;
+      }
+
+      case 'modify': {
+        if (existing?.kind === 'delete' || (!file && !existing)) {
+          throw new Error('file does not exist');
+        }
+        const current = existing ? existing.newContent : file!.content;
+        const next = this.applyEdit(current, edit);
+        pending.set(path, existing
+          ? { ...existing, newContent: next, description: this.joinDescriptions(existing.description, description) }
+          : {
+              fileId: file!.id,
+              filePath: file!.path,
+              kind: 'modify',
+              oldContent: file!.content,
+              newContent: next,
+              description
+            });
+        return;
+      }
+
+      default:
+        throw new Error(`unknown action "${action}"`);
+    }
+  }
+
+  private applyEdit(content: string, edit: RawEdit): string {
+    if (typeof edit.content === 'string') {
+      return edit.content;
+    }
+    if (typeof edit.search !== 'string' || typeof edit.replace !== 'string') {
+      throw new Error('modify needs either "content" or "search" and "replace"');
+    }
+
+    const first = content.indexOf(edit.search);
+    if (edit.search === '' || first === -1) {
+      throw new Error('search text not found');
+    }
+    if (content.indexOf(edit.search, first + 1) !== -1) {
+      throw new Error('search text matches more than once');
+    }
+    return content.slice(0, first) + edit.replace + content.slice(first + edit.search.length);
+  }
+
+  private getFileType(path: string): LeoFile['type'] | undefined {
+    const extension = path.split('.').pop()?.toLowerCase() || '';
+    return FILE_TYPES[extension];
+  }
+
+  private joinDescriptions(first: string, second: string): string {
+    return first === second ? first : `${first}; ${second}`;
+  }
+
+  private generateFileId(): string {
+    return `file_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+}
+
+export default AgentEditService.getInstance();
\ No newline at end of file
@@ -0,0 +1,339 @@
+import { AgentToolName, AgentToolStep, ContextUsage, LeoFile, LeoProject } from '../types';
+import LLMService, { ChatContext } from './LLMService';
+import AgentEditService from './AgentEditService';
+import CodeAnalysisService from './CodeAnalysisService';
+import { LeoCompilationService } from './LeoCompilationService';
+import { loadLintConfig } from '../lint';
+
+export interface AgentRunCallbacks {
+  onToken?: (content: string) => void; // text of the reply being generated
+  onSteps?: (steps: AgentToolStep[]) => void;
+  onProjectUpdate?: (project: LeoProject) => void; // after applyPatch changed files
+}
+
+export interface AgentRunResult {
+  content: string; // the final answer, without tool calls
+  aborted: boolean;
+  steps: AgentToolStep[];
+  project: LeoProject; // the project after any patches the agent applied
+  contextUsage?: ContextUsage;
+}
+
+interface ToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+  note: string;
+}
+
+interface ToolOutcome {
+  status: 'success' | 'error';
+  summary: string;
+  output: string;
+  project?: LeoProject;
+  codeChanges?: AgentToolStep['codeChanges'];
+}
+
+const TOOL_BLOCK_LANGUAGE = 'leoforge-tool';
+const TOOL_BLOCK_PATTERN = new RegExp('```' + TOOL_BLOCK_LANGUAGE + '\\s*\\n([\\s\\S]*?)```');
+const TOOL_NAMES: AgentToolName[] = ['compileProject', 'runTests', 'analyzeCode', 'readFile', 'applyPatch'];
+const MAX_TOOL_CALLS = 10;
+// Tool output sent back to the model is cut to this many characters
+const MAX_OUTPUT_CHARS = 6000;
+const MAX_LISTED_DIAGNOSTICS = 30;
+
+const TOOL_INSTRUCTIONS = `You can use tools to work on the project. To call one, end your reply with a single fenced block tagged ${TOOL_BLOCK_LANGUAGE} containing JSON, then stop and wait for the result:
+\`\`\`${TOOL_BLOCK_LANGUAGE}
+{"tool": "compileProject", "args": {}}
+\`\`\`
+Available tools:
+- compileProject {}: build the project with leo build and report errors and warnings
+- runTests {"testName"?: string}: run leo test, optionally a single test
+- analyzeCode {"path": string}: static analysis of a Leo file
+- readFile {"path": string}: the current content of a file
+- applyPatch {"edits": [...]}: apply edits right away, using the same edit objects as above
+Call at most one tool per reply. After changing code, compile again and keep fixing errors until the build passes. When you are done, answer without a tool block.`;
+
+/**
+ * Runs the agent in a loop where it can call project tools and observe their results
+ */
+class AgentLoopService {
+  private static instance: AgentLoopService;
+  private abortedRequests: Set<string> = new Set();
+  private activeRuns: Map<string, string> = new Map(); // requestId -> build/test runId
+
+  private constructor() {}
+
+  static getInstance(): AgentLoopService {
+    if (!AgentLoopService.instance) {
+      AgentLoopService.instance = new AgentLoopService();
+    }
+    return AgentLoopService.instance;
+  }
+
+  /**
+   * Answer a message, letting the agent call tools until it replies without one
+   * or MAX_TOOL_CALLS is reached. Tool failures are reported to the agent, not thrown.
+   */
+  async run(
+    message: string,
+    context: ChatContext & { project: LeoProject },
+    requestId: string,
+    callbacks: AgentRunCallbacks = {}
+  ): Promise<AgentRunResult> {
+    this.abortedRequests.delete(requestId);
+    const { messages, contextUsage } = await LLMService.buildMessages(message, context, TOOL_INSTRUCTIONS);
+    const steps: AgentToolStep[] = [];
+    let project = context.project;
+
+    const updateStep = (step: AgentToolStep) => {
+      const index = steps.findIndex(s => s.id === step.id);
+      if (index === -1) steps.push(step);
+      else steps[index] = step;
+      callbacks.onSteps?.([...steps]);
+    };
+
+    try {
+      for (let turn = 0; turn <= MAX_TOOL_CALLS; turn++) {
+        const reply = await LLMService.streamMessages(messages, {
+          requestId,
+          onToken: (_delta, content) => callbacks.onToken?.(content)
+        });
+
+        const call = this.parseToolCall(reply.content);
+        if (reply.aborted || this.abortedRequests.has(requestId)) {
+          return { content: call ? call.note : reply.content, aborted: true, steps, project, contextUsage };
+        }
+        if (!call) {
+          return { content: reply.content, aborted: false, steps, project, contextUsage };
+        }
+        if (turn === MAX_TOOL_CALLS) {
+          return {
+            content: `${call.note}${call.note ? '\n\n' : ''}⚠️ Stopped after ${MAX_TOOL_CALLS} tool calls.`,
+            aborted: false,
+            steps,
+            project,
+            contextUsage
+          };
+        }
+
+        const step: AgentToolStep = {
+          id: `step_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+          tool: call.tool,
+          args: call.args,
+          status: 'running',
+          summary: `Running ${call.tool}...`,
+          output: '',
+          ...(call.note ? { note: call.note } : {})
+        };
+        updateStep(step);
+        callbacks.onToken?.('');
+
+        const outcome = await this.executeTool(call, project, requestId);
+        if (outcome.project) {
+          project = outcome.project;
+          callbacks.onProjectUpdate?.(project);
+        }
+        updateStep({
+          ...step,
+          status: outcome.status,
+          summary: outcome.summary,
+          output: outcome.output,
+          ...(outcome.codeChanges ? { codeChanges: outcome.codeChanges } : {})
+        });
+
+        if (this.abortedRequests.has(requestId)) {
+          return { content: '', aborted: true, steps, project, contextUsage };
+        }
+
+        messages.push({ role: 'assistant', content: reply.content });
+        messages.push({ role: 'user', content: this.describeOutcome(call.tool, outcome) });
+      }
+
+      // Unreachable: the last turn always returns
+      return { content: '', aborted: false, steps, project, contextUsage };
+    } finally {
+      this.abortedRequests.delete(requestId);
+      this.activeRuns.delete(requestId);
+    }
+  }
+
+  /**
+   * Stop the reply being generated and any build or test a tool started
+   */
+  async abort(requestId: string): Promise<void> {
+    this.abortedRequests.add(requestId);
+    const runId = this.activeRuns.get(requestId);
+    if (runId) {
+      await LeoCompilationService.cancelRun(runId);
+    }
+    await LLMService.abortChat(requestId);
+  }
+
+  // Private helper methods
+
+  private parseToolCall(reply: string): ToolCall | null {
+    const match = TOOL_BLOCK_PATTERN.exec(reply);
+    if (!match) return null;
+
+    const note = reply.slice(0, match.index).trim();
+    try {
+      const data = JSON.parse(match[1]);
+      const args = data?.args && typeof data.args === 'object' ? data.args : {};
+      return { tool: String(data?.tool ?? ''), args, note };
+    } catch (error) {
+      return { tool: 'invalid', args: { error: error instanceof Error ? error.message : 'Unknown error' }, note };
+    }
+  }
+
+  private async executeTool(call: ToolCall, project: LeoProject, requestId: string): Promise<ToolOutcome> {
+    try {
+      switch (call.tool as AgentToolName) {
+        case 'compileProject':
+          return await this.compileProject(project, requestId);
+        case 'runTests':
+          return await this.runTests(project, requestId, call.args.testName);
+        case 'analyzeCode':
+          return await this.analyzeCode(project, call.args.path);
+        case 'readFile':
+          return this.readFile(project, call.args.path);
+        case 'applyPatch':
+          return this.applyPatch(project, call.args.edits);
+        default:
+          return {
+            status: 'error',
+            summary: call.tool === 'invalid' ? 'Could not read the tool call' : `Unknown tool "${call.tool}"`,
+            output: call.tool === 'invalid'
+              ? `The ${TOOL_BLOCK_LANGUAGE} block is not valid JSON: ${call.args.error}`
+              : `Available tools: ${TOOL_NAMES.join(', ')}`
+          };
+      }
+    } catch (error) {
+      return {
+        status: 'error',
+        summary: `${call.tool} failed`,
+        output: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async compileProject(project: LeoProject, requestId: string): Promise<ToolOutcome> {
+    const runId = LeoCompilationService.createRunId();
+    this.activeRuns.set(requestId, runId);
+    const result = await LeoCompilationService.compileProject(project, { runId });
+    this.activeRuns.delete(requestId);
+
+    const diagnostics = [
+      ...result.errors.map(error => `error[${error.code}] ${error.file}:${error.line}:${error.column} ${error.message}`),
+      ...result.warnings.map(warning => `warning[${warning.code}] ${warning.file}:${warning.line}:${warning.column} ${warning.message}`)
+    ];
+
+    return {
+      status: result.success ? 'success' : 'error',
+      summary: LeoCompilationService.getCompilationStatus(result),
+      output: diagnostics.length > 0
+        ? this.listLines(diagnostics)
+        : result.output.trim() || (result.success ? 'Build succeeded.' : 'Build failed.')
+    };
+  }
+
+  private async runTests(project: LeoProject, requestId: string, testName: unknown): Promise<ToolOutcome> {
+    const runId = LeoCompilationService.createRunId();
+    this.activeRuns.set(requestId, runId);
+    const result = await LeoCompilationService.runTests(project, {
+      runId,
+      testName: typeof testName === 'string' && testName ? testName : undefined
+    });
+    this.activeRuns.delete(requestId);
+
+    const lines = result.tests.map(test => `${test.passed ? 'PASS' : 'FAIL'} ${test.name}`);
+    for (const failure of result.failures) {
+      lines.push(`${failure.testName}: ${failure.message}`);
+    }
+    if (result.error) {
+      lines.unshift(result.error);
+    }
+
+    return {
+      status: result.success ? 'success' : 'error',
+      summary: LeoCompilationService.getTestStatus(result),
+      output: lines.length > 0 ? this.listLines(lines) : result.output.trim()
+    };
+  }
+
+  private async analyzeCode(project: LeoProject, path: unknown): Promise<ToolOutcome> {
+    const file = this.requireFile(project, path);
+    if (file.type !== 'leo') {
+      throw new Error(`${file.path} is not a Leo file`);
+    }
+
+    const { analysis } = await CodeAnalysisService.analyzeCode(file.content, file.name, loadLintConfig(project.files).config);
+    const lines = analysis.issues.map(issue => `${issue.severity} line ${issue.line}: ${issue.message}`);
+
+    return {
+      status: 'success',
+      summary: `${file.path}: ${analysis.issues.length} issue${analysis.issues.length !== 1 ? 's' : ''}`,
+      output: lines.length > 0 ? this.listLines(lines) : 'No issues found.'
+    };
+  }
+
+  private readFile(project: LeoProject, path: unknown): ToolOutcome {
+    const file = this.requireFile(project, path);
+    const lineCount = file.content.split('\n').length;
+
+    return {
+      status: 'success',
+      summary: `Read ${file.path} (${lineCount} line${lineCount !== 1 ? 's' : ''})`,
+      output: file.content
+    };
+  }
+
+  private applyPatch(project: LeoProject, edits: unknown): ToolOutcome {
+    if (!Array.isArray(edits)) {
+      throw new Error('applyPatch needs an "edits" array');
+    }
+
+    // Nothing is applied unless every edit is valid
+    const { changes, errors } = AgentEditService.parseEdits(edits, project);
+    if (errors.length > 0) {
+      return { status: 'error', summary: 'Patch rejected', output: errors.join('\n') };
+    }
+    if (changes.length === 0) {
+      return { status: 'success', summary: 'Patch made no changes', output: 'The files already have this content.' };
+    }
+
+    const updatedProject = AgentEditService.applyChanges(project, changes);
+    return {
+      status: 'success',
+      summary: `Changed ${changes.length} file${changes.length !== 1 ? 's' : ''}`,
+      output: changes.map(change => `${change.kind} ${change.filePath}`).join('\n'),
+      project: updatedProject,
+      codeChanges: changes
+    };
+  }
+
+  private describeOutcome(tool: string, outcome: ToolOutcome): string {
+    const output = outcome.output.length > MAX_OUTPUT_CHARS
+      ? `${outcome.output.slice(0, MAX_OUTPUT_CHARS)}\n... output truncated`
+      : outcome.output;
+    return `Result of ${tool} (${outcome.status}): ${outcome.summary}\n${output}`;
+  }
+
+  private requireFile(project: LeoProject, path: unknown): LeoFile {
+    const normalized = AgentEditService.normalizePath(path);
+    if (!normalized) {
+      throw new Error('missing "path"');
+    }
+    const file = AgentEditService.findFile(project, normalized);
+    if (!file) {
+      throw new Error(`${normalized} does not exist`);
+    }
+    return file;
+  }
+
+  private listLines(lines: string[]): string {
+    const extra = lines.length - MAX_LISTED_DIAGNOSTICS;
+    return [...lines.slice(0, MAX_LISTED_DIAGNOSTICS), ...(extra > 0 ? [`... and ${extra} more`] : [])].join('\n');
+  }
+}
+
+export default AgentLoopService.getInstance();
\ No newline at end of file
@@ -0,0 +1,280 @@
+import { CodeChange, LeoFile, LeoProject, ProjectCheckpoint } from '../types';
+import { MergeChunk, mergeLines } from '../utils/lineDiff';
+import ProjectStorageService from './ProjectStorageService';
+
+/**
+ * How a file differs between two versions of a project, matched by path
+ */
+export interface FileComparison {
+  path: string;
+  type: LeoFile['type'];
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  before: string | null;
+  after: string | null;
+}
+
+export interface MergeFile {
+  path: string;
+  type: LeoFile['type'];
+  // clean: merged without conflicts; conflict: `chunks` has conflicts the user must resolve
+  status: 'clean' | 'conflict';
+  current: string | null; // null when the file does not exist in the target
+  branch: string | null; // null when the branch deleted the file
+  merged: string | null; // clean result; null when the merge deletes the file
+  chunks: MergeChunk[];
+}
+
+export interface MergePlan {
+  branchName: string;
+  files: MergeFile[]; // only files the merge changes
+}
+
+export type ConflictResolution = 'current' | 'branch' | 'both';
+
+/**
+ * Named checkpoints of a project, forks into branches, and merging branches back
+ */
+class CheckpointService {
+  private static instance: CheckpointService;
+
+  static getInstance(): CheckpointService {
+    if (!CheckpointService.instance) {
+      CheckpointService.instance = new CheckpointService();
+    }
+    return CheckpointService.instance;
+  }
+
+  async createCheckpoint(project: LeoProject, name: string): Promise<ProjectCheckpoint> {
+    const checkpoint: ProjectCheckpoint = {
+      id: `checkpoint_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      projectId: project.id,
+      name: name.trim() || `Checkpoint ${new Date().toLocaleString()}`,
+      createdAt: new Date(),
+      files: project.files.map(file => ({ ...file, isModified: false }))
+    };
+    await ProjectStorageService.saveCheckpoint(checkpoint);
+    return checkpoint;
+  }
+
+  getCheckpoints(projectId: string): Promise<ProjectCheckpoint[]> {
+    return ProjectStorageService.getCheckpoints(projectId);
+  }
+
+  deleteCheckpoint(projectId: string, checkpointId: string): Promise<void> {
+    return ProjectStorageService.deleteCheckpoint(projectId, checkpointId);
+  }
+
+  /**
+   * The project with every file as it was at the checkpoint
+   */
+  restoreCheckpoint(project: LeoProject, checkpoint: ProjectCheckpoint): LeoProject {
+    const files = checkpoint.files.map(file => {
+      const current = project.files.find(f => f.path === file.path);
+      return current?.content === file.content ? current : { ...file, id: current?.id ?? file.id, isModified: true };
+    });
+    return { ...project, files, updatedAt: new Date() };
+  }
+
+  /**
+   * A new, unsaved project starting from the current state of `project`. The
+   * fork point is kept as a checkpoint of the parent so the branch can be merged back.
+   */
+  async forkProject(project: LeoProject, branchName: string): Promise<LeoProject> {
+    const name = branchName.trim();
+    if (!name) {
+      throw new Error('Failed to fork project: the branch needs a name');
+    }
+
+    const base = await this.createCheckpoint(project, `Fork: ${name}`);
+    const now = new Date();
+    return {
+      id: `project_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      name: `${project.name} (${name})`,
+      description: project.description,
+      files: base.files.map(file => ({ ...file })),
+      createdAt: now,
+      updatedAt: now,
+      chatHistory: [],
+      // A fork lives only in the app; writing it to the parent's folder would overwrite the parent
+      workspaceRoot: undefined,
+      branch: {
+        name,
+        parentProjectId: project.id,
+        parentProjectName: project.name,
+        baseCheckpointId: base.id
+      }
+    };
+  }
+
+  /**
+   * Branches forked from a project, most recently used first
+   */
+  async getBranches(projectId: string): Promise<LeoProject[]> {
+    const metadata = await ProjectStorageService.getAllProjectsMetadata();
+    const branches = await Promise.all(
+      metadata
+        .filter(meta => meta.parentProjectId === projectId)
+        .map(meta => ProjectStorageService.loadProject(meta.id))
+    );
+    return branches.filter((branch): branch is LeoProject => !!branch);
+  }
+
+  compare(before: LeoFile[], after: LeoFile[]): FileComparison[] {
+    const paths = Array.from(new Set([...before, ...after].map(file => file.path))).sort();
+    return paths.map(path => {
+      const oldFile = before.find(file => file.path === path);
+      const newFile = after.find(file => file.path === path);
+      const status = !oldFile ? 'added' : !newFile ? 'removed' : oldFile.content === newFile.content ? 'unchanged' : 'modified';
+      return {
+        path,
+        type: (newFile || oldFile)!.type,
+        status,
+        before: oldFile?.content ?? null,
+        after: newFile?.content ?? null
+      };
+    });
+  }
+
+  /**
+   * A comparison as the changes DiffViewer-based components display
+   */
+  toCodeChanges(comparisons: FileComparison[], description: string): CodeChange[] {
+    return comparisons
+      .filter(comparison => comparison.status !== 'unchanged')
+      .map(comparison => ({
+        fileId: comparison.path,
+        filePath: comparison.path,
+        oldContent: comparison.before ?? '',
+        newContent: comparison.after ?? '',
+        description,
+        kind: comparison.status === 'added' ? 'create' : comparison.status === 'removed' ? 'delete' : 'modify'
+      }));
+  }
+
+  /**
+   * Three-way merge of what changed on `branch` since its fork into `target`
+   */
+  async planMerge(target: LeoProject, branch: LeoProject): Promise<MergePlan> {
+    if (branch.branch?.parentProjectId !== target.id) {
+      throw new Error(`Failed to merge: ${branch.name} is not a branch of ${target.name}`);
+    }
+    const checkpoints = await this.getCheckpoints(target.id);
+    const base = checkpoints.find(checkpoint => checkpoint.id === branch.branch!.baseCheckpointId);
+    if (!base) {
+      throw new Error(`Failed to merge: the checkpoint ${branch.name} was forked from has been deleted`);
+    }
+
+    const files: MergeFile[] = [];
+    for (const change of this.compare(base.files, branch.files)) {
+      if (change.status === 'unchanged') continue;
+
+      const current = target.files.find(file => file.path === change.path)?.content ?? null;
+      if (current === change.after) continue; // already the same on the target
+      if (current === change.before) {
+        // Untouched on the target since the fork
+        files.push({
+          path: change.path,
+          type: change.type,
+          status: 'clean',
+          current,
+          branch: change.after,
+          merged: change.after,
+          chunks: []
+        });
+        continue;
+      }
+
+      if (change.after === null || current === null) {
+        // Deleted on one side and edited on the other
+        const chunks: MergeChunk[] = [{
+          kind: 'conflict',
+          base: this.toLines(change.before),
+          ours: this.toLines(current),
+          theirs: this.toLines(change.after)
+        }];
+        files.push({ path: change.path, type: change.type, status: 'conflict', current, branch: change.after, merged: null, chunks });
+        continue;
+      }
+
+      const chunks = mergeLines(change.before ?? '', current, change.after);
+      const hasConflict = chunks.some(chunk => chunk.kind === 'conflict');
+      files.push({
+        path: change.path,
+        type: change.type,
+        status: hasConflict ? 'conflict' : 'clean',
+        current,
+        branch: change.after,
+        merged: hasConflict ? null : this.joinChunks(chunks, []),
+        chunks
+      });
+    }
+
+    return { branchName: branch.branch.name, files };
+  }
+
+  /**
+   * A conflicted file's content with each conflict resolved, or null when it
+   * resolves to a deleted file
+   */
+  resolveFile(file: MergeFile, resolutions: ConflictResolution[]): string | null {
+    if (file.status === 'clean') return file.merged;
+    if (file.current === null || file.branch === null) {
+      // Deleted on one side and edited on the other; keeping both keeps the edit
+      const [resolution] = resolutions;
+      if (resolution === 'current') return file.current;
+      if (resolution === 'branch') return file.branch;
+      return file.current ?? file.branch;
+    }
+    return this.joinChunks(file.chunks, resolutions);
+  }
+
+  /**
+   * `target` with the merge applied. Each conflicted file needs one resolution per conflict.
+   */
+  applyMerge(target: LeoProject, plan: MergePlan, resolutions: Record<string, ConflictResolution[]>): LeoProject {
+    let files = [...target.files];
+    for (const mergeFile of plan.files) {
+      const content = this.resolveFile(mergeFile, resolutions[mergeFile.path] || []);
+      const existing = files.find(file => file.path === mergeFile.path);
+
+      if (content === null) {
+        files = files.filter(file => file.path !== mergeFile.path);
+      } else if (existing) {
+        files = files.map(file => (file === existing ? { ...file, content, isModified: true } : file));
+      } else {
+        files.push({
+          id: `file_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+          name: mergeFile.path.split('/').pop() || mergeFile.path,
+          path: mergeFile.path,
+          content,
+          type: mergeFile.type,
+          isModified: true
+        });
+      }
+    }
+    return { ...target, files, updatedAt: new Date() };
+  }
+
+  // Private helper methods
+
+  private toLines(content: string | null): string[] {
+    return content ? content.split('\n') : [];
+  }
+
+  private joinChunks(chunks: MergeChunk[], resolutions: ConflictResolution[]): string {
+    const lines: string[] = [];
+    let conflictIndex = 0;
+    for (const chunk of chunks) {
+      if (chunk.kind === 'clean') {
+        lines.push(...chunk.lines);
+        continue;
+      }
+      const resolution = resolutions[conflictIndex++];
+      if (resolution === 'current' || resolution === 'both') lines.push(...chunk.ours);
+      if (resolution === 'branch' || resolution === 'both') lines.push(...chunk.theirs);
+    }
+    return lines.join('\n');
+  }
+}
+
+export default CheckpointService.getInstance();
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import CodeActionService from './CodeActionService';
+
+const wrap = (body: string) => `program t.aleo {\n    function f(x: u8, y: u8) {\n${body}\n    }\n}\n`;
+
+// The actions offered for one rule on a line, each applied to the source
+function fixes(source: string, line: number, rule: string): { title: string; result: string }[] {
+  return CodeActionService.getCodeActions(source, 'main.leo', line)
+    .filter(action => action.rule === rule)
+    .map(action => ({ title: action.title, result: CodeActionService.applyEdits(source, action.edits) }));
+}
+
+describe('CodeActionService quick fixes', () => {
+  it('inserts a missing semicolon', () => {
+    expect(fixes(wrap('        let a: u8 = x\n        assert_eq(a, y);'), 3, 'missing-semicolon')).toEqual([
+      { title: 'Insert missing semicolon', result: wrap('        let a: u8 = x;\n        assert_eq(a, y);') }
+    ]);
+  });
+
+  it('removes an unused variable or prefixes it with an underscore', () => {
+    expect(fixes(wrap('        let a: u8 = x;\n        assert_eq(x, y);'), 3, 'unused-variable')).toEqual([
+      { title: "Remove unused variable 'a'", result: wrap('        assert_eq(x, y);') },
+      { title: "Prefix 'a' with an underscore", result: wrap('        let _a: u8 = x;\n        assert_eq(x, y);') }
+    ]);
+  });
+
+  it('keeps unused variables whose value is a call', () => {
+    expect(fixes(wrap('        let a: u8 = g(x);'), 3, 'unused-variable').map(fix => fix.title)).toEqual([
+      "Prefix 'a' with an underscore"
+    ]);
+  });
+
+  it('converts comparisons in assert to assert_eq and assert_neq', () => {
+    expect(fixes(wrap('        assert(x == y);'), 3, 'assert-style')).toEqual([
+      { title: 'Convert to assert_eq', result: wrap('        assert_eq(x, y);') }
+    ]);
+    expect(fixes(wrap('        assert(x + 1u8 != y);'), 3, 'assert-style')).toEqual([
+      { title: 'Convert to assert_neq', result: wrap('        assert_neq(x + 1u8, y);') }
+    ]);
+    expect(fixes(wrap('        assert(x < y);'), 3, 'assert-style')).toEqual([]);
+  });
+
+  it('replaces the whole assert call when the condition has parentheses or comments', () => {
+    expect(fixes(wrap('        assert((x == y));'), 3, 'assert-style').map(fix => fix.result)).toEqual([
+      wrap('        assert_eq(x, y);')
+    ]);
+    expect(fixes(wrap('        assert(x == y /* note) */);'), 3, 'assert-style').map(fix => fix.result)).toEqual([
+      wrap('        assert_eq(x, y);')
+    ]);
+  });
+
+  it('extracts a large literal to a constant and replaces each use', () => {
+    const source = 'program t.aleo {\n    function f(x: u64) -> u64 {\n        assert(x < 10000u64);\n        return x + 10000u64;\n    }\n}\n';
+    expect(fixes(source, 3, 'magic-numbers')).toEqual([{
+      title: 'Extract 10000u64 to constant U64_10000',
+      result: 'program t.aleo {\n    const U64_10000: u64 = 10000u64;\n\n    function f(x: u64) -> u64 {\n' +
+        '        assert(x < U64_10000);\n        return x + U64_10000;\n    }\n}\n'
+    }]);
+  });
+
+  it('offers no constant for literals without a type suffix', () => {
+    expect(fixes(wrap('        let a: u8 = x;\n        assert(a < 10000);'), 4, 'magic-numbers')).toEqual([]);
+  });
+});
\ No newline at end of file
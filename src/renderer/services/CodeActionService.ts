@@ -0,0 +1,263 @@
+import { AstNode, Identifier, Literal, ParseDiagnostic, SourceFile, VariableDeclaration, tokenize, walk } from '../parser';
+import { LintConfig, LintIssue, lint } from '../lint';
+
+export interface TextEdit {
+  start: number; // offsets into the file content
+  end: number;
+  text: string;
+}
+
+export interface CodeAction {
+  title: string;
+  rule: string;
+  line: number; // of the issue being fixed
+  edits: TextEdit[];
+  isPreferred?: boolean;
+}
+
+export interface QuickFixContext {
+  content: string;
+  ast: SourceFile;
+  parseDiagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Offers fixes for one issue of the provider's rule; returns no actions when
+ * the issue's code no longer matches what the fix expects
+ */
+export type QuickFixProvider = (issue: LintIssue, context: QuickFixContext) => CodeAction[];
+
+/**
+ * Quick fixes for analysis issues. Each rule registers a provider that turns
+ * an issue into text edits.
+ */
+class CodeActionService {
+  private static instance: CodeActionService;
+  private providers: Map<string, QuickFixProvider> = new Map();
+
+  private constructor() {
+    this.registerQuickFix('missing-semicolon', (issue, context) => this.fixMissingSemicolon(issue, context));
+    this.registerQuickFix('unused-variable', (issue, context) => this.fixUnusedVariable(issue, context));
+    this.registerQuickFix('assert-style', (issue, context) => this.fixAssertStyle(issue, context));
+    this.registerQuickFix('magic-numbers', (issue, context) => this.fixMagicNumber(issue, context));
+  }
+
+  static getInstance(): CodeActionService {
+    if (!CodeActionService.instance) {
+      CodeActionService.instance = new CodeActionService();
+    }
+    return CodeActionService.instance;
+  }
+
+  registerQuickFix(rule: string, provider: QuickFixProvider): void {
+    this.providers.set(rule, provider);
+  }
+
+  /**
+   * Fixes for the issues on lines startLine..endLine (1-based, inclusive)
+   */
+  getCodeActions(content: string, fileName: string, startLine: number, endLine: number = startLine, config?: LintConfig): CodeAction[] {
+    const { ast, parseDiagnostics, issues } = lint(content, fileName, config);
+    const context: QuickFixContext = { content, ast, parseDiagnostics };
+
+    const actions = issues
+      .filter(issue => issue.line >= startLine && issue.line <= endLine)
+      .flatMap(issue => {
+        const provider = issue.rule ? this.providers.get(issue.rule) : undefined;
+        try {
+          return provider ? provider(issue, context) : [];
+        } catch (error) {
+          console.error(`Quick fix for ${issue.rule} failed:`, error);
+          return [];
+        }
+      });
+
+    // Fixes that cover several issues (e.g. extracting a repeated literal) are offered once
+    return actions.filter((action, index) => actions.findIndex(a => a.title === action.title) === index);
+  }
+
+  /**
+   * Apply non-overlapping edits to content
+   */
+  applyEdits(content: string, edits: TextEdit[]): string {
+    return [...edits]
+      .sort((a, b) => b.start - a.start)
+      .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), content);
+  }
+
+  // Providers
+
+  private fixMissingSemicolon(issue: LintIssue, context: QuickFixContext): CodeAction[] {
+    const diagnostic = context.parseDiagnostics.find(d =>
+      d.code === 'missing-semicolon' && d.span.start.line === issue.line && d.span.start.column === issue.column
+    );
+    if (!diagnostic) return [];
+
+    return [{
+      title: 'Insert missing semicolon',
+      rule: 'missing-semicolon',
+      line: issue.line,
+      edits: [{ start: diagnostic.span.end.offset, end: diagnostic.span.end.offset, text: ';' }],
+      isPreferred: true
+    }];
+  }
+
+  private fixUnusedVariable(issue: LintIssue, context: QuickFixContext): CodeAction[] {
+    let declaration: VariableDeclaration | undefined;
+    let name: Identifier | undefined;
+    walk(context.ast, node => {
+      if (node.kind !== 'VariableDeclaration') return;
+      const match = node.names.find(n => n.span.start.line === issue.line && n.span.start.column === issue.column);
+      if (match) {
+        declaration = node;
+        name = match;
+      }
+    });
+    if (!declaration || !name) return [];
+
+    const actions: CodeAction[] = [{
+      title: `Prefix '${name.name}' with an underscore`,
+      rule: 'unused-variable',
+      line: issue.line,
+      edits: [{ start: name.span.start.offset, end: name.span.start.offset, text: '_' }]
+    }];
+
+    // Calls may have effects (or return futures), so only pure declarations are removed
+    if (declaration.names.length === 1 && !this.containsCall(declaration.value)) {
+      actions.unshift({
+        title: `Remove unused variable '${name.name}'`,
+        rule: 'unused-variable',
+        line: issue.line,
+        edits: [this.removeStatement(context.content, declaration.span.start.offset, declaration.span.end.offset)],
+        isPreferred: true
+      });
+    }
+    return actions;
+  }
+
+  private fixAssertStyle(issue: LintIssue, context: QuickFixContext): CodeAction[] {
+    const statement = this.findNode(context.ast, 'AssertStatement', issue);
+    if (!statement || statement.kind !== 'AssertStatement' || statement.arguments.length !== 1) return [];
+
+    const condition = statement.arguments[0];
+    if (condition.kind !== 'BinaryExpression' || (condition.operator !== '==' && condition.operator !== '!=')) {
+      return [];
+    }
+
+    const variant = condition.operator === '==' ? 'assert_eq' : 'assert_neq';
+    const source = (node: AstNode) => context.content.slice(node.span.start.offset, node.span.end.offset);
+    const closingParen = this.findClosingParen(context.content, statement.span.start.offset);
+    if (closingParen === undefined) return [];
+
+    return [{
+      title: `Convert to ${variant}`,
+      rule: 'assert-style',
+      line: issue.line,
+      edits: [{
+        start: statement.span.start.offset,
+        end: closingParen,
+        text: `${variant}(${source(condition.left)}, ${source(condition.right)})`
+      }],
+      isPreferred: true
+    }];
+  }
+
+  private fixMagicNumber(issue: LintIssue, context: QuickFixContext): CodeAction[] {
+    const literal = this.findNode(context.ast, 'Literal', issue) as Literal | undefined;
+    const program = context.ast.program;
+    const firstItem = program?.items[0];
+    // Constants need a type, which only suffixed literals give away
+    if (!literal?.suffix || !program || !firstItem) return [];
+
+    const text = context.content.slice(literal.span.start.offset, literal.span.end.offset);
+    const name = this.uniqueConstantName(`${literal.suffix.toUpperCase()}_${literal.value.replace(/_/g, '')}`, context.ast);
+
+    // Replace every use of the same literal, leaving existing constants alone
+    const edits: TextEdit[] = [];
+    walk(program, node => {
+      if (node.kind === 'ConstDeclaration' || (node.kind === 'VariableDeclaration' && node.isConst)) return false;
+      if (node.kind === 'Literal' && context.content.slice(node.span.start.offset, node.span.end.offset) === text) {
+        edits.push({ start: node.span.start.offset, end: node.span.end.offset, text: name });
+      }
+    });
+
+    // Declared first thing in the program block, indented like its items
+    const itemLineStart = context.content.lastIndexOf('\n', firstItem.span.start.offset - 1) + 1;
+    const indent = context.content.slice(itemLineStart, firstItem.span.start.offset).replace(/\S.*$/, '');
+    const blockStart = context.content.indexOf('{', program.name.span.end.offset);
+    const insertAt = context.content.indexOf('\n', blockStart) + 1;
+    if (blockStart === -1 || insertAt === 0 || insertAt > firstItem.span.start.offset) return [];
+    edits.push({ start: insertAt, end: insertAt, text: `${indent}const ${name}: ${literal.suffix} = ${text};\n\n` });
+
+    return [{
+      title: `Extract ${text} to constant ${name}`,
+      rule: 'magic-numbers',
+      line: issue.line,
+      edits
+    }];
+  }
+
+  // Helpers
+
+  private findNode(ast: SourceFile, kind: AstNode['kind'], issue: LintIssue): AstNode | undefined {
+    let found: AstNode | undefined;
+    walk(ast, node => {
+      if (found) return false;
+      if (node.kind === kind && node.span.start.line === issue.line && node.span.start.column === issue.column) {
+        found = node;
+      }
+    });
+    return found;
+  }
+
+  /**
+   * End offset of the `)` closing the first parenthesis after `from`, skipping
+   * comments and nested parentheses
+   */
+  private findClosingParen(content: string, from: number): number | undefined {
+    let depth = 0;
+    for (const token of tokenize(content).tokens) {
+      if (token.span.start.offset < from || token.kind !== 'symbol') continue;
+      if (token.value === '(') depth++;
+      if (token.value === ')' && --depth === 0) return token.span.end.offset;
+      if (token.value === ';' && depth === 0) return undefined;
+    }
+    return undefined;
+  }
+
+  private containsCall(node: AstNode): boolean {
+    let hasCall = false;
+    walk(node, child => {
+      if (child.kind === 'CallExpression' || child.kind === 'AsyncBlockExpression') hasCall = true;
+      return !hasCall;
+    });
+    return hasCall;
+  }
+
+  /**
+   * Delete a statement, taking its whole line when nothing else is on it
+   */
+  private removeStatement(content: string, start: number, end: number): TextEdit {
+    const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+    const newline = content.indexOf('\n', end);
+    const lineEnd = newline === -1 ? content.length : newline + 1;
+
+    const ownsLine = content.slice(lineStart, start).trim() === '' && content.slice(end, lineEnd).trim() === '';
+    return ownsLine ? { start: lineStart, end: lineEnd, text: '' } : { start, end, text: '' };
+  }
+
+  private uniqueConstantName(base: string, ast: SourceFile): string {
+    const taken = new Set<string>();
+    walk(ast, node => {
+      if (node.kind === 'Identifier') taken.add(node.name);
+    });
+
+    let name = base;
+    for (let i = 2; taken.has(name); i++) {
+      name = `${base}_${i}`;
+    }
+    return name;
+  }
+}
+
+export default CodeActionService.getInstance();
\ No newline at end of file
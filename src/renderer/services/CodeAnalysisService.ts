@@ -1,4 +1,7 @@
-import { CodeAnalysis, CodeSuggestion, CodeChange, LeoFile, AnalysisResult } from '../types';
+import { CodeAnalysis, CodeSuggestion, CodeChange, CodeMetrics, LeoFile, AnalysisResult } from '../types';
+import { FunctionDeclaration, parseLeo, walk } from '../parser';
+import { LintConfig, lint } from '../lint';
+import { computeMetrics } from '../utils/leoMetrics';
 
 class CodeAnalysisService {
   private static instance: CodeAnalysisService;
@@ -16,10 +19,10 @@ class CodeAnalysisService {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  async analyzeCode(code: string, fileName: string = 'main.leo'): Promise<AnalysisResult> {
+  async analyzeCode(code: string, fileName: string = 'main.leo', config?: LintConfig): Promise<AnalysisResult> {
     await this.simulateDelay();
 
-    const analysis = this.performStaticAnalysis(code, fileName);
+    const analysis = this.performStaticAnalysis(code, fileName, config);
     const suggestions = this.generateSuggestions(code, fileName, analysis);
 
     return {
@@ -29,128 +32,64 @@ class CodeAnalysisService {
     };
   }
 
-  private performStaticAnalysis(code: string, fileName: string): CodeAnalysis {
-    const issues: CodeAnalysis['issues'] = [];
-    const suggestions: string[] = [];
-    let complexity = 1;
-    let maintainabilityIndex = 100;
+  /**
+   * Static analysis without the simulated latency, for building agent prompts
+   */
+  analyzeStatic(code: string, fileName: string = 'main.leo', config?: LintConfig): CodeAnalysis {
+    return this.performStaticAnalysis(code, fileName, config);
+  }
 
-    const lines = code.split('\n');
-    
-    lines.forEach((line, index) => {
-      const lineNumber = index + 1;
-      const trimmedLine = line.trim();
-
-      // Check for TODO/FIXME comments
-      if (trimmedLine.includes('TODO') || trimmedLine.includes('FIXME')) {
-        issues.push({
-          line: lineNumber,
-          message: 'TODO or FIXME comment found - consider addressing this',
-          severity: 'info',
-          rule: 'todo-fixme'
-        });
-      }
+  /**
+   * Metrics alone, e.g. for earlier versions of a file
+   */
+  getMetrics(code: string): CodeMetrics {
+    return computeMetrics(parseLeo(code).ast, code);
+  }
 
-      // Check for missing semicolons (Leo specific)
-      if (trimmedLine.length > 0 && 
-          !trimmedLine.endsWith(';') && 
-          !trimmedLine.endsWith('{') && 
-          !trimmedLine.endsWith('}') &&
-          !trimmedLine.startsWith('//') &&
-          !trimmedLine.startsWith('/*') &&
-          !trimmedLine.includes('program ') &&
-          !trimmedLine.includes('transition ') &&
-          !trimmedLine.includes('function ') &&
-          !trimmedLine.includes('struct ') &&
-          !trimmedLine.includes('record ')) {
-        issues.push({
-          line: lineNumber,
-          message: 'Missing semicolon at end of statement',
-          severity: 'warning',
-          rule: 'missing-semicolon'
-        });
-      }
+  private performStaticAnalysis(code: string, fileName: string, config?: LintConfig): CodeAnalysis {
+    // Issues come from the lint rules; the rest are file-level metrics and hints
+    const { ast, issues } = lint(code, fileName, config);
+    const suggestions: string[] = [];
+    const metrics = computeMetrics(ast, code);
 
+    walk(ast, node => {
       // Check for potential overflow issues
-      if (trimmedLine.includes('u32::MAX') || trimmedLine.includes('u64::MAX')) {
+      if (node.kind === 'PathExpression' && node.segments.length === 2 && node.segments[1].name === 'MAX') {
         suggestions.push('Consider using checked arithmetic operations to prevent overflow');
       }
-
-      // Check for hardcoded values
-      if (/\d{4,}/.test(trimmedLine) && !trimmedLine.includes('//')) {
-        issues.push({
-          line: lineNumber,
-          message: 'Consider using named constants instead of magic numbers',
-          severity: 'info',
-          rule: 'magic-numbers'
-        });
-      }
-
-      // Calculate complexity
-      if (trimmedLine.includes('if ') || 
-          trimmedLine.includes('else') || 
-          trimmedLine.includes('for ') ||
-          trimmedLine.includes('while ')) {
-        complexity += 1;
-      }
-
-      // Check for transition complexity
-      if (trimmedLine.includes('transition ')) {
-        complexity += 2;
-      }
-
-      // Check for assert statements without proper error messages
-      if (trimmedLine.includes('assert(') && !trimmedLine.includes('assert_eq(')) {
-        issues.push({
-          line: lineNumber,
-          message: 'Consider using assert_eq for better error messages',
-          severity: 'info',
-          rule: 'assert-style'
-        });
-      }
-
-      // Check for unused variables (simple heuristic)
-      const varMatch = trimmedLine.match(/let\s+(\w+):/);
-      if (varMatch) {
-        const varName = varMatch[1];
-        const remainingCode = lines.slice(index + 1).join('\n');
-        if (!remainingCode.includes(varName)) {
-          issues.push({
-            line: lineNumber,
-            message: `Variable '${varName}' appears to be unused`,
-            severity: 'warning',
-            rule: 'unused-variable'
-          });
-        }
-      }
     });
 
+    const functions = (ast.program?.items || []).filter(
+      (item): item is FunctionDeclaration => item.kind === 'FunctionDeclaration'
+    );
+
     // Check for missing documentation
-    if (!code.includes('//') && !code.includes('/*')) {
+    if (ast.comments.length === 0) {
       suggestions.push('Add comments to improve code readability and maintainability');
-      maintainabilityIndex -= 10;
     }
 
     // Check for consistent naming
-    const transitionNames = code.match(/transition\s+(\w+)/g);
-    if (transitionNames && transitionNames.length > 1) {
-      const names = transitionNames.map(match => match.split(' ')[1]);
-      const hasConsistentNaming = names.every(name => 
-        name.includes('_') || names.every(n => !n.includes('_'))
-      );
-      if (!hasConsistentNaming) {
+    const transitionNames = functions.filter(fn => fn.variant === 'transition').map(fn => fn.name.name);
+    if (transitionNames.length > 1) {
+      const snakeCase = transitionNames.filter(name => name.includes('_')).length;
+      const camelCase = transitionNames.filter(name => /[a-z][A-Z]/.test(name)).length;
+      if (snakeCase > 0 && camelCase > 0) {
         suggestions.push('Use consistent naming convention for transitions (snake_case or camelCase)');
       }
     }
 
-    // Adjust maintainability based on complexity
-    maintainabilityIndex = Math.max(0, maintainabilityIndex - (complexity * 5));
+    // The file is as complex as its most complex function, and as maintainable as its average one
+    const complexity = Math.max(1, ...metrics.functions.map(fn => fn.cyclomaticComplexity));
+    const maintainabilityIndex = metrics.functions.length > 0
+      ? Math.round(metrics.functions.reduce((sum, fn) => sum + fn.maintainabilityIndex, 0) / metrics.functions.length)
+      : 100;
 
     return {
       issues,
-      suggestions,
+      suggestions: Array.from(new Set(suggestions)),
       complexity,
-      maintainabilityIndex
+      maintainabilityIndex,
+      metrics
     };
   }
 
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LeoProject } from '../types';
+import { makeFile, makeProject } from '../utils/testFixtures';
+
+vi.mock('./ProjectStorageService', () => ({
+  default: { loadProjectHistory: vi.fn(async () => null), saveProjectHistory: vi.fn(async () => undefined) }
+}));
+
+// A fresh service, as after a restart, with the storage it persists to
+async function load() {
+  vi.resetModules();
+  const storage = (await import('./ProjectStorageService')).default as unknown as {
+    loadProjectHistory: ReturnType<typeof vi.fn>;
+    saveProjectHistory: ReturnType<typeof vi.fn>;
+  };
+  return { history: (await import('./CodeHistoryService')).default, storage };
+}
+
+const base = makeProject([
+  makeFile('main', 'src/main.leo', 'main v1'),
+  makeFile('utils', 'src/utils.leo', 'utils v1')
+]);
+
+// The project with files set to new content, or removed when null
+const withFiles = (project: LeoProject, contents: Record<string, string | null>): LeoProject => ({
+  ...project,
+  files: [
+    ...project.files.filter(file => contents[file.id] !== null).map(file => ({ ...file, content: contents[file.id] ?? file.content })),
+    ...Object.entries(contents)
+      .filter(([id, content]) => content !== null && !project.files.some(file => file.id === id))
+      .map(([id, content]) => makeFile(id, `src/${id}.leo`, content!))
+  ]
+});
+
+const contents = (project: LeoProject) => Object.fromEntries(project.files.map(file => [file.id, file.content]));
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.resetAllMocks();
+});
+
+describe('CodeHistoryService grouped changes', () => {
+  it('undoes and redoes a change to several files as one step', async () => {
+    const { history } = await load();
+    const after = withFiles(base, { main: 'main v2', utils: 'utils v2' }).files;
+    const groupId = history.addGroup(base.files, after, 'Rename', true);
+
+    expect(history.undoGroup(groupId).map(entry => [entry.fileId, entry.content, entry.description])).toEqual([
+      ['main', 'main v1', 'Original'],
+      ['utils', 'utils v1', 'Original']
+    ]);
+    expect(history.undoGroup(groupId)).toEqual([]);
+    expect(history.redoGroup(groupId).map(entry => [entry.fileId, entry.content, entry.isAgentChange])).toEqual([
+      ['main', 'main v2', true],
+      ['utils', 'utils v2', true]
+    ]);
+  });
+
+  it('leaves files edited after the group alone', async () => {
+    const { history } = await load();
+    const groupId = history.addGroup(base.files, withFiles(base, { main: 'main v2', utils: 'utils v2' }).files, 'Rename');
+    history.addEntry(makeFile('utils', 'src/utils.leo', 'utils v3'));
+
+    expect(history.undoGroup(groupId).map(entry => entry.fileId)).toEqual(['main']);
+    expect(history.getCurrentEntry('utils')?.content).toBe('utils v3');
+  });
+});
+
+describe('CodeHistoryService timeline', () => {
+  it('records one entry per change, merging consecutive user edits of a file', async () => {
+    const { history } = await load();
+    await history.openProject(base);
+
+    const edited = withFiles(base, { main: 'main v2' });
+    history.recordChange(edited, 'user');
+    history.recordChange(withFiles(edited, { main: 'main v3' }), 'user');
+    history.recordChange(withFiles(edited, { main: 'main v3', utils: null, extra: 'extra v1' }), 'agent', 'Split utils');
+
+    expect(history.getTimeline().map(entry => [entry.description, entry.author, entry.changes.map(c => [c.fileId, c.before, c.after])])).toEqual([
+      ['Edited main.leo', 'user', [['main', 'main v1', 'main v3']]],
+      ['Split utils', 'agent', [['extra', null, 'extra v1'], ['utils', 'utils v1', null]]]
+    ]);
+  });
+
+  it('restores every file to a point in the timeline, recording the restore', async () => {
+    const { history } = await load();
+    await history.openProject(base);
+
+    const first = history.recordChange(withFiles(base, { main: 'main v2' }), 'user')!;
+    const current = withFiles(base, { main: 'main v3', utils: null, extra: 'extra v1' });
+    history.recordChange(current, 'agent', 'Refactor');
+
+    const restored = history.restoreTo(current, first.id);
+
+    expect(contents(restored)).toEqual({ main: 'main v2', utils: 'utils v1' });
+    expect(restored.files.every(file => file.path && file.type === 'leo')).toBe(true);
+    expect(history.getTimeline().map(entry => entry.description)).toEqual([
+      'Edited main.leo',
+      'Refactor',
+      'Restored to "Edited main.leo"'
+    ]);
+    // The restore is one undoable step for the files it changed
+    expect(history.getCurrentEntry('main')?.content).toBe('main v2');
+    expect(() => history.restoreTo(restored, 'timeline_missing')).toThrow('Failed to restore: that point is no longer in the timeline');
+  });
+});
+
+describe('CodeHistoryService persistence', () => {
+  it('saves the history shortly after a change, and right away when another project opens', async () => {
+    const { history, storage } = await load();
+    await history.openProject(base);
+    history.recordChange(withFiles(base, { main: 'main v2' }), 'user');
+    history.addEntry(makeFile('main', 'src/main.leo', 'main v2'));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(storage.saveProjectHistory).toHaveBeenCalledTimes(1);
+    expect(storage.saveProjectHistory.mock.calls[0][1]).toMatchObject({
+      version: 1,
+      files: [{ fileId: 'main', currentIndex: 0 }],
+      timeline: [{ description: 'Edited main.leo' }]
+    });
+
+    history.addEntry(makeFile('main', 'src/main.leo', 'main v3'));
+    await history.openProject(makeProject([], { id: 'project_2' }));
+    expect(storage.saveProjectHistory).toHaveBeenCalledTimes(2);
+    expect(storage.saveProjectHistory.mock.calls[1][0]).toBe('project_1');
+    expect(history.getTimeline()).toEqual([]);
+  });
+
+  it('brings back the saved history of a project', async () => {
+    const { history, storage } = await load();
+    await history.openProject(base);
+    history.recordChange(withFiles(base, { main: 'main v2' }), 'user');
+    history.addEntry(makeFile('main', 'src/main.leo', 'main v1'));
+    history.addEntry(makeFile('main', 'src/main.leo', 'main v2'));
+    history.undo('main');
+    await vi.advanceTimersByTimeAsync(1000);
+    const saved = storage.saveProjectHistory.mock.calls[0][1];
+
+    const { history: reopened, storage: reopenedStorage } = await load();
+    reopenedStorage.loadProjectHistory.mockResolvedValue(saved);
+    await reopened.openProject(withFiles(base, { main: 'main v2' }));
+
+    expect(reopened.getTimeline().map(entry => entry.description)).toEqual(['Edited main.leo']);
+    expect(reopened.getCurrentEntry('main')?.content).toBe('main v1');
+    expect(reopened.redo('main')?.content).toBe('main v2');
+  });
+});
\ No newline at end of file
@@ -1,19 +1,67 @@
-import { LeoFile } from '../types';
+import { LeoFile, LeoProject } from '../types';
+import ProjectStorageService from './ProjectStorageService';
 
-interface CodeHistoryEntry {
+export type ChangeAuthor = 'user' | 'agent';
+
+export interface CodeHistoryEntry {
   id: string;
   fileId: string;
   content: string;
   timestamp: Date;
   description: string;
   isAgentChange: boolean;
+  groupId?: string; // shared by the entries of one change spanning several files
+}
+
+export interface TimelineFileChange {
+  fileId: string;
+  path: string;
+  type: LeoFile['type'];
+  before: string | null; // null when the change created the file
+  after: string | null; // null when the change deleted the file
+}
+
+/**
+ * One change to the project, however many files it touched
+ */
+export interface TimelineEntry {
+  id: string;
+  timestamp: Date;
+  description: string;
+  author: ChangeAuthor;
+  changes: TimelineFileChange[];
+}
+
+interface PersistedHistory {
+  version: number;
+  files: Array<{ fileId: string; entries: CodeHistoryEntry[]; currentIndex: number }>;
+  timeline: TimelineEntry[];
 }
 
+type TimelineListener = (timeline: TimelineEntry[]) => void;
+
+const HISTORY_VERSION = 1;
+// Consecutive saves of the same file by the user within this window make one timeline entry
+const COALESCE_WINDOW_MS = 5 * 60 * 1000;
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * Per-file undo/redo stacks and a project-wide timeline of changes, both
+ * persisted with the open project
+ */
 class CodeHistoryService {
   private static instance: CodeHistoryService;
   private history: Map<string, CodeHistoryEntry[]> = new Map();
   private currentIndex: Map<string, number> = new Map();
   private maxHistorySize = 50;
+  private maxTimelineSize = 200;
+
+  private projectId: string | null = null;
+  private timeline: TimelineEntry[] = [];
+  // Files as of the last timeline entry; later differences are not yet recorded
+  private recorded: Map<string, { path: string; type: LeoFile['type']; content: string }> = new Map();
+  private listeners: Set<TimelineListener> = new Set();
+  private persistTimeout: ReturnType<typeof setTimeout> | null = null;
 
   private constructor() {}
 
@@ -28,9 +76,9 @@ class CodeHistoryService {
     return `history_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
   }
 
-  addEntry(file: LeoFile, description: string = 'Manual edit', isAgentChange: boolean = false): void {
+  addEntry(file: LeoFile, description: string = 'Manual edit', isAgentChange: boolean = false, groupId?: string): void {
     const fileHistory = this.history.get(file.id) || [];
-    const currentIdx = this.currentIndex.get(file.id) || -1;
+    const currentIdx = this.currentIndex.get(file.id) ?? -1;
 
     // If we're not at the end of history, remove everything after current position
     if (currentIdx < fileHistory.length - 1) {
@@ -43,7 +91,8 @@ class CodeHistoryService {
       content: file.content,
       timestamp: new Date(),
       description,
-      isAgentChange
+      isAgentChange,
+      groupId
     };
 
     fileHistory.push(entry);
@@ -55,16 +104,71 @@ class CodeHistoryService {
 
     this.history.set(file.id, fileHistory);
     this.currentIndex.set(file.id, fileHistory.length - 1);
+    this.schedulePersist();
+  }
+
+  /**
+   * An id for addEntry calls that make up one multi-file change
+   */
+  createGroupId(): string {
+    return `group_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  /**
+   * Record a change to several files as one step. `before` holds the files as
+   * they were, so each one can be restored even if it had no history yet.
+   */
+  addGroup(before: LeoFile[], after: LeoFile[], description: string, isAgentChange: boolean = false): string {
+    const groupId = this.createGroupId();
+
+    for (const file of before) {
+      if (this.getCurrentEntry(file.id)?.content !== file.content) {
+        this.addEntry(file, 'Original', false);
+      }
+    }
+    for (const file of after) {
+      this.addEntry(file, description, isAgentChange, groupId);
+    }
+    return groupId;
+  }
+
+  /**
+   * Undo every file whose current entry belongs to the group
+   */
+  undoGroup(groupId: string): CodeHistoryEntry[] {
+    const restored: CodeHistoryEntry[] = [];
+    for (const fileId of this.history.keys()) {
+      if (this.getCurrentEntry(fileId)?.groupId === groupId) {
+        const entry = this.undo(fileId);
+        if (entry) restored.push(entry);
+      }
+    }
+    return restored;
+  }
+
+  /**
+   * Redo every file whose next entry belongs to the group
+   */
+  redoGroup(groupId: string): CodeHistoryEntry[] {
+    const restored: CodeHistoryEntry[] = [];
+    for (const [fileId, fileHistory] of this.history) {
+      const next = fileHistory[(this.currentIndex.get(fileId) ?? -1) + 1];
+      if (next?.groupId === groupId) {
+        const entry = this.redo(fileId);
+        if (entry) restored.push(entry);
+      }
+    }
+    return restored;
   }
 
   canUndo(fileId: string): boolean {
-    const currentIdx = this.currentIndex.get(fileId) || -1;
+    const currentIdx = this.currentIndex.get(fileId) ?? -1;
     return currentIdx > 0;
   }
 
   canRedo(fileId: string): boolean {
     const fileHistory = this.history.get(fileId) || [];
-    const currentIdx = this.currentIndex.get(fileId) || -1;
+    const currentIdx = this.currentIndex.get(fileId) ?? -1;
     return currentIdx < fileHistory.length - 1;
   }
 
@@ -74,6 +178,7 @@ class CodeHistoryService {
     const currentIdx = this.currentIndex.get(fileId)!;
     const newIdx = currentIdx - 1;
     this.currentIndex.set(fileId, newIdx);
+    this.schedulePersist();
 
     const fileHistory = this.history.get(fileId)!;
     return fileHistory[newIdx];
@@ -85,6 +190,7 @@ class CodeHistoryService {
     const currentIdx = this.currentIndex.get(fileId)!;
     const newIdx = currentIdx + 1;
     this.currentIndex.set(fileId, newIdx);
+    this.schedulePersist();
 
     const fileHistory = this.history.get(fileId)!;
     return fileHistory[newIdx];
@@ -121,11 +227,219 @@ class CodeHistoryService {
   clearHistory(fileId: string): void {
     this.history.delete(fileId);
     this.currentIndex.delete(fileId);
+    this.schedulePersist();
   }
 
   clearAllHistory(): void {
     this.history.clear();
     this.currentIndex.clear();
+    this.timeline = [];
+    this.notify();
+    this.schedulePersist();
+  }
+
+  // Project timeline
+
+  /**
+   * Load the history saved with a project, replacing whatever project was open
+   */
+  async openProject(project: LeoProject): Promise<void> {
+    await this.persistNow();
+
+    this.projectId = project.id;
+    this.history.clear();
+    this.currentIndex.clear();
+    this.timeline = [];
+    this.recorded = this.snapshot(project);
+
+    try {
+      const saved = await ProjectStorageService.loadProjectHistory<PersistedHistory>(project.id);
+      if (saved && saved.version === HISTORY_VERSION && this.projectId === project.id) {
+        for (const { fileId, entries, currentIndex } of saved.files) {
+          this.history.set(fileId, entries);
+          this.currentIndex.set(fileId, currentIndex);
+        }
+        this.timeline = saved.timeline;
+      }
+    } catch (error) {
+      console.warn('Failed to load project history:', error);
+    }
+    this.notify();
+  }
+
+  getTimeline(): TimelineEntry[] {
+    return this.timeline;
+  }
+
+  /**
+   * Listen for timeline changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: TimelineListener): () => void {
+    this.listeners.add(listener);
+    listener(this.timeline);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add a timeline entry for everything in the project that changed since the
+   * last one. Returns null when nothing changed.
+   */
+  recordChange(project: LeoProject, author: ChangeAuthor, description?: string): TimelineEntry | null {
+    if (project.id !== this.projectId) return null;
+
+    const changes = this.diffAgainstRecorded(project);
+    if (changes.length === 0) return null;
+    this.recorded = this.snapshot(project);
+
+    const last = this.timeline[this.timeline.length - 1];
+    const entryDescription = description || this.describeChanges(changes);
+    const canCoalesce = !description && author === 'user' && last?.author === 'user' &&
+      last.description === entryDescription && changes.length === 1 && last.changes.length === 1 &&
+      last.changes[0].fileId === changes[0].fileId && Date.now() - last.timestamp.getTime() < COALESCE_WINDOW_MS;
+
+    if (canCoalesce) {
+      const merged = { ...last, timestamp: new Date(), changes: [{ ...changes[0], before: last.changes[0].before }] };
+      this.timeline = [...this.timeline.slice(0, -1), merged];
+    } else {
+      const entry: TimelineEntry = {
+        id: `timeline_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        timestamp: new Date(),
+        description: entryDescription,
+        author,
+        changes
+      };
+      this.timeline = [...this.timeline, entry].slice(-this.maxTimelineSize);
+    }
+
+    this.notify();
+    this.schedulePersist();
+    return this.timeline[this.timeline.length - 1];
+  }
+
+  /**
+   * Record a change from `before` to `after`. Unrecorded edits already in
+   * `before` are attributed to the user first.
+   */
+  recordProjectChange(before: LeoProject, after: LeoProject, author: ChangeAuthor, description: string): TimelineEntry | null {
+    this.recordChange(before, 'user');
+    return this.recordChange(after, author, description);
+  }
+
+  /**
+   * The project as it was right after a timeline entry. The restore itself is
+   * recorded, so it can be restored past in turn.
+   */
+  restoreTo(project: LeoProject, entryId: string): LeoProject {
+    const index = this.timeline.findIndex(entry => entry.id === entryId);
+    if (index === -1) {
+      throw new Error('Failed to restore: that point is no longer in the timeline');
+    }
+    const target = this.timeline[index];
+
+    this.recordChange(project, 'user');
+    let files = [...project.files];
+    for (const entry of this.timeline.slice(index + 1).reverse()) {
+      for (const change of entry.changes) {
+        files = this.applyContent(files, change, change.before);
+      }
+    }
+
+    const restored: LeoProject = { ...project, files, updatedAt: new Date() };
+    const changedBefore = project.files.filter(file => {
+      const restoredFile = files.find(f => f.id === file.id);
+      return restoredFile && restoredFile.content !== file.content;
+    });
+    const changedAfter = files.filter(file => project.files.find(f => f.id === file.id)?.content !== file.content);
+    this.addGroup(changedBefore, changedAfter, `Restore to "${target.description}"`);
+
+    this.recordChange(restored, 'user', `Restored to "${target.description}"`);
+    return restored;
+  }
+
+  // Private helper methods
+
+  private snapshot(project: LeoProject): Map<string, { path: string; type: LeoFile['type']; content: string }> {
+    return new Map(project.files.map(file => [file.id, { path: file.path, type: file.type, content: file.content }]));
+  }
+
+  private diffAgainstRecorded(project: LeoProject): TimelineFileChange[] {
+    const changes: TimelineFileChange[] = [];
+    for (const file of project.files) {
+      const previous = this.recorded.get(file.id);
+      if (!previous || previous.content !== file.content) {
+        changes.push({ fileId: file.id, path: file.path, type: file.type, before: previous?.content ?? null, after: file.content });
+      }
+    }
+    for (const [fileId, previous] of this.recorded) {
+      if (!project.files.some(file => file.id === fileId)) {
+        changes.push({ fileId, path: previous.path, type: previous.type, before: previous.content, after: null });
+      }
+    }
+    return changes;
+  }
+
+  private describeChanges(changes: TimelineFileChange[]): string {
+    if (changes.length > 1) return `Changed ${changes.length} files`;
+    const [change] = changes;
+    const name = change.path.split('/').pop() || change.path;
+    if (change.before === null) return `Created ${name}`;
+    if (change.after === null) return `Deleted ${name}`;
+    return `Edited ${name}`;
+  }
+
+  /**
+   * Set a file's content, creating or deleting it as needed
+   */
+  private applyContent(files: LeoFile[], change: TimelineFileChange, content: string | null): LeoFile[] {
+    if (content === null) {
+      return files.filter(file => file.id !== change.fileId);
+    }
+    if (files.some(file => file.id === change.fileId)) {
+      return files.map(file => (file.id === change.fileId ? { ...file, content, isModified: true } : file));
+    }
+    return [...files, {
+      id: change.fileId,
+      name: change.path.split('/').pop() || change.path,
+      path: change.path,
+      content,
+      type: change.type,
+      isModified: true
+    }];
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.timeline));
+  }
+
+  private schedulePersist(): void {
+    if (!this.projectId) return;
+    if (this.persistTimeout) clearTimeout(this.persistTimeout);
+    this.persistTimeout = setTimeout(() => {
+      this.persistNow();
+    }, PERSIST_DELAY_MS);
+  }
+
+  private async persistNow(): Promise<void> {
+    if (!this.persistTimeout || !this.projectId) return;
+    clearTimeout(this.persistTimeout);
+    this.persistTimeout = null;
+
+    const data: PersistedHistory = {
+      version: HISTORY_VERSION,
+      files: Array.from(this.history.entries()).map(([fileId, entries]) => ({
+        fileId,
+        entries,
+        currentIndex: this.currentIndex.get(fileId) ?? entries.length - 1
+      })),
+      timeline: this.timeline
+    };
+    try {
+      await ProjectStorageService.saveProjectHistory(this.projectId, data);
+    } catch (error) {
+      console.warn('Failed to save project history:', error);
+    }
   }
 
   getHistoryStats(fileId: string): {
@@ -135,7 +449,7 @@ class CodeHistoryService {
     manualChanges: number;
   } {
     const fileHistory = this.history.get(fileId) || [];
-    const currentIdx = this.currentIndex.get(fileId) || -1;
+    const currentIdx = this.currentIndex.get(fileId) ?? -1;
     
     const agentChanges = fileHistory.filter(entry => entry.isAgentChange).length;
     const manualChanges = fileHistory.filter(entry => !entry.isAgentChange).length;
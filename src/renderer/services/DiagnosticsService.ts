@@ -0,0 +1,211 @@
+import { LeoFile, LeoProject } from '../types';
+import CodeAnalysisService from './CodeAnalysisService';
+import { CompilationError, CompilationResult, LeoCompilationService } from './LeoCompilationService';
+import { LintConfig, loadLintConfig } from '../lint';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface Diagnostic {
+  id: string;
+  fileId?: string; // absent for build errors that name no project file
+  fileName: string;
+  line: number; // 1-based; 0 when the problem has no location
+  column?: number;
+  message: string;
+  severity: DiagnosticSeverity;
+  source: 'analysis' | 'compiler' | 'config';
+  code?: string;
+}
+
+type DiagnosticsListener = (diagnostics: Diagnostic[]) => void;
+
+const SEVERITY_ORDER: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Background checking of every Leo file in the open project. Static analysis
+ * reruns shortly after edits; compiler errors come from the latest build.
+ */
+class DiagnosticsService {
+  private static instance: DiagnosticsService;
+  private projectId: string | null = null;
+  private project: LeoProject | null = null;
+  // fileId -> analysed content and its diagnostics, so unchanged files are skipped
+  private analysis: Map<string, { content: string; diagnostics: Diagnostic[] }> = new Map();
+  private compilerDiagnostics: Diagnostic[] = [];
+  private configDiagnostics: Diagnostic[] = [];
+  private lintConfigKey = '';
+  private diagnostics: Diagnostic[] = [];
+  private listeners: Set<DiagnosticsListener> = new Set();
+  private checkTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {
+    LeoCompilationService.onBuildResult((projectId, result) => {
+      if (projectId === this.projectId && this.project) {
+        this.compilerDiagnostics = this.fromCompilation(result, this.project.files);
+        this.publish();
+      }
+    });
+  }
+
+  static getInstance(): DiagnosticsService {
+    if (!DiagnosticsService.instance) {
+      DiagnosticsService.instance = new DiagnosticsService();
+    }
+    return DiagnosticsService.instance;
+  }
+
+  /**
+   * Listen for diagnostics changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: DiagnosticsListener): () => void {
+    this.listeners.add(listener);
+    listener(this.diagnostics);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getDiagnostics(fileId?: string): Diagnostic[] {
+    return fileId ? this.diagnostics.filter(d => d.fileId === fileId) : this.diagnostics;
+  }
+
+  /**
+   * Check the project after a quiet period; each call restarts the wait
+   */
+  scheduleCheck(project: LeoProject, delay: number = 500): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+    }
+    this.checkTimer = setTimeout(() => {
+      this.checkTimer = null;
+      this.checkProject(project);
+    }, delay);
+  }
+
+  checkProject(project: LeoProject): Diagnostic[] {
+    if (project.id !== this.projectId) {
+      this.projectId = project.id;
+      this.analysis.clear();
+      const lastBuild = LeoCompilationService.getLastResult(project.id);
+      this.compilerDiagnostics = lastBuild ? this.fromCompilation(lastBuild, project.files) : [];
+    }
+    this.project = project;
+
+    // Rule settings apply to every file, so a config change means a full recheck
+    const { config, errors, file: configFile } = loadLintConfig(project.files);
+    const configKey = JSON.stringify(config);
+    if (configKey !== this.lintConfigKey) {
+      this.lintConfigKey = configKey;
+      this.analysis.clear();
+    }
+    this.configDiagnostics = configFile
+      ? errors.map((message, index) => ({
+          id: `config:${index}`,
+          fileId: configFile.id,
+          fileName: configFile.name,
+          line: 1,
+          message,
+          severity: 'warning' as const,
+          source: 'config' as const
+        }))
+      : [];
+
+    const leoFiles = project.files.filter(file => file.type === 'leo');
+    for (const file of leoFiles) {
+      const cached = this.analysis.get(file.id);
+      if (!cached || cached.content !== file.content) {
+        this.analysis.set(file.id, { content: file.content, diagnostics: this.analyzeFile(file, config) });
+      }
+    }
+
+    // Forget deleted files, including their build errors
+    const fileIds = new Set(leoFiles.map(file => file.id));
+    for (const fileId of Array.from(this.analysis.keys())) {
+      if (!fileIds.has(fileId)) this.analysis.delete(fileId);
+    }
+    this.compilerDiagnostics = this.compilerDiagnostics.filter(d => !d.fileId || fileIds.has(d.fileId));
+
+    this.publish();
+    return this.diagnostics;
+  }
+
+  clear(): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+      this.checkTimer = null;
+    }
+    this.projectId = null;
+    this.project = null;
+    this.analysis.clear();
+    this.compilerDiagnostics = [];
+    this.configDiagnostics = [];
+    this.lintConfigKey = '';
+    this.publish();
+  }
+
+  private analyzeFile(file: LeoFile, config: LintConfig): Diagnostic[] {
+    try {
+      const { issues } = CodeAnalysisService.analyzeStatic(file.content, file.name, config);
+      return issues.map((issue, index) => ({
+        id: `${file.id}:analysis:${index}`,
+        fileId: file.id,
+        fileName: file.name,
+        line: issue.line,
+        column: issue.column,
+        message: issue.message,
+        severity: issue.severity,
+        source: 'analysis' as const,
+        code: issue.rule
+      }));
+    } catch (error) {
+      console.error(`Failed to analyze ${file.name}:`, error);
+      return [];
+    }
+  }
+
+  private fromCompilation(result: CompilationResult, files: LeoFile[]): Diagnostic[] {
+    if (result.toolchainMissing || result.canceled) return [];
+
+    const toDiagnostic = (problem: CompilationError, severity: DiagnosticSeverity, index: number): Diagnostic => {
+      const file = this.findFile(problem.file, files);
+      return {
+        id: `compiler:${severity}:${index}`,
+        fileId: file?.id,
+        fileName: file?.name || problem.file || 'Build',
+        line: problem.line,
+        column: problem.column || undefined,
+        message: problem.message,
+        severity,
+        source: 'compiler',
+        code: problem.code || undefined
+      };
+    };
+
+    return [
+      ...result.errors.map((error, index) => toDiagnostic(error, 'error', index)),
+      ...result.warnings.map((warning, index) => toDiagnostic(warning, 'warning', index))
+    ];
+  }
+
+  /**
+   * Match a compiler file reference (relative or absolute) to a project file
+   */
+  private findFile(reference: string, files: LeoFile[]): LeoFile | undefined {
+    if (!reference) return undefined;
+    const normalized = reference.replace(/\\/g, '/');
+    return files.find(file => normalized.endsWith(file.path.replace(/^\//, '')))
+      || files.find(file => normalized.split('/').pop() === file.name);
+  }
+
+  private publish(): void {
+    const analysis = Array.from(this.analysis.values()).flatMap(entry => entry.diagnostics);
+    this.diagnostics = [...this.configDiagnostics, ...this.compilerDiagnostics, ...analysis].sort((a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      a.fileName.localeCompare(b.fileName) ||
+      a.line - b.line
+    );
+    this.listeners.forEach(listener => listener(this.diagnostics));
+  }
+}
+
+export default DiagnosticsService.getInstance();
\ No newline at end of file
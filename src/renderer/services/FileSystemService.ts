@@ -0,0 +1,102 @@
+import { LeoFile } from '../types';
+import type { PackageFileEntry } from '../../main/preload';
+
+/**
+ * Renderer-side access to the sandboxed workspace file system in the main process
+ */
+class FileSystemService {
+  private static instance: FileSystemService;
+
+  private constructor() {}
+
+  static getInstance(): FileSystemService {
+    if (!FileSystemService.instance) {
+      FileSystemService.instance = new FileSystemService();
+    }
+    return FileSystemService.instance;
+  }
+
+  /**
+   * Whether we are running inside Electron with the preload bridge available
+   */
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && !!window.electronAPI;
+  }
+
+  /**
+   * Ask the user to pick a Leo package folder and read its files
+   */
+  async openPackageFolder(): Promise<{ workspaceRoot: string; files: PackageFileEntry[] } | null> {
+    this.assertAvailable();
+
+    const result = await window.electronAPI.project.openFolder();
+    if (result.canceled) {
+      return null;
+    }
+    if (!result.success || !result.workspaceRoot || !result.files) {
+      throw new Error(`Failed to open folder: ${result.error || 'Unknown error'}`);
+    }
+    return { workspaceRoot: result.workspaceRoot, files: result.files };
+  }
+
+  /**
+   * Write a file to disk relative to the workspace root
+   */
+  async saveFile(workspaceRoot: string, file: LeoFile): Promise<void> {
+    this.assertAvailable();
+
+    const result = await window.electronAPI.file.save({
+      workspaceRoot,
+      path: file.path,
+      content: file.content
+    });
+    if (!result.success) {
+      throw new Error(`Failed to save ${file.path}: ${result.error || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Read a file from disk relative to the workspace root
+   */
+  async loadFile(workspaceRoot: string, filePath: string): Promise<string> {
+    this.assertAvailable();
+
+    const result = await window.electronAPI.file.load(workspaceRoot, filePath);
+    if (!result.success || result.content === undefined) {
+      throw new Error(`Failed to load ${filePath}: ${result.error || 'Unknown error'}`);
+    }
+    return result.content;
+  }
+
+  /**
+   * Delete a file on disk relative to the workspace root
+   */
+  async deleteFile(workspaceRoot: string, filePath: string): Promise<void> {
+    this.assertAvailable();
+
+    const result = await window.electronAPI.file.delete(workspaceRoot, filePath);
+    if (!result.success) {
+      throw new Error(`Failed to delete ${filePath}: ${result.error || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Open a documentation page (a docs/ path or an https URL) outside the app
+   */
+  async openDocs(target: string): Promise<void> {
+    this.assertAvailable();
+
+    const result = await window.electronAPI.docs.open(target);
+    if (!result.success) {
+      throw new Error(`Failed to open ${target}: ${result.error || 'Unknown error'}`);
+    }
+  }
+
+  private assertAvailable(): void {
+    if (!this.isAvailable()) {
+      throw new Error('File system access is only available in the desktop app');
+    }
+  }
+}
+
+export default FileSystemService.getInstance();
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { LeoFile, LeoProject } from '../types';
+import { FormatOptions, FormatResult, formatLeo } from '../utils/leoFormatter';
+
+export interface ProjectFormatResult {
+  project: LeoProject;
+  formatted: LeoFile[]; // files that changed, with their content before formatting
+  failed: Array<{ file: LeoFile; error: string }>;
+}
+
+/**
+ * Formatting of Leo files and projects, and the format-on-save preference
+ */
+class FormatterService {
+  private static instance: FormatterService;
+  private static readonly FORMAT_ON_SAVE_KEY = 'leoforge-format-on-save';
+
+  static getInstance(): FormatterService {
+    if (!FormatterService.instance) {
+      FormatterService.instance = new FormatterService();
+    }
+    return FormatterService.instance;
+  }
+
+  isFormatOnSave(): boolean {
+    try {
+      return localStorage.getItem(FormatterService.FORMAT_ON_SAVE_KEY) === 'true';
+    } catch (error) {
+      console.warn('Failed to load format-on-save setting from localStorage:', error);
+      return false;
+    }
+  }
+
+  setFormatOnSave(enabled: boolean): void {
+    try {
+      localStorage.setItem(FormatterService.FORMAT_ON_SAVE_KEY, String(enabled));
+    } catch (error) {
+      console.warn('Failed to save format-on-save setting to localStorage:', error);
+    }
+  }
+
+  /**
+   * Format one file; anything but Leo source is returned as is
+   */
+  formatFile(file: LeoFile, options?: Partial<FormatOptions>): FormatResult {
+    return file.type === 'leo' ? formatLeo(file.content, options) : { content: file.content };
+  }
+
+  /**
+   * Format every Leo file in the project. Files that fail to format are left unchanged.
+   */
+  formatProject(project: LeoProject, options?: Partial<FormatOptions>): ProjectFormatResult {
+    const formatted: LeoFile[] = [];
+    const failed: ProjectFormatResult['failed'] = [];
+
+    const files = project.files.map(file => {
+      const { content, error } = this.formatFile(file, options);
+      if (error) {
+        failed.push({ file, error });
+        return file;
+      }
+      if (content === file.content) return file;
+
+      formatted.push(file);
+      return { ...file, content, isModified: true };
+    });
+
+    return {
+      project: formatted.length > 0 ? { ...project, files, updatedAt: new Date() } : project,
+      formatted,
+      failed
+    };
+  }
+}
+
+export default FormatterService.getInstance();
\ No newline at end of file
@@ -1,7 +1,16 @@
-import { LeoProject, LeoFile, ChatMessage, CodeChange, CodeSuggestion } from '../types';
+import { LeoProject, LeoFile, ChatMessage, CodeChange, CodeSuggestion, ContextUsage } from '../types';
 import CodeAnalysisService from './CodeAnalysisService';
 import { LeoTemplateService } from './LeoTemplateService';
 import { LeoCompilationService, CompilationResult, TestResult } from './LeoCompilationService';
+import { EDIT_FORMAT_INSTRUCTIONS } from './AgentEditService';
+import ProjectContextService from './ProjectContextService';
+import type { LLMChatMessage, LLMSettings, LLMSettingsUpdate } from '../../main/preload';
+
+const SYSTEM_PROMPT = `You are LeoForge, an assistant for writing Leo programs for the Aleo blockchain.
+Answer questions about Leo syntax, records, mappings, transitions and zero-knowledge privacy.
+Prefer short answers with concrete Leo code in fenced \`\`\`leo blocks.
+
+${EDIT_FORMAT_INSTRUCTIONS}`;
 
 export interface CodeAnalysis {
   issues: Array<{
@@ -22,13 +31,28 @@ export interface CodeSuggestion {
 
 export interface ChatContext {
   projectId?: string;
+  project?: LeoProject; // when present, relevant files from the whole project are included
   currentFile?: LeoFile;
   recentMessages: ChatMessage[];
 }
 
+export interface StreamOptions {
+  requestId?: string;
+  onToken?: (delta: string, content: string) => void;
+}
+
+export interface AgentReply {
+  content: string;
+  aborted: boolean;
+  contextUsage?: ContextUsage;
+}
+
+const DEFAULT_CONTEXT_BUDGET = 8000;
+
 class LLMService {
   private static instance: LLMService;
   private responseDelay = 1500; // Base delay in ms
+  private settings: LLMSettings | null = null;
 
   private constructor() {}
 
@@ -440,180 +464,150 @@ leo run process_data 100u64
   }
 
   async chatWithAgent(message: string, context: ChatContext): Promise<string> {
-    await this.simulateDelay();
-    
-    // Simple response generation based on message content
-    const lowerMessage = message.toLowerCase();
-    
-    if (lowerMessage.includes('compile') || lowerMessage.includes('build')) {
-      return this.getCompilationResponse(lowerMessage, context);
-    } else if (lowerMessage.includes('test') || lowerMessage.includes('testing')) {
-      return this.getTestResponse(lowerMessage, context);
-    } else if (lowerMessage.includes('export') || lowerMessage.includes('package')) {
-      return this.getExportResponse(lowerMessage, context);
-    } else if (lowerMessage.includes('template') || lowerMessage.includes('scaffold')) {
-      return this.getTemplateResponse(lowerMessage, context);
-    } else if (lowerMessage.includes('analyze') || lowerMessage.includes('analysis')) {
-      return this.getAnalysisResponse(lowerMessage, context);
-    } else if (lowerMessage.includes('suggest') || lowerMessage.includes('improve') || lowerMessage.includes('optimize')) {
-      return this.getImprovementResponse(lowerMessage, context);
-    } else if (lowerMessage.includes('help') || lowerMessage.includes('how')) {
-      return this.getHelpResponse(lowerMessage, context);
-    } else if (lowerMessage.includes('error') || lowerMessage.includes('bug')) {
-      return this.getErrorResponse(lowerMessage, context);
-    } else if (lowerMessage.includes('explain') || lowerMessage.includes('what')) {
-      return this.getExplanationResponse(lowerMessage, context);
-    } else {
-      return this.getGeneralResponse(lowerMessage, context);
+    if (!this.isBridgeAvailable()) {
+      throw new Error('AI chat is only available in the desktop app');
     }
-  }
 
-  private getCompilationResponse(message: string, context: ChatContext): string {
-    const responses = [
-      "I'll compile your Leo project now. Let me check for any syntax errors and build the program...",
-      "Starting compilation process. I'll analyze your code and generate the executable program.",
-      "Compiling your Leo smart contract. This will check for errors and create the deployable program.",
-      "Running Leo compiler on your project. I'll show you the build results and any issues found."
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
-  }
+    const { messages } = await this.buildMessages(message, context);
+    const result = await window.electronAPI.llm.chat({ messages });
 
-  private getTestResponse(message: string, context: ChatContext): string {
-    const responses = [
-      "Running tests for your Leo project. I'll execute all test functions and show you the results.",
-      "Starting test execution. This will validate your smart contract logic and catch any issues.",
-      "Testing your Leo code now. I'll run all tests and provide detailed feedback on any failures.",
-      "Executing test suite for your project. Let me check if all your functions work as expected."
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
+    if (!result.success || result.content === undefined) {
+      throw new Error(`Failed to get a response from the ${result.provider} provider: ${result.error || 'Unknown error'}`);
+    }
+    return result.content;
   }
 
-  private getExportResponse(message: string, context: ChatContext): string {
-    const responses = [
-      "I'll package your Leo project for export. This will create a deployable package with all necessary files.",
-      "Creating export package for your smart contract. I'll include source code, documentation, and metadata.",
-      "Packaging your Leo project now. This will generate a complete package ready for deployment or sharing.",
-      "Preparing your project for export. I'll bundle everything needed for deployment to the Aleo network."
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
+  /**
+   * Like chatWithAgent, but reports the answer as it is generated. Stopping the
+   * request with abortChat resolves with the partial answer.
+   */
+  async streamChatWithAgent(message: string, context: ChatContext, options: StreamOptions = {}): Promise<AgentReply> {
+    const { messages, contextUsage } = await this.buildMessages(message, context);
+    const reply = await this.streamMessages(messages, options);
+    return { ...reply, contextUsage };
   }
 
-  private getTemplateResponse(message: string, context: ChatContext): string {
-    const templates = LeoTemplateService.getTemplates();
-    const templateNames = templates.map(t => t.name).join(', ');
-    
-    const responses = [
-      `I can help you create a new Leo project from a template. Available templates: ${templateNames}. Which one would you like to use?`,
-      `Let me scaffold a new Leo project for you. I have templates for: ${templateNames}. What type of project are you building?`,
-      `I'll create a new Leo project structure. Choose from these templates: ${templateNames}. What fits your needs?`,
-      `Ready to generate a new Leo project! Available templates include: ${templateNames}. Which template should I use?`
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
+  /**
+   * Stream a reply to an already assembled conversation
+   */
+  async streamMessages(messages: LLMChatMessage[], options: StreamOptions = {}): Promise<AgentReply> {
+    if (!this.isBridgeAvailable()) {
+      throw new Error('AI chat is only available in the desktop app');
+    }
+
+    const requestId = options.requestId || this.createRequestId();
+    let content = '';
+    const unsubscribe = window.electronAPI.llm.onChunk(event => {
+      if (event.requestId !== requestId) return;
+      content += event.delta;
+      options.onToken?.(event.delta, content);
+    });
+
+    try {
+      const result = await window.electronAPI.llm.stream({ requestId, messages });
+
+      if (!result.success) {
+        throw new Error(`Failed to get a response from the ${result.provider} provider: ${result.error || 'Unknown error'}`);
+      }
+      return { content: result.content ?? content, aborted: !!result.aborted };
+    } finally {
+      unsubscribe();
+    }
   }
 
-  private getHelpResponse(message: string, context: ChatContext): string {
-    const responses = [
-      "I'm here to help! I can assist with Leo compilation, testing, project templates, code analysis, and more. What do you need?",
-      "I can help you with Leo syntax, smart contract patterns, debugging, compilation, testing, and optimization. What do you need?",
-      "Let me know what you're trying to accomplish and I'll guide you through it step by step. I can compile, test, and analyze your Leo code.",
-      "I'm ready to assist with your Leo development. I can help with compilation, testing, templates, and code improvements. What's the challenge you're facing?"
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
+  async abortChat(requestId: string): Promise<void> {
+    if (this.isBridgeAvailable()) {
+      await window.electronAPI.llm.abort(requestId);
+    }
   }
 
-  private getErrorResponse(message: string, context: ChatContext): string {
-    const responses = [
-      "Let me help you debug that issue. Can you share the specific error message you're seeing?",
-      "Debugging Leo code can be tricky. Let's work through this together - what's the error?",
-      "I'll help you fix that bug. Could you show me the problematic code section?",
-      "Error handling is important in Leo. Let me help you identify and resolve the issue."
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
+  createRequestId(): string {
+    return `chat_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
   }
 
-  private getAnalysisResponse(message: string, context: ChatContext): string {
-    const responses = [
-      "I'll analyze your Leo code for potential issues and improvements. Let me examine the current file...",
-      "Running code analysis on your smart contract. I'll check for security issues, performance optimizations, and best practices.",
-      "Analyzing your Leo code now. I'll look for potential bugs, style issues, and suggest improvements.",
-      "Let me perform a comprehensive analysis of your code. I'll check for common issues and optimization opportunities."
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
+  /**
+   * Provider settings, without the API key which stays in the main process
+   */
+  async getSettings(): Promise<LLMSettings> {
+    if (!this.isBridgeAvailable()) {
+      throw new Error('AI settings are only available in the desktop app');
+    }
+    this.settings = await window.electronAPI.llm.getSettings();
+    return this.settings;
   }
 
-  private getImprovementResponse(message: string, context: ChatContext): string {
-    const responses = [
-      "Great idea to optimize! I can suggest improvements for gas efficiency and code clarity.",
-      "Let's make your Leo code better. I can help with performance optimizations and best practices.",
-      "Optimization is key in blockchain development. I'll analyze your code and suggest improvements.",
-      "I'd be happy to help improve your smart contract. What specific areas are you looking to optimize?"
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
+  async updateSettings(update: LLMSettingsUpdate): Promise<LLMSettings> {
+    if (!this.isBridgeAvailable()) {
+      throw new Error('AI settings are only available in the desktop app');
+    }
+
+    try {
+      this.settings = await window.electronAPI.llm.updateSettings(update);
+      return this.settings;
+    } catch (error) {
+      throw new Error(`Failed to save AI settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
-  private getExplanationResponse(message: string, context: ChatContext): string {
-    const responses = [
-      "I'll explain that concept clearly. Leo has some unique features compared to other smart contract languages.",
-      "Let me break that down for you. Understanding Leo's approach to privacy and zero-knowledge is important.",
-      "Good question! Leo's record-based model is different from account-based systems. Here's how it works...",
-      "I'll walk you through that. Leo's syntax and concepts can be different if you're coming from other languages."
+  /**
+   * System prompt, project context and recent conversation for a new user message.
+   * `instructions` are appended to the system prompt (e.g. the tool protocol).
+   */
+  async buildMessages(
+    message: string,
+    context: ChatContext,
+    instructions?: string
+  ): Promise<{ messages: LLMChatMessage[]; contextUsage?: ContextUsage }> {
+    const messages: LLMChatMessage[] = [
+      { role: 'system', content: instructions ? `${SYSTEM_PROMPT}\n\n${instructions}` : SYSTEM_PROMPT }
     ];
-    return responses[Math.floor(Math.random() * responses.length)];
+    let contextUsage: ContextUsage | undefined;
+
+    if (context.project) {
+      const settings = this.settings || await this.getSettings().catch(() => null);
+      const projectContext = ProjectContextService.buildContext(context.project, {
+        currentFile: context.currentFile,
+        query: message,
+        tokenBudget: settings?.contextTokenBudget ?? DEFAULT_CONTEXT_BUDGET
+      });
+      messages.push({ role: 'system', content: projectContext.prompt });
+      contextUsage = projectContext.usage;
+    } else if (context.currentFile) {
+      messages.push({
+        role: 'system',
+        content: `The user currently has ${context.currentFile.path} open:\n\n\`\`\`${context.currentFile.type}\n${context.currentFile.content}\n\`\`\``
+      });
+    }
+
+    const history = context.recentMessages.map((chatMessage): LLMChatMessage => ({
+      role: chatMessage.sender === 'user' ? 'user' : 'assistant',
+      content: chatMessage.content
+    }));
+
+    // The panel passes the new message as part of the recent history; add it if it is missing
+    const last = history[history.length - 1];
+    if (!last || last.role !== 'user' || last.content !== message.trim()) {
+      history.push({ role: 'user', content: message });
+    }
+
+    if (contextUsage) {
+      contextUsage = ProjectContextService.addConversationUsage(contextUsage, history.map(entry => entry.content));
+    }
+
+    return { messages: [...messages, ...history], contextUsage };
   }
 
-  private getGeneralResponse(message: string, context: ChatContext): string {
-    const responses = [
-      "That's an interesting point about your Leo project. How would you like to proceed?",
-      "I understand what you're looking for. Let me help you implement that in Leo.",
-      "That sounds like a great feature for your smart contract. Shall we work on implementing it?",
-      "I can definitely help with that. Leo provides good tools for what you're trying to achieve."
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
+  private isBridgeAvailable(): boolean {
+    return typeof window !== 'undefined' && !!window.electronAPI?.llm;
   }
 
   async analyzeCode(code: string): Promise<CodeAnalysis> {
-    await this.simulateDelay(1000);
-    
-    const issues: Array<{
-      line: number;
-      message: string;
-      severity: 'error' | 'warning' | 'info';
-    }> = [];
-    const suggestions: string[] = [];
-    let complexity = 1;
-    
-    // Simple static analysis
-    const lines = code.split('\n');
-    lines.forEach((line, index) => {
-      if (line.includes('TODO') || line.includes('FIXME')) {
-        issues.push({
-          line: index + 1,
-          message: 'TODO or FIXME comment found',
-          severity: 'info' as const
-        });
-      }
-      
-      if (line.includes('assert') && !line.includes('assert_eq')) {
-        suggestions.push('Consider using assert_eq for better error messages');
-      }
-      
-      if (line.includes('transition') && line.includes('public')) {
-        complexity += 1;
-      }
-    });
-    
-    if (code.includes('u32') && code.includes('u64')) {
-      suggestions.push('Consider using consistent integer types throughout your contract');
-    }
-    
-    if (!code.includes('// ')) {
-      suggestions.push('Add comments to improve code readability');
-    }
-    
+    const { analysis } = await CodeAnalysisService.analyzeCode(code);
+
     return {
-      issues,
-      suggestions,
-      complexity
+      issues: analysis.issues.map(({ line, message, severity }) => ({ line, message, severity })),
+      suggestions: analysis.suggestions,
+      complexity: analysis.complexity
     };
   }
 
@@ -713,7 +707,10 @@ leo run process_data 100u64
     
     let message = "🔨 **Compilation Results**\n\n";
     
-    if (result.success) {
+    if (result.toolchainMissing) {
+      message += "⚠️ **Leo Toolchain Not Found**\n\n";
+      message += result.output;
+    } else if (result.success) {
       message += "✅ **Compilation Successful!**\n\n";
       message += `Build completed in ${result.buildTime}ms\n\n`;
       message += "```\n" + result.output + "\n```\n\n";
@@ -746,7 +743,14 @@ leo run process_data 100u64
     
     let message = "🧪 **Test Results**\n\n";
     
-    if (result.success) {
+    if (result.toolchainMissing) {
+      message += "⚠️ **Leo Toolchain Not Found**\n\n";
+      message += result.output;
+    } else if (result.error) {
+      message += "❌ **Tests Could Not Run**\n\n";
+      message += "```\n" + result.output + "\n```\n\n";
+      message += "Fix the build errors above and run the tests again.";
+    } else if (result.success) {
       message += "✅ **All Tests Passed!**\n\n";
       message += `${result.testsPassed}/${result.testsTotal} tests passed in ${result.duration}ms\n\n`;
       message += "```\n" + result.output + "\n```\n\n";
@@ -760,8 +764,11 @@ leo run process_data 100u64
         result.failures.forEach((failure, index) => {
           message += `**${index + 1}. ${failure.testName}**\n`;
           message += `${failure.message}\n`;
-          message += `Expected: \`${failure.expected}\`\n`;
-          message += `Actual: \`${failure.actual}\`\n\n`;
+          if (failure.expected || failure.actual) {
+            message += `Expected: \`${failure.expected}\`\n`;
+            message += `Actual: \`${failure.actual}\`\n`;
+          }
+          message += '\n';
         });
       }
       
@@ -1,4 +1,14 @@
 import { LeoProject, LeoFile } from '../types';
+import type { LeoOutputEvent, LeoRunLog, LeoRunSummary, ToolchainInfo } from '../../main/preload';
+
+export type BuildOutputLine = LeoOutputEvent;
+export type RunSummary = LeoRunSummary;
+export type RunLog = LeoRunLog;
+
+export interface RunOptions {
+  runId?: string;
+  onOutput?: (line: BuildOutputLine) => void;
+}
 
 export interface CompilationResult {
   success: boolean;
@@ -7,6 +17,9 @@ export interface CompilationResult {
   warnings: CompilationWarning[];
   timestamp: Date;
   buildTime: number; // in milliseconds
+  toolchainMissing?: boolean;
+  runId?: string;
+  canceled?: boolean;
 }
 
 export interface CompilationError {
@@ -31,8 +44,19 @@ export interface TestResult {
   testsTotal: number;
   output: string;
   failures: TestFailure[];
+  tests: TestCaseResult[];
   timestamp: Date;
   duration: number; // in milliseconds
+  toolchainMissing?: boolean;
+  runId?: string;
+  canceled?: boolean;
+  error?: string; // the run failed before any test executed (e.g. compile error)
+}
+
+export interface TestCaseResult {
+  name: string;
+  passed: boolean;
+  duration?: number; // in milliseconds
 }
 
 export interface TestFailure {
@@ -40,6 +64,7 @@ export interface TestFailure {
   message: string;
   expected: string;
   actual: string;
+  duration?: number; // in milliseconds
 }
 
 export interface ExportOptions {
@@ -50,63 +75,171 @@ export interface ExportOptions {
 }
 
 export class LeoCompilationService {
+  // Latest build of each project, so the agent can see current errors
+  private static lastResults: Map<string, CompilationResult> = new Map();
+  private static resultListeners: Set<(projectId: string, result: CompilationResult) => void> = new Set();
+
   private static simulateDelay(min: number = 1000, max: number = 3000): Promise<void> {
     const delay = Math.random() * (max - min) + min;
     return new Promise(resolve => setTimeout(resolve, delay));
   }
 
-  static async compileProject(project: LeoProject): Promise<CompilationResult> {
-    const startTime = Date.now();
-    await this.simulateDelay(1500, 4000);
-    
-    // Mock compilation logic
-    const mainLeoFile = project.files.find(f => f.name === 'main.leo');
-    const hasErrors = this.checkForSyntaxErrors(mainLeoFile?.content || '');
-    const hasWarnings = this.checkForWarnings(mainLeoFile?.content || '');
-
-    const result: CompilationResult = {
-      success: !hasErrors.length,
-      output: hasErrors.length ? this.generateErrorOutput(project.name, hasErrors) : this.generateSuccessOutput(project.name),
-      errors: hasErrors,
-      warnings: hasWarnings,
-      timestamp: new Date(),
-      buildTime: Date.now() - startTime,
+  static getLastResult(projectId: string): CompilationResult | null {
+    return this.lastResults.get(projectId) || null;
+  }
+
+  /**
+   * Be notified of each finished build. Returns an unsubscribe function.
+   */
+  static onBuildResult(listener: (projectId: string, result: CompilationResult) => void): () => void {
+    this.resultListeners.add(listener);
+    return () => {
+      this.resultListeners.delete(listener);
     };
+  }
 
-    return result;
+  static createRunId(): string {
+    return `run_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
   }
 
-  static async runTests(project: LeoProject): Promise<TestResult> {
+  static async compileProject(project: LeoProject, options: RunOptions = {}): Promise<CompilationResult> {
     const startTime = Date.now();
-    await this.simulateDelay(2000, 5000);
-
-    // Mock test execution
-    const testFiles = project.files.filter(f => f.name.includes('test') || f.content.includes('test'));
-    const totalTests = Math.max(1, testFiles.length * 3); // Mock test count
-    const passedTests = Math.floor(totalTests * (0.7 + Math.random() * 0.3)); // 70-100% pass rate
-    const failures: TestFailure[] = [];
-
-    // Generate mock failures for failed tests
-    for (let i = passedTests; i < totalTests; i++) {
-      failures.push({
-        testName: `test_function_${i + 1}`,
-        message: 'Assertion failed',
-        expected: '42u64',
-        actual: `${Math.floor(Math.random() * 100)}u64`,
+
+    if (!this.isBridgeAvailable()) {
+      return this.toolchainUnavailableResult('Compilation requires the desktop app', startTime);
+    }
+
+    const runId = options.runId || this.createRunId();
+    const unsubscribe = this.subscribeToOutput(runId, options.onOutput);
+
+    try {
+      const result = await window.electronAPI.leo.build({
+        runId,
+        projectId: project.id,
+        projectName: project.name,
+        workspaceRoot: project.workspaceRoot,
+        files: project.files.map(file => ({ path: file.path, content: file.content })),
       });
+
+      const compilation: CompilationResult = {
+        success: result.success,
+        output: result.output,
+        errors: result.errors,
+        warnings: result.warnings,
+        timestamp: new Date(result.timestamp),
+        buildTime: result.buildTime,
+        toolchainMissing: result.toolchainMissing,
+        runId,
+        canceled: result.canceled,
+      };
+      if (!compilation.toolchainMissing && !compilation.canceled) {
+        this.lastResults.set(project.id, compilation);
+        this.resultListeners.forEach(listener => listener(project.id, compilation));
+      }
+      return compilation;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        success: false,
+        output: message,
+        errors: [{ file: '', line: 0, column: 0, message, code: 'BUILD_FAILED' }],
+        warnings: [],
+        timestamp: new Date(),
+        buildTime: Date.now() - startTime,
+        runId,
+      };
+    } finally {
+      unsubscribe();
     }
+  }
 
-    const result: TestResult = {
-      success: failures.length === 0,
-      testsPassed: passedTests,
-      testsTotal: totalTests,
-      output: this.generateTestOutput(passedTests, totalTests, failures),
-      failures: failures,
-      timestamp: new Date(),
-      duration: Date.now() - startTime,
-    };
+  /**
+   * Stop a running build or test; the run resolves with `canceled: true`
+   */
+  static async cancelRun(runId: string): Promise<boolean> {
+    if (!this.isBridgeAvailable()) {
+      return false;
+    }
+    return window.electronAPI.leo.cancel(runId);
+  }
+
+  /**
+   * Earlier runs for a project, newest first
+   */
+  static async listRuns(projectId: string): Promise<RunSummary[]> {
+    if (!this.isBridgeAvailable()) {
+      return [];
+    }
+    return window.electronAPI.leo.listRuns(projectId);
+  }
+
+  static async getRunLog(projectId: string, runId: string): Promise<RunLog | null> {
+    if (!this.isBridgeAvailable()) {
+      return null;
+    }
+    return window.electronAPI.leo.getRunLog(projectId, runId);
+  }
+
+  /**
+   * Check whether the `leo` CLI can be found by the main process
+   */
+  static async detectToolchain(): Promise<ToolchainInfo | null> {
+    if (!this.isBridgeAvailable()) {
+      return null;
+    }
+    return window.electronAPI.leo.detect();
+  }
+
+  static async runTests(project: LeoProject, options: RunOptions & { testName?: string } = {}): Promise<TestResult> {
+    const startTime = Date.now();
 
-    return result;
+    if (!this.isBridgeAvailable()) {
+      return this.testsUnavailableResult('Running tests requires the desktop app', startTime);
+    }
+
+    const runId = options.runId || this.createRunId();
+    const unsubscribe = this.subscribeToOutput(runId, options.onOutput);
+
+    try {
+      const result = await window.electronAPI.leo.test({
+        runId,
+        projectId: project.id,
+        projectName: project.name,
+        workspaceRoot: project.workspaceRoot,
+        files: project.files.map(file => ({ path: file.path, content: file.content })),
+        testName: options.testName,
+      });
+
+      const failures: TestFailure[] = result.tests
+        .filter(test => !test.passed)
+        .map(test => ({
+          testName: test.name,
+          message: test.message || 'Test failed',
+          expected: test.expected || '',
+          actual: test.actual || '',
+          duration: test.durationMs,
+        }));
+
+      return {
+        success: result.success,
+        testsPassed: result.tests.filter(test => test.passed).length,
+        testsTotal: result.tests.length,
+        output: result.output,
+        failures,
+        tests: result.tests.map(test => ({ name: test.name, passed: test.passed, duration: test.durationMs })),
+        timestamp: new Date(result.timestamp),
+        duration: result.duration,
+        toolchainMissing: result.toolchainMissing,
+        runId,
+        canceled: result.canceled,
+        error: result.error,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { ...this.testsUnavailableResult(message, startTime), toolchainMissing: false, runId };
+    } finally {
+      unsubscribe();
+    }
   }
 
   static async exportProject(project: LeoProject, options: ExportOptions): Promise<string> {
@@ -130,139 +263,52 @@ export class LeoCompilationService {
     return mockExportPath;
   }
 
-  private static checkForSyntaxErrors(code: string): CompilationError[] {
-    const errors: CompilationError[] = [];
-    const lines = code.split('\n');
-
-    lines.forEach((line, index) => {
-      // Mock syntax error detection
-      if (line.includes('undefined_function')) {
-        errors.push({
-          file: 'src/main.leo',
-          line: index + 1,
-          column: line.indexOf('undefined_function') + 1,
-          message: 'Function `undefined_function` is not defined',
-          code: 'E001',
-        });
-      }
-
-      if (line.includes('invalid_type')) {
-        errors.push({
-          file: 'src/main.leo',
-          line: index + 1,
-          column: line.indexOf('invalid_type') + 1,
-          message: 'Type `invalid_type` is not recognized',
-          code: 'E002',
-        });
-      }
-
-      // Check for missing semicolons (simplified)
-      if (line.trim().endsWith('return') && !line.trim().endsWith(';')) {
-        errors.push({
-          file: 'src/main.leo',
-          line: index + 1,
-          column: line.length,
-          message: 'Expected `;` after return statement',
-          code: 'E003',
-        });
-      }
-    });
-
-    return errors;
+  private static isBridgeAvailable(): boolean {
+    return typeof window !== 'undefined' && !!window.electronAPI;
   }
 
-  private static checkForWarnings(code: string): CompilationWarning[] {
-    const warnings: CompilationWarning[] = [];
-    const lines = code.split('\n');
-
-    lines.forEach((line, index) => {
-      // Mock warning detection
-      if (line.includes('unused_variable')) {
-        warnings.push({
-          file: 'src/main.leo',
-          line: index + 1,
-          column: line.indexOf('unused_variable') + 1,
-          message: 'Variable `unused_variable` is declared but never used',
-          code: 'W001',
-        });
-      }
-
-      // Check for TODO comments
-      if (line.includes('TODO') || line.includes('FIXME')) {
-        warnings.push({
-          file: 'src/main.leo',
-          line: index + 1,
-          column: line.indexOf('TODO') !== -1 ? line.indexOf('TODO') + 1 : line.indexOf('FIXME') + 1,
-          message: 'TODO comment found - consider implementing',
-          code: 'W002',
-        });
+  private static subscribeToOutput(runId: string, onOutput?: (line: BuildOutputLine) => void): () => void {
+    if (!onOutput) {
+      return () => {};
+    }
+    return window.electronAPI.leo.onOutput(event => {
+      if (event.runId === runId) {
+        onOutput(event);
       }
     });
-
-    return warnings;
-  }
-
-  private static generateSuccessOutput(projectName: string): string {
-    return `✅ Compilation successful!
-
-📦 Building '${projectName}'...
-   Compiling 'main.leo'...
-   
-🎯 Build Summary:
-   • Program: ${projectName}.aleo
-   • Functions: 3 transitions compiled
-   • Records: 2 record types defined
-   • Build time: 2.3s
-   
-✨ Ready to deploy!
-
-Next steps:
-• Run tests: leo test
-• Deploy: leo deploy
-• Execute: leo run <function_name>`;
   }
 
-  private static generateErrorOutput(projectName: string, errors: CompilationError[]): string {
-    let output = `❌ Compilation failed for '${projectName}'\n\n`;
-    
-    errors.forEach(error => {
-      output += `Error [${error.code}]: ${error.message}\n`;
-      output += `  --> ${error.file}:${error.line}:${error.column}\n\n`;
-    });
-
-    output += `\n🔧 Fix the above errors and try again.`;
-    return output;
+  private static toolchainUnavailableResult(reason: string, startTime: number): CompilationResult {
+    return {
+      success: false,
+      output: reason,
+      errors: [{ file: '', line: 0, column: 0, message: reason, code: 'TOOLCHAIN_MISSING' }],
+      warnings: [],
+      timestamp: new Date(),
+      buildTime: Date.now() - startTime,
+      toolchainMissing: true,
+    };
   }
 
-  private static generateTestOutput(passed: number, total: number, failures: TestFailure[]): string {
-    let output = `🧪 Test Results\n\n`;
-    
-    if (failures.length === 0) {
-      output += `✅ All tests passed! (${passed}/${total})\n\n`;
-      output += `Test Summary:\n`;
-      output += `• Passed: ${passed}\n`;
-      output += `• Failed: 0\n`;
-      output += `• Total: ${total}\n`;
-    } else {
-      output += `❌ Some tests failed (${passed}/${total})\n\n`;
-      
-      failures.forEach(failure => {
-        output += `FAIL ${failure.testName}\n`;
-        output += `  ${failure.message}\n`;
-        output += `  Expected: ${failure.expected}\n`;
-        output += `  Actual: ${failure.actual}\n\n`;
-      });
-
-      output += `Test Summary:\n`;
-      output += `• Passed: ${passed}\n`;
-      output += `• Failed: ${failures.length}\n`;
-      output += `• Total: ${total}\n`;
-    }
-
-    return output;
+  private static testsUnavailableResult(reason: string, startTime: number): TestResult {
+    return {
+      success: false,
+      testsPassed: 0,
+      testsTotal: 0,
+      output: reason,
+      failures: [],
+      tests: [],
+      timestamp: new Date(),
+      duration: Date.now() - startTime,
+      toolchainMissing: true,
+      error: reason,
+    };
   }
 
   static getCompilationStatus(result: CompilationResult): string {
+    if (result.toolchainMissing) {
+      return '⚠️ Leo toolchain not found - install Leo to compile';
+    }
     if (result.success) {
       return `✅ Compiled successfully in ${result.buildTime}ms`;
     } else {
@@ -271,6 +317,12 @@ Next steps:
   }
 
   static getTestStatus(result: TestResult): string {
+    if (result.toolchainMissing) {
+      return '⚠️ Leo toolchain not found - install Leo to run tests';
+    }
+    if (result.error) {
+      return `❌ Tests could not run: ${result.error}`;
+    }
     if (result.success) {
       return `✅ All tests passed (${result.testsPassed}/${result.testsTotal})`;
     } else {
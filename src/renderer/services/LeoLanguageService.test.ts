@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { makeFile, makeProject } from '../utils/testFixtures';
+import LeoLanguageService, { LeoDocument } from './LeoLanguageService';
+
+const UTILS = `program utils.aleo {
+    struct Pair {
+        left: u8,
+        right: u8,
+    }
+
+    transition add(a: u8, b: u8) -> u8 {
+        return a + b;
+    }
+}
+`;
+
+const MAIN = `import utils.aleo;
+
+program token.aleo {
+    record Token {
+        owner: address,
+        amount: u64,
+    }
+
+    transition mint(receiver: address, amount: u64) -> Token {
+        let total: u8 = utils.aleo/add(1u8, 2u8);
+        let owner: address = self.caller;
+        let h: field = BHP256::hash_to_field(amount);
+        return Token { owner: receiver, amount };
+    }
+}
+`;
+
+// The main file as the editor shows it, with `edit` applied to the text
+const document = (edit: (content: string) => string = content => content): LeoDocument => {
+  const main = makeFile('main', 'src/main.leo', MAIN);
+  return { project: makeProject([main, makeFile('utils', 'src/utils.leo', UTILS)]), file: main, content: edit(MAIN) };
+};
+
+// Offset just after the first `text`, or `delta` characters into it
+const offsetOf = (doc: LeoDocument, text: string, delta = text.length) => doc.content.indexOf(text) + delta;
+
+const names = (doc: LeoDocument, offset: number) =>
+  LeoLanguageService.getCompletions(doc, offset).map(symbol => `${symbol.name}:${symbol.kind}`);
+
+describe('LeoLanguageService.getCompletions', () => {
+  it('lists the members of self and of imported programs', () => {
+    const self = document(content => content.replace('self.caller', 'self.'));
+    expect(names(self, offsetOf(self, 'self.'))).toEqual(['caller:field', 'signer:field', 'address:field']);
+
+    const imported = document(content => content.replace('utils.aleo/add(1u8, 2u8)', 'utils.aleo/'));
+    expect(LeoLanguageService.getCompletions(imported, offsetOf(imported, 'utils.aleo/'))).toMatchObject([
+      { name: 'add', kind: 'function', detail: 'transition add(a: u8, b: u8) -> u8', fileId: 'utils' }
+    ]);
+  });
+
+  it('offers only types after a colon', () => {
+    const doc = document(content => content.replace('let total: u8', 'let total: '));
+    const completions = names(doc, offsetOf(doc, 'let total: '));
+
+    expect(completions).toContain('u64:type');
+    expect(completions).toContain('Token:record');
+    expect(completions).not.toContain('receiver:parameter');
+    expect(completions.filter(name => name.endsWith(':keyword'))).toEqual([]);
+  });
+
+  it('offers locals, declarations and keywords elsewhere', () => {
+    const doc = document();
+    const completions = names(doc, offsetOf(doc, 'return '));
+
+    expect(completions).toEqual(expect.arrayContaining(['total:variable', 'receiver:parameter', 'Token:record', 'utils:program', 'return:keyword']));
+  });
+});
+
+describe('LeoLanguageService.getHover', () => {
+  it('describes builtin members and core functions', () => {
+    const doc = document();
+
+    expect(LeoLanguageService.getHover(doc, offsetOf(doc, 'caller', 2))?.markdown)
+      .toBe('```leo\nself.caller: address\n```\n\nAddress of the account or program that called this transition');
+    expect(LeoLanguageService.getHover(doc, offsetOf(doc, 'hash_to_field', 2))).toEqual({
+      markdown: '```leo\nBHP256::hash_to_field(value) -> field\n```\n\nBHP256 hash of any value as a field',
+      span: { start: { offset: offsetOf(doc, 'hash_to_field', 0), line: 12, column: 32 }, end: { offset: offsetOf(doc, 'hash_to_field'), line: 12, column: 45 } }
+    });
+  });
+
+  it('has nothing to say about whitespace', () => {
+    expect(LeoLanguageService.getHover(document(), MAIN.indexOf('\n\n') + 1)).toBeNull();
+  });
+});
+
+describe('LeoLanguageService.getSignatureHelp', () => {
+  it('marks the argument being typed', () => {
+    const doc = document();
+
+    expect(LeoLanguageService.getSignatureHelp(doc, offsetOf(doc, '2u8', 0))).toEqual({
+      label: 'add(a: u8, b: u8) -> u8',
+      parameters: ['a: u8', 'b: u8'],
+      activeParameter: 1
+    });
+    expect(LeoLanguageService.getSignatureHelp(doc, offsetOf(doc, 'hash_to_field('))).toMatchObject({
+      label: 'hash_to_field(value) -> field',
+      activeParameter: 0
+    });
+  });
+
+  it('describes the assert variants', () => {
+    const doc = document(content => content.replace('return Token', 'assert_eq(total, ); return Token'));
+    expect(LeoLanguageService.getSignatureHelp(doc, offsetOf(doc, 'assert_eq(total, '))).toMatchObject({
+      label: 'assert_eq(left, right)',
+      activeParameter: 1
+    });
+  });
+});
+
+describe('LeoLanguageService.getDefinition', () => {
+  it('goes to declarations in other files of the project', () => {
+    const doc = document();
+    expect(LeoLanguageService.getDefinition(doc, offsetOf(doc, 'add(', 1))).toEqual({
+      fileId: 'utils',
+      span: { start: { offset: UTILS.indexOf('add'), line: 7, column: 16 }, end: { offset: UTILS.indexOf('add') + 3, line: 7, column: 19 } }
+    });
+  });
+
+  it('goes to declarations in the same file', () => {
+    const doc = document();
+    expect(LeoLanguageService.getDefinition(doc, offsetOf(doc, 'Token {', 1))).toMatchObject({
+      fileId: 'main',
+      span: { start: { line: 4, column: 12 } }
+    });
+    // The shorthand `amount` reads the parameter
+    expect(LeoLanguageService.getDefinition(doc, offsetOf(doc, 'amount }', 1))).toMatchObject({
+      fileId: 'main',
+      span: { start: { line: 9, column: 40 } }
+    });
+  });
+
+  it('has no declaration to show for builtins', () => {
+    const doc = document();
+    expect(LeoLanguageService.getDefinition(doc, offsetOf(doc, 'caller', 1))).toBeNull();
+  });
+});
+
+describe('LeoLanguageService.findReferences', () => {
+  it('finds uses in every file of the project', () => {
+    const doc = document();
+    const found = LeoLanguageService.findReferences(doc, offsetOf(doc, 'add(', 1));
+
+    expect(found?.symbol).toMatchObject({ name: 'add', kind: 'function', fileId: 'utils' });
+    expect(found?.references.map(reference => [reference.fileId, reference.span.start.line])).toEqual([
+      ['main', 10],
+      ['utils', 7]
+    ]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,925 @@
+import { LeoFile, LeoProject } from '../types';
+import { Expression, FunctionDeclaration, FunctionVariant, Identifier, ParseResult, ProgramItem, SourceFile, Span, parseLeo, tokenize, walk } from '../parser';
+import {
+  BUILTIN_PROGRAMS,
+  BuiltinFunction,
+  CORE_FUNCTIONS,
+  GLOBAL_MEMBERS,
+  KEYWORDS,
+  PRIMITIVE_TYPES,
+  TYPE_METHODS,
+  TYPE_OPERATORS,
+  getTypeCategory
+} from '../utils/leoBuiltins';
+
+export type LeoSymbolKind =
+  | 'program'
+  | 'struct'
+  | 'record'
+  | 'field'
+  | 'mapping'
+  | 'function'
+  | 'const'
+  | 'variable'
+  | 'parameter'
+  | 'type'
+  | 'keyword'
+  | 'method'
+  | 'module';
+
+export interface LeoSymbol {
+  name: string;
+  kind: LeoSymbolKind;
+  detail: string; // the declaration as written, e.g. `mapping balances: address => u64`
+  type?: string; // value type of fields, variables, parameters, constants and mappings
+  documentation?: string;
+  parameters?: string[]; // for anything callable
+  returns?: string;
+  fileId?: string; // absent for built-ins
+  span?: Span; // where the name is declared
+}
+
+export interface LeoDocument {
+  project?: LeoProject;
+  file: LeoFile;
+  content: string; // the editor's text, which may be newer than file.content
+}
+
+export interface LeoSignatureHelp {
+  label: string;
+  documentation?: string;
+  parameters: string[];
+  activeParameter: number;
+}
+
+export interface LeoDefinition {
+  fileId: string;
+  span: Span;
+}
+
+export interface LeoReference {
+  fileId: string;
+  span: Span;
+  shorthand?: boolean; // `x` in `Point { x }`, which names both a field and a variable
+}
+
+export interface LeoReferences {
+  symbol: LeoSymbol;
+  references: LeoReference[]; // the declaration included, in file order
+}
+
+export type LeoOutlineKind = 'program' | 'struct' | 'record' | 'mapping' | 'const' | FunctionVariant;
+
+export interface LeoOutlineItem {
+  name: string;
+  kind: LeoOutlineKind;
+  detail: string; // e.g. the parameters and return type of a function
+  isAsync?: boolean;
+  fileId: string;
+  span: Span; // the whole declaration
+  nameSpan: Span;
+  children: LeoOutlineItem[];
+}
+
+interface ProgramModel {
+  programId: string;
+  fileId: string;
+  structs: Map<string, { symbol: LeoSymbol; fields: LeoSymbol[] }>;
+  mappings: Map<string, LeoSymbol>;
+  functions: Map<string, LeoSymbol>;
+  consts: Map<string, LeoSymbol>;
+}
+
+interface Scope {
+  program?: ProgramModel; // the program in the document
+  programs: Map<string, ProgramModel>; // every program in the project, by id
+  imports: string[];
+  locals: Map<string, LeoSymbol>;
+}
+
+const ASSERT_SIGNATURES: Record<string, BuiltinFunction> = {
+  assert: { name: 'assert', parameters: ['condition: bool'], documentation: 'Halt if the condition is false' },
+  assert_eq: { name: 'assert_eq', parameters: ['left', 'right'], documentation: 'Halt unless both values are equal' },
+  assert_neq: { name: 'assert_neq', parameters: ['left', 'right'], documentation: 'Halt if both values are equal' }
+};
+
+/**
+ * Semantic model of a Leo project for editor features: completion, hover,
+ * signature help, go-to-definition and references. Positions are character offsets.
+ */
+class LeoLanguageService {
+  private static instance: LeoLanguageService;
+  // fileId -> last parse, reused while the content is unchanged
+  private parseCache: Map<string, { content: string; result: ParseResult }> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): LeoLanguageService {
+    if (!LeoLanguageService.instance) {
+      LeoLanguageService.instance = new LeoLanguageService();
+    }
+    return LeoLanguageService.instance;
+  }
+
+  parse(fileId: string, content: string): ParseResult {
+    const cached = this.parseCache.get(fileId);
+    if (cached && cached.content === content) {
+      return cached.result;
+    }
+    const result = parseLeo(content);
+    this.parseCache.set(fileId, { content, result });
+    return result;
+  }
+
+  getCompletions(document: LeoDocument, offset: number): LeoSymbol[] {
+    const before = document.content.slice(0, offset);
+    const scope = this.createScope(document, offset);
+
+    const programMember = /([A-Za-z_]\w*)\.aleo\/\w*$/.exec(before);
+    if (programMember) {
+      return this.getProgramMembers(`${programMember[1]}.aleo`, scope);
+    }
+
+    const path = /(?<![\w.])([A-Za-z_]\w*)::\w*$/.exec(before);
+    if (path) {
+      return (CORE_FUNCTIONS[path[1]] || []).map(fn => this.builtinFunctionSymbol(fn));
+    }
+
+    const member = /(?<![\w.])([A-Za-z_]\w*(?:\.\w+)*)\.\w*$/.exec(before);
+    if (member) {
+      return this.getChainMembers(member[1], scope);
+    }
+
+    // After `name:` or `->` only types make sense
+    if (/(?:->|[^:]:)\s*\w*$/.test(before)) {
+      return [...this.getTypeSymbols(scope)];
+    }
+
+    return [
+      ...scope.locals.values(),
+      ...this.getProgramSymbols(scope.program),
+      ...scope.imports.map(programId => this.programSymbol(programId, scope)),
+      ...Object.keys(CORE_FUNCTIONS).filter(name => !PRIMITIVE_TYPES[name]).map(name => this.moduleSymbol(name)),
+      ...Object.keys(GLOBAL_MEMBERS).map(name => this.moduleSymbol(name)),
+      ...this.getTypeSymbols(scope).filter(symbol => symbol.kind === 'type'),
+      ...KEYWORDS.map((keyword): LeoSymbol => ({ name: keyword, kind: 'keyword', detail: keyword }))
+    ];
+  }
+
+  getHover(document: LeoDocument, offset: number): { markdown: string; span: Span } | null {
+    const word = this.wordAt(document.content, offset);
+    if (!word) return null;
+
+    const symbol = this.resolveSymbol(document, word);
+    if (!symbol) return null;
+
+    const parts = [`\`\`\`leo\n${symbol.detail}\n\`\`\``];
+    if (symbol.documentation) parts.push(symbol.documentation);
+    return { markdown: parts.join('\n\n'), span: this.spanOf(document.content, word.start, word.end) };
+  }
+
+  getSignatureHelp(document: LeoDocument, offset: number): LeoSignatureHelp | null {
+    const call = this.findOpenCall(document.content, offset);
+    if (!call) return null;
+
+    const word = this.wordAt(document.content, call.calleeEnd);
+    if (!word || word.end !== call.calleeEnd) return null;
+
+    const symbol = ASSERT_SIGNATURES[word.text]
+      ? this.builtinFunctionSymbol(ASSERT_SIGNATURES[word.text])
+      : this.resolveSymbol(document, word);
+    if (!symbol?.parameters) return null;
+
+    return {
+      label: `${symbol.name}(${symbol.parameters.join(', ')})${symbol.returns ? ` -> ${symbol.returns}` : ''}`,
+      documentation: symbol.documentation,
+      parameters: symbol.parameters,
+      activeParameter: Math.min(call.argumentIndex, Math.max(0, symbol.parameters.length - 1))
+    };
+  }
+
+  getDefinition(document: LeoDocument, offset: number): LeoDefinition | null {
+    const word = this.wordAt(document.content, offset);
+    if (!word) return null;
+
+    const symbol = this.resolveSymbol(document, word);
+    return symbol?.fileId && symbol.span ? { fileId: symbol.fileId, span: symbol.span } : null;
+  }
+
+  /**
+   * The symbol at an offset and every place in the project that names it.
+   * Null unless the symbol is declared in one of the project's Leo files.
+   */
+  findReferences(document: LeoDocument, offset: number): LeoReferences | null {
+    const word = this.wordAt(document.content, offset);
+    if (!word) return null;
+
+    const symbol = this.symbolAt(document, word);
+    if (!symbol?.fileId || !symbol.span) return null;
+
+    const documents: LeoDocument[] = (document.project?.files || [])
+      .filter(file => file.type === 'leo' && file.id !== document.file.id)
+      .map(file => ({ project: document.project, file, content: file.content }));
+    documents.unshift(document);
+
+    // Programs are matched by name; everything else by where it is declared
+    const isTarget = (candidate: LeoSymbol | null) => !!candidate && candidate.kind === symbol.kind && (
+      symbol.kind === 'program'
+        ? candidate.name === symbol.name
+        : candidate.fileId === symbol.fileId && candidate.span?.start.offset === symbol.span!.start.offset
+    );
+
+    const references: LeoReference[] = [];
+    for (const candidate of documents) {
+      // Locals can only be named in their own file
+      if ((symbol.kind === 'variable' || symbol.kind === 'parameter') && candidate.file.id !== symbol.fileId) continue;
+
+      const shorthands = this.findShorthandFields(candidate);
+      for (const token of tokenize(candidate.content).tokens) {
+        if (token.kind !== 'identifier' || token.value !== symbol.name) continue;
+
+        const tokenWord = { text: token.value, start: token.span.start.offset };
+        const shorthand = shorthands.has(tokenWord.start);
+        // A shorthand field init names the field and the variable it is read from
+        const matches = isTarget(this.symbolAt(candidate, tokenWord)) ||
+          (shorthand && isTarget(this.resolveSymbol(candidate, tokenWord)));
+        if (matches) {
+          references.push({ fileId: candidate.file.id, span: token.span, ...(shorthand ? { shorthand } : {}) });
+        }
+      }
+    }
+
+    return { symbol, references };
+  }
+
+  /**
+   * Declarations in a file, nested under their program
+   */
+  getOutline(fileId: string, content: string): LeoOutlineItem[] {
+    const program = this.parse(fileId, content).ast.program;
+    if (!program) return [];
+
+    return [{
+      name: program.programId,
+      kind: 'program',
+      detail: '',
+      fileId,
+      span: program.span,
+      nameSpan: program.name.span,
+      children: program.items.map(item => this.outlineItem(fileId, item))
+    }];
+  }
+
+  /**
+   * Programs and their declarations across every Leo file in the project
+   */
+  getProjectSymbols(project: LeoProject): LeoOutlineItem[] {
+    return project.files
+      .filter(file => file.type === 'leo')
+      .flatMap(file => this.getOutline(file.id, file.content))
+      .flatMap(program => [program, ...program.children]);
+  }
+
+  /**
+   * The declarations containing an offset, outermost first
+   */
+  getSymbolPath(fileId: string, content: string, offset: number): LeoOutlineItem[] {
+    const path: LeoOutlineItem[] = [];
+    let items = this.getOutline(fileId, content);
+    for (;;) {
+      const item = items.find(candidate => candidate.span.start.offset <= offset && offset <= candidate.span.end.offset);
+      if (!item) return path;
+      path.push(item);
+      items = item.children;
+    }
+  }
+
+  private outlineItem(fileId: string, item: ProgramItem): LeoOutlineItem {
+    const base = { name: item.name.name, fileId, span: item.span, nameSpan: item.name.span, children: [] };
+
+    switch (item.kind) {
+      case 'StructDeclaration':
+        return {
+          ...base,
+          kind: item.isRecord ? 'record' : 'struct',
+          detail: item.fields.length === 1 ? '1 field' : `${item.fields.length} fields`
+        };
+      case 'MappingDeclaration':
+        return { ...base, kind: 'mapping', detail: `${item.keyType.text} => ${item.valueType.text}` };
+      case 'ConstDeclaration':
+        return { ...base, kind: 'const', detail: item.type?.text || '' };
+      case 'FunctionDeclaration': {
+        const parameters = item.parameters.map(parameter => `${parameter.name.name}: ${parameter.type.text}`).join(', ');
+        return {
+          ...base,
+          kind: item.variant,
+          isAsync: item.isAsync,
+          detail: `(${parameters})${item.returnType ? ` -> ${item.returnType.text}` : ''}`
+        };
+      }
+    }
+  }
+
+  // Scope and symbol resolution
+
+  private createScope(document: LeoDocument, offset: number): Scope {
+    const programs = new Map<string, ProgramModel>();
+    for (const file of document.project?.files || []) {
+      if (file.type !== 'leo' || file.id === document.file.id) continue;
+      const model = this.buildProgramModel(file.id, this.parse(file.id, file.content).ast);
+      if (model) programs.set(model.programId, model);
+    }
+
+    const { ast } = this.parse(document.file.id, document.content);
+    const program = this.buildProgramModel(document.file.id, ast);
+    if (program) programs.set(program.programId, program);
+
+    const scope: Scope = {
+      program,
+      programs,
+      imports: ast.imports.map(declaration => declaration.programId),
+      locals: new Map()
+    };
+
+    const fn = this.findEnclosingFunction(ast, offset);
+    if (fn) {
+      this.collectLocals(fn, offset, document.file.id, scope);
+    }
+    return scope;
+  }
+
+  private buildProgramModel(fileId: string, ast: SourceFile): ProgramModel | undefined {
+    if (!ast.program) return undefined;
+
+    const model: ProgramModel = {
+      programId: ast.program.programId,
+      fileId,
+      structs: new Map(),
+      mappings: new Map(),
+      functions: new Map(),
+      consts: new Map()
+    };
+
+    for (const item of ast.program.items) {
+      const documentation = this.findDocumentation(ast, item.span);
+
+      switch (item.kind) {
+        case 'StructDeclaration': {
+          const keyword = item.isRecord ? 'record' : 'struct';
+          const fields = item.fields.map((field): LeoSymbol => ({
+            name: field.name.name,
+            kind: 'field',
+            detail: `${field.visibility ? `${field.visibility} ` : ''}${field.name.name}: ${field.type.text}`,
+            type: field.type.text,
+            documentation: this.findDocumentation(ast, field.span),
+            fileId,
+            span: field.name.span
+          }));
+          model.structs.set(item.name.name, {
+            symbol: {
+              name: item.name.name,
+              kind: keyword,
+              detail: `${keyword} ${item.name.name} {\n${fields.map(field => `    ${field.detail},`).join('\n')}\n}`,
+              documentation,
+              fileId,
+              span: item.name.span
+            },
+            fields
+          });
+          break;
+        }
+
+        case 'MappingDeclaration':
+          model.mappings.set(item.name.name, {
+            name: item.name.name,
+            kind: 'mapping',
+            detail: `mapping ${item.name.name}: ${item.keyType.text} => ${item.valueType.text}`,
+            type: item.valueType.text,
+            documentation,
+            fileId,
+            span: item.name.span
+          });
+          break;
+
+        case 'FunctionDeclaration': {
+          const parameters = item.parameters.map(parameter =>
+            `${parameter.visibility ? `${parameter.visibility} ` : ''}${parameter.name.name}: ${parameter.type.text}`
+          );
+          const returns = item.returnType?.text;
+          const symbol: LeoSymbol = {
+            name: item.name.name,
+            kind: 'function',
+            detail: `${item.isAsync ? 'async ' : ''}${item.variant} ${item.name.name}(${parameters.join(', ')})${returns ? ` -> ${returns}` : ''}`,
+            documentation,
+            parameters,
+            returns,
+            fileId,
+            span: item.name.span
+          };
+          // An old-style finalize shares its transition's name; the transition wins
+          if (item.variant !== 'finalize' || !model.functions.has(item.name.name)) {
+            model.functions.set(item.name.name, symbol);
+          }
+          break;
+        }
+
+        case 'ConstDeclaration':
+          model.consts.set(item.name.name, {
+            name: item.name.name,
+            kind: 'const',
+            detail: `const ${item.name.name}${item.type ? `: ${item.type.text}` : ''}`,
+            type: item.type?.text,
+            documentation,
+            fileId,
+            span: item.name.span
+          });
+          break;
+      }
+    }
+
+    return model;
+  }
+
+  /**
+   * The function the offset is in. Spans of functions with syntax errors may
+   * end early, so the last function starting before the offset is used.
+   */
+  private findEnclosingFunction(ast: SourceFile, offset: number): FunctionDeclaration | undefined {
+    const items = ast.program?.items || [];
+    let enclosing: FunctionDeclaration | undefined;
+    for (const item of items) {
+      if (item.span.start.offset > offset) break;
+      enclosing = item.kind === 'FunctionDeclaration' ? item : undefined;
+    }
+    return enclosing;
+  }
+
+  private collectLocals(fn: FunctionDeclaration, offset: number, fileId: string, scope: Scope): void {
+    for (const parameter of fn.parameters) {
+      scope.locals.set(parameter.name.name, {
+        name: parameter.name.name,
+        kind: 'parameter',
+        detail: `(parameter) ${parameter.visibility ? `${parameter.visibility} ` : ''}${parameter.name.name}: ${parameter.type.text}`,
+        type: parameter.type.text,
+        fileId,
+        span: parameter.name.span
+      });
+    }
+
+    walk(fn.body, node => {
+      if (node.span.start.offset >= offset) return false;
+
+      if (node.kind === 'VariableDeclaration') {
+        const inferred = node.names.length === 1 ? this.inferType(node.value, scope) : undefined;
+        for (const name of node.names) {
+          const type = node.type?.kind === 'TupleType' && node.names.length > 1
+            ? node.type.elements[node.names.indexOf(name)]?.text
+            : node.type?.text ?? inferred;
+          scope.locals.set(name.name, {
+            name: name.name,
+            kind: 'variable',
+            detail: `${node.isConst ? 'const' : 'let'} ${name.name}${type ? `: ${type}` : ''}`,
+            type,
+            fileId,
+            span: name.span
+          });
+        }
+      }
+
+      if (node.kind === 'ForStatement' && node.body.span.start.offset < offset && offset <= node.body.span.end.offset) {
+        const type = node.type?.text ?? this.inferType(node.start, scope);
+        scope.locals.set(node.variable.name, {
+          name: node.variable.name,
+          kind: 'variable',
+          detail: `(loop variable) ${node.variable.name}${type ? `: ${type}` : ''}`,
+          type,
+          fileId,
+          span: node.variable.span
+        });
+      }
+    });
+  }
+
+  private inferType(expression: Expression, scope: Scope): string | undefined {
+    switch (expression.kind) {
+      case 'Literal':
+        if (expression.type === 'boolean') return 'bool';
+        if (expression.type === 'address') return 'address';
+        return expression.suffix;
+      case 'Identifier':
+        return scope.locals.get(expression.name)?.type ?? scope.program?.consts.get(expression.name)?.type;
+      case 'StructExpression':
+        return expression.name.name;
+      case 'CastExpression':
+        return expression.type.text;
+      case 'UnaryExpression':
+        return this.inferType(expression.operand, scope);
+      case 'TernaryExpression':
+        return this.inferType(expression.consequent, scope) ?? this.inferType(expression.alternate, scope);
+      case 'BinaryExpression':
+        if (['==', '!=', '<', '<=', '>', '>=', '&&', '||'].includes(expression.operator)) return 'bool';
+        return this.inferType(expression.left, scope) ?? this.inferType(expression.right, scope);
+      case 'MemberExpression': {
+        if (expression.object.kind === 'Identifier' && GLOBAL_MEMBERS[expression.object.name]) {
+          return GLOBAL_MEMBERS[expression.object.name].find(m => m.name === expression.property.name)?.type;
+        }
+        const objectType = this.inferType(expression.object, scope);
+        return objectType ? this.getTypeMembers(objectType, scope).find(m => m.name === expression.property.name)?.type : undefined;
+      }
+      case 'CallExpression': {
+        const callee = expression.callee;
+        if (callee.kind === 'Identifier') {
+          return scope.program?.functions.get(callee.name)?.returns;
+        }
+        if (callee.kind === 'PathExpression' && callee.segments[0]?.name === 'Mapping') {
+          const mapping = expression.arguments[0];
+          return mapping?.kind === 'Identifier' ? scope.program?.mappings.get(mapping.name)?.type : undefined;
+        }
+        if (callee.kind === 'PathExpression' && callee.segments.length === 2) {
+          return CORE_FUNCTIONS[callee.segments[0].name]?.find(fn => fn.name === callee.segments[1].name)?.returns;
+        }
+        if (callee.kind === 'LocatorExpression') {
+          return this.getProgramMembers(callee.programId, scope).find(m => m.name === callee.name.name)?.returns;
+        }
+        if (callee.kind === 'MemberExpression') {
+          const objectType = this.inferType(callee.object, scope);
+          return objectType ? this.getTypeMembers(objectType, scope).find(m => m.name === callee.property.name)?.returns : undefined;
+        }
+        return undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Find what the word at `word` refers to, using the text right before it
+   * to tell members, paths and program locators apart
+   */
+  private resolveSymbol(document: LeoDocument, word: { text: string; start: number }): LeoSymbol | null {
+    const before = document.content.slice(0, word.start);
+    const scope = this.createScope(document, word.start);
+    const name = word.text;
+
+    const programMember = /([A-Za-z_]\w*)\.aleo\/$/.exec(before);
+    if (programMember) {
+      return this.getProgramMembers(`${programMember[1]}.aleo`, scope).find(m => m.name === name) || null;
+    }
+
+    const path = /(?<![\w.])([A-Za-z_]\w*)::$/.exec(before);
+    if (path) {
+      const fn = CORE_FUNCTIONS[path[1]]?.find(candidate => candidate.name === name);
+      return fn ? this.builtinFunctionSymbol(fn, path[1]) : null;
+    }
+
+    const member = /(?<![\w.])([A-Za-z_]\w*(?:\.\w+)*)\.$/.exec(before);
+    if (member) {
+      if (name === 'aleo') return this.programSymbol(`${member[1]}.aleo`, scope);
+      return this.getChainMembers(member[1], scope).find(m => m.name === name) || null;
+    }
+
+    // `credits` in `credits.aleo`
+    if (document.content.slice(word.start + name.length).startsWith('.aleo')) {
+      return this.programSymbol(`${name}.aleo`, scope);
+    }
+
+    const local = scope.locals.get(name);
+    if (local) return local;
+
+    const program = scope.program;
+    const declared = program && (
+      program.structs.get(name)?.symbol ||
+      program.functions.get(name) ||
+      program.mappings.get(name) ||
+      program.consts.get(name)
+    );
+    if (declared) return declared;
+
+    const typeSymbol = this.getTypeSymbols(scope).find(symbol => symbol.name === name);
+    if (typeSymbol) return typeSymbol;
+    if (CORE_FUNCTIONS[name] || GLOBAL_MEMBERS[name]) return this.moduleSymbol(name);
+    return null;
+  }
+
+  /**
+   * Like resolveSymbol, but also for names that only declare something: fields
+   * of struct declarations and literals, loop variables and program ids
+   */
+  private symbolAt(document: LeoDocument, word: { text: string; start: number }): LeoSymbol | null {
+    const { ast } = this.parse(document.file.id, document.content);
+    const at = (span: Span) => span.start.offset === word.start;
+
+    let declared: LeoSymbol | null | undefined;
+    walk(ast, node => {
+      if (declared !== undefined || node.span.end.offset < word.start || node.span.start.offset > word.start) return false;
+
+      if (node.kind === 'StructDeclaration' || node.kind === 'StructExpression') {
+        const fields: Array<{ name: Identifier }> = node.fields;
+        const field = fields.find(candidate => at(candidate.name.span));
+        if (field) {
+          const members = this.findStruct(node.name.name, this.createScope(document, word.start));
+          declared = members?.find(member => member.name === field.name.name) ?? null;
+        }
+      } else if (node.kind === 'ForStatement' && at(node.variable.span)) {
+        declared = {
+          name: node.variable.name,
+          kind: 'variable',
+          detail: `(loop variable) ${node.variable.name}`,
+          fileId: document.file.id,
+          span: node.variable.span
+        };
+      }
+    });
+    if (declared !== undefined) return declared;
+
+    const symbol = this.resolveSymbol(document, word);
+    if (symbol?.kind !== 'program') return symbol;
+
+    // Program symbols carry no span; use the program declaration in the project
+    const programId = `${symbol.name}.aleo`;
+    for (const file of document.project?.files || [document.file]) {
+      const content = file.id === document.file.id ? document.content : file.content;
+      const program = file.type === 'leo' ? this.parse(file.id, content).ast.program : undefined;
+      if (program?.programId === programId) {
+        return { ...symbol, fileId: file.id, span: program.name.span };
+      }
+    }
+    return symbol;
+  }
+
+  /**
+   * Offsets of the shorthand field inits (`x` in `Point { x }`) in a document
+   */
+  private findShorthandFields(document: LeoDocument): Set<number> {
+    const offsets = new Set<number>();
+    walk(this.parse(document.file.id, document.content).ast, node => {
+      if (node.kind === 'StructFieldInit' && !node.value) {
+        offsets.add(node.name.span.start.offset);
+      }
+    });
+    return offsets;
+  }
+
+  /**
+   * Members of `a.b.c`: the type of `a` is looked up in scope, then each field in turn
+   */
+  private getChainMembers(chain: string, scope: Scope): LeoSymbol[] {
+    const [first, ...rest] = chain.split('.');
+
+    let type: string | undefined;
+    if (GLOBAL_MEMBERS[first]) {
+      if (rest.length === 0) {
+        return GLOBAL_MEMBERS[first].map(member => ({
+          name: member.name,
+          kind: 'field' as const,
+          detail: `${first}.${member.name}: ${member.type}`,
+          type: member.type,
+          documentation: member.documentation
+        }));
+      }
+      type = GLOBAL_MEMBERS[first].find(member => member.name === rest[0])?.type;
+      rest.shift();
+    } else {
+      type = scope.locals.get(first)?.type ?? scope.program?.consts.get(first)?.type;
+    }
+
+    for (const segment of rest) {
+      if (!type) return [];
+      type = this.getTypeMembers(type, scope).find(member => member.name === segment && member.kind === 'field')?.type;
+    }
+
+    return type ? this.getTypeMembers(type, scope) : [];
+  }
+
+  private getTypeMembers(type: string, scope: Scope): LeoSymbol[] {
+    const struct = this.findStruct(type, scope);
+    if (struct) return struct;
+
+    // Tuples are accessed by position
+    if (type.startsWith('(')) {
+      return this.splitTupleType(type).map((element, index) => ({
+        name: String(index),
+        kind: 'field' as const,
+        detail: `${index}: ${element}`,
+        type: element
+      }));
+    }
+
+    const category = getTypeCategory(type);
+    return (category && TYPE_METHODS[category] || []).map(fn => {
+      const symbol = this.builtinFunctionSymbol(fn);
+      const resolve = (text?: string) => text?.replace(/\bSelf\b/g, type);
+      return {
+        ...symbol,
+        kind: 'method' as const,
+        detail: resolve(symbol.detail)!,
+        parameters: symbol.parameters?.map(parameter => resolve(parameter)!),
+        returns: resolve(symbol.returns)
+      };
+    });
+  }
+
+  private findStruct(type: string, scope: Scope): LeoSymbol[] | undefined {
+    const [programPart, structPart] = type.includes('/') ? type.split('/') : [undefined, type];
+    const name = structPart.replace(/\.record$/, '');
+    const programIds = programPart
+      ? [programPart]
+      : [scope.program?.programId, ...scope.imports].filter((id): id is string => !!id);
+
+    for (const programId of programIds) {
+      const struct = scope.programs.get(programId)?.structs.get(name);
+      if (struct) return struct.fields;
+
+      const record = BUILTIN_PROGRAMS[programId]?.records.find(r => r.name === name);
+      if (record) {
+        return record.fields.map(field => ({
+          name: field.name,
+          kind: 'field' as const,
+          detail: `${field.name}: ${field.type}`,
+          type: field.type,
+          documentation: field.documentation
+        }));
+      }
+    }
+    return undefined;
+  }
+
+  private getProgramMembers(programId: string, scope: Scope): LeoSymbol[] {
+    const model = scope.programs.get(programId);
+    if (model) {
+      return [
+        ...Array.from(model.functions.values()).filter(fn => /^(async )?transition /.test(fn.detail)),
+        ...Array.from(model.mappings.values()),
+        ...Array.from(model.structs.values()).map(struct => struct.symbol).filter(symbol => symbol.kind === 'record')
+      ];
+    }
+
+    const builtin = BUILTIN_PROGRAMS[programId];
+    if (!builtin) return [];
+    return [
+      ...builtin.transitions.map(fn => ({ ...this.builtinFunctionSymbol(fn), detail: `transition ${fn.name}(${fn.parameters.join(', ')})${fn.returns ? ` -> ${fn.returns}` : ''}` })),
+      ...builtin.mappings.map((mapping): LeoSymbol => ({
+        name: mapping.name,
+        kind: 'mapping',
+        detail: `mapping ${mapping.name}: ${mapping.keyType} => ${mapping.valueType}`,
+        type: mapping.valueType,
+        documentation: mapping.documentation
+      })),
+      ...builtin.records.map((record): LeoSymbol => ({
+        name: record.name,
+        kind: 'record',
+        detail: `record ${record.name} {\n${record.fields.map(field => `    ${field.name}: ${field.type},`).join('\n')}\n}`
+      }))
+    ];
+  }
+
+  private getProgramSymbols(program?: ProgramModel): LeoSymbol[] {
+    if (!program) return [];
+    return [
+      ...Array.from(program.structs.values()).map(struct => struct.symbol),
+      ...program.functions.values(),
+      ...program.mappings.values(),
+      ...program.consts.values()
+    ];
+  }
+
+  private getTypeSymbols(scope: Scope): LeoSymbol[] {
+    const primitives = Object.entries(PRIMITIVE_TYPES).map(([name, description]): LeoSymbol => {
+      const category = getTypeCategory(name);
+      const operators = category ? TYPE_OPERATORS[category] : undefined;
+      const methods = category ? TYPE_METHODS[category] : undefined;
+      const documentation = [
+        description,
+        operators ? `Operators: ${operators.map(op => `\`${op}\``).join(' ')}` : '',
+        methods ? `Methods: ${methods.map(m => `\`${m.name}\``).join(', ')}` : ''
+      ].filter(Boolean).join('\n\n');
+      return { name, kind: 'type', detail: name, documentation };
+    });
+
+    const records = scope.imports.flatMap(programId =>
+      this.getProgramMembers(programId, scope)
+        .filter(symbol => symbol.kind === 'record')
+        .map(symbol => ({ ...symbol, name: `${programId}/${symbol.name}` }))
+    );
+
+    return [
+      ...primitives,
+      ...Array.from(scope.program?.structs.values() || []).map(struct => struct.symbol),
+      ...records
+    ];
+  }
+
+  private programSymbol(programId: string, scope: Scope): LeoSymbol {
+    const model = scope.programs.get(programId);
+    const members = this.getProgramMembers(programId, scope);
+    return {
+      name: programId.replace(/\.aleo$/, ''),
+      kind: 'program',
+      detail: `program ${programId}`,
+      documentation: members.length > 0 ? `Members: ${members.map(m => `\`${m.name}\``).join(', ')}` : undefined,
+      fileId: model?.fileId,
+      span: undefined
+    };
+  }
+
+  private moduleSymbol(name: string): LeoSymbol {
+    const members = CORE_FUNCTIONS[name]?.map(fn => fn.name) ?? GLOBAL_MEMBERS[name]?.map(member => member.name) ?? [];
+    return {
+      name,
+      kind: 'module',
+      detail: name,
+      documentation: members.length > 0 ? `Members: ${members.map(member => `\`${member}\``).join(', ')}` : undefined
+    };
+  }
+
+  private builtinFunctionSymbol(fn: BuiltinFunction, owner?: string): LeoSymbol {
+    const qualifiedName = owner ? `${owner}::${fn.name}` : fn.name;
+    return {
+      name: fn.name,
+      kind: 'function',
+      detail: `${qualifiedName}(${fn.parameters.join(', ')})${fn.returns ? ` -> ${fn.returns}` : ''}`,
+      documentation: fn.documentation,
+      parameters: fn.parameters,
+      returns: fn.returns || undefined
+    };
+  }
+
+  // Text helpers
+
+  private findDocumentation(ast: SourceFile, span: Span): string | undefined {
+    const lines: string[] = [];
+    let line = span.start.line - 1;
+
+    for (let i = ast.comments.length - 1; i >= 0; i--) {
+      const comment = ast.comments[i];
+      if (comment.span.start.offset >= span.start.offset) continue;
+      if (comment.span.end.line !== line) {
+        if (comment.span.end.line < line) break;
+        continue;
+      }
+      lines.unshift(comment.text.replace(/^\/\/+\s?|^\/\*+\s?|\s*\*+\/$/g, '').trim());
+      line = comment.span.start.line - 1;
+    }
+
+    return lines.length > 0 ? lines.join('\n') : undefined;
+  }
+
+  private findOpenCall(content: string, offset: number): { calleeEnd: number; argumentIndex: number } | null {
+    let depth = 0;
+    let argumentIndex = 0;
+
+    for (let i = offset - 1; i >= 0; i--) {
+      const char = content[i];
+      if (char === ')' || char === ']') depth++;
+      else if (char === '[') depth--;
+      else if (char === '(') {
+        if (depth === 0) {
+          let end = i;
+          while (end > 0 && /\s/.test(content[end - 1])) end--;
+          return { calleeEnd: end, argumentIndex };
+        }
+        depth--;
+      } else if (char === ',' && depth === 0) argumentIndex++;
+      else if ((char === ';' || char === '{' || char === '}') && depth === 0) return null;
+    }
+    return null;
+  }
+
+  private wordAt(content: string, offset: number): { text: string; start: number; end: number } | null {
+    let start = offset;
+    let end = offset;
+    while (start > 0 && /\w/.test(content[start - 1])) start--;
+    while (end < content.length && /\w/.test(content[end])) end++;
+    if (start === end || /^\d/.test(content[start])) return null;
+    return { text: content.slice(start, end), start, end };
+  }
+
+  private spanOf(content: string, start: number, end: number): Span {
+    const position = (offset: number) => {
+      const lines = content.slice(0, offset).split('\n');
+      return { offset, line: lines.length, column: lines[lines.length - 1].length + 1 };
+    };
+    return { start: position(start), end: position(end) };
+  }
+
+  private splitTupleType(type: string): string[] {
+    const inner = type.slice(1, -1);
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of inner) {
+      if (char === '(' || char === '[' || char === '<') depth++;
+      if (char === ')' || char === ']' || char === '>') depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts.map(part => part.replace(/^(public|private|constant)\s+/, ''));
+  }
+}
+
+export default LeoLanguageService.getInstance();
\ No newline at end of file
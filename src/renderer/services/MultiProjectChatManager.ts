@@ -101,6 +101,26 @@ class MultiProjectChatManager {
     await this.saveProjectChatHistory(this.activeProjectId);
   }
 
+  /**
+   * Replace an existing message in the active project's chat (e.g. after its code changes were applied)
+   */
+  async updateMessage(message: ChatMessage): Promise<void> {
+    if (!this.activeProjectId) {
+      throw new Error('No active project session');
+    }
+
+    const session = this.chatSessions.get(this.activeProjectId);
+    if (!session) {
+      throw new Error('Active project session not found');
+    }
+
+    const index = session.messages.findIndex(m => m.id === message.id);
+    if (index === -1) return;
+
+    session.messages[index] = message;
+    await this.saveProjectChatHistory(this.activeProjectId);
+  }
+
   /**
    * Get messages for the active project
    */
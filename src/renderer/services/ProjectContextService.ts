@@ -0,0 +1,236 @@
+import { ContextSectionKind, ContextSectionUsage, ContextUsage, LeoFile, LeoProject } from '../types';
+import CodeAnalysisService from './CodeAnalysisService';
+import { parseLeo } from '../parser';
+import { LintConfig, loadLintConfig } from '../lint';
+import { LeoCompilationService } from './LeoCompilationService';
+
+export interface ContextOptions {
+  currentFile?: LeoFile;
+  query?: string; // the user's message, used to find files it refers to
+  tokenBudget: number;
+}
+
+export interface ProjectContext {
+  prompt: string;
+  usage: ContextUsage;
+}
+
+interface ContextCandidate {
+  kind: ContextSectionKind;
+  label: string;
+  body: string;
+  language?: string;
+  truncatable: boolean;
+}
+
+// Rough token estimate; good enough to keep prompts inside the model's window
+const CHARS_PER_TOKEN = 4;
+// Don't bother including a truncated section smaller than this
+const MIN_TRUNCATED_TOKENS = 200;
+const MAX_DIAGNOSTICS = 20;
+
+/**
+ * Picks the parts of a project most relevant to a question and fits them into a token budget
+ */
+class ProjectContextService {
+  private static instance: ProjectContextService;
+
+  private constructor() {}
+
+  static getInstance(): ProjectContextService {
+    if (!ProjectContextService.instance) {
+      ProjectContextService.instance = new ProjectContextService();
+    }
+    return ProjectContextService.instance;
+  }
+
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  buildContext(project: LeoProject, options: ContextOptions): ProjectContext {
+    const candidates = this.collectCandidates(project, options);
+    const sections: string[] = [];
+    const usage: ContextUsage = { budget: options.tokenBudget, used: 0, sections: [], omitted: [] };
+
+    for (const candidate of candidates) {
+      const remaining = options.tokenBudget - usage.used;
+      let body = candidate.body;
+      let truncated = false;
+
+      if (this.estimateTokens(this.renderSection(candidate, body)) > remaining) {
+        if (!candidate.truncatable || remaining < MIN_TRUNCATED_TOKENS) {
+          usage.omitted.push(candidate.label);
+          continue;
+        }
+        body = this.truncate(candidate, remaining);
+        truncated = true;
+      }
+
+      const section = this.renderSection(candidate, body);
+      const tokens = this.estimateTokens(section);
+      sections.push(section);
+      usage.used += tokens;
+      usage.sections.push({ kind: candidate.kind, label: candidate.label, tokens, truncated });
+    }
+
+    return {
+      prompt: `Project "${project.name}"${project.description ? ` - ${project.description}` : ''}\n\n${sections.join('\n\n')}`,
+      usage
+    };
+  }
+
+  /**
+   * Record the recent conversation in the usage breakdown (it is sent outside the budget)
+   */
+  addConversationUsage(usage: ContextUsage, messages: string[]): ContextUsage {
+    const tokens = messages.reduce((total, message) => total + this.estimateTokens(message), 0);
+    const section: ContextSectionUsage = {
+      kind: 'conversation',
+      label: `${messages.length} recent message${messages.length !== 1 ? 's' : ''}`,
+      tokens,
+      truncated: false
+    };
+    return { ...usage, used: usage.used + tokens, sections: [...usage.sections, section] };
+  }
+
+  // Private helper methods
+
+  private collectCandidates(project: LeoProject, options: ContextOptions): ContextCandidate[] {
+    const candidates: ContextCandidate[] = [];
+    // Prefer the project's copy, which has the latest edits
+    const currentFile = options.currentFile
+      ? project.files.find(f => f.id === options.currentFile!.id) || options.currentFile
+      : undefined;
+
+    const manifest = project.files.find(file => this.normalizePath(file.path) === 'program.json');
+    if (manifest) {
+      candidates.push({ kind: 'manifest', label: 'program.json', body: manifest.content, language: 'json', truncatable: true });
+    }
+
+    const diagnostics = this.describeLastBuild(project.id);
+    if (diagnostics) {
+      candidates.push({ kind: 'diagnostics', label: 'Latest build', body: diagnostics, truncatable: true });
+    }
+
+    if (currentFile && currentFile.id !== manifest?.id) {
+      candidates.push({
+        kind: 'current-file',
+        label: `${this.normalizePath(currentFile.path)} (open in editor)`,
+        body: currentFile.content,
+        language: currentFile.type,
+        truncatable: true
+      });
+    }
+
+    const rankedFiles = this.rankFiles(project, currentFile, options.query || '');
+
+    const analyzed = [currentFile, ...rankedFiles.filter(entry => entry.imported).map(entry => entry.file)]
+      .filter((file): file is LeoFile => !!file && file.type === 'leo');
+    const issues = this.describeAnalysis(analyzed, loadLintConfig(project.files).config);
+    if (issues) {
+      candidates.push({ kind: 'analysis', label: 'Analysis issues', body: issues, truncatable: true });
+    }
+
+    for (const { file } of rankedFiles) {
+      candidates.push({
+        kind: 'file',
+        label: this.normalizePath(file.path),
+        body: file.content,
+        language: file.type,
+        truncatable: false
+      });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Order the remaining files: imports of the open file first, then files the
+   * question mentions, then Leo sources before docs and inputs.
+   */
+  private rankFiles(
+    project: LeoProject,
+    currentFile: LeoFile | undefined,
+    query: string
+  ): Array<{ file: LeoFile; imported: boolean }> {
+    const imports = currentFile ? this.findImports(currentFile.content) : [];
+    const lowerQuery = query.toLowerCase();
+
+    return project.files
+      .filter(file => file.id !== currentFile?.id && this.normalizePath(file.path) !== 'program.json')
+      .map(file => {
+        const path = this.normalizePath(file.path).toLowerCase();
+        const baseName = file.name.replace(/\.[^.]+$/, '').toLowerCase();
+        const imported = imports.includes(baseName);
+
+        let score = 0;
+        if (imported) score += 50;
+        if (lowerQuery.includes(path) || lowerQuery.includes(file.name.toLowerCase())) score += 40;
+        else if (baseName.length > 2 && new RegExp(`\\b${this.escapeRegExp(baseName)}\\b`).test(lowerQuery)) score += 20;
+        if (file.type === 'leo') score += path.startsWith('tests/') ? 8 : 10;
+        if (file.type === 'in') score += 2;
+
+        return { file, imported, score };
+      })
+      .sort((a, b) => b.score - a.score || a.file.content.length - b.file.content.length)
+      .map(({ file, imported }) => ({ file, imported }));
+  }
+
+  private findImports(code: string): string[] {
+    return parseLeo(code).ast.imports.map(declaration => declaration.name.name.toLowerCase());
+  }
+
+  private describeLastBuild(projectId: string): string | null {
+    const result = LeoCompilationService.getLastResult(projectId);
+    if (!result) return null;
+
+    if (result.success && result.warnings.length === 0) {
+      return `Build succeeded at ${result.timestamp.toLocaleTimeString()}.`;
+    }
+
+    const lines = [
+      `Build ${result.success ? 'succeeded with warnings' : 'failed'} at ${result.timestamp.toLocaleTimeString()}.`,
+      ...result.errors.slice(0, MAX_DIAGNOSTICS).map(error =>
+        `error[${error.code}] ${error.file}:${error.line}:${error.column} ${error.message}`
+      ),
+      ...result.warnings.slice(0, MAX_DIAGNOSTICS).map(warning =>
+        `warning[${warning.code}] ${warning.file}:${warning.line}:${warning.column} ${warning.message}`
+      )
+    ];
+    return lines.join('\n');
+  }
+
+  private describeAnalysis(files: LeoFile[], config: LintConfig): string | null {
+    const lines: string[] = [];
+    for (const file of files) {
+      const analysis = CodeAnalysisService.analyzeStatic(file.content, file.name, config);
+      for (const issue of analysis.issues) {
+        lines.push(`${issue.severity} ${this.normalizePath(file.path)}:${issue.line} ${issue.message}`);
+      }
+    }
+    return lines.length > 0 ? lines.slice(0, MAX_DIAGNOSTICS).join('\n') : null;
+  }
+
+  private renderSection(candidate: ContextCandidate, body: string): string {
+    const fence = candidate.language ? `\`\`\`${candidate.language}` : '```';
+    return `### ${candidate.label}\n${fence}\n${body}\n\`\`\``;
+  }
+
+  private truncate(candidate: ContextCandidate, tokens: number): string {
+    const overhead = this.renderSection(candidate, '').length + 40;
+    const maxChars = Math.max(0, tokens * CHARS_PER_TOKEN - overhead);
+    const cut = candidate.body.lastIndexOf('\n', maxChars);
+    return `${candidate.body.slice(0, cut > 0 ? cut : maxChars)}\n// ... truncated to fit the context budget`;
+  }
+
+  private normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+export default ProjectContextService.getInstance();
\ No newline at end of file
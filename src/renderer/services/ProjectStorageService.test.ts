@@ -0,0 +1,161 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LeoProject } from '../types';
+import { makeFile, makeProject } from '../utils/testFixtures';
+
+type Storage = typeof import('./ProjectStorageService').default;
+
+// localStorage as it was left by versions before IndexedDB: entries are own enumerable keys
+function legacyStorage(entries: Record<string, string>) {
+  const storage = { ...entries };
+  return Object.defineProperties(storage, {
+    getItem: { value: (key: string) => storage[key] ?? null },
+    removeItem: { value: (key: string) => delete storage[key] }
+  });
+}
+
+// A fresh service instance over `database`, as after restarting the app
+async function openStorage(database = new IDBFactory(), legacy: Record<string, string> = {}): Promise<Storage> {
+  vi.resetModules();
+  vi.stubGlobal('indexedDB', database);
+  vi.stubGlobal('localStorage', legacyStorage(legacy));
+  vi.stubGlobal('navigator', {});
+  return (await import('./ProjectStorageService')).default;
+}
+
+const project = (overrides: Partial<LeoProject> = {}) => makeProject([
+  makeFile('main', 'src/main.leo', 'program token.aleo {}\n'),
+  makeFile('readme', 'README.md', '# Token\n'),
+  makeFile('manifest', 'program.json', '{}\n')
+], { createdAt: new Date('2024-01-02T03:04:05Z'), updatedAt: new Date('2024-01-02T03:04:05Z'), ...overrides });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('ProjectStorageService.saveProject', () => {
+  it('stores projects with their files in order and their dates', async () => {
+    const database = new IDBFactory();
+    await (await openStorage(database)).saveProject(project());
+
+    const loaded = await (await openStorage(database)).loadProject('project_1');
+    expect(loaded?.files.map(file => file.id)).toEqual(['main', 'readme', 'manifest']);
+    expect(loaded?.createdAt).toEqual(new Date('2024-01-02T03:04:05Z'));
+    expect(loaded?.updatedAt).toBeInstanceOf(Date);
+  });
+
+  it('writes only changed files and deletes removed ones', async () => {
+    const database = new IDBFactory();
+    const storage = await openStorage(database);
+    await storage.saveProject(project());
+
+    const writtenFiles: string[] = [];
+    const put = IDBObjectStore.prototype.put;
+    vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(function (this: IDBObjectStore, value: { id: string }, key?: IDBValidKey) {
+      if (this.name === 'files') writtenFiles.push(value.id);
+      return put.call(this, value, key);
+    });
+    const [main, , manifest] = project().files;
+    await storage.saveProject(makeProject([{ ...main, content: 'program coin.aleo {}\n' }, manifest]));
+
+    expect(writtenFiles).toEqual(['main']);
+
+    const loaded = await (await openStorage(database)).loadProject('project_1');
+    expect(loaded?.files.map(file => [file.id, file.content])).toEqual([
+      ['main', 'program coin.aleo {}\n'],
+      ['manifest', '{}\n']
+    ]);
+  });
+
+  it('deletes a project with its files and history', async () => {
+    const database = new IDBFactory();
+    const storage = await openStorage(database);
+    await storage.saveProject(project());
+    await storage.saveProjectHistory('project_1', { entries: [] });
+
+    expect(await storage.deleteProject('project_1')).toBe(true);
+
+    const reopened = await openStorage(database);
+    expect(await reopened.loadProject('project_1')).toBeNull();
+    expect(await reopened.loadProjectHistory('project_1')).toBeNull();
+    expect(await reopened.getAllProjectsMetadata()).toEqual([]);
+  });
+});
+
+describe('ProjectStorageService localStorage migration', () => {
+  const legacyProject = JSON.stringify({
+    ...project(),
+    createdAt: '2023-05-06T07:08:09.000Z',
+    updatedAt: '2023-05-06T07:08:09.000Z',
+    chatHistory: [{ id: 'm1', content: 'hi', sender: 'user', timestamp: '2023-05-06T07:08:10.000Z' }]
+  });
+
+  it('moves projects and histories to IndexedDB and removes them from localStorage', async () => {
+    const legacy = {
+      leoforge_project_project_1: legacyProject,
+      leoforge_history_project_1: JSON.stringify({ entries: ['first'] }),
+      leoforge_projects_metadata: '[]',
+      unrelated_key: 'kept'
+    };
+    const storage = await openStorage(new IDBFactory(), legacy);
+
+    const loaded = await storage.loadProject('project_1');
+    expect(loaded?.createdAt).toEqual(new Date('2023-05-06T07:08:09.000Z'));
+    expect(loaded?.chatHistory[0].timestamp).toEqual(new Date('2023-05-06T07:08:10.000Z'));
+    expect(loaded?.files).toHaveLength(3);
+    expect(await storage.loadProjectHistory('project_1')).toEqual({ entries: ['first'] });
+    expect(Object.keys(localStorage)).toEqual(['unrelated_key']);
+  });
+
+  it('leaves entries that cannot be read in localStorage and runs only once', async () => {
+    const database = new IDBFactory();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const storage = await openStorage(database, {
+      leoforge_project_broken: '{"name": "no id or files"}',
+      leoforge_project_project_1: legacyProject
+    });
+
+    expect(await storage.getAllProjectsMetadata()).toMatchObject([{ id: 'project_1' }]);
+    expect(Object.keys(localStorage)).toEqual(['leoforge_project_broken']);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    // The broken entry is not retried on the next start
+    await (await openStorage(database, { leoforge_project_broken: '{}' })).getAllProjectsMetadata();
+    expect(Object.keys(localStorage)).toEqual(['leoforge_project_broken']);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ProjectStorageService export and import', () => {
+  it('round-trips dates through an exported backup', async () => {
+    const storage = await openStorage();
+    await storage.saveProject(project({ chatHistory: [{ id: 'm1', content: 'hi', sender: 'user', timestamp: new Date('2024-02-03T00:00:00Z') }] }));
+
+    const backup = await storage.exportProjectData('project_1');
+    expect(JSON.parse(backup).createdAt).toEqual({ __type: 'Date', value: '2024-01-02T03:04:05.000Z' });
+
+    const imported = await storage.importProjectData(backup);
+    expect(imported.id).not.toBe('project_1');
+    expect(imported.name).toBe('token (Imported)');
+    expect(imported.createdAt).toEqual(new Date('2024-01-02T03:04:05Z'));
+    expect(imported.chatHistory[0].timestamp).toEqual(new Date('2024-02-03T00:00:00Z'));
+  });
+
+  it('upgrades backups made before schema versions existed', async () => {
+    const storage = await openStorage();
+    const imported = await storage.importProjectData(JSON.stringify({ ...project(), createdAt: '2023-01-01T00:00:00.000Z' }));
+
+    expect(imported.id).toBe('project_1');
+    expect(imported.createdAt).toEqual(new Date('2023-01-01T00:00:00.000Z'));
+  });
+
+  it('rejects backups that are not projects', async () => {
+    const storage = await openStorage();
+
+    await expect(storage.importProjectData('[1, 2]')).rejects.toThrow('Failed to import project: Invalid project data structure');
+    await expect(storage.importProjectData('{"id": "p", "name": "", "files": []}')).rejects.toThrow('Invalid project data structure');
+    await expect(storage.importProjectData('not json')).rejects.toThrow('Failed to import project');
+  });
+});
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { LeoProject, LeoFile } from '../types';
+import { LeoProject, LeoFile, ProjectCheckpoint } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb';
 
 export interface ProjectMetadata {
   id: string;
@@ -9,19 +10,77 @@ export interface ProjectMetadata {
   lastAccessedAt: Date;
   fileCount: number;
   size: number; // in bytes
+  parentProjectId?: string; // set for branches forked from another project
 }
 
 export interface StorageStats {
   totalProjects: number;
   totalSize: number;
   lastCleanup: Date;
+  usage?: number; // bytes used by the app's storage, when the browser reports it
+  quota?: number; // bytes the app may use
 }
 
+// A project without its files, which are stored one record each
+interface StoredProject extends Omit<LeoProject, 'files'> {
+  schemaVersion: number;
+  fileIds: string[]; // keeps the file order
+}
+
+interface StoredFile extends LeoFile {
+  projectId: string;
+}
+
+const DB_NAME = 'leoforge';
+const DB_VERSION = 1;
+const STORES = {
+  projects: 'projects',
+  files: 'files',
+  metadata: 'metadata',
+  history: 'history',
+  checkpoints: 'checkpoints',
+  settings: 'settings'
+} as const;
+
+/**
+ * Current shape of a stored LeoProject. Bump it together with a new entry in
+ * PROJECT_MIGRATIONS whenever the shape changes.
+ */
+const PROJECT_SCHEMA_VERSION = 2;
+
+type StoredRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is StoredRecord => typeof value === 'object' && value !== null;
+const toDate = (value: unknown): Date => (value instanceof Date ? value : new Date(value as string));
+const toArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// Migrations from each schema version to the next, applied when a project is loaded
+const PROJECT_MIGRATIONS: Record<number, (project: StoredRecord) => StoredRecord> = {
+  // 1: projects kept in localStorage, which lost their dates to plain strings
+  1: project => ({
+    ...project,
+    files: toArray(project.files),
+    createdAt: toDate(project.createdAt),
+    updatedAt: toDate(project.updatedAt),
+    chatHistory: toArray(project.chatHistory).map(message =>
+      isRecord(message) ? { ...message, timestamp: toDate(message.timestamp) } : message
+    )
+  })
+};
+
+const LEGACY_KEYS = {
+  projectPrefix: 'leoforge_project_',
+  historyPrefix: 'leoforge_history_',
+  checkpointPrefix: 'leoforge_checkpoints_',
+  metadata: 'leoforge_projects_metadata',
+  stats: 'leoforge_storage_stats'
+};
+
 class ProjectStorageService {
   private static instance: ProjectStorageService;
-  private readonly STORAGE_PREFIX = 'leoforge_project_';
-  private readonly METADATA_KEY = 'leoforge_projects_metadata';
-  private readonly STATS_KEY = 'leoforge_storage_stats';
+  private database: Promise<IDBDatabase> | null = null;
+  // Files as last written, per project, so saves only write what changed
+  private savedFiles: Map<string, Map<string, LeoFile>> = new Map();
 
   private constructor() {}
 
@@ -33,7 +92,7 @@ class ProjectStorageService {
   }
 
   /**
-   * Save a project to local storage
+   * Save a project, writing only the files that changed since the last save
    */
   async saveProject(project: LeoProject): Promise<void> {
     try {
@@ -43,18 +102,30 @@ class ProjectStorageService {
         updatedAt: new Date()
       };
 
-      // Save project data
-      const projectKey = this.getProjectKey(project.id);
-      const projectData = JSON.stringify(updatedProject, this.dateReplacer);
-      localStorage.setItem(projectKey, projectData);
+      const db = await this.getDatabase();
+      const saved = this.savedFiles.get(project.id) ?? await this.readFiles(db, project.id);
+
+      const transaction = db.transaction([STORES.projects, STORES.files, STORES.metadata], 'readwrite');
+      const { files, ...rest } = updatedProject;
+      const stored: StoredProject = { ...rest, schemaVersion: PROJECT_SCHEMA_VERSION, fileIds: files.map(file => file.id) };
+      transaction.objectStore(STORES.projects).put(stored);
 
-      // Update metadata
-      await this.updateProjectMetadata(updatedProject);
-      
-      // Update storage stats
-      await this.updateStorageStats();
+      const fileStore = transaction.objectStore(STORES.files);
+      for (const file of files) {
+        if (!this.isSameFile(saved.get(file.id), file)) {
+          fileStore.put({ ...file, projectId: project.id } as StoredFile);
+        }
+      }
+      for (const fileId of saved.keys()) {
+        if (!files.some(file => file.id === fileId)) {
+          fileStore.delete([project.id, fileId]);
+        }
+      }
+
+      transaction.objectStore(STORES.metadata).put(this.toMetadata(updatedProject));
+      await transactionDone(transaction);
 
-      console.log(`Project ${project.name} saved successfully`);
+      this.savedFiles.set(project.id, new Map(files.map(file => [file.id, file])));
     } catch (error) {
       console.error('Failed to save project:', error);
       throw new Error(`Failed to save project: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -62,22 +133,31 @@ class ProjectStorageService {
   }
 
   /**
-   * Load a project from local storage
+   * Load a project, upgrading it to the current schema if it was saved by an older version
    */
   async loadProject(projectId: string): Promise<LeoProject | null> {
     try {
-      const projectKey = this.getProjectKey(projectId);
-      const projectData = localStorage.getItem(projectKey);
-      
-      if (!projectData) {
+      const db = await this.getDatabase();
+      const stored = await requestToPromise<StoredProject | undefined>(
+        db.transaction(STORES.projects).objectStore(STORES.projects).get(projectId)
+      );
+      if (!stored) {
         return null;
       }
 
-      const project = JSON.parse(projectData, this.dateReviver) as LeoProject;
-      
+      const saved = await this.readFiles(db, projectId);
+      const { schemaVersion, fileIds, ...rest } = stored;
+      const files = fileIds.map(id => saved.get(id)).filter((file): file is LeoFile => !!file);
+      let project = { ...rest, files } as LeoProject;
+
+      if (schemaVersion < PROJECT_SCHEMA_VERSION) {
+        project = this.migrateProject(project, schemaVersion);
+        await this.saveProject(project);
+      }
+
       // Update last accessed time
       await this.updateLastAccessed(projectId);
-      
+
       return project;
     } catch (error) {
       console.error('Failed to load project:', error);
@@ -90,12 +170,10 @@ class ProjectStorageService {
    */
   async getAllProjectsMetadata(): Promise<ProjectMetadata[]> {
     try {
-      const metadataJson = localStorage.getItem(this.METADATA_KEY);
-      if (!metadataJson) {
-        return [];
-      }
-
-      const metadata = JSON.parse(metadataJson, this.dateReviver) as ProjectMetadata[];
+      const db = await this.getDatabase();
+      const metadata = await requestToPromise<ProjectMetadata[]>(
+        db.transaction(STORES.metadata).objectStore(STORES.metadata).getAll()
+      );
       return metadata.sort((a, b) => b.lastAccessedAt.getTime() - a.lastAccessedAt.getTime());
     } catch (error) {
       console.error('Failed to load projects metadata:', error);
@@ -104,26 +182,32 @@ class ProjectStorageService {
   }
 
   /**
-   * Delete a project from local storage
+   * Delete a project with its files, history and checkpoints
    */
   async deleteProject(projectId: string): Promise<boolean> {
     try {
-      const projectKey = this.getProjectKey(projectId);
-      
-      // Check if project exists
-      if (!localStorage.getItem(projectKey)) {
+      if (!(await this.projectExists(projectId))) {
         return false;
       }
 
-      // Remove project data
-      localStorage.removeItem(projectKey);
-
-      // Remove from metadata
-      await this.removeProjectMetadata(projectId);
-      
-      // Update storage stats
-      await this.updateStorageStats();
+      const db = await this.getDatabase();
+      const stores = [STORES.projects, STORES.files, STORES.metadata, STORES.history, STORES.checkpoints];
+      const transaction = db.transaction(stores, 'readwrite');
+      transaction.objectStore(STORES.projects).delete(projectId);
+      transaction.objectStore(STORES.metadata).delete(projectId);
+      transaction.objectStore(STORES.history).delete(projectId);
+      transaction.objectStore(STORES.files).delete(this.projectKeyRange(projectId));
+      const checkpointIndex = transaction.objectStore(STORES.checkpoints).index('projectId');
+      checkpointIndex.openKeyCursor(IDBKeyRange.only(projectId)).onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+        if (cursor) {
+          transaction.objectStore(STORES.checkpoints).delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+      await transactionDone(transaction);
 
+      this.savedFiles.delete(projectId);
       console.log(`Project ${projectId} deleted successfully`);
       return true;
     } catch (error) {
@@ -132,31 +216,109 @@ class ProjectStorageService {
     }
   }
 
+  /**
+   * Save a project's edit history next to the project
+   */
+  async saveProjectHistory(projectId: string, history: unknown): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      const transaction = db.transaction(STORES.history, 'readwrite');
+      transaction.objectStore(STORES.history).put(history, projectId);
+      await transactionDone(transaction);
+    } catch (error) {
+      throw new Error(`Failed to save project history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load a project's edit history, or null if none was saved
+   */
+  async loadProjectHistory<T>(projectId: string): Promise<T | null> {
+    try {
+      const db = await this.getDatabase();
+      const history = await requestToPromise<T | undefined>(
+        db.transaction(STORES.history).objectStore(STORES.history).get(projectId)
+      );
+      return history ?? null;
+    } catch (error) {
+      throw new Error(`Failed to load project history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Add a checkpoint to its project's list of checkpoints
+   */
+  async saveCheckpoint(checkpoint: ProjectCheckpoint): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      const transaction = db.transaction(STORES.checkpoints, 'readwrite');
+      transaction.objectStore(STORES.checkpoints).put(checkpoint);
+      await transactionDone(transaction);
+    } catch (error) {
+      throw new Error(`Failed to save checkpoint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * A project's checkpoints, oldest first
+   */
+  async getCheckpoints(projectId: string): Promise<ProjectCheckpoint[]> {
+    try {
+      const db = await this.getDatabase();
+      const checkpoints = await requestToPromise<ProjectCheckpoint[]>(
+        db.transaction(STORES.checkpoints).objectStore(STORES.checkpoints).index('projectId').getAll(projectId)
+      );
+      return checkpoints.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      throw new Error(`Failed to load checkpoints: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async deleteCheckpoint(projectId: string, checkpointId: string): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      const transaction = db.transaction(STORES.checkpoints, 'readwrite');
+      const store = transaction.objectStore(STORES.checkpoints);
+      const checkpoint = await requestToPromise<ProjectCheckpoint | undefined>(store.get(checkpointId));
+      if (checkpoint?.projectId === projectId) {
+        store.delete(checkpointId);
+      }
+      await transactionDone(transaction);
+    } catch (error) {
+      throw new Error(`Failed to delete checkpoint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Check if a project exists in storage
    */
   async projectExists(projectId: string): Promise<boolean> {
-    const projectKey = this.getProjectKey(projectId);
-    return localStorage.getItem(projectKey) !== null;
+    const db = await this.getDatabase();
+    const count = await requestToPromise(
+      db.transaction(STORES.projects).objectStore(STORES.projects).count(projectId)
+    );
+    return count > 0;
   }
 
   /**
-   * Get storage statistics
+   * Get storage statistics, including how much of the browser's quota is used
    */
   async getStorageStats(): Promise<StorageStats> {
     try {
-      const statsJson = localStorage.getItem(this.STATS_KEY);
-      if (!statsJson) {
-        const defaultStats: StorageStats = {
-          totalProjects: 0,
-          totalSize: 0,
-          lastCleanup: new Date()
-        };
-        await this.saveStorageStats(defaultStats);
-        return defaultStats;
-      }
+      const metadata = await this.getAllProjectsMetadata();
+      const db = await this.getDatabase();
+      const lastCleanup = await requestToPromise<Date | undefined>(
+        db.transaction(STORES.settings).objectStore(STORES.settings).get('lastCleanup')
+      );
+      const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
 
-      return JSON.parse(statsJson, this.dateReviver) as StorageStats;
+      return {
+        totalProjects: metadata.length,
+        totalSize: metadata.reduce((total, meta) => total + meta.size, 0),
+        lastCleanup: lastCleanup ?? new Date(),
+        usage: estimate.usage,
+        quota: estimate.quota
+      };
     } catch (error) {
       console.error('Failed to load storage stats:', error);
       return {
@@ -176,7 +338,7 @@ class ProjectStorageService {
 
     try {
       const metadata = await this.getAllProjectsMetadata();
-      
+
       for (const meta of metadata) {
         try {
           const project = await this.loadProject(meta.id);
@@ -194,9 +356,7 @@ class ProjectStorageService {
       }
 
       // Update cleanup timestamp
-      const stats = await this.getStorageStats();
-      stats.lastCleanup = new Date();
-      await this.saveStorageStats(stats);
+      await this.saveSetting('lastCleanup', new Date());
 
       console.log(`Storage cleanup completed: ${cleaned} items cleaned, ${errors.length} errors`);
       return { cleaned, errors };
@@ -215,7 +375,7 @@ class ProjectStorageService {
       throw new Error('Project not found');
     }
 
-    return JSON.stringify(project, this.dateReplacer, 2);
+    return JSON.stringify({ ...project, schemaVersion: PROJECT_SCHEMA_VERSION }, this.dateReplacer, 2);
   }
 
   /**
@@ -223,12 +383,8 @@ class ProjectStorageService {
    */
   async importProjectData(projectData: string): Promise<LeoProject> {
     try {
-      const project = JSON.parse(projectData, this.dateReviver) as LeoProject;
-      
-      // Validate project structure
-      if (!project.id || !project.name || !Array.isArray(project.files)) {
-        throw new Error('Invalid project data structure');
-      }
+      const { schemaVersion = 1, ...data } = JSON.parse(projectData, this.dateReviver);
+      const project = this.migrateProject(data, schemaVersion);
 
       // Generate new ID if project already exists
       if (await this.projectExists(project.id)) {
@@ -245,19 +401,119 @@ class ProjectStorageService {
 
   // Private helper methods
 
-  private getProjectKey(projectId: string): string {
-    return `${this.STORAGE_PREFIX}${projectId}`;
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+        if (oldVersion < 1) {
+          db.createObjectStore(STORES.projects, { keyPath: 'id' });
+          db.createObjectStore(STORES.files, { keyPath: ['projectId', 'id'] });
+          db.createObjectStore(STORES.metadata, { keyPath: 'id' });
+          db.createObjectStore(STORES.history);
+          db.createObjectStore(STORES.checkpoints, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+          db.createObjectStore(STORES.settings);
+        }
+      }).then(async db => {
+        // Ask the browser not to evict the projects when disk space runs low
+        navigator.storage?.persist?.().catch(() => undefined);
+        await this.migrateFromLocalStorage(db);
+        return db;
+      });
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * One-time move of projects, histories and checkpoints saved by versions that used localStorage
+   */
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const done = await requestToPromise(db.transaction(STORES.settings).objectStore(STORES.settings).get('migratedFromLocalStorage'));
+    if (done) return;
+
+    const keys = Object.keys(localStorage).filter(key => key.startsWith('leoforge_'));
+    const read = (key: string): unknown => JSON.parse(localStorage.getItem(key)!, this.dateReviver);
+    const migratedKeys: string[] = [];
+
+    const transaction = db.transaction(Object.values(STORES), 'readwrite');
+    for (const key of keys) {
+      try {
+        if (key.startsWith(LEGACY_KEYS.projectPrefix)) {
+          const project = this.migrateProject(read(key), 1);
+          const { files, ...rest } = project;
+          const stored: StoredProject = { ...rest, schemaVersion: PROJECT_SCHEMA_VERSION, fileIds: files.map(file => file.id) };
+          transaction.objectStore(STORES.projects).put(stored);
+          files.forEach(file => transaction.objectStore(STORES.files).put({ ...file, projectId: project.id } as StoredFile));
+          transaction.objectStore(STORES.metadata).put({ ...this.toMetadata(project), lastAccessedAt: project.updatedAt });
+        } else if (key.startsWith(LEGACY_KEYS.historyPrefix)) {
+          transaction.objectStore(STORES.history).put(read(key), key.slice(LEGACY_KEYS.historyPrefix.length));
+        } else if (key.startsWith(LEGACY_KEYS.checkpointPrefix)) {
+          (read(key) as ProjectCheckpoint[]).forEach(checkpoint => transaction.objectStore(STORES.checkpoints).put(checkpoint));
+        } else if (key !== LEGACY_KEYS.metadata && key !== LEGACY_KEYS.stats) {
+          continue;
+        }
+        migratedKeys.push(key);
+      } catch (error) {
+        console.warn(`Failed to migrate ${key} from localStorage:`, error);
+      }
+    }
+    transaction.objectStore(STORES.settings).put(true, 'migratedFromLocalStorage');
+    await transactionDone(transaction);
+
+    // Only once everything is committed
+    migratedKeys.forEach(key => localStorage.removeItem(key));
+    if (migratedKeys.length > 0) {
+      console.log(`Moved ${migratedKeys.length} items from localStorage to IndexedDB`);
+    }
+  }
+
+  private migrateProject(project: unknown, fromVersion: number): LeoProject {
+    if (!isRecord(project)) {
+      throw new Error('Invalid project data structure');
+    }
+
+    let migrated = project;
+    for (let version = fromVersion; version < PROJECT_SCHEMA_VERSION; version++) {
+      migrated = PROJECT_MIGRATIONS[version](migrated);
+    }
+    const hasText = (value: unknown) => typeof value === 'string' && value.length > 0;
+    if (!hasText(migrated.id) || !hasText(migrated.name) || !Array.isArray(migrated.files)) {
+      throw new Error('Invalid project data structure');
+    }
+    return migrated as unknown as LeoProject;
+  }
+
+  private async readFiles(db: IDBDatabase, projectId: string): Promise<Map<string, LeoFile>> {
+    const stored = await requestToPromise<StoredFile[]>(
+      db.transaction(STORES.files).objectStore(STORES.files).getAll(this.projectKeyRange(projectId))
+    );
+    const files = new Map(stored.map(({ projectId: _, ...file }) => [file.id, file as LeoFile]));
+    this.savedFiles.set(projectId, files);
+    return files;
+  }
+
+  // Every file key [projectId, fileId] of a project
+  private projectKeyRange(projectId: string): IDBKeyRange {
+    return IDBKeyRange.bound([projectId], [projectId, []]);
+  }
+
+  private isSameFile(saved: LeoFile | undefined, file: LeoFile): boolean {
+    return !!saved && (saved === file || (
+      saved.content === file.content &&
+      saved.path === file.path &&
+      saved.name === file.name &&
+      saved.type === file.type &&
+      saved.isModified === file.isModified
+    ));
   }
 
   private generateProjectId(): string {
     return `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private async updateProjectMetadata(project: LeoProject): Promise<void> {
-    const metadata = await this.getAllProjectsMetadata();
-    const existingIndex = metadata.findIndex(m => m.id === project.id);
-    
-    const projectMetadata: ProjectMetadata = {
+  private toMetadata(project: LeoProject): ProjectMetadata {
+    return {
       id: project.id,
       name: project.name,
       description: project.description,
@@ -265,47 +521,35 @@ class ProjectStorageService {
       updatedAt: project.updatedAt,
       lastAccessedAt: new Date(),
       fileCount: project.files.length,
-      size: this.calculateProjectSize(project)
+      size: this.calculateProjectSize(project),
+      parentProjectId: project.branch?.parentProjectId
     };
-
-    if (existingIndex >= 0) {
-      metadata[existingIndex] = projectMetadata;
-    } else {
-      metadata.push(projectMetadata);
-    }
-
-    localStorage.setItem(this.METADATA_KEY, JSON.stringify(metadata, this.dateReplacer));
   }
 
   private async removeProjectMetadata(projectId: string): Promise<void> {
-    const metadata = await this.getAllProjectsMetadata();
-    const filteredMetadata = metadata.filter(m => m.id !== projectId);
-    localStorage.setItem(this.METADATA_KEY, JSON.stringify(filteredMetadata, this.dateReplacer));
+    const db = await this.getDatabase();
+    const transaction = db.transaction(STORES.metadata, 'readwrite');
+    transaction.objectStore(STORES.metadata).delete(projectId);
+    await transactionDone(transaction);
   }
 
   private async updateLastAccessed(projectId: string): Promise<void> {
-    const metadata = await this.getAllProjectsMetadata();
-    const projectMeta = metadata.find(m => m.id === projectId);
-    
+    const db = await this.getDatabase();
+    const transaction = db.transaction(STORES.metadata, 'readwrite');
+    const store = transaction.objectStore(STORES.metadata);
+    const projectMeta = await requestToPromise<ProjectMetadata | undefined>(store.get(projectId));
+
     if (projectMeta) {
-      projectMeta.lastAccessedAt = new Date();
-      localStorage.setItem(this.METADATA_KEY, JSON.stringify(metadata, this.dateReplacer));
+      store.put({ ...projectMeta, lastAccessedAt: new Date() });
     }
+    await transactionDone(transaction);
   }
 
-  private async updateStorageStats(): Promise<void> {
-    const metadata = await this.getAllProjectsMetadata();
-    const stats: StorageStats = {
-      totalProjects: metadata.length,
-      totalSize: metadata.reduce((total, meta) => total + meta.size, 0),
-      lastCleanup: (await this.getStorageStats()).lastCleanup
-    };
-
-    await this.saveStorageStats(stats);
-  }
-
-  private async saveStorageStats(stats: StorageStats): Promise<void> {
-    localStorage.setItem(this.STATS_KEY, JSON.stringify(stats, this.dateReplacer));
+  private async saveSetting(key: string, value: unknown): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(STORES.settings, 'readwrite');
+    transaction.objectStore(STORES.settings).put(value, key);
+    await transactionDone(transaction);
   }
 
   private calculateProjectSize(project: LeoProject): number {
@@ -313,19 +557,24 @@ class ProjectStorageService {
     return new Blob([projectJson]).size;
   }
 
-  private dateReplacer(key: string, value: any): any {
+  private dateReplacer(this: unknown, key: string, value: unknown): unknown {
+    // Date#toJSON has already turned `value` into a string; the holder still has the Date
+    const original = isRecord(this) ? this[key] : undefined;
+    if (original instanceof Date) {
+      return { __type: 'Date', value: original.toISOString() };
+    }
     if (value instanceof Date) {
       return { __type: 'Date', value: value.toISOString() };
     }
     return value;
   }
 
-  private dateReviver(key: string, value: any): any {
-    if (value && typeof value === 'object' && value.__type === 'Date') {
+  private dateReviver(key: string, value: unknown): unknown {
+    if (isRecord(value) && value.__type === 'Date' && typeof value.value === 'string') {
       return new Date(value.value);
     }
     return value;
   }
 }
 
-export default ProjectStorageService.getInstance();
\ No newline at end of file
+export default ProjectStorageService.getInstance();
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LeoProject } from '../types';
+import { makeFile, makeProject } from '../utils/testFixtures';
+import type { RecoveryEntry } from './RecoveryService';
+
+vi.mock('./ProjectStorageService', () => ({
+  default: { loadProject: vi.fn(), saveProject: vi.fn() }
+}));
+
+const recovery = {
+  write: vi.fn(async (_projectId: string, _entries: RecoveryEntry[]) => undefined),
+  list: vi.fn(async (): Promise<RecoveryEntry[]> => []),
+  discard: vi.fn(async (_projectId: string, _fileIds?: string[]) => undefined)
+};
+
+// A fresh service with nothing tracked yet, as after a restart
+async function load() {
+  vi.resetModules();
+  const storage = (await import('./ProjectStorageService')).default as unknown as {
+    loadProject: ReturnType<typeof vi.fn>;
+    saveProject: ReturnType<typeof vi.fn>;
+  };
+  return { service: (await import('./RecoveryService')).default, storage };
+}
+
+const saved = makeProject([
+  makeFile('main', 'src/main.leo', 'program token.aleo {}\n'),
+  makeFile('readme', 'README.md', '# Token\n')
+]);
+
+// The saved project with some files edited and not saved
+const edited = (contents: Record<string, string>): LeoProject => ({
+  ...saved,
+  files: saved.files.map(file => (file.id in contents ? { ...file, content: contents[file.id], isModified: true } : file))
+});
+
+const entry = (fileId: string, content: string, savedContent: string | null = null): RecoveryEntry => ({
+  projectId: 'project_1',
+  projectName: 'token',
+  fileId,
+  path: fileId === 'main' ? 'src/main.leo' : fileId === 'readme' ? 'README.md' : `src/${fileId}.leo`,
+  content,
+  savedContent,
+  journaledAt: '2024-01-01T00:00:00.000Z'
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('window', { electronAPI: { recovery } });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  vi.resetAllMocks();
+});
+
+describe('RecoveryService journaling', () => {
+  it('journals modified files against the content they had when last saved', async () => {
+    const { service } = await load();
+    service.track(saved);
+    service.track(edited({ main: 'program token.aleo { }\n' }));
+    await service.flush();
+
+    expect(recovery.write).toHaveBeenCalledTimes(1);
+    expect(recovery.write.mock.calls[0][1]).toMatchObject([
+      { fileId: 'main', content: 'program token.aleo { }\n', savedContent: 'program token.aleo {}\n' }
+    ]);
+  });
+
+  it('skips modified files edited back to their saved content, and unchanged journals', async () => {
+    const { service } = await load();
+    service.track(saved);
+    service.track(edited({ main: 'program token.aleo {}\n', readme: '# Coin\n' }));
+    await service.flush();
+    service.track(edited({ main: 'program token.aleo {}\n', readme: '# Coin\n' }));
+    await service.flush();
+
+    expect(recovery.write).toHaveBeenCalledTimes(1);
+    expect(recovery.write.mock.calls[0][1].map(e => e.fileId)).toEqual(['readme']);
+  });
+
+  it('journals on the autosave tick while the set of modified files stays the same', async () => {
+    const { service } = await load();
+    service.track(saved);
+    service.track(edited({ main: 'a' }));
+    service.track(edited({ main: 'ab' }));
+    await service.flush();
+    // The write started when main became modified picks up the latest buffer
+    expect(recovery.write).toHaveBeenCalledTimes(1);
+    expect(recovery.write.mock.calls[0][1]).toMatchObject([{ fileId: 'main', content: 'ab' }]);
+
+    service.track(edited({ main: 'abc' }));
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(recovery.write).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(recovery.write).toHaveBeenCalledTimes(2);
+    expect(recovery.write.mock.calls[1][1]).toMatchObject([{ fileId: 'main', content: 'abc' }]);
+  });
+});
+
+describe('RecoveryService.getRecoverableFiles', () => {
+  it('offers buffers that differ from the saved files and drops the others', async () => {
+    const { service, storage } = await load();
+    storage.loadProject.mockImplementation(async (id: string) => (id === 'project_1' ? saved : null));
+    recovery.list.mockResolvedValue([
+      entry('main', 'program token.aleo { }\n', 'program token.aleo {}\n'),
+      entry('readme', '# Token\n', '# Token\n'),
+      entry('gone', 'program gone.aleo {}\n', 'program gone.aleo { }\n'),
+      { ...entry('main', 'x'), projectId: 'deleted_project' }
+    ]);
+
+    expect(await service.getRecoverableFiles()).toEqual([
+      { entry: entry('main', 'program token.aleo { }\n', 'program token.aleo {}\n'), savedContent: 'program token.aleo {}\n', inProject: true },
+      { entry: entry('gone', 'program gone.aleo {}\n', 'program gone.aleo { }\n'), savedContent: null, inProject: false }
+    ]);
+    expect(recovery.discard.mock.calls).toEqual([
+      ['project_1', ['readme']],
+      ['deleted_project', undefined]
+    ]);
+  });
+
+  it('offers nothing when the journal cannot be read', async () => {
+    const { service } = await load();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    recovery.list.mockRejectedValue(new Error('disk full'));
+
+    expect(await service.getRecoverableFiles()).toEqual([]);
+  });
+});
+
+describe('RecoveryService restore and discard', () => {
+  const recoverable = [
+    { entry: entry('main', 'program token.aleo { }\n'), savedContent: 'program token.aleo {}\n', inProject: true },
+    { entry: entry('gone', 'program gone.aleo {}\n'), savedContent: null, inProject: false }
+  ];
+
+  it('puts buffers back as unsaved edits, bringing back deleted files', async () => {
+    const { service, storage } = await load();
+    storage.loadProject.mockResolvedValue(saved);
+
+    const [restored] = await service.restore(recoverable);
+
+    expect(restored.files.map(file => [file.id, file.path, file.content, file.isModified])).toEqual([
+      ['main', 'src/main.leo', 'program token.aleo { }\n', true],
+      ['readme', 'README.md', '# Token\n', false],
+      ['gone', 'src/gone.leo', 'program gone.aleo {}\n', true]
+    ]);
+    expect(storage.saveProject).toHaveBeenCalledWith(restored);
+    expect(recovery.discard).toHaveBeenCalledWith('project_1', ['main', 'gone']);
+  });
+
+  it('reverts discarded files to their saved content and clears the journal', async () => {
+    const { service, storage } = await load();
+    storage.loadProject.mockResolvedValue(edited({ main: 'program token.aleo { }\n' }));
+
+    await service.discard(recoverable);
+
+    const [reverted] = storage.saveProject.mock.calls[0];
+    expect(reverted.files[0]).toMatchObject({ content: 'program token.aleo {}\n', isModified: false });
+    expect(recovery.discard).toHaveBeenCalledWith('project_1', ['main', 'gone']);
+  });
+});
\ No newline at end of file
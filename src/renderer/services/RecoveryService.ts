@@ -0,0 +1,254 @@
+import { LeoFile, LeoProject } from '../types';
+import type { RecoveryEntry } from '../../main/preload';
+import ProjectStorageService from './ProjectStorageService';
+import FileSystemService from './FileSystemService';
+
+export type { RecoveryEntry };
+
+// A journaled buffer that differs from the file as last saved
+export interface RecoverableFile {
+  entry: RecoveryEntry;
+  savedContent: string | null; // null when no saved version is known or the file is gone
+  inProject: boolean; // false when the file was deleted after the buffer was journaled
+}
+
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+/**
+ * Periodically copies unsaved editor buffers to the recovery journal in the main process,
+ * and offers them back after a crash or a forced quit.
+ *
+ * Every keystroke already reaches project storage, so "unsaved" is measured against the
+ * content of each file when it was last saved: its copy on disk for folder-linked projects,
+ * otherwise the content it had when last marked as saved.
+ */
+class RecoveryService {
+  private static instance: RecoveryService;
+  private pending: LeoProject | null = null;
+  // Saved content per project and file id
+  private baselines: Map<string, Map<string, string>> = new Map();
+  // What was last written for each project, to skip writing an unchanged journal
+  private written: Map<string, string> = new Map();
+  private modifiedIds: Map<string, string> = new Map();
+  // Journal writes run one after another so an older one never lands last
+  private writing: Promise<void> = Promise.resolve();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): RecoveryService {
+    if (!RecoveryService.instance) {
+      RecoveryService.instance = new RecoveryService();
+    }
+    return RecoveryService.instance;
+  }
+
+  /**
+   * Whether the main process journal is reachable
+   */
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && !!window.electronAPI?.recovery;
+  }
+
+  /**
+   * Note the project's current buffers; they are journaled on the next autosave tick
+   */
+  track(project: LeoProject): void {
+    if (!this.isAvailable()) return;
+    if (this.pending && this.pending.id !== project.id) {
+      // Switching projects: keep the previous one's buffers before moving on
+      this.flush();
+    }
+
+    const baselines = this.getBaselines(project.id);
+    project.files.filter(file => !file.isModified).forEach(file => baselines.set(file.id, file.content));
+
+    this.pending = project;
+    // A file becoming modified or saved is journaled right away, so the quit check in the main process is accurate
+    const modifiedIds = project.files.filter(file => file.isModified).map(file => file.id).join();
+    if (modifiedIds !== this.modifiedIds.get(project.id)) {
+      this.modifiedIds.set(project.id, modifiedIds);
+      this.flush();
+    }
+    if (!this.timer) {
+      this.timer = setInterval(() => this.flush(), AUTOSAVE_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Write the tracked project's unsaved files to the journal once earlier writes are done
+   */
+  flush(): Promise<void> {
+    this.writing = this.writing
+      .then(() => this.writeJournal())
+      .catch(error => console.error('Failed to write recovery journal:', error));
+    return this.writing;
+  }
+
+  /**
+   * Journaled buffers that still differ from their saved version.
+   * The others are dropped from the journal.
+   */
+  async getRecoverableFiles(): Promise<RecoverableFile[]> {
+    if (!this.isAvailable()) return [];
+
+    try {
+      const entries = await window.electronAPI.recovery.list();
+      const recoverable: RecoverableFile[] = [];
+
+      for (const projectId of new Set(entries.map(entry => entry.projectId))) {
+        const project = await ProjectStorageService.loadProject(projectId);
+        if (!project) {
+          await this.dropEntries(projectId);
+          continue;
+        }
+
+        const upToDate: string[] = [];
+        for (const entry of entries.filter(e => e.projectId === projectId)) {
+          const file = project.files.find(f => f.id === entry.fileId);
+          const savedContent = file ? await this.readSavedContent(project, file, entry.savedContent) : null;
+          if (savedContent === entry.content) {
+            upToDate.push(entry.fileId);
+            continue;
+          }
+          if (savedContent !== null) {
+            this.getBaselines(projectId).set(entry.fileId, savedContent);
+          }
+          recoverable.push({ entry, savedContent, inProject: !!file });
+        }
+        if (upToDate.length > 0) {
+          await this.dropEntries(projectId, upToDate);
+        }
+      }
+      return recoverable;
+    } catch (error) {
+      console.error('Failed to read recovery journal:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Put recovered buffers back into their projects as unsaved edits, returning the updated projects
+   */
+  async restore(files: RecoverableFile[]): Promise<LeoProject[]> {
+    const restored: LeoProject[] = [];
+
+    for (const projectId of new Set(files.map(file => file.entry.projectId))) {
+      const project = await ProjectStorageService.loadProject(projectId);
+      if (!project) continue;
+
+      const entries = files.filter(file => file.entry.projectId === projectId).map(file => file.entry);
+      const restoredFiles = project.files.map(file => {
+        const entry = entries.find(e => e.fileId === file.id);
+        return entry ? { ...file, content: entry.content, isModified: true } : file;
+      });
+      // Files deleted since the buffer was journaled come back
+      const readded = entries
+        .filter(entry => !project.files.some(file => file.id === entry.fileId))
+        .map((entry): LeoFile => ({
+          id: entry.fileId,
+          name: entry.path.split('/').pop() || entry.path,
+          path: entry.path,
+          content: entry.content,
+          type: this.getFileType(entry.path),
+          isModified: true
+        }));
+
+      const updatedProject = { ...project, files: [...restoredFiles, ...readded], updatedAt: new Date() };
+      await ProjectStorageService.saveProject(updatedProject);
+      restored.push(updatedProject);
+    }
+
+    await this.dropFiles(files);
+    return restored;
+  }
+
+  /**
+   * Throw away unsaved changes: files go back to their saved version and leave the journal
+   */
+  async discard(files: RecoverableFile[]): Promise<void> {
+    for (const projectId of new Set(files.map(file => file.entry.projectId))) {
+      const project = await ProjectStorageService.loadProject(projectId);
+      if (!project) continue;
+
+      const reverted = files.filter(file => file.entry.projectId === projectId && file.savedContent !== null);
+      const revertedFiles = project.files.map(file => {
+        const savedContent = reverted.find(r => r.entry.fileId === file.id)?.savedContent;
+        return savedContent != null ? { ...file, content: savedContent, isModified: false } : file;
+      });
+      if (reverted.length > 0) {
+        await ProjectStorageService.saveProject({ ...project, files: revertedFiles, updatedAt: new Date() });
+      }
+    }
+
+    await this.dropFiles(files);
+  }
+
+  // Private helper methods
+
+  private async writeJournal(): Promise<void> {
+    const project = this.pending;
+    if (!project) return;
+    this.pending = null;
+
+    const entries: RecoveryEntry[] = [];
+    for (const file of project.files.filter(f => f.isModified)) {
+      const savedContent = await this.readSavedContent(project, file, null);
+      if (savedContent === file.content) continue;
+      entries.push({
+        projectId: project.id,
+        projectName: project.name,
+        fileId: file.id,
+        path: file.path,
+        content: file.content,
+        savedContent,
+        journaledAt: new Date().toISOString()
+      });
+    }
+    const signature = JSON.stringify(entries.map(entry => [entry.fileId, entry.path, entry.content, entry.savedContent]));
+    if (this.written.get(project.id) === signature) return;
+
+    await window.electronAPI.recovery.write(project.id, entries);
+    this.written.set(project.id, signature);
+  }
+
+  // The file as last saved: on disk for linked projects, else the recorded baseline
+  private async readSavedContent(project: LeoProject, file: LeoFile, fallback: string | null): Promise<string | null> {
+    if (project.workspaceRoot && FileSystemService.isAvailable()) {
+      try {
+        return await FileSystemService.loadFile(project.workspaceRoot, file.path);
+      } catch {
+        // Not on disk yet, or the folder is gone
+      }
+    }
+    return this.baselines.get(project.id)?.get(file.id) ?? fallback;
+  }
+
+  private getBaselines(projectId: string): Map<string, string> {
+    let baselines = this.baselines.get(projectId);
+    if (!baselines) {
+      baselines = new Map();
+      this.baselines.set(projectId, baselines);
+    }
+    return baselines;
+  }
+
+  private async dropFiles(files: RecoverableFile[]): Promise<void> {
+    for (const projectId of new Set(files.map(file => file.entry.projectId))) {
+      const fileIds = files.filter(file => file.entry.projectId === projectId).map(file => file.entry.fileId);
+      await this.dropEntries(projectId, fileIds);
+    }
+  }
+
+  private async dropEntries(projectId: string, fileIds?: string[]): Promise<void> {
+    await window.electronAPI.recovery.discard(projectId, fileIds);
+    this.written.delete(projectId);
+  }
+
+  private getFileType(path: string): LeoFile['type'] {
+    const extension = path.split('.').pop();
+    return extension === 'md' || extension === 'json' || extension === 'in' ? extension : 'leo';
+  }
+}
+
+export default RecoveryService.getInstance();
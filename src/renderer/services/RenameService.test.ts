@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { makeFile, makeProject } from '../utils/testFixtures';
+import { LeoDocument } from './LeoLanguageService';
+import RenameService from './RenameService';
+
+const MAIN = `program token.aleo {
+    struct Point {
+        x: u8,
+        y: u8,
+    }
+
+    function make(x: u8) -> Point {
+        let y: u8 = x + 1u8;
+        return Point { x, y };
+    }
+
+    transition double(a: u8) -> u8 {
+        return a * 2u8;
+    }
+}
+`;
+
+const MANIFEST = '{\n  "program": "token.aleo",\n  "version": "0.1.0"\n}\n';
+
+const document = (content = MAIN): LeoDocument => {
+  const main = makeFile('main', 'src/main.leo', content);
+  const project = makeProject([main, makeFile('manifest', 'program.json', MANIFEST)]);
+  return { project, file: main, content };
+};
+
+// Plan the rename of the symbol at the first occurrence of `word` after `after`
+const plan = (word: string, newName: string, after = '', doc = document()) => {
+  const offset = doc.content.indexOf(word, doc.content.indexOf(after));
+  const { target, error } = RenameService.prepareRename(doc, offset);
+  if (!target) throw new Error(error);
+  return RenameService.planRename(doc, target, newName);
+};
+
+const contentOf = (changes: { fileId: string; newContent: string }[], fileId: string) =>
+  changes.find(change => change.fileId === fileId)?.newContent;
+
+describe('RenameService.planRename', () => {
+  it('renames a function parameter and its uses only', () => {
+    const { description, changes } = plan('a', 'amount', 'double(');
+
+    expect(description).toBe('Rename parameter a to amount');
+    expect(changes).toHaveLength(1);
+    expect(contentOf(changes, 'main')).toContain('transition double(amount: u8) -> u8 {\n        return amount * 2u8;');
+  });
+
+  it('spells out shorthand struct fields when renaming the variable', () => {
+    const { changes } = plan('y', 'next', 'let ');
+    const content = contentOf(changes, 'main');
+
+    expect(content).toContain('let next: u8 = x + 1u8;');
+    expect(content).toContain('return Point { x, y: next };');
+    expect(content).toContain('        y: u8,');
+  });
+
+  it('spells out shorthand struct fields when renaming the field', () => {
+    const { changes } = plan('x', 'left', 'struct');
+    const content = contentOf(changes, 'main');
+
+    expect(content).toContain('        left: u8,');
+    expect(content).toContain('return Point { left: x, y };');
+    expect(content).toContain('function make(x: u8) -> Point {');
+  });
+
+  it('renames the program in the manifest too', () => {
+    const { changes } = plan('token', 'coin');
+
+    expect(contentOf(changes, 'main')).toMatch(/^program coin\.aleo \{/);
+    expect(contentOf(changes, 'manifest')).toContain('"program": "coin.aleo"');
+  });
+
+  it('uses the editor text rather than the saved file', () => {
+    const edited = MAIN.replace('return a * 2u8;', 'let b: u8 = a;\n        return b;');
+    const { changes } = plan('a', 'amount', 'double(', document(edited));
+
+    expect(changes[0].oldContent).toBe(edited);
+    expect(changes[0].newContent).toContain('let b: u8 = amount;');
+  });
+
+  it('refuses invalid, reserved and colliding names', () => {
+    expect(() => plan('a', '2a', 'double(')).toThrow('"2a" is not a valid Leo identifier');
+    expect(() => plan('a', 'self', 'double(')).toThrow('"self" is a reserved name in Leo');
+    expect(() => plan('a', 'make', 'double(')).toThrow('"make" is already used in token.aleo');
+    expect(() => plan('y', 'x', 'let ')).toThrow('"x" is already used in function make');
+    expect(() => plan('x', 'y', 'struct')).toThrow('"y" is already used in struct Point');
+    expect(() => plan('token', 'credits')).toThrow('"credits" is already used in the standard programs');
+  });
+
+  it('only renames symbols declared in the project', () => {
+    const doc = document();
+    expect(RenameService.prepareRename(doc, doc.content.indexOf('u8'))).toEqual({
+      error: 'Only symbols declared in this project can be renamed'
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,211 @@
+import { CodeChange, LeoProject } from '../types';
+import { FunctionDeclaration, walk } from '../parser';
+import { BUILTIN_PROGRAMS, CORE_FUNCTIONS, GLOBAL_MEMBERS, KEYWORDS, PRIMITIVE_TYPES } from '../utils/leoBuiltins';
+import LeoLanguageService, { LeoDocument, LeoReferences } from './LeoLanguageService';
+import CodeActionService, { TextEdit } from './CodeActionService';
+import AgentEditService from './AgentEditService';
+import CodeHistoryService from './CodeHistoryService';
+
+export interface RenamePlan {
+  description: string; // e.g. `Rename record Token to Coin`
+  changes: CodeChange[];
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+const RESERVED_NAMES = new Set([
+  ...KEYWORDS,
+  ...Object.keys(PRIMITIVE_TYPES),
+  ...Object.keys(CORE_FUNCTIONS),
+  ...Object.keys(GLOBAL_MEMBERS),
+  'aleo'
+]);
+
+/**
+ * Scope-aware renaming of Leo symbols across every file of a project,
+ * applied as one undoable step
+ */
+class RenameService {
+  private static instance: RenameService;
+
+  static getInstance(): RenameService {
+    if (!RenameService.instance) {
+      RenameService.instance = new RenameService();
+    }
+    return RenameService.instance;
+  }
+
+  /**
+   * The symbol at an offset with everything that refers to it, or an error
+   * saying why it cannot be renamed
+   */
+  prepareRename(document: LeoDocument, offset: number): { target?: LeoReferences; error?: string } {
+    const target = LeoLanguageService.findReferences(document, offset);
+    if (!target) {
+      return { error: 'Only symbols declared in this project can be renamed' };
+    }
+    return { target };
+  }
+
+  /**
+   * Why `newName` cannot replace the target's name, if it cannot
+   */
+  validateName(document: LeoDocument, target: LeoReferences, newName: string): string | undefined {
+    const { symbol } = target;
+    if (!IDENTIFIER_PATTERN.test(newName)) {
+      return `"${newName}" is not a valid Leo identifier`;
+    }
+    if (RESERVED_NAMES.has(newName)) {
+      return `"${newName}" is a reserved name in Leo`;
+    }
+    if (newName === symbol.name) {
+      return undefined;
+    }
+
+    const taken = this.getTakenNames(document, target);
+    return taken.has(newName) ? `"${newName}" is already used in ${taken.get(newName)}` : undefined;
+  }
+
+  /**
+   * The edits renaming the target, one change per file. Throws if the name is invalid.
+   */
+  planRename(document: LeoDocument, target: LeoReferences, newName: string): RenamePlan {
+    const error = this.validateName(document, target, newName);
+    if (error) {
+      throw new Error(`Failed to rename: ${error}`);
+    }
+
+    const { symbol } = target;
+    const description = `Rename ${symbol.kind} ${symbol.name} to ${newName}`;
+    const contents = this.getContents(document);
+
+    const edits = new Map<string, TextEdit[]>();
+    for (const reference of target.references) {
+      // Spell out the shorthand `Point { x }`, keeping whichever side is not renamed
+      const text = !reference.shorthand
+        ? newName
+        : symbol.kind === 'field' ? `${newName}: ${symbol.name}` : `${symbol.name}: ${newName}`;
+      const fileEdits = edits.get(reference.fileId) || [];
+      fileEdits.push({ start: reference.span.start.offset, end: reference.span.end.offset, text });
+      edits.set(reference.fileId, fileEdits);
+    }
+
+    const changes: CodeChange[] = [];
+    for (const file of document.project?.files || [document.file]) {
+      const oldContent = contents.get(file.id) ?? file.content;
+      let newContent = CodeActionService.applyEdits(oldContent, edits.get(file.id) || []);
+
+      // Manifests name the program and its dependencies as `name.aleo`
+      if (symbol.kind === 'program' && file.type === 'json') {
+        newContent = newContent.split(`"${symbol.name}.aleo"`).join(`"${newName}.aleo"`);
+      }
+
+      if (newContent !== oldContent) {
+        changes.push({ fileId: file.id, filePath: file.path, oldContent, newContent, description, kind: 'modify' });
+      }
+    }
+
+    return { description, changes };
+  }
+
+  /**
+   * Apply a plan to the project, recording all its files as one history step
+   */
+  applyRename(project: LeoProject, plan: RenamePlan): LeoProject {
+    const conflicts = AgentEditService.findConflicts(project, plan.changes);
+    if (conflicts.length > 0) {
+      throw new Error(`Failed to rename: ${conflicts.join('; ')}`);
+    }
+
+    const before = project.files.filter(file => plan.changes.some(change => change.fileId === file.id));
+    const after = before.map(file => ({
+      ...file,
+      content: plan.changes.find(change => change.fileId === file.id)!.newContent,
+      isModified: true
+    }));
+    CodeHistoryService.addGroup(before, after, plan.description);
+
+    const updated = {
+      ...project,
+      files: project.files.map(file => after.find(renamed => renamed.id === file.id) || file),
+      updatedAt: new Date()
+    };
+    CodeHistoryService.recordProjectChange(project, updated, 'user', plan.description);
+    return updated;
+  }
+
+  // Private helper methods
+
+  private getContents(document: LeoDocument): Map<string, string> {
+    const contents = new Map((document.project?.files || []).map(file => [file.id, file.content]));
+    contents.set(document.file.id, document.content);
+    return contents;
+  }
+
+  /**
+   * Names the target could collide with, mapped to where they are declared
+   */
+  private getTakenNames(document: LeoDocument, target: LeoReferences): Map<string, string> {
+    const { symbol } = target;
+    const taken = new Map<string, string>();
+    const contents = this.getContents(document);
+
+    if (symbol.kind === 'program') {
+      for (const programId of Object.keys(BUILTIN_PROGRAMS)) {
+        taken.set(programId.replace(/\.aleo$/, ''), 'the standard programs');
+      }
+      for (const file of document.project?.files || [document.file]) {
+        if (file.type !== 'leo') continue;
+        const { ast } = LeoLanguageService.parse(file.id, contents.get(file.id) ?? file.content);
+        for (const declaration of [...ast.imports, ...(ast.program ? [ast.program] : [])]) {
+          taken.set(declaration.programId.replace(/\.aleo$/, ''), file.path);
+        }
+      }
+      return taken;
+    }
+
+    const content = contents.get(symbol.fileId!);
+    if (content === undefined) return taken;
+    const program = LeoLanguageService.parse(symbol.fileId!, content).ast.program;
+    if (!program) return taken;
+
+    const declaredAt = symbol.span!.start.offset;
+    const programNames = program.items.map(item => item.name.name);
+
+    switch (symbol.kind) {
+      case 'field': {
+        const struct = program.items.find(item =>
+          item.kind === 'StructDeclaration' && item.fields.some(field => field.name.span.start.offset === declaredAt)
+        );
+        if (struct?.kind === 'StructDeclaration') {
+          struct.fields.forEach(field => taken.set(field.name.name, `${struct.isRecord ? 'record' : 'struct'} ${struct.name.name}`));
+        }
+        break;
+      }
+
+      case 'variable':
+      case 'parameter': {
+        // Locals must not shadow program declarations or other locals of their function
+        programNames.forEach(name => taken.set(name, program.programId));
+        const fn = program.items.find((item): item is FunctionDeclaration =>
+          item.kind === 'FunctionDeclaration' && item.span.start.offset <= declaredAt && declaredAt <= item.span.end.offset
+        );
+        if (fn) {
+          const where = `${fn.variant} ${fn.name.name}`;
+          walk(fn, node => {
+            if (node.kind === 'Parameter') taken.set(node.name.name, where);
+            if (node.kind === 'VariableDeclaration') node.names.forEach(name => taken.set(name.name, where));
+            if (node.kind === 'ForStatement') taken.set(node.variable.name, where);
+          });
+        }
+        break;
+      }
+
+      default:
+        programNames.forEach(name => taken.set(name, program.programId));
+    }
+
+    return taken;
+  }
+}
+
+export default RenameService.getInstance();
\ No newline at end of file
@@ -1,7 +1,8 @@
-import { LeoProject, ChatMessage } from '../types';
+import { LeoProject, LeoFile, ChatMessage } from '../types';
 import LLMService from './LLMService';
 import ProjectStorageService from './ProjectStorageService';
 import MultiProjectChatManager from './MultiProjectChatManager';
+import FileSystemService from './FileSystemService';
 
 /**
  * Service to handle the complete user workflow from project creation to development
@@ -64,6 +65,108 @@ class WorkflowService {
     }
   }
   
+  /**
+   * Complete workflow: Open an existing Leo package folder from disk
+   */
+  static async openProjectFromFolder(): Promise<LeoProject | null> {
+    const opened = await FileSystemService.openPackageFolder();
+    if (!opened) {
+      return null;
+    }
+
+    try {
+      const { workspaceRoot, files: entries } = opened;
+      const now = new Date();
+
+      const files: LeoFile[] = entries.map((entry, index) => ({
+        id: `file_${index}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        name: entry.path.split('/').pop() || entry.path,
+        path: entry.path,
+        content: entry.content,
+        type: this.getFileType(entry.path),
+        isModified: false
+      }));
+
+      const manifest = this.readManifest(files);
+      const folderName = workspaceRoot.split(/[\\/]/).filter(Boolean).pop() || 'Leo Package';
+
+      const project: LeoProject = {
+        id: `project_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+        name: manifest.program ? manifest.program.replace(/\.aleo$/, '') : folderName,
+        description: manifest.description || `Opened from ${workspaceRoot}`,
+        files,
+        createdAt: now,
+        updatedAt: now,
+        chatHistory: [],
+        workspaceRoot
+      };
+
+      await ProjectStorageService.saveProject(project);
+      await MultiProjectChatManager.createNewProjectSession(project);
+
+      return project;
+    } catch (error) {
+      console.error('Failed to open project folder:', error);
+      throw new Error('Failed to open project folder. Please try again.');
+    }
+  }
+
+  /**
+   * Write a file of a folder-linked project back to disk
+   */
+  static async saveFileToWorkspace(project: LeoProject, file: LeoFile): Promise<void> {
+    if (!project.workspaceRoot || !FileSystemService.isAvailable()) {
+      return;
+    }
+    await FileSystemService.saveFile(project.workspaceRoot, file);
+  }
+
+  /**
+   * Bring the folder of a linked project in line with a new version of it: changed and new
+   * files are written and removed or moved ones deleted. Written files are marked saved; files
+   * that could not be written stay modified and the failures are returned.
+   */
+  static async syncProjectToWorkspace(
+    before: LeoProject | null,
+    after: LeoProject
+  ): Promise<{ project: LeoProject; errors: string[] }> {
+    const workspaceRoot = after.workspaceRoot;
+    if (!workspaceRoot || !FileSystemService.isAvailable()) {
+      return { project: after, errors: [] };
+    }
+
+    const errors: string[] = [];
+    const previousFiles = before?.id === after.id ? before.files : [];
+
+    const files = await Promise.all(after.files.map(async file => {
+      const previous = previousFiles.find(f => f.id === file.id);
+      if (previous && previous.content === file.content && previous.path === file.path) {
+        return file;
+      }
+      try {
+        await FileSystemService.saveFile(workspaceRoot, file);
+        return { ...file, isModified: false };
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Unknown error');
+        return { ...file, isModified: true };
+      }
+    }));
+
+    const removedPaths = previousFiles
+      .filter(previous => !after.files.some(file => file.id === previous.id && file.path === previous.path))
+      .map(previous => previous.path)
+      .filter(path => !after.files.some(file => file.path === path));
+    for (const path of removedPaths) {
+      try {
+        await FileSystemService.deleteFile(workspaceRoot, path);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    return { project: { ...after, files }, errors };
+  }
+
   /**
    * Complete workflow: Switch to existing project
    */
@@ -169,6 +272,27 @@ class WorkflowService {
     };
   }
   
+  private static getFileType(filePath: string): LeoFile['type'] {
+    if (filePath.endsWith('.leo')) return 'leo';
+    if (filePath.endsWith('.json')) return 'json';
+    if (filePath.endsWith('.in')) return 'in';
+    return 'md';
+  }
+
+  private static readManifest(files: LeoFile[]): { program?: string; description?: string } {
+    const manifestFile = files.find(f => f.path === 'program.json');
+    if (!manifestFile) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(manifestFile.content);
+    } catch (error) {
+      console.warn('Failed to parse program.json:', error);
+      return {};
+    }
+  }
+
   /**
    * Handle graceful error recovery
    */
@@ -10,6 +10,26 @@ export interface LeoProject {
   createdAt: Date;
   updatedAt: Date;
   chatHistory: ChatMessage[];
+  workspaceRoot?: string; // folder on disk this project is linked to
+  branch?: ProjectBranch; // set when the project was forked from another one
+}
+
+export interface ProjectBranch {
+  name: string;
+  parentProjectId: string;
+  parentProjectName: string;
+  baseCheckpointId: string; // checkpoint of the parent taken when forking, the base for merges
+}
+
+/**
+ * A named snapshot of every file of a project
+ */
+export interface ProjectCheckpoint {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: Date;
+  files: LeoFile[];
 }
 
 export interface LeoFile {
@@ -17,7 +37,7 @@ export interface LeoFile {
   name: string;
   path: string;
   content: string;
-  type: 'leo' | 'md' | 'json';
+  type: 'leo' | 'md' | 'json' | 'in';
   isModified: boolean;
 }
 
@@ -27,13 +47,49 @@ export interface ChatMessage {
   sender: 'user' | 'agent';
   timestamp: Date;
   codeChanges?: CodeChange[];
+  codeChangesStatus?: 'pending' | 'applied' | 'rejected'; // absent means applied
+  contextUsage?: ContextUsage; // what the agent was shown when producing this reply
+  toolSteps?: AgentToolStep[];
 }
 
+export type AgentToolName = 'compileProject' | 'runTests' | 'analyzeCode' | 'readFile' | 'applyPatch';
+
+export interface AgentToolStep {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'success' | 'error';
+  summary: string;
+  output: string;
+  note?: string; // what the agent said before calling the tool
+  codeChanges?: CodeChange[];
+}
+
+export type ContextSectionKind = 'manifest' | 'diagnostics' | 'current-file' | 'analysis' | 'file' | 'conversation';
+
+export interface ContextSectionUsage {
+  kind: ContextSectionKind;
+  label: string;
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface ContextUsage {
+  budget: number;
+  used: number;
+  sections: ContextSectionUsage[];
+  omitted: string[]; // files left out because they did not fit
+}
+
+export type CodeChangeKind = 'create' | 'modify' | 'delete';
+
 export interface CodeChange {
   fileId: string;
   oldContent: string;
   newContent: string;
   description: string;
+  filePath?: string; // set for whole-file edits proposed by the agent
+  kind?: CodeChangeKind; // defaults to 'modify'
 }
 
 export interface AppState {
@@ -52,8 +108,29 @@ export interface CodeAnalysis {
     rule?: string;
   }>;
   suggestions: string[];
-  complexity: number;
+  complexity: number; // cyclomatic complexity of the most complex function
+  maintainabilityIndex: number; // 0-100, averaged over the functions
+  metrics: CodeMetrics;
+}
+
+export interface CodeMetrics {
+  linesOfCode: number; // lines with code, not counting blank and comment-only lines
+  commentLines: number;
+  functions: FunctionMetrics[];
+}
+
+export interface FunctionMetrics {
+  name: string;
+  variant: 'transition' | 'function' | 'inline' | 'finalize' | 'script';
+  line: number;
+  linesOfCode: number;
+  cyclomaticComplexity: number;
+  nestingDepth: number; // deepest if/for/async block nesting in the body
   maintainabilityIndex: number;
+  // Operations that dominate proving cost, counted once per unrolled loop iteration
+  hashes: number; // hash and commit calls
+  signatureChecks: number;
+  loopIterations: number; // iterations of every loop after unrolling
 }
 
 export interface CodeSuggestion {
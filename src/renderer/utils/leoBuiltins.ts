@@ -0,0 +1,227 @@
+// Reference data for Leo's built-in types, core functions and well-known programs
+
+export interface BuiltinFunction {
+  name: string;
+  parameters: string[];
+  returns?: string;
+  documentation: string;
+}
+
+export interface BuiltinMember {
+  name: string;
+  type: string;
+  documentation: string;
+}
+
+export interface BuiltinProgram {
+  programId: string;
+  records: Array<{ name: string; fields: BuiltinMember[] }>;
+  mappings: Array<{ name: string; keyType: string; valueType: string; documentation: string }>;
+  transitions: BuiltinFunction[];
+}
+
+export const INTEGER_TYPES = ['u8', 'u16', 'u32', 'u64', 'u128', 'i8', 'i16', 'i32', 'i64', 'i128'];
+
+export const PRIMITIVE_TYPES: Record<string, string> = {
+  u8: 'Unsigned 8-bit integer',
+  u16: 'Unsigned 16-bit integer',
+  u32: 'Unsigned 32-bit integer',
+  u64: 'Unsigned 64-bit integer',
+  u128: 'Unsigned 128-bit integer',
+  i8: 'Signed 8-bit integer',
+  i16: 'Signed 16-bit integer',
+  i32: 'Signed 32-bit integer',
+  i64: 'Signed 64-bit integer',
+  i128: 'Signed 128-bit integer',
+  field: 'Element of the base field of the elliptic curve',
+  group: 'Point on the elliptic curve',
+  scalar: 'Element of the scalar field of the elliptic curve',
+  bool: 'Boolean value, true or false',
+  address: 'Aleo account or program address',
+  signature: 'Aleo Schnorr signature',
+  Future: 'Handle to an async function call, awaited in finalization'
+};
+
+const COMPARISON = ['==', '!=', '<', '<=', '>', '>='];
+
+export const TYPE_OPERATORS: Record<string, string[]> = {
+  integer: ['+', '-', '*', '/', '%', '**', '<<', '>>', '&', '|', '^', '!', ...COMPARISON],
+  field: ['+', '-', '*', '/', '**', ...COMPARISON],
+  group: ['+', '-', '==', '!='],
+  scalar: ['+', '-', '*', ...COMPARISON],
+  bool: ['&&', '||', '!', '&', '|', '^', '==', '!='],
+  address: ['==', '!='],
+  signature: ['==', '!=']
+};
+
+const method = (name: string, parameters: string[], returns: string, documentation: string): BuiltinFunction => ({
+  name,
+  parameters,
+  returns,
+  documentation
+});
+
+// `Self` stands for the receiver's type
+const COMPARISON_METHODS = [
+  method('eq', ['other: Self'], 'bool', 'Equality, same as `==`'),
+  method('neq', ['other: Self'], 'bool', 'Inequality, same as `!=`'),
+  method('lt', ['other: Self'], 'bool', 'Less than, same as `<`'),
+  method('lte', ['other: Self'], 'bool', 'Less than or equal, same as `<=`'),
+  method('gt', ['other: Self'], 'bool', 'Greater than, same as `>`'),
+  method('gte', ['other: Self'], 'bool', 'Greater than or equal, same as `>=`')
+];
+
+export const TYPE_METHODS: Record<string, BuiltinFunction[]> = {
+  integer: [
+    method('add', ['other: Self'], 'Self', 'Checked addition; halts on overflow'),
+    method('add_wrapped', ['other: Self'], 'Self', 'Wrapping addition'),
+    method('sub', ['other: Self'], 'Self', 'Checked subtraction; halts on underflow'),
+    method('sub_wrapped', ['other: Self'], 'Self', 'Wrapping subtraction'),
+    method('mul', ['other: Self'], 'Self', 'Checked multiplication; halts on overflow'),
+    method('mul_wrapped', ['other: Self'], 'Self', 'Wrapping multiplication'),
+    method('div', ['other: Self'], 'Self', 'Checked division; halts on division by zero'),
+    method('div_wrapped', ['other: Self'], 'Self', 'Wrapping division'),
+    method('rem', ['other: Self'], 'Self', 'Checked remainder'),
+    method('rem_wrapped', ['other: Self'], 'Self', 'Wrapping remainder'),
+    method('pow', ['exponent: u8 | u16 | u32'], 'Self', 'Checked exponentiation'),
+    method('pow_wrapped', ['exponent: u8 | u16 | u32'], 'Self', 'Wrapping exponentiation'),
+    method('shl', ['bits: u8 | u16 | u32'], 'Self', 'Checked shift left'),
+    method('shl_wrapped', ['bits: u8 | u16 | u32'], 'Self', 'Wrapping shift left'),
+    method('shr', ['bits: u8 | u16 | u32'], 'Self', 'Checked shift right'),
+    method('shr_wrapped', ['bits: u8 | u16 | u32'], 'Self', 'Wrapping shift right'),
+    method('abs', [], 'Self', 'Absolute value (signed types); halts on overflow'),
+    method('abs_wrapped', [], 'Self', 'Wrapping absolute value (signed types)'),
+    method('neg', [], 'Self', 'Negation (signed types)'),
+    method('and', ['other: Self'], 'Self', 'Bitwise AND'),
+    method('or', ['other: Self'], 'Self', 'Bitwise OR'),
+    method('xor', ['other: Self'], 'Self', 'Bitwise XOR'),
+    method('not', [], 'Self', 'Bitwise NOT'),
+    ...COMPARISON_METHODS
+  ],
+  field: [
+    method('add', ['other: field'], 'field', 'Field addition'),
+    method('sub', ['other: field'], 'field', 'Field subtraction'),
+    method('mul', ['other: field'], 'field', 'Field multiplication'),
+    method('div', ['other: field'], 'field', 'Field division; halts on division by zero'),
+    method('pow', ['exponent: field'], 'field', 'Field exponentiation'),
+    method('neg', [], 'field', 'Additive inverse'),
+    method('inv', [], 'field', 'Multiplicative inverse'),
+    method('square', [], 'field', 'Square'),
+    method('square_root', [], 'field', 'Square root; halts if none exists'),
+    method('double', [], 'field', 'Double'),
+    ...COMPARISON_METHODS
+  ],
+  group: [
+    method('add', ['other: group'], 'group', 'Point addition'),
+    method('sub', ['other: group'], 'group', 'Point subtraction'),
+    method('neg', [], 'group', 'Point negation'),
+    method('double', [], 'group', 'Point doubling'),
+    method('to_x_coordinate', [], 'field', 'x-coordinate of the point'),
+    method('to_y_coordinate', [], 'field', 'y-coordinate of the point'),
+    method('eq', ['other: group'], 'bool', 'Equality'),
+    method('neq', ['other: group'], 'bool', 'Inequality')
+  ],
+  scalar: [
+    method('add', ['other: scalar'], 'scalar', 'Scalar addition'),
+    method('sub', ['other: scalar'], 'scalar', 'Scalar subtraction'),
+    ...COMPARISON_METHODS
+  ],
+  bool: [
+    method('and', ['other: bool'], 'bool', 'Logical AND'),
+    method('or', ['other: bool'], 'bool', 'Logical OR'),
+    method('xor', ['other: bool'], 'bool', 'Logical XOR'),
+    method('nand', ['other: bool'], 'bool', 'Logical NAND'),
+    method('nor', ['other: bool'], 'bool', 'Logical NOR'),
+    method('not', [], 'bool', 'Logical NOT'),
+    method('eq', ['other: bool'], 'bool', 'Equality'),
+    method('neq', ['other: bool'], 'bool', 'Inequality')
+  ],
+  address: [
+    method('eq', ['other: address'], 'bool', 'Equality'),
+    method('neq', ['other: address'], 'bool', 'Inequality')
+  ],
+  Future: [method('await', [], '', 'Run the async function call this future refers to')]
+};
+
+const HASH_OUTPUTS = ['address', 'field', 'group', 'scalar', 'i8', 'i16', 'i32', 'i64', 'i128', 'u8', 'u16', 'u32', 'u64', 'u128'];
+
+const hashFunctions = (name: string, canCommit: boolean): BuiltinFunction[] => [
+  ...HASH_OUTPUTS.map(output => method(`hash_to_${output}`, ['value'], output, `${name} hash of any value as a ${output}`)),
+  ...(canCommit
+    ? ['address', 'field', 'group'].map(output =>
+        method(`commit_to_${output}`, ['value', 'randomness: scalar'], output, `${name} commitment to a value as a ${output}`))
+    : [])
+];
+
+export const CORE_FUNCTIONS: Record<string, BuiltinFunction[]> = {
+  Mapping: [
+    method('get', ['mapping', 'key'], 'value', 'Value stored under key; halts if the key is missing. Finalization only.'),
+    method('get_or_use', ['mapping', 'key', 'default'], 'value', 'Value stored under key, or default. Finalization only.'),
+    method('set', ['mapping', 'key', 'value'], '', 'Store value under key. Finalization only.'),
+    method('remove', ['mapping', 'key'], '', 'Delete the entry for key. Finalization only.'),
+    method('contains', ['mapping', 'key'], 'bool', 'Whether key has an entry. Finalization only.')
+  ],
+  BHP256: hashFunctions('BHP256', true),
+  BHP512: hashFunctions('BHP512', true),
+  BHP768: hashFunctions('BHP768', true),
+  BHP1024: hashFunctions('BHP1024', true),
+  Pedersen64: hashFunctions('Pedersen64', true),
+  Pedersen128: hashFunctions('Pedersen128', true),
+  Poseidon2: hashFunctions('Poseidon2', false),
+  Poseidon4: hashFunctions('Poseidon4', false),
+  Poseidon8: hashFunctions('Poseidon8', false),
+  Keccak256: hashFunctions('Keccak256', false),
+  SHA3_256: hashFunctions('SHA3_256', false),
+  ChaCha: [...HASH_OUTPUTS, 'bool'].map(output =>
+    method(`rand_${output}`, [], output, `Random ${output}. Finalization only.`)),
+  signature: [method('verify', ['signature: signature', 'signer: address', 'message'], 'bool', 'Verify a signature over a message')],
+  group: [method('GEN', [], 'group', 'Generator of the elliptic curve group')]
+};
+
+export const GLOBAL_MEMBERS: Record<string, BuiltinMember[]> = {
+  self: [
+    { name: 'caller', type: 'address', documentation: 'Address of the account or program that called this transition' },
+    { name: 'signer', type: 'address', documentation: 'Address of the account that signed the transaction' },
+    { name: 'address', type: 'address', documentation: 'Address of this program' }
+  ],
+  block: [{ name: 'height', type: 'u32', documentation: 'Height of the current block. Finalization only.' }],
+  network: [{ name: 'id', type: 'u16', documentation: 'Identifier of the network' }]
+};
+
+export const KEYWORDS = [
+  'program', 'import', 'struct', 'record', 'mapping', 'transition', 'function', 'inline', 'async', 'finalize',
+  'let', 'const', 'return', 'if', 'else', 'for', 'in', 'as', 'public', 'private', 'constant', 'true', 'false',
+  'assert', 'assert_eq', 'assert_neq'
+];
+
+export const BUILTIN_PROGRAMS: Record<string, BuiltinProgram> = {
+  'credits.aleo': {
+    programId: 'credits.aleo',
+    records: [{
+      name: 'credits',
+      fields: [
+        { name: 'owner', type: 'address', documentation: 'Owner of the credits' },
+        { name: 'microcredits', type: 'u64', documentation: 'Amount in microcredits' }
+      ]
+    }],
+    mappings: [{ name: 'account', keyType: 'address', valueType: 'u64', documentation: 'Public balances in microcredits' }],
+    transitions: [
+      method('transfer_public', ['public receiver: address', 'public amount: u64'], 'Future', 'Transfer public credits'),
+      method('transfer_public_as_signer', ['public receiver: address', 'public amount: u64'], 'Future', 'Transfer public credits of the signer'),
+      method('transfer_private', ['input: credits', 'receiver: address', 'amount: u64'], '(credits, credits)', 'Transfer a private credits record'),
+      method('transfer_private_to_public', ['input: credits', 'public receiver: address', 'public amount: u64'], '(credits, Future)', 'Move private credits to a public balance'),
+      method('transfer_public_to_private', ['receiver: address', 'public amount: u64'], '(credits, Future)', 'Move public credits to a private record'),
+      method('join', ['first: credits', 'second: credits'], 'credits', 'Combine two records'),
+      method('split', ['input: credits', 'amount: u64'], '(credits, credits)', 'Split a record in two')
+    ]
+  }
+};
+
+/**
+ * Category used to look up operators and methods for a type name
+ */
+export function getTypeCategory(type: string): string | undefined {
+  if (INTEGER_TYPES.includes(type)) return 'integer';
+  if (type.startsWith('Future')) return 'Future';
+  return TYPE_OPERATORS[type] || TYPE_METHODS[type] ? type : undefined;
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { formatLeo } from './leoFormatter';
+
+describe('formatLeo', () => {
+  it('re-indents and spaces a program', () => {
+    const source = `program token.aleo{
+mapping balances:address=>u64;
+
+transition add(public a:u32,b:u32)->u32{
+let sum:u32=a+b;
+return sum;
+}
+}`;
+    expect(formatLeo(source)).toEqual({
+      content: `program token.aleo {
+    mapping balances: address => u64;
+
+    transition add(public a: u32, b: u32) -> u32 {
+        let sum: u32 = a + b;
+        return sum;
+    }
+}`
+    });
+  });
+
+  it('leaves formatted code unchanged', () => {
+    const source = `program token.aleo {
+    record Token {
+        owner: address,
+        amount: u64,
+    }
+
+    transition mint(owner: address, amount: u64) -> Token {
+        // Anyone can mint in this example
+        return Token { owner, amount };
+    }
+}
+`;
+    expect(formatLeo(source)).toEqual({ content: source });
+  });
+
+  it('keeps comments', () => {
+    const source = 'program t.aleo {\n// the entry point\ntransition main() {\nlet a: u8 = 1u8; // one\n/* block */\nassert_eq(a, 1u8);\n}\n}\n';
+    const { content, error } = formatLeo(source);
+
+    expect(error).toBeUndefined();
+    expect(content).toContain('    // the entry point\n    transition main() {');
+    expect(content).toContain('        let a: u8 = 1u8; // one\n');
+    expect(content).toContain('        /* block */\n');
+  });
+
+  it('keeps the parentheses of the source and blank lines between items', () => {
+    const { content } = formatLeo('program t.aleo {\nfunction f(a: u8, b: u8) -> u8 {\nreturn (a+b)*(a)-b*a;\n}\n\n\n\nfunction g() {}\n}\n');
+    expect(content).toBe('program t.aleo {\n    function f(a: u8, b: u8) -> u8 {\n        return (a + b) * (a) - b * a;\n    }\n\n    function g() {}\n}\n');
+  });
+
+  it('leaves the file as is when the output would read as a different program', () => {
+    const source = 'program t.aleo { function f(a: u8) -> u8 { return ((a)); } }';
+    expect(formatLeo(source)).toEqual({ content: source, error: 'Formatting would change the program, so the file was left as is' });
+  });
+
+  it('uses the indent it is given', () => {
+    const { content } = formatLeo('program t.aleo { function f() {} }\n', { indent: '\t' });
+    expect(content).toBe('program t.aleo {\n\tfunction f() {}\n}\n');
+  });
+
+  it('refuses to format a file with syntax errors', () => {
+    const source = 'program t.aleo {\n    function f() {\n        let = 1u8;\n    }\n}\n';
+    const result = formatLeo(source);
+
+    expect(result.content).toBe(source);
+    expect(result.error).toMatch(/^Fix syntax errors before formatting \(line 3: /);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,420 @@
+import {
+  AstNode,
+  BINARY_PRECEDENCE,
+  Block,
+  Comment,
+  Expression,
+  FunctionDeclaration,
+  ProgramDeclaration,
+  ProgramItem,
+  SourceFile,
+  Statement,
+  StructFieldInit,
+  Token,
+  TypeNode,
+  parseLeo,
+  tokenize
+} from '../parser';
+
+export interface FormatOptions {
+  indent: string; // one level, e.g. four spaces or a tab
+  maxLineLength: number; // struct literals longer than this are split over several lines
+}
+
+export interface FormatResult {
+  content: string; // the original content when formatting failed
+  error?: string;
+}
+
+const DEFAULT_OPTIONS: FormatOptions = { indent: '    ', maxLineLength: 100 };
+
+// Binding strength of the non-binary expression forms, relative to BINARY_PRECEDENCE
+const TERNARY_PRECEDENCE = 0;
+const CAST_PRECEDENCE = 12;
+const UNARY_PRECEDENCE = 13;
+const POSTFIX_PRECEDENCE = 14;
+
+/**
+ * Format a Leo file. Files with syntax errors are left unchanged, and so is
+ * any output that would not read back as the same program.
+ */
+export function formatLeo(source: string, options: Partial<FormatOptions> = {}): FormatResult {
+  const { ast, diagnostics } = parseLeo(source);
+  if (diagnostics.length > 0) {
+    const first = diagnostics[0];
+    return {
+      content: source,
+      error: `Fix syntax errors before formatting (line ${first.span.start.line}: ${first.message})`
+    };
+  }
+
+  try {
+    const content = new LeoPrinter(source, ast, { ...DEFAULT_OPTIONS, ...options }).print();
+    if (!isSameProgram(source, content)) {
+      return { content: source, error: 'Formatting would change the program, so the file was left as is' };
+    }
+    return { content };
+  } catch (error) {
+    return { content: source, error: `Failed to format: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+}
+
+/**
+ * Formatting may only move whitespace and comments, and add or drop separators
+ */
+function isSameProgram(before: string, after: string): boolean {
+  const significant = (source: string) => {
+    const { tokens, comments } = tokenize(source);
+    return [
+      ...tokens.filter(token => token.value !== ',' && token.value !== ';').map(token => token.value),
+      ...comments.map(comment => comment.text.trimEnd()).sort()
+    ].join('\n');
+  };
+  return significant(before) === significant(after);
+}
+
+function precedenceOf(node: Expression): number {
+  switch (node.kind) {
+    case 'TernaryExpression': return TERNARY_PRECEDENCE;
+    case 'BinaryExpression': return BINARY_PRECEDENCE[node.operator];
+    case 'CastExpression': return CAST_PRECEDENCE;
+    case 'UnaryExpression': return UNARY_PRECEDENCE;
+    default: return POSTFIX_PRECEDENCE;
+  }
+}
+
+/**
+ * Prints a syntax tree back to source. Comments are consumed in source order:
+ * each goes above, or at the end of the line of, the node it was written by.
+ */
+class LeoPrinter {
+  private tokens: Token[];
+  private comments: Comment[];
+  private nextComment = 0;
+  private lastLine = 0; // source line of the last node or comment printed, for keeping blank lines
+
+  constructor(private source: string, private ast: SourceFile, private options: FormatOptions) {
+    this.tokens = tokenize(source).tokens;
+    this.comments = ast.comments;
+  }
+
+  print(): string {
+    const nodes: AstNode[] = [...this.ast.imports, ...(this.ast.program ? [this.ast.program] : [])];
+    const lines = this.lines(nodes, 0, this.source.length, node =>
+      node.kind === 'ImportDeclaration' ? `import ${node.programId};` : this.program(node as ProgramDeclaration)
+    );
+
+    const content = lines.join('\n');
+    return content && this.source.endsWith('\n') ? `${content}\n` : content;
+  }
+
+  // Layout
+
+  /**
+   * One node per line, with the comments around each node and at most one
+   * blank line between nodes. `close` is the offset of the closing bracket.
+   */
+  private lines<T extends AstNode>(nodes: T[], depth: number, close: number, print: (node: T, index: number) => string): string[] {
+    const indent = this.indent(depth);
+    const lines: string[] = [];
+
+    nodes.forEach((node, index) => {
+      this.pushComments(lines, indent, node.span.start.offset);
+      const blankBefore = lines.length > 0 && node.span.start.line > this.lastLine + 1;
+      const text = print(node, index);
+
+      // Comments inside the node that no nested line claimed, e.g. between operands, go above it
+      const inner = this.takeComments(node.span.end.offset);
+      const trailing = this.takeTrailing(node.span.end.line, nodes[index + 1]?.span.start.offset ?? close);
+
+      if (blankBefore) lines.push('');
+      inner.forEach(comment => lines.push(indent + comment.text.trimEnd()));
+      lines.push(indent + text + this.trailingText(trailing));
+      this.lastLine = trailing.length > 0 ? trailing[trailing.length - 1].span.end.line : node.span.end.line;
+    });
+
+    this.pushComments(lines, indent, close);
+    return lines;
+  }
+
+  /**
+   * Nodes between brackets, one per line. Empty brackets stay on one line.
+   */
+  private bracketed<T extends AstNode>(
+    open: string,
+    close: string,
+    openLine: number,
+    nodes: T[],
+    closeOffset: number,
+    depth: number,
+    print: (node: T, index: number) => string
+  ): string {
+    const opening = this.takeTrailing(openLine, nodes[0]?.span.start.offset ?? closeOffset);
+    this.lastLine = openLine;
+    const body = this.lines(nodes, depth + 1, closeOffset, print);
+
+    if (opening.length === 0 && body.length === 0) return `${open}${close}`;
+    return [open + this.trailingText(opening), ...body, this.indent(depth) + close].join('\n');
+  }
+
+  /**
+   * Comma-separated items, kept on one line unless the first item was written on a new line
+   */
+  private list<T extends AstNode>(
+    open: string,
+    close: string,
+    openLine: number,
+    items: T[],
+    depth: number,
+    print: (item: T, depth: number) => string
+  ): string {
+    if (items.length > 0 && items[0].span.start.line > openLine) {
+      const last = items[items.length - 1];
+      return this.bracketed(open, close, openLine, items, this.closingOffset(close, last), depth, (item, index) =>
+        print(item, depth + 1) + (index < items.length - 1 ? ',' : '')
+      );
+    }
+    return `${open}${items.map(item => print(item, depth)).join(', ')}${close}`;
+  }
+
+  private block(block: Block, depth: number): string {
+    return this.bracketed('{', '}', block.span.start.line, block.statements, block.span.end.offset - 1, depth, statement =>
+      this.statement(statement, depth + 1)
+    );
+  }
+
+  // Declarations
+
+  private program(program: ProgramDeclaration): string {
+    const openLine = this.findToken('{', program.name.span.end.offset)?.span.start.line ?? program.name.span.end.line;
+    const body = this.bracketed('{', '}', openLine, program.items, program.span.end.offset - 1, 0, item => this.item(item, 1));
+    return `program ${program.programId} ${body}`;
+  }
+
+  private item(item: ProgramItem, depth: number): string {
+    switch (item.kind) {
+      case 'StructDeclaration': {
+        const keyword = item.isRecord ? 'record' : 'struct';
+        const body = this.bracketed('{', '}', item.name.span.end.line, item.fields, item.span.end.offset - 1, depth, field =>
+          `${field.visibility ? `${field.visibility} ` : ''}${field.name.name}: ${this.type(field.type, depth + 1)},`
+        );
+        return `${keyword} ${item.name.name} ${body}`;
+      }
+      case 'MappingDeclaration':
+        return `mapping ${item.name.name}: ${this.type(item.keyType, depth)} => ${this.type(item.valueType, depth)};`;
+      case 'ConstDeclaration':
+        return `const ${item.name.name}${item.type ? `: ${this.type(item.type, depth)}` : ''} = ${this.expression(item.value, depth)};`;
+      case 'FunctionDeclaration':
+        return this.functionDeclaration(item, depth);
+    }
+  }
+
+  private functionDeclaration(fn: FunctionDeclaration, depth: number): string {
+    const annotations = fn.annotations
+      .map(annotation => this.sourceText(annotation).replace(/\s+/g, ' ') + '\n' + this.indent(depth))
+      .join('');
+    const parameters = this.list('(', ')', fn.name.span.end.line, fn.parameters, depth, (parameter, paramDepth) =>
+      `${parameter.visibility ? `${parameter.visibility} ` : ''}${parameter.name.name}: ${this.type(parameter.type, paramDepth)}`
+    );
+    const returnType = fn.returnType ? ` -> ${this.type(fn.returnType, depth)}` : '';
+    return `${annotations}${fn.isAsync ? 'async ' : ''}${fn.variant} ${fn.name.name}${parameters}${returnType} ${this.block(fn.body, depth)}`;
+  }
+
+  private type(type: TypeNode, depth: number): string {
+    const visibility = type.visibility ? `${type.visibility} ` : '';
+    switch (type.kind) {
+      case 'NamedType':
+        // Keeps generic arguments such as Future<Fn(u64)>, which the parser stores as text
+        return visibility + type.text;
+      case 'TupleType':
+        return `${visibility}(${type.elements.map(element => this.type(element, depth)).join(', ')})`;
+      case 'ArrayType':
+        return `${visibility}[${this.type(type.element, depth)}; ${this.expression(type.length, depth)}]`;
+    }
+  }
+
+  // Statements
+
+  private statement(statement: Statement, depth: number): string {
+    switch (statement.kind) {
+      case 'Block':
+        return this.block(statement, depth);
+      case 'VariableDeclaration': {
+        const names = statement.names.length === 1
+          ? statement.names[0].name
+          : `(${statement.names.map(name => name.name).join(', ')})`;
+        const type = statement.type ? `: ${this.type(statement.type, depth)}` : '';
+        return `${statement.isConst ? 'const' : 'let'} ${names}${type} = ${this.expression(statement.value, depth)};`;
+      }
+      case 'ReturnStatement': {
+        let text = 'return';
+        if (statement.value) {
+          text += ` ${this.expression(statement.value, depth)}`;
+        }
+        if (statement.finalizeArguments) {
+          const finalizeLine = statement.value?.span.end.line ?? statement.span.start.line;
+          text += ` then finalize${this.list('(', ')', finalizeLine, statement.finalizeArguments, depth, (arg, argDepth) => this.expression(arg, argDepth))}`;
+        }
+        return `${text};`;
+      }
+      case 'AssignmentStatement':
+        return `${this.expression(statement.target, depth)} ${statement.operator} ${this.expression(statement.value, depth)};`;
+      case 'IfStatement': {
+        let text = `if ${this.expression(statement.condition, depth)} ${this.block(statement.consequent, depth)}`;
+        if (statement.alternate) {
+          text += ` else ${this.statement(statement.alternate, depth)}`;
+        }
+        return text;
+      }
+      case 'ForStatement': {
+        const type = statement.type ? `: ${this.type(statement.type, depth)}` : '';
+        const range = `${this.expression(statement.start, depth)}..${this.expression(statement.end, depth)}`;
+        return `for ${statement.variable.name}${type} in ${range} ${this.block(statement.body, depth)}`;
+      }
+      case 'AssertStatement':
+        return `${statement.variant}${this.list('(', ')', statement.span.start.line, statement.arguments, depth, (arg, argDepth) => this.expression(arg, argDepth))};`;
+      case 'ExpressionStatement':
+        return `${this.expression(statement.expression, depth)};`;
+    }
+  }
+
+  // Expressions
+
+  /**
+   * Print an expression, parenthesized where the source had parentheses or
+   * where the surrounding operator binds tighter than `minPrecedence` allows
+   */
+  private expression(node: Expression, depth: number, minPrecedence: number = TERNARY_PRECEDENCE): string {
+    const text = this.bareExpression(node, depth);
+    return node.parenthesized || precedenceOf(node) < minPrecedence ? `(${text})` : text;
+  }
+
+  private bareExpression(node: Expression, depth: number): string {
+    const args = (items: Expression[], openLine: number) =>
+      this.list('(', ')', openLine, items, depth, (item, itemDepth) => this.expression(item, itemDepth));
+
+    switch (node.kind) {
+      case 'Identifier':
+        return node.name;
+      case 'Literal':
+        return this.sourceText(node);
+      case 'PathExpression':
+        return node.segments.map(segment => segment.name).join('::');
+      case 'LocatorExpression':
+        return `${node.programId}/${node.name.name}`;
+      case 'MemberExpression':
+        return `${this.expression(node.object, depth, POSTFIX_PRECEDENCE)}.${node.property.name}`;
+      case 'IndexExpression':
+        return `${this.expression(node.object, depth, POSTFIX_PRECEDENCE)}[${this.expression(node.index, depth)}]`;
+      case 'CallExpression':
+        return this.expression(node.callee, depth, POSTFIX_PRECEDENCE) + args(node.arguments, node.callee.span.end.line);
+      case 'UnaryExpression':
+        return `${node.operator}${this.expression(node.operand, depth, UNARY_PRECEDENCE)}`;
+      case 'BinaryExpression': {
+        const precedence = BINARY_PRECEDENCE[node.operator];
+        const rightAssociative = node.operator === '**';
+        const left = this.expression(node.left, depth, rightAssociative ? precedence + 1 : precedence);
+        const right = this.expression(node.right, depth, rightAssociative ? precedence : precedence + 1);
+        return `${left} ${node.operator} ${right}`;
+      }
+      case 'TernaryExpression':
+        return `${this.expression(node.condition, depth, TERNARY_PRECEDENCE + 1)} ? ${this.expression(node.consequent, depth)} : ${this.expression(node.alternate, depth)}`;
+      case 'CastExpression':
+        return `${this.expression(node.expression, depth, CAST_PRECEDENCE)} as ${this.type(node.type, depth)}`;
+      case 'StructExpression':
+        return this.structExpression(node.name.name, node.fields, node.span.start.line, node.span.end.line, depth);
+      case 'TupleExpression': {
+        const tuple = this.list('(', ')', node.span.start.line, node.elements, depth, (item, itemDepth) => this.expression(item, itemDepth));
+        // A one-element tuple needs its comma to stay a tuple
+        return node.elements.length === 1 && !tuple.includes('\n') ? `${tuple.slice(0, -1)},)` : tuple;
+      }
+      case 'ArrayExpression':
+        return this.list('[', ']', node.span.start.line, node.elements, depth, (item, itemDepth) => this.expression(item, itemDepth));
+      case 'AsyncBlockExpression':
+        return `async ${this.block(node.body, depth)}`;
+    }
+  }
+
+  /**
+   * Struct literals stay on one line when written that way and short enough;
+   * otherwise each field gets its own line and a trailing comma
+   */
+  private structExpression(name: string, fields: StructFieldInit[], startLine: number, endLine: number, depth: number): string {
+    const field = (init: StructFieldInit, fieldDepth: number) =>
+      init.value ? `${init.name.name}: ${this.expression(init.value, fieldDepth)}` : init.name.name;
+
+    if (fields.length === 0) return `${name} {}`;
+
+    if (startLine === endLine) {
+      const saved = { nextComment: this.nextComment, lastLine: this.lastLine };
+      const inline = `${name} { ${fields.map(init => field(init, depth)).join(', ')} }`;
+      if (this.indent(depth).length + inline.length <= this.options.maxLineLength) return inline;
+      this.nextComment = saved.nextComment;
+      this.lastLine = saved.lastLine;
+    }
+
+    const body = this.bracketed('{', '}', startLine, fields, this.closingOffset('}', fields[fields.length - 1]), depth, init =>
+      `${field(init, depth + 1)},`
+    );
+    return `${name} ${body}`;
+  }
+
+  // Comments
+
+  private takeComments(before: number): Comment[] {
+    const taken: Comment[] = [];
+    while (this.nextComment < this.comments.length && this.comments[this.nextComment].span.start.offset < before) {
+      taken.push(this.comments[this.nextComment++]);
+    }
+    return taken;
+  }
+
+  /**
+   * Comments after a node on its last line, up to the next node
+   */
+  private takeTrailing(line: number, before: number): Comment[] {
+    const taken: Comment[] = [];
+    for (;;) {
+      const comment = this.comments[this.nextComment];
+      if (!comment || comment.span.start.line !== line || comment.span.start.offset >= before) return taken;
+      taken.push(comment);
+      this.nextComment++;
+    }
+  }
+
+  private pushComments(lines: string[], indent: string, before: number): void {
+    for (const comment of this.takeComments(before)) {
+      if (lines.length > 0 && comment.span.start.line > this.lastLine + 1) lines.push('');
+      lines.push(indent + comment.text.trimEnd());
+      this.lastLine = comment.span.end.line;
+    }
+  }
+
+  private trailingText(comments: Comment[]): string {
+    return comments.map(comment => ` ${comment.text.trimEnd()}`).join('');
+  }
+
+  // Source helpers
+
+  private indent(depth: number): string {
+    return this.options.indent.repeat(depth);
+  }
+
+  private sourceText(node: AstNode): string {
+    return this.source.slice(node.span.start.offset, node.span.end.offset);
+  }
+
+  /**
+   * The first `value` token at or after `from`
+   */
+  private findToken(value: string, from: number): Token | undefined {
+    return this.tokens.find(candidate => candidate.span.start.offset >= from && candidate.value === value);
+  }
+
+  /**
+   * Offset of the bracket that closes a list ending with `last`
+   */
+  private closingOffset(close: string, last: AstNode): number {
+    return this.findToken(close, last.span.end.offset)?.span.start.offset ?? this.source.length;
+  }
+}
\ No newline at end of file
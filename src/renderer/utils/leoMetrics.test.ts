@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { parseLeo } from '../parser';
+import { computeMetrics } from './leoMetrics';
+
+const metricsOf = (source: string) => computeMetrics(parseLeo(source).ast, source);
+
+const PICK = `program t.aleo {
+    // Picks the larger value
+    function pick(a: u8, b: u8) -> u8 {
+        if a > b && a > 1u8 {
+            return a;
+        }
+        return b > 2u8 ? b : a;
+    }
+}`;
+
+describe('computeMetrics', () => {
+  it('counts code and comment lines of the file', () => {
+    expect(metricsOf(PICK)).toMatchObject({ linesOfCode: 8, commentLines: 1 });
+  });
+
+  it('counts each branch of a function in its cyclomatic complexity', () => {
+    // 1 + the if + the && + the ternary
+    expect(metricsOf(PICK).functions).toEqual([expect.objectContaining({
+      name: 'pick',
+      variant: 'function',
+      line: 3,
+      linesOfCode: 6,
+      cyclomaticComplexity: 4,
+      nestingDepth: 1
+    })]);
+  });
+
+  it('computes the maintainability index from Halstead volume, complexity and lines', () => {
+    // 36 tokens over 14 distinct operators (keywords and symbols) and 6 distinct operands:
+    // volume = 36 * log2(20) = 155.59, and
+    // (171 - 5.2 * ln(155.59) - 0.23 * 4 - 16.2 * ln(6)) * 100 / 171 = 67.1
+    expect(metricsOf(PICK).functions[0].maintainabilityIndex).toBe(67);
+  });
+
+  it('multiplies the costs inside loops by their iterations', () => {
+    const { functions } = metricsOf(`program t.aleo {
+    const ROUNDS: u8 = 3u8;
+
+    transition mix(a: field) -> field {
+        let h: field = a;
+        for i: u8 in 0u8..ROUNDS {
+            for j: u8 in 0u8..2u8 {
+                h = BHP256::hash_to_field(h);
+            }
+        }
+        return h;
+    }
+}`);
+
+    expect(functions[0]).toMatchObject({ cyclomaticComplexity: 3, nestingDepth: 2, loopIterations: 3 + 3 * 2, hashes: 6 });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { CodeMetrics, FunctionMetrics } from '../types';
+import { AstNode, Expression, ForStatement, FunctionDeclaration, SourceFile, Token, getChildren, tokenize, walk } from '../parser';
+import { CORE_FUNCTIONS, KEYWORDS } from './leoBuiltins';
+
+// Modules whose calls hash or commit, e.g. `BHP256::hash_to_field`
+const HASH_MODULES = new Set(
+  Object.keys(CORE_FUNCTIONS).filter(module => CORE_FUNCTIONS[module].some(fn => fn.name.startsWith('hash_to_')))
+);
+
+/**
+ * Size, complexity and proving-cost metrics for a parsed Leo file
+ */
+export function computeMetrics(ast: SourceFile, source: string): CodeMetrics {
+  const tokens = tokenize(source).tokens.filter(token => token.kind !== 'eof');
+  const codeLines = linesOf(tokens);
+  const commentLines = new Set<number>();
+  for (const comment of ast.comments) {
+    for (let line = comment.span.start.line; line <= comment.span.end.line; line++) {
+      if (!codeLines.has(line)) commentLines.add(line);
+    }
+  }
+
+  const consts = findIntegerConsts(ast);
+  const functions = (ast.program?.items || [])
+    .filter((item): item is FunctionDeclaration => item.kind === 'FunctionDeclaration')
+    .map(fn => functionMetrics(fn, tokens, consts));
+
+  return { linesOfCode: codeLines.size, commentLines: commentLines.size, functions };
+}
+
+/**
+ * 1 + the number of branches: if/else if, loops, ternaries and short-circuit operators
+ */
+function cyclomaticComplexity(fn: FunctionDeclaration): number {
+  let complexity = 1;
+  walk(fn.body, node => {
+    if (node.kind === 'IfStatement' || node.kind === 'ForStatement' || node.kind === 'TernaryExpression') {
+      complexity++;
+    } else if (node.kind === 'BinaryExpression' && (node.operator === '&&' || node.operator === '||')) {
+      complexity++;
+    }
+  });
+  return complexity;
+}
+
+/**
+ * The classic maintainability index (Halstead volume, cyclomatic complexity and
+ * lines of code), rescaled to 0-100
+ */
+function maintainabilityIndex(tokens: Token[], complexity: number, linesOfCode: number): number {
+  const isOperator = (token: Token) => token.kind === 'symbol' || KEYWORDS.includes(token.value);
+  const operators = new Set(tokens.filter(isOperator).map(token => token.value));
+  const operands = new Set(tokens.filter(token => !isOperator(token)).map(token => token.value));
+  const vocabulary = operators.size + operands.size;
+  const volume = vocabulary > 1 ? tokens.length * Math.log2(vocabulary) : 0;
+
+  const index = 171 - 5.2 * Math.log(Math.max(1, volume)) - 0.23 * complexity - 16.2 * Math.log(Math.max(1, linesOfCode));
+  return Math.round(Math.min(100, Math.max(0, (index * 100) / 171)));
+}
+
+function functionMetrics(fn: FunctionDeclaration, fileTokens: Token[], consts: Map<string, number>): FunctionMetrics {
+  const tokens = fileTokens.filter(
+    token => token.span.start.offset >= fn.span.start.offset && token.span.end.offset <= fn.span.end.offset
+  );
+  const linesOfCode = linesOf(tokens).size;
+  const complexity = cyclomaticComplexity(fn);
+
+  const metrics: FunctionMetrics = {
+    name: fn.name.name,
+    variant: fn.variant,
+    line: fn.span.start.line,
+    linesOfCode,
+    cyclomaticComplexity: complexity,
+    nestingDepth: 0,
+    maintainabilityIndex: maintainabilityIndex(tokens, complexity, linesOfCode),
+    hashes: 0,
+    signatureChecks: 0,
+    loopIterations: 0
+  };
+
+  // `repeat` is how many times the node runs once loops are unrolled
+  const visit = (node: AstNode, depth: number, repeat: number) => {
+    switch (node.kind) {
+      case 'IfStatement':
+        metrics.nestingDepth = Math.max(metrics.nestingDepth, depth + 1);
+        visit(node.condition, depth, repeat);
+        visit(node.consequent, depth + 1, repeat);
+        // `else if` continues the chain rather than nesting
+        if (node.alternate) visit(node.alternate, node.alternate.kind === 'IfStatement' ? depth : depth + 1, repeat);
+        return;
+
+      case 'ForStatement': {
+        const iterations = loopIterations(node, consts);
+        metrics.nestingDepth = Math.max(metrics.nestingDepth, depth + 1);
+        metrics.loopIterations += iterations * repeat;
+        visit(node.start, depth, repeat);
+        visit(node.end, depth, repeat);
+        visit(node.body, depth + 1, repeat * iterations);
+        return;
+      }
+
+      case 'AsyncBlockExpression':
+        metrics.nestingDepth = Math.max(metrics.nestingDepth, depth + 1);
+        visit(node.body, depth + 1, repeat);
+        return;
+
+      case 'CallExpression': {
+        const { callee } = node;
+        if (callee.kind === 'PathExpression' && HASH_MODULES.has(callee.segments[0]?.name)) {
+          metrics.hashes += repeat;
+        } else if (
+          (callee.kind === 'PathExpression' && callee.segments[0]?.name === 'signature') ||
+          (callee.kind === 'MemberExpression' && callee.property.name === 'verify')
+        ) {
+          metrics.signatureChecks += repeat;
+        }
+        break;
+      }
+    }
+
+    for (const child of getChildren(node)) {
+      visit(child, depth, repeat);
+    }
+  };
+  visit(fn.body, 0, 1);
+
+  return metrics;
+}
+
+/**
+ * How many times a loop body is unrolled. Bounds that are not integer
+ * literals or constants are counted as a single iteration.
+ */
+function loopIterations(loop: ForStatement, consts: Map<string, number>): number {
+  const start = integerValue(loop.start, consts);
+  const end = integerValue(loop.end, consts);
+  return start !== undefined && end !== undefined ? Math.max(0, end - start) : 1;
+}
+
+function integerValue(expression: Expression, consts: Map<string, number>): number | undefined {
+  if (expression.kind === 'Literal' && expression.type === 'integer') {
+    return Number(expression.value.replace(/_/g, ''));
+  }
+  if (expression.kind === 'Identifier') {
+    return consts.get(expression.name);
+  }
+  return undefined;
+}
+
+function findIntegerConsts(ast: SourceFile): Map<string, number> {
+  const consts = new Map<string, number>();
+  for (const item of ast.program?.items || []) {
+    if (item.kind === 'ConstDeclaration') {
+      const value = integerValue(item.value, consts);
+      if (value !== undefined) consts.set(item.name.name, value);
+    }
+  }
+  return consts;
+}
+
+function linesOf(tokens: Token[]): Set<number> {
+  return new Set(tokens.map(token => token.span.start.line));
+}
\ No newline at end of file
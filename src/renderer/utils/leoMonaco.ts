@@ -0,0 +1,371 @@
+import type * as monacoApi from 'monaco-editor';
+import LeoLanguageService, { LeoDocument, LeoOutlineItem, LeoOutlineKind, LeoSymbolKind } from '../services/LeoLanguageService';
+import CodeActionService from '../services/CodeActionService';
+import CodeHistoryService from '../services/CodeHistoryService';
+import { Diagnostic } from '../services/DiagnosticsService';
+import { Span } from '../parser';
+import { loadLintConfig } from '../lint';
+import { FormatOptions, formatLeo } from './leoFormatter';
+import { LeoFile, LeoProject } from '../types';
+
+// Monaco providers for Leo, backed by LeoLanguageService. Providers are global
+// to Monaco, so the editor publishes what it is showing through updateLeoEditorContext.
+
+type Monaco = typeof monacoApi;
+
+export interface LeoEditorContext {
+  project?: LeoProject;
+  file: LeoFile | null;
+  openFile?: (file: LeoFile, line: number, column: number) => void;
+}
+
+const URI_SCHEME = 'leoforge';
+const MARKER_OWNER = 'leoforge';
+const RECORD_QUICK_FIX_COMMAND = 'leoforge.recordQuickFix';
+
+const MARKER_SOURCES: Record<Diagnostic['source'], string> = {
+  analysis: 'analysis',
+  compiler: 'leo build',
+  config: 'lint config'
+};
+
+let context: LeoEditorContext = { file: null };
+let registered = false;
+
+export function updateLeoEditorContext(next: LeoEditorContext): void {
+  context = next;
+}
+
+const COMPLETION_KINDS: Record<LeoSymbolKind, keyof typeof monacoApi.languages.CompletionItemKind> = {
+  program: 'Module',
+  struct: 'Struct',
+  record: 'Struct',
+  field: 'Field',
+  mapping: 'Variable',
+  function: 'Function',
+  const: 'Constant',
+  variable: 'Variable',
+  parameter: 'Variable',
+  type: 'TypeParameter',
+  keyword: 'Keyword',
+  method: 'Method',
+  module: 'Module'
+};
+
+const SYMBOL_KINDS: Record<LeoOutlineKind, keyof typeof monacoApi.languages.SymbolKind> = {
+  program: 'Module',
+  struct: 'Struct',
+  record: 'Struct',
+  mapping: 'Variable',
+  const: 'Constant',
+  transition: 'Function',
+  function: 'Function',
+  inline: 'Function',
+  finalize: 'Event',
+  script: 'Function'
+};
+
+function getDocument(model: monacoApi.editor.ITextModel): LeoDocument | null {
+  // Models opened for definitions in other files carry the file id in their URI
+  const file = model.uri.scheme === URI_SCHEME
+    ? context.project?.files.find(f => f.id === model.uri.path.replace(/^\//, ''))
+    : context.file;
+  if (!file || file.type !== 'leo') return null;
+  return { project: context.project, file, content: model.getValue() };
+}
+
+function toRange(monaco: Monaco, span: Span): monacoApi.Range {
+  return new monaco.Range(span.start.line, span.start.column, span.end.line, span.end.column);
+}
+
+/**
+ * Register completion, hover, signature help, definition, quick fix, symbol
+ * and formatting providers for the `leo` language. Safe to call on every editor mount.
+ */
+export function registerLeoProviders(monaco: Monaco): void {
+  if (registered) return;
+  registered = true;
+
+  monaco.languages.registerCompletionItemProvider('leo', {
+    triggerCharacters: ['.', ':', '/'],
+    provideCompletionItems: (model: monacoApi.editor.ITextModel, position: monacoApi.Position) => {
+      const document = getDocument(model);
+      if (!document) return { suggestions: [] };
+
+      const word = model.getWordUntilPosition(position);
+      const range = new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn);
+      const symbols = LeoLanguageService.getCompletions(document, model.getOffsetAt(position));
+
+      return {
+        suggestions: symbols.map((symbol, index) => ({
+          label: symbol.name,
+          kind: monaco.languages.CompletionItemKind[COMPLETION_KINDS[symbol.kind]],
+          detail: symbol.detail,
+          documentation: symbol.documentation ? { value: symbol.documentation } : undefined,
+          insertText: symbol.name,
+          // Keep the service's order: scope first, then program items, then built-ins
+          sortText: String(index).padStart(4, '0'),
+          range
+        }))
+      };
+    }
+  });
+
+  monaco.languages.registerHoverProvider('leo', {
+    provideHover: (model: monacoApi.editor.ITextModel, position: monacoApi.Position) => {
+      const document = getDocument(model);
+      if (!document) return null;
+
+      const hover = LeoLanguageService.getHover(document, model.getOffsetAt(position));
+      return hover ? { range: toRange(monaco, hover.span), contents: [{ value: hover.markdown }] } : null;
+    }
+  });
+
+  monaco.languages.registerSignatureHelpProvider('leo', {
+    signatureHelpTriggerCharacters: ['(', ','],
+    provideSignatureHelp: (model: monacoApi.editor.ITextModel, position: monacoApi.Position) => {
+      const document = getDocument(model);
+      if (!document) return null;
+
+      const help = LeoLanguageService.getSignatureHelp(document, model.getOffsetAt(position));
+      if (!help) return null;
+
+      return {
+        value: {
+          signatures: [{
+            label: help.label,
+            documentation: help.documentation ? { value: help.documentation } : undefined,
+            parameters: help.parameters.map(parameter => ({ label: parameter }))
+          }],
+          activeSignature: 0,
+          activeParameter: help.activeParameter
+        },
+        dispose: () => {}
+      };
+    }
+  });
+
+  monaco.languages.registerDefinitionProvider('leo', {
+    provideDefinition: (model: monacoApi.editor.ITextModel, position: monacoApi.Position) => {
+      const document = getDocument(model);
+      if (!document) return null;
+
+      const definition = LeoLanguageService.getDefinition(document, model.getOffsetAt(position));
+      if (!definition) return null;
+      if (definition.fileId === document.file.id) {
+        return { uri: model.uri, range: toRange(monaco, definition.span) };
+      }
+
+      // Monaco can only peek into files it has a model for
+      const target = context.project?.files.find(f => f.id === definition.fileId);
+      if (!target) return null;
+      const uri = monaco.Uri.parse(`${URI_SCHEME}:/${target.id}`);
+      const targetModel = monaco.editor.getModel(uri) || monaco.editor.createModel(target.content, 'leo', uri);
+      if (targetModel.getValue() !== target.content) {
+        targetModel.setValue(target.content);
+      }
+      return { uri, range: toRange(monaco, definition.span) };
+    }
+  });
+
+  monaco.languages.registerCodeActionProvider('leo', {
+    provideCodeActions: (
+      model: monacoApi.editor.ITextModel,
+      range: monacoApi.Range,
+      actionContext: monacoApi.languages.CodeActionContext
+    ) => {
+      const document = getDocument(model);
+      if (!document) return { actions: [], dispose: () => {} };
+
+      const actions = CodeActionService.getCodeActions(
+        document.content,
+        document.file.name,
+        range.startLineNumber,
+        range.endLineNumber,
+        loadLintConfig(document.project?.files || []).config
+      );
+      const toPosition = (offset: number) => model.getPositionAt(offset);
+
+      return {
+        actions: actions.map(action => ({
+          title: action.title,
+          kind: 'quickfix',
+          isPreferred: action.isPreferred,
+          diagnostics: actionContext.markers.filter(marker =>
+            marker.code === action.rule && marker.startLineNumber === action.line
+          ),
+          edit: {
+            edits: action.edits.map(edit => {
+              const start = toPosition(edit.start);
+              const end = toPosition(edit.end);
+              return {
+                resource: model.uri,
+                versionId: model.getVersionId(),
+                textEdit: {
+                  range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+                  text: edit.text
+                }
+              };
+            })
+          },
+          // Runs after the edit is applied
+          command: {
+            id: RECORD_QUICK_FIX_COMMAND,
+            title: action.title,
+            arguments: [document.file, document.content, action.title]
+          }
+        })),
+        dispose: () => {}
+      };
+    }
+  }, { providedCodeActionKinds: ['quickfix'] });
+
+  monaco.editor.registerCommand(RECORD_QUICK_FIX_COMMAND, (_accessor: unknown, file: LeoFile, previousContent: string, title: string) => {
+    CodeHistoryService.addEntry({ ...file, content: previousContent }, `Quick fix: ${title}`);
+  });
+
+  // Feeds Monaco's own "Go to Symbol in Editor" (Ctrl+Shift+O)
+  monaco.languages.registerDocumentSymbolProvider('leo', {
+    provideDocumentSymbols: (model: monacoApi.editor.ITextModel) => {
+      const document = getDocument(model);
+      if (!document) return [];
+
+      const toSymbol = (item: LeoOutlineItem): monacoApi.languages.DocumentSymbol => ({
+        name: item.name,
+        detail: item.detail,
+        kind: monaco.languages.SymbolKind[SYMBOL_KINDS[item.kind]],
+        tags: [],
+        range: toRange(monaco, item.span),
+        selectionRange: toRange(monaco, item.nameSpan),
+        children: item.children.map(toSymbol)
+      });
+      return LeoLanguageService.getOutline(document.file.id, document.content).map(toSymbol);
+    }
+  });
+
+  monaco.languages.registerDocumentFormattingEditProvider('leo', {
+    provideDocumentFormattingEdits: (model: monacoApi.editor.ITextModel, options: monacoApi.languages.FormattingOptions) => {
+      const content = model.getValue();
+      const formatted = formatLeo(content, toFormatOptions(options));
+      if (formatted.error) {
+        console.warn(formatted.error);
+        return [];
+      }
+      return formatted.content === content ? [] : [{ range: model.getFullModelRange(), text: formatted.content }];
+    }
+  });
+
+  // Go-to-definition into another file switches the editor to that file
+  monaco.editor.registerEditorOpener({
+    openCodeEditor: (
+      _source: monacoApi.editor.ICodeEditor,
+      resource: monacoApi.Uri,
+      selectionOrPosition?: monacoApi.IRange | monacoApi.IPosition
+    ) => {
+      if (resource.scheme !== URI_SCHEME) return false;
+
+      const file = context.project?.files.find(f => f.id === resource.path.replace(/^\//, ''));
+      if (!file || !context.openFile) return false;
+
+      let line = 1;
+      let column = 1;
+      if (selectionOrPosition && 'startLineNumber' in selectionOrPosition) {
+        line = selectionOrPosition.startLineNumber;
+        column = selectionOrPosition.startColumn;
+      } else if (selectionOrPosition) {
+        line = selectionOrPosition.lineNumber;
+        column = selectionOrPosition.column;
+      }
+      context.openFile(file, line, column);
+      return true;
+    }
+  });
+}
+/**
+ * Format the editor's Leo source as one undoable edit, keeping the cursor
+ * where it was. Returns why the source could not be formatted, if it couldn't.
+ */
+export function formatLeoEditor(editor: monacoApi.editor.ICodeEditor): string | undefined {
+  const model = editor.getModel();
+  if (!model) return undefined;
+
+  const content = model.getValue();
+  const formatted = formatLeo(content, toFormatOptions(model.getOptions()));
+  if (formatted.error || formatted.content === content) return formatted.error;
+
+  const position = editor.getPosition();
+  editor.pushUndoStop();
+  editor.executeEdits('leoforge.format', [{ range: model.getFullModelRange(), text: formatted.content }]);
+  editor.pushUndoStop();
+  if (position) editor.setPosition(model.validatePosition(position));
+  return undefined;
+}
+
+function toFormatOptions(options: { tabSize: number; insertSpaces: boolean }): Partial<FormatOptions> {
+  return { indent: options.insertSpaces ? ' '.repeat(options.tabSize) : '\t' };
+}
+
+/**
+ * Show project diagnostics as squiggles and gutter marks: in the editor's model
+ * for the open file, and in any model opened for another file
+ */
+export function showLeoDiagnostics(
+  monaco: Monaco,
+  editorModel: monacoApi.editor.ITextModel | null,
+  fileId: string | undefined,
+  diagnostics: Diagnostic[]
+): void {
+  if (editorModel) {
+    setMarkers(monaco, editorModel, diagnostics.filter(diagnostic => fileId && diagnostic.fileId === fileId));
+  }
+  for (const model of monaco.editor.getModels()) {
+    if (model.uri.scheme !== URI_SCHEME) continue;
+    const modelFileId = model.uri.path.replace(/^\//, '');
+    setMarkers(monaco, model, diagnostics.filter(diagnostic => diagnostic.fileId === modelFileId));
+  }
+}
+
+/**
+ * Dispose the models opened for cross-file navigation whose files are no longer in the project
+ */
+export function disposeStaleLeoModels(monaco: Monaco, project: LeoProject | undefined): void {
+  for (const model of monaco.editor.getModels()) {
+    if (model.uri.scheme !== URI_SCHEME) continue;
+    const modelFileId = model.uri.path.replace(/^\//, '');
+    if (!project?.files.some(file => file.id === modelFileId)) {
+      model.dispose();
+    }
+  }
+}
+
+// Problems without a column underline the whole line
+function setMarkers(monaco: Monaco, model: monacoApi.editor.ITextModel, diagnostics: Diagnostic[]): void {
+  const lineCount = model.getLineCount();
+  const severities: Record<Diagnostic['severity'], monacoApi.MarkerSeverity> = {
+    error: monaco.MarkerSeverity.Error,
+    warning: monaco.MarkerSeverity.Warning,
+    info: monaco.MarkerSeverity.Info
+  };
+
+  const markers = diagnostics
+    .filter(diagnostic => diagnostic.line > 0)
+    .map(diagnostic => {
+      const line = Math.min(diagnostic.line, lineCount);
+      const lineEnd = model.getLineMaxColumn(line);
+      const startColumn = diagnostic.column ? Math.min(diagnostic.column, lineEnd) : model.getLineFirstNonWhitespaceColumn(line) || 1;
+      const word = diagnostic.column ? model.getWordAtPosition({ lineNumber: line, column: startColumn }) : null;
+
+      return {
+        severity: severities[diagnostic.severity],
+        message: diagnostic.message,
+        source: MARKER_SOURCES[diagnostic.source],
+        code: diagnostic.code,
+        startLineNumber: line,
+        startColumn: word ? word.startColumn : startColumn,
+        endLineNumber: line,
+        endColumn: word ? word.endColumn : lineEnd
+      };
+    });
+
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+}
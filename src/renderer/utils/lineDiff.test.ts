@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { applyHunks, countChanges, diffLines, groupIntoHunks, mergeLines } from './lineDiff';
+
+const numbered = (count: number, replace: Record<number, string> = {}) =>
+  Array.from({ length: count }, (_, i) => replace[i + 1] ?? `line ${i + 1}`).join('\n');
+
+describe('diffLines', () => {
+  it('marks changed lines with their old and new line numbers', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'unchanged', content: 'a', oldLine: 1, newLine: 1 },
+      { type: 'removed', content: 'b', oldLine: 2 },
+      { type: 'added', content: 'B', newLine: 2 },
+      { type: 'unchanged', content: 'c', oldLine: 3, newLine: 3 },
+      { type: 'added', content: 'd', newLine: 4 }
+    ]);
+  });
+
+  it('treats CRLF and LF line endings alike', () => {
+    expect(countChanges(diffLines('a\r\nb\r\n', 'a\nb\n'))).toEqual({ added: 0, removed: 0 });
+  });
+
+  it('diffs from and to an empty text', () => {
+    expect(diffLines('', 'a\nb').map(line => line.type)).toEqual(['added', 'added']);
+    expect(diffLines('a', '')).toEqual([{ type: 'removed', content: 'a', oldLine: 1 }]);
+  });
+});
+
+describe('groupIntoHunks', () => {
+  const lines = diffLines(numbered(10), numbered(10, { 2: 'second', 9: 'ninth' }));
+
+  it('splits distant changes into hunks with context around each', () => {
+    const hunks = groupIntoHunks(lines, 1);
+
+    expect(hunks).toMatchObject([
+      { oldStart: 1, oldLines: 3, newStart: 1, newLines: 3 },
+      { oldStart: 8, oldLines: 3, newStart: 8, newLines: 3 }
+    ]);
+    expect(hunks[1].lines.map(line => line.content)).toEqual(['line 8', 'line 9', 'ninth', 'line 10']);
+  });
+
+  it('merges changes whose context overlaps', () => {
+    expect(groupIntoHunks(lines)).toHaveLength(1);
+  });
+});
+
+describe('applyHunks', () => {
+  const oldText = numbered(10);
+  const newText = numbered(10, { 2: 'second', 9: 'ninth' });
+  const lines = diffLines(oldText, newText);
+  const hunks = groupIntoHunks(lines, 1);
+
+  it('applies only the accepted hunks', () => {
+    expect(applyHunks(lines, hunks, new Set([1]))).toBe(numbered(10, { 9: 'ninth' }));
+  });
+
+  it('gives back either text when none or all hunks are accepted', () => {
+    expect(applyHunks(lines, hunks, new Set())).toBe(oldText);
+    expect(applyHunks(lines, hunks, new Set([0, 1]))).toBe(newText);
+  });
+});
+
+describe('countChanges', () => {
+  it('counts added and removed lines', () => {
+    expect(countChanges(diffLines('a\nb\nc', 'a\nc\nd\ne'))).toEqual({ added: 2, removed: 1 });
+  });
+});
+
+describe('mergeLines', () => {
+  const base = 'a\nb\nc\nd\ne';
+
+  it('merges changes to separate parts of the text', () => {
+    expect(mergeLines(base, 'a\nB\nc\nd\ne', 'a\nb\nc\nD\ne\nf')).toEqual([
+      { kind: 'clean', lines: ['a', 'B', 'c', 'D', 'e', 'f'] }
+    ]);
+  });
+
+  it('takes a change made the same way on both sides once', () => {
+    expect(mergeLines(base, 'a\nb\nC\nd\ne', 'a\nb\nC\nd\ne')).toEqual([
+      { kind: 'clean', lines: ['a', 'b', 'C', 'd', 'e'] }
+    ]);
+  });
+
+  it('reports differing changes to the same lines as a conflict', () => {
+    expect(mergeLines(base, 'a\nb\nours\nd\ne', 'a\nb\ntheirs\nd\ne')).toEqual([
+      { kind: 'clean', lines: ['a', 'b'] },
+      { kind: 'conflict', base: ['c'], ours: ['ours'], theirs: ['theirs'] },
+      { kind: 'clean', lines: ['d', 'e'] }
+    ]);
+  });
+
+  it('reports changes to neighbouring lines as one conflict', () => {
+    expect(mergeLines(base, 'a\nB\nc\nd\ne', 'a\nb\nC\nd\ne')).toEqual([
+      { kind: 'clean', lines: ['a'] },
+      { kind: 'conflict', base: ['b', 'c'], ours: ['B', 'c'], theirs: ['b', 'C'] },
+      { kind: 'clean', lines: ['d', 'e'] }
+    ]);
+  });
+});
\ No newline at end of file
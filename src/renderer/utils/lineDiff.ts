@@ -0,0 +1,305 @@
+export type DiffLineType = 'unchanged' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLine?: number; // 1-based, absent for added lines
+  newLine?: number; // 1-based, absent for removed lines
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+// Above this many cells the LCS table gets too large; fall back to a replace-all diff
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-based diff (longest common subsequence after trimming the shared prefix and suffix)
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'unchanged', content: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  for (const line of diffMiddle(oldMiddle, newMiddle)) {
+    result.push({
+      ...line,
+      oldLine: line.oldLine !== undefined ? line.oldLine + prefix : undefined,
+      newLine: line.newLine !== undefined ? line.newLine + prefix : undefined
+    });
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    const oldIndex = oldLines.length - suffix + i;
+    const newIndex = newLines.length - suffix + i;
+    result.push({ type: 'unchanged', content: oldLines[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+  }
+
+  return result;
+}
+
+/**
+ * Group a diff into hunks with `context` unchanged lines around each change
+ */
+export function groupIntoHunks(lines: DiffLine[], context: number = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] = [];
+  let trailingUnchanged = 0;
+
+  lines.forEach((line, index) => {
+    if (line.type !== 'unchanged') {
+      if (current.length === 0) {
+        current = lines.slice(Math.max(0, index - context), index);
+      }
+      current.push(line);
+      trailingUnchanged = 0;
+      return;
+    }
+
+    if (current.length === 0) return;
+
+    if (trailingUnchanged < context * 2) {
+      current.push(line);
+      trailingUnchanged++;
+      return;
+    }
+
+    hunks.push(toHunk(current.slice(0, current.length - (trailingUnchanged - context))));
+    current = [];
+    trailingUnchanged = 0;
+  });
+
+  if (current.length > 0) {
+    hunks.push(toHunk(current.slice(0, current.length - Math.max(0, trailingUnchanged - context))));
+  }
+
+  return hunks;
+}
+
+export function countChanges(lines: DiffLine[]): { added: number; removed: number } {
+  return lines.reduce(
+    (counts, line) => {
+      if (line.type === 'added') counts.added++;
+      if (line.type === 'removed') counts.removed++;
+      return counts;
+    },
+    { added: 0, removed: 0 }
+  );
+}
+
+/**
+ * The old text with only the accepted hunks (by index) of the diff applied
+ */
+export function applyHunks(lines: DiffLine[], hunks: DiffHunk[], accepted: Set<number>): string {
+  const hunkOf = new Map<DiffLine, number>();
+  hunks.forEach((hunk, index) => hunk.lines.forEach(line => hunkOf.set(line, index)));
+
+  const result: string[] = [];
+  for (const line of lines) {
+    const isAccepted = accepted.has(hunkOf.get(line) ?? -1);
+    if (line.type === 'unchanged' || (line.type === 'removed' && !isAccepted) || (line.type === 'added' && isAccepted)) {
+      result.push(line.content);
+    }
+  }
+  return result.join('\n');
+}
+
+export type MergeChunk =
+  | { kind: 'clean'; lines: string[] }
+  | { kind: 'conflict'; base: string[]; ours: string[]; theirs: string[] };
+
+/**
+ * Three-way line merge of two texts that both started from `base`. Changes
+ * that overlap or touch and differ become conflicts.
+ */
+export function mergeLines(base: string, ours: string, theirs: string): MergeChunk[] {
+  const baseLines = splitLines(base);
+  const oursChanges = toLineChanges(diffLines(base, ours));
+  const theirsChanges = toLineChanges(diffLines(base, theirs));
+
+  const chunks: MergeChunk[] = [];
+  const pushClean = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.kind === 'clean') {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ kind: 'clean', lines: [...lines] });
+    }
+  };
+
+  let position = 0;
+  let i = 0;
+  let j = 0;
+  while (i < oursChanges.length || j < theirsChanges.length) {
+    const start = Math.min(oursChanges[i]?.baseStart ?? Infinity, theirsChanges[j]?.baseStart ?? Infinity);
+    pushClean(baseLines.slice(position, start));
+
+    // Gather every change, from either side, that overlaps or touches the region
+    const groupOurs: LineChange[] = [];
+    const groupTheirs: LineChange[] = [];
+    let end = start;
+    for (;;) {
+      if (i < oursChanges.length && oursChanges[i].baseStart <= end) {
+        end = Math.max(end, oursChanges[i].baseEnd);
+        groupOurs.push(oursChanges[i++]);
+      } else if (j < theirsChanges.length && theirsChanges[j].baseStart <= end) {
+        end = Math.max(end, theirsChanges[j].baseEnd);
+        groupTheirs.push(theirsChanges[j++]);
+      } else {
+        break;
+      }
+    }
+
+    const oursVersion = applyLineChanges(baseLines, start, end, groupOurs);
+    const theirsVersion = applyLineChanges(baseLines, start, end, groupTheirs);
+    if (groupTheirs.length === 0) {
+      pushClean(oursVersion);
+    } else if (groupOurs.length === 0 || oursVersion.join('\n') === theirsVersion.join('\n')) {
+      pushClean(theirsVersion);
+    } else {
+      chunks.push({ kind: 'conflict', base: baseLines.slice(start, end), ours: oursVersion, theirs: theirsVersion });
+    }
+    position = end;
+  }
+  pushClean(baseLines.slice(position));
+
+  return chunks;
+}
+
+// Private helpers
+
+// Lines base[baseStart, baseEnd) replaced by `lines`
+interface LineChange {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+function toLineChanges(diff: DiffLine[]): LineChange[] {
+  const changes: LineChange[] = [];
+  let baseIndex = 0;
+  let current: LineChange | null = null;
+
+  for (const line of diff) {
+    if (line.type === 'unchanged') {
+      current = null;
+      baseIndex++;
+      continue;
+    }
+    if (!current) {
+      current = { baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+      changes.push(current);
+    }
+    if (line.type === 'removed') {
+      baseIndex++;
+      current.baseEnd = baseIndex;
+    } else {
+      current.lines.push(line.content);
+    }
+  }
+  return changes;
+}
+
+function applyLineChanges(baseLines: string[], start: number, end: number, changes: LineChange[]): string[] {
+  const result: string[] = [];
+  let index = start;
+  for (const change of changes) {
+    result.push(...baseLines.slice(index, change.baseStart), ...change.lines);
+    index = change.baseEnd;
+  }
+  result.push(...baseLines.slice(index, end));
+  return result;
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  return text.replace(/\r\n/g, '\n').split('\n');
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  if (oldLines.length * newLines.length > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map((content, i): DiffLine => ({ type: 'removed', content, oldLine: i + 1 })),
+      ...newLines.map((content, i): DiffLine => ({ type: 'added', content, newLine: i + 1 }))
+    ];
+  }
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const rows = oldLines.length + 1;
+  const cols = newLines.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = oldLines[i] === newLines[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', content: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      result.push({ type: 'removed', content: oldLines[i], oldLine: i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', content: newLines[j], newLine: j + 1 });
+      j++;
+    }
+  }
+  while (i < oldLines.length) {
+    result.push({ type: 'removed', content: oldLines[i], oldLine: i + 1 });
+    i++;
+  }
+  while (j < newLines.length) {
+    result.push({ type: 'added', content: newLines[j], newLine: j + 1 });
+    j++;
+  }
+
+  return result;
+}
+
+function toHunk(lines: DiffLine[]): DiffHunk {
+  const firstOld = lines.find(line => line.oldLine !== undefined)?.oldLine;
+  const firstNew = lines.find(line => line.newLine !== undefined)?.newLine;
+
+  return {
+    oldStart: firstOld ?? 0,
+    oldLines: lines.filter(line => line.type !== 'added').length,
+    newStart: firstNew ?? 0,
+    newLines: lines.filter(line => line.type !== 'removed').length,
+    lines
+  };
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { LeoFile, LeoProject } from '../types';
+
+/**
+ * Project and file builders shared by the tests
+ */
+
+export const makeFile = (id: string, path: string, content: string, isModified: boolean = false): LeoFile => {
+  const extension = path.split('.').pop();
+  return {
+    id,
+    name: path.split('/').pop() || path,
+    path,
+    content,
+    type: extension === 'md' || extension === 'json' || extension === 'in' ? extension : 'leo',
+    isModified
+  };
+};
+
+export const makeProject = (files: LeoFile[], overrides: Partial<LeoProject> = {}): LeoProject => ({
+  id: 'project_1',
+  name: 'token',
+  description: '',
+  files,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  chatHistory: [],
+  ...overrides
+});
\ No newline at end of file